@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { BookSearch, type ChapterSearchResult } from "./BookSearch";
+import { buildOpf, buildXhtml, createMemoryEpub } from "./testUtils";
+import { extractText, positionAtTextOffset } from "./utils/textOffsets";
+
+async function book() {
+  return createMemoryEpub({
+    "OEBPS/content.opf": buildOpf({
+      manifest: `
+        <item id="ch1" href="ch1.xhtml" media-type="application/xhtml+xml"/>
+        <item id="notes" href="notes.xhtml" media-type="application/xhtml+xml"/>
+        <item id="ch2" href="ch2.xhtml" media-type="application/xhtml+xml"/>`,
+      spine: `<itemref idref="ch1"/><itemref idref="notes" linear="no"/><itemref idref="ch2"/>`,
+    }),
+    "OEBPS/ch1.xhtml": buildXhtml(
+      `<h1>The Whale</h1><p>Call me <em>Ishmael</em>.</p><p>Whales and
+      whaling, the whale.</p>`,
+    ),
+    "OEBPS/notes.xhtml": buildXhtml("<p>A whale in the notes</p>"),
+    "OEBPS/ch2.xhtml": buildXhtml("<p>No​thing here</p><p>whale</p>"),
+  });
+}
+
+async function collect(
+  results: AsyncIterable<ChapterSearchResult>,
+): Promise<ChapterSearchResult[]> {
+  const all: ChapterSearchResult[] = [];
+  for await (const result of results) all.push(result);
+  return all;
+}
+
+describe("extractText", () => {
+  it("separates blocks and skips the head", async () => {
+    const epub = await book();
+    const chapter = await epub.getChapter("/OEBPS/ch1.xhtml");
+    const text = extractText(chapter?.dom.querySelector("body") as Node);
+    expect(text.replace(/\s+/g, " ").trim()).toBe(
+      "The Whale Call me Ishmael. Whales and whaling, the whale.",
+    );
+  });
+});
+
+describe("BookSearch", () => {
+  it("finds hits case-insensitively across linear chapters", async () => {
+    const search = new BookSearch(await book());
+    const results = await collect(search.search("whale"));
+
+    expect(results.map((r) => r.path)).toEqual([
+      "/OEBPS/ch1.xhtml",
+      "/OEBPS/ch2.xhtml",
+    ]);
+    expect(results[0]?.hits.map((h) => h.match)).toEqual([
+      "Whale",
+      "Whale",
+      "whale",
+    ]);
+    expect(results[0]?.hits.map((h) => h.index)).toEqual([0, 1, 2]);
+  });
+
+  it("matches case and whole words on request", async () => {
+    const search = new BookSearch(await book());
+
+    const cased = await collect(search.search("Whale", { matchCase: true }));
+    expect(cased.flatMap((r) => r.hits).map((h) => h.match)).toEqual([
+      "Whale",
+      "Whale",
+    ]);
+
+    const words = await collect(search.search("whale", { wholeWord: true }));
+    expect(words.flatMap((r) => r.hits.map((h) => h.after))).toEqual([
+      " Call me Ishmael. Whales and whaling, th",
+      ". ",
+      " ",
+    ]);
+  });
+
+  it("reports text offsets that locate the match in the chapter", async () => {
+    const epub = await book();
+    const search = new BookSearch(epub);
+    const [result] = await collect(search.search("me  Ishmael"));
+    const hit = result?.hits[0];
+    expect(hit?.match).toBe("me Ishmael");
+    expect(hit?.before).toBe("The Whale Call ");
+
+    const chapter = await epub.getChapter("/OEBPS/ch1.xhtml");
+    const body = chapter?.dom.querySelector("body") as Node;
+    const start = positionAtTextOffset(body, hit?.startOffset ?? -1);
+    const last = positionAtTextOffset(body, (hit?.endOffset ?? 0) - 1);
+    expect(start?.node.textContent?.slice(start.offset)).toBe("me ");
+    expect(last?.node.textContent?.[last.offset]).toBe("l");
+  });
+
+  it("ignores zero-width spaces and blank queries", async () => {
+    const search = new BookSearch(await book());
+    const [result] = await collect(search.search("nothing"));
+    expect(result?.path).toBe("/OEBPS/ch2.xhtml");
+    expect(await collect(search.search("  "))).toEqual([]);
+  });
+
+  it("shares the chapter index between concurrent searches", async () => {
+    const epub = await book();
+    let reads = 0;
+    const chapters = epub.chapters.bind(epub);
+    epub.chapters = async function* (linearOnly) {
+      for await (const chapter of chapters(linearOnly)) {
+        reads++;
+        yield chapter;
+      }
+    };
+
+    const search = new BookSearch(epub);
+    await Promise.all([
+      collect(search.search("whale")),
+      collect(search.search("ishmael")),
+    ]);
+    await collect(search.search("call"));
+    expect(reads).toBe(2);
+  });
+
+  it("retries chapters that failed to read on the next search", async () => {
+    const epub = await book();
+    const getChapter = epub.getChapter.bind(epub);
+    let failures = 1;
+    epub.getChapter = async (path) => {
+      if (path === "/OEBPS/ch2.xhtml" && failures-- > 0) {
+        throw new Error("read failed");
+      }
+      return getChapter(path);
+    };
+
+    const search = new BookSearch(epub);
+    await expect(collect(search.search("whale"))).rejects.toThrow(
+      "read failed",
+    );
+    const results = await collect(search.search("whale"));
+    expect(results.map((r) => r.path)).toEqual([
+      "/OEBPS/ch1.xhtml",
+      "/OEBPS/ch2.xhtml",
+    ]);
+  });
+});
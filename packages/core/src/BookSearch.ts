@@ -0,0 +1,185 @@
+import type { DOMFile } from "./DOMFile";
+import type { EPub } from "./Epub";
+import { extractText } from "./utils/textOffsets";
+
+export interface SearchOptions {
+  /** Match letter case exactly (default: case-insensitive) */
+  matchCase?: boolean;
+  /** Only match whole words (default: false) */
+  wholeWord?: boolean;
+  /** Characters of context kept on each side of a hit (default: 40) */
+  contextLength?: number;
+}
+
+export interface SearchHit {
+  /** Absolute path of the chapter */
+  path: string;
+  /** Position of the hit among the chapter's hits */
+  index: number;
+  /**
+   * Text offsets of the match from the start of the chapter, as counted by
+   * `textOffsetOf`, so the match can be found in any rendering of it
+   */
+  startOffset: number;
+  endOffset: number;
+  /** Text around the match, with whitespace collapsed */
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface ChapterSearchResult {
+  path: string;
+  hits: SearchHit[];
+}
+
+interface ChapterText {
+  path: string;
+  /** Visible text with whitespace runs collapsed to single spaces */
+  text: string;
+}
+
+// Whitespace and zero-width spaces aren't counted by text offsets
+const WHITESPACE = /\s+/g;
+const ZERO_WIDTH_SPACE = /\u200B/g;
+// Letters, digits and underscores form words, in any script
+const WORD_CHAR = "[\\p{L}\\p{N}\\p{M}_]";
+
+function normalize(text: string): string {
+  return text.replace(ZERO_WIDTH_SPACE, "").replace(WHITESPACE, " ");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function chapterText(chapter: DOMFile): ChapterText {
+  const root = chapter.dom.querySelector("body") ?? chapter.dom;
+  return { path: chapter.path, text: normalize(extractText(root)) };
+}
+
+/**
+ * Full-text search across the spine chapters of a book.
+ *
+ * Chapter text is extracted through `EPub.chapters()` the first time a
+ * search reaches it and kept for later searches, so a search yields its
+ * first results before the whole book has been read.
+ */
+export class BookSearch {
+  private texts: ChapterText[] = [];
+  private source: AsyncGenerator<DOMFile> | null = null;
+  private reading: Promise<void> | null = null;
+  private complete = false;
+
+  constructor(private epub: EPub) {}
+
+  /**
+   * Find every occurrence of `query`, yielding the hits chapter by chapter in
+   * reading order. Chapters without hits are skipped.
+   */
+  async *search(
+    query: string,
+    options: SearchOptions = {},
+  ): AsyncGenerator<ChapterSearchResult> {
+    const pattern = this.compile(query, options);
+    if (!pattern) return;
+
+    for await (const chapter of this.indexedChapters()) {
+      const hits = this.findHits(chapter, pattern, options.contextLength ?? 40);
+      if (hits.length > 0) yield { path: chapter.path, hits };
+    }
+  }
+
+  private compile(query: string, options: SearchOptions): RegExp | null {
+    const normalized = normalize(query).trim();
+    if (!normalized) return null;
+
+    let source = escapeRegExp(normalized);
+    if (options.wholeWord) {
+      source = `(?<!${WORD_CHAR})${source}(?!${WORD_CHAR})`;
+    }
+    return new RegExp(source, options.matchCase ? "gu" : "giu");
+  }
+
+  private findHits(
+    chapter: ChapterText,
+    pattern: RegExp,
+    contextLength: number,
+  ): SearchHit[] {
+    const { text } = chapter;
+    const hits: SearchHit[] = [];
+    // Text offsets skip the spaces left in `text`; count them as hits are
+    // found in order
+    let scanned = 0;
+    let spaces = 0;
+    const offsetAt = (index: number) => {
+      for (; scanned < index; scanned++) {
+        if (text[scanned] === " ") spaces++;
+      }
+      return index - spaces;
+    };
+
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      hits.push({
+        path: chapter.path,
+        index: hits.length,
+        startOffset: offsetAt(start),
+        endOffset: offsetAt(end),
+        before: text.slice(Math.max(0, start - contextLength), start),
+        match: match[0],
+        after: text.slice(end, end + contextLength),
+      });
+    }
+    return hits;
+  }
+
+  /**
+   * Extracted chapters in reading order, reading more of the book as needed
+   */
+  private async *indexedChapters(): AsyncGenerator<ChapterText> {
+    let i = 0;
+    while (true) {
+      const chapter = this.texts[i];
+      if (chapter) {
+        yield chapter;
+        i++;
+      } else if (this.complete) {
+        return;
+      } else {
+        await this.readNext();
+      }
+    }
+  }
+
+  // Concurrent searches share the chapter being read
+  private readNext(): Promise<void> {
+    if (!this.reading) {
+      this.reading = (async () => {
+        try {
+          this.source ??= this.unreadChapters();
+          const next = await this.source.next();
+          if (next.done) this.complete = true;
+          else this.texts.push(chapterText(next.value));
+        } catch (error) {
+          // A failed read ends the generator; the next search starts a new
+          // one and retries the chapter
+          this.source = null;
+          throw error;
+        } finally {
+          this.reading = null;
+        }
+      })();
+    }
+    return this.reading;
+  }
+
+  private async *unreadChapters(): AsyncGenerator<DOMFile> {
+    let extracted = this.texts.length;
+    for await (const chapter of this.epub.chapters()) {
+      if (extracted > 0) extracted--;
+      else yield chapter;
+    }
+  }
+}
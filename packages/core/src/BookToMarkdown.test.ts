@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { EPub } from "./Epub";
+import { buildOpf, buildXhtml, createMemoryEpub, fetchEpub } from "./testUtils";
+
+function createLinkedBook() {
+  return createMemoryEpub({
+    "OEBPS/content.opf": buildOpf({
+      manifest: `
+        <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+        <item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+        <item id="img" href="images/fig 1.png" media-type="image/png"/>`,
+      spine: `<itemref idref="ch1"/><itemref idref="ch2"/>`,
+    }),
+    "OEBPS/text/ch1.xhtml": buildXhtml(`
+      <h1>First</h1>
+      <p>See <a href="ch2.xhtml#sec">the section</a> or <a href="ch2.xhtml">chapter two</a>.</p>
+      <p>Plate <img src="../images/fig%201.png" alt="Figure"/></p>`),
+    "OEBPS/text/ch2.xhtml": buildXhtml(`
+      <h1>Second</h1>
+      <h2 id="sec">Section</h2>
+      <p>Back to <a href="#sec">here</a> and <a href="ch1.xhtml">the start</a>.</p>`),
+    "OEBPS/images/fig 1.png": new Uint8Array([137, 80, 78, 71]),
+  });
+}
+
+describe("BookToMarkdown", () => {
+  it("rewrites cross-chapter links to in-document anchors", async () => {
+    const epub = await createLinkedBook();
+    const book = await epub.bookMarkdown();
+
+    expect(book.title).toBe("Test Book");
+    expect(book.files).toHaveLength(1);
+    const content = book.files[0]?.content ?? "";
+    expect(content).toContain('<a id="chapter-1"></a>');
+    expect(content).toContain('<a id="sec"></a>');
+    expect(content).toContain("[the section](#sec)");
+    expect(content).toContain("[chapter two](#chapter-2)");
+    expect(content).toContain("[the start](#chapter-1)");
+    expect(content).not.toContain("/OEBPS/");
+  });
+
+  it("rewrites cross-chapter links to relative files when split", async () => {
+    const epub = await createLinkedBook();
+    const book = await epub.bookMarkdown({ split: true });
+
+    expect(book.files.map((f) => f.name)).toEqual([
+      "index.md",
+      "001-ch1.md",
+      "002-ch2.md",
+    ]);
+    expect(book.files[1]?.content).toContain("[the section](002-ch2.md#sec)");
+    expect(book.files[2]?.content).toContain("[here](#sec)");
+    expect(book.files[2]?.content).toContain("[the start](001-ch1.md)");
+  });
+
+  it("collects images as assets with relative links", async () => {
+    const epub = await createLinkedBook();
+    const book = await epub.bookMarkdown({ imageDir: "assets" });
+
+    expect(book.assets).toEqual([
+      {
+        path: "/OEBPS/images/fig 1.png",
+        name: "assets/fig 1.png",
+        mediaType: "image/png",
+      },
+    ]);
+    expect(book.files[0]?.content).toContain("![Figure](assets/fig%201.png)");
+    expect(await epub.resolver.readRaw(book.assets[0]?.path ?? "")).toEqual(
+      new Uint8Array([137, 80, 78, 71]),
+    );
+  });
+
+  it("builds a front index from the table of contents", async () => {
+    const epub = await EPub.fromZip(await fetchEpub("alice.epub"));
+    const book = await epub.bookMarkdown();
+    const content = book.files[0]?.content ?? "";
+
+    expect(content.startsWith(`# ${book.title}\n\n## Contents\n\n- [`)).toBe(
+      true,
+    );
+    expect(content).toMatch(/- \[.*Down the Rabbit-Hole.*\]\(#[^)]+\)/);
+    expect(content).not.toMatch(/\]\(\/OEBPS\//);
+  });
+
+  it("omits the front index when toc is disabled", async () => {
+    const epub = await createLinkedBook();
+    const book = await epub.bookMarkdown({ toc: false });
+
+    expect(book.files[0]?.content).not.toContain("## Contents");
+  });
+
+  it("inlines notes with labels unique across chapters", async () => {
+    const epub = await createMemoryEpub({
+      "OEBPS/content.opf": buildOpf({
+        manifest: `
+          <item id="ch1" href="ch1.xhtml" media-type="application/xhtml+xml"/>
+          <item id="ch2" href="ch2.xhtml" media-type="application/xhtml+xml"/>
+          <item id="notes" href="notes.xhtml" media-type="application/xhtml+xml"/>`,
+        spine: `<itemref idref="ch1"/><itemref idref="ch2"/><itemref idref="notes" linear="no"/>`,
+      }),
+      "OEBPS/ch1.xhtml": buildXhtml(
+        `<p>One<a epub:type="noteref" href="notes.xhtml#n1">1</a></p>`,
+      ),
+      "OEBPS/ch2.xhtml": buildXhtml(
+        `<p>Two<a epub:type="noteref" href="notes.xhtml#n2">1</a></p>`,
+      ),
+      "OEBPS/notes.xhtml": buildXhtml(`
+        <aside epub:type="endnote" id="n1">First.</aside>
+        <aside epub:type="endnote" id="n2">Second, see <a href="ch1.xhtml">one</a>.</aside>`),
+    });
+    const book = await epub.bookMarkdown({ footnotes: true });
+    const content = book.files[0]?.content ?? "";
+
+    expect(content).toContain("One[^1-1]");
+    expect(content).toContain("Two[^2-1]");
+    expect(content).toContain("[^1-1]: First.");
+    expect(content).toContain("[^2-1]: Second, see [one](#chapter-1).");
+  });
+});
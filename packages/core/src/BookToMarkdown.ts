@@ -0,0 +1,287 @@
+import { posix as path } from "node:path";
+import { ContentToMarkdown, type ConversionPlugin } from "./ContentToMarkdown";
+import type { DOMFile } from "./DOMFile";
+import type { EPub } from "./Epub";
+import type { NavItem } from "./TableOfContents";
+import { safeDecode } from "./utils/safeDecode";
+
+export interface BookMarkdownOptions {
+  /** Emit one Markdown file per spine chapter instead of a single document */
+  split?: boolean;
+  /** Directory, relative to the output, that extracted images are written to */
+  imageDir?: string;
+  /** Prepend a front index built from the table of contents (default: true) */
+  toc?: boolean;
+  /** Inline referenced notes as Markdown footnotes in each chapter */
+  footnotes?: boolean;
+  /** Extra conversion plugins applied to every chapter */
+  plugins?: ConversionPlugin[];
+  /** Names of conversion plugins to skip */
+  disablePlugins?: string[];
+}
+
+export interface BookMarkdownFile {
+  /** Output file name, relative to the output directory */
+  name: string;
+  content: string;
+  /** Absolute EPUB path of the chapter; absent for the front index */
+  chapterPath?: string;
+}
+
+export interface BookMarkdownAsset {
+  /** Absolute EPUB path of the resource */
+  path: string;
+  /** Output file name, relative to the output directory */
+  name: string;
+  mediaType?: string;
+}
+
+export interface BookMarkdown {
+  title: string;
+  files: BookMarkdownFile[];
+  assets: BookMarkdownAsset[];
+}
+
+interface ChapterEntry {
+  chapter: DOMFile;
+  /** 1-based position among the converted chapters */
+  index: number;
+  /** Anchor placed at the start of the chapter in single-document mode */
+  anchor: string;
+  /** Output file name in split mode */
+  fileName: string;
+  /** Element ids that survived conversion as anchors */
+  ids: Set<string>;
+  markdown: string;
+}
+
+// Placeholder emitted for links during conversion; resolved once every
+// chapter's surviving anchors are known.
+const LINK_TOKEN_RE = /#epubdown-link-(\d+)\b/g;
+const ANCHOR_DIV_RE = /<div data-anchor-ids="([^"]*)">\u200B<\/div>/g;
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 50) || "chapter"
+  );
+}
+
+/**
+ * Converts every spine chapter of an EPUB into Markdown.
+ *
+ * Cross-chapter links (the EPUB-absolute hrefs produced by ContentToMarkdown)
+ * become in-document anchors when emitting a single document, or relative
+ * file links when splitting per chapter. Referenced images are collected as
+ * assets so callers can extract them next to the output.
+ */
+export class BookToMarkdown {
+  private readonly entries: ChapterEntry[] = [];
+  private readonly entriesByPath = new Map<string, ChapterEntry>();
+  private readonly assets = new Map<string, BookMarkdownAsset>();
+  private readonly assetNames = new Set<string>();
+  private readonly linkTargets: Array<{ href: string; from: ChapterEntry }> =
+    [];
+  private readonly idCounts = new Map<string, number>();
+
+  constructor(
+    private readonly epub: EPub,
+    private readonly options: BookMarkdownOptions = {},
+  ) {}
+
+  private get split(): boolean {
+    return !!this.options.split;
+  }
+
+  async convert(): Promise<BookMarkdown> {
+    // File names follow the publisher TOC only, so they don't change with
+    // heading text in books without one
+    const flatNav = await this.epub.toc.flatNavItems({ headings: false });
+    const labelByPath = new Map<string, string>();
+    for (const item of flatNav) {
+      const chapterPath = item.path.split("#")[0] ?? "";
+      if (!labelByPath.has(chapterPath)) {
+        labelByPath.set(chapterPath, item.label);
+      }
+    }
+
+    let index = 0;
+    for await (const chapter of this.epub.chapters()) {
+      index += 1;
+      const label =
+        labelByPath.get(chapter.path) ?? chapter.name.replace(/\..*$/, "");
+      const entry: ChapterEntry = {
+        chapter,
+        index,
+        anchor: `chapter-${index}`,
+        fileName: `${String(index).padStart(3, "0")}-${slugify(label)}.md`,
+        ids: new Set(),
+        markdown: "",
+      };
+      this.entries.push(entry);
+      this.entriesByPath.set(chapter.path, entry);
+    }
+
+    for (const entry of this.entries) {
+      await this.convertChapter(entry);
+    }
+
+    const title = this.epub.metadata.get("title") || "Untitled";
+    const navItems =
+      this.options.toc === false ? [] : await this.epub.toc.navItems();
+    const files = this.split
+      ? this.splitFiles(title, navItems)
+      : [this.singleFile(title, navItems)];
+
+    return { title, files, assets: [...this.assets.values()] };
+  }
+
+  private async convertChapter(entry: ChapterEntry): Promise<void> {
+    const { chapter } = entry;
+    const converter = ContentToMarkdown.create({
+      preserveIDs: true,
+      basePath: chapter.base,
+      rewriteLink: (href) => {
+        const abs = href.startsWith("#") ? `${chapter.path}${href}` : href;
+        if (!abs.startsWith("/")) return href;
+        this.linkTargets.push({ href: abs, from: entry });
+        return `#epubdown-link-${this.linkTargets.length - 1}`;
+      },
+      rewriteImage: (src) => this.addAsset(src),
+      footnotes: this.options.footnotes && {
+        resolveDocument: (path) => this.epub.readDOMFile(path),
+        // Labels must stay unique once chapters share one document
+        labelPrefix: this.split ? "" : `${entry.index}-`,
+      },
+      plugins: this.options.plugins,
+      disablePlugins: this.options.disablePlugins,
+    });
+
+    const markdown = await converter.convertXMLFile(chapter);
+    for (const match of markdown.matchAll(ANCHOR_DIV_RE)) {
+      for (const id of (match[1] ?? "").split(" ")) {
+        if (!id || entry.ids.has(id)) continue;
+        entry.ids.add(id);
+        this.idCounts.set(id, (this.idCounts.get(id) ?? 0) + 1);
+      }
+    }
+    entry.markdown = markdown;
+  }
+
+  private addAsset(src: string): string {
+    if (!src.startsWith("/")) return src;
+    const assetPath = safeDecode(src);
+
+    let asset = this.assets.get(assetPath);
+    if (!asset) {
+      const dir = this.options.imageDir ?? "images";
+      const ext = path.extname(assetPath);
+      const stem = path.basename(assetPath, ext);
+      let name = path.join(dir, `${stem}${ext}`);
+      for (let n = 2; this.assetNames.has(name); n++) {
+        name = path.join(dir, `${stem}-${n}${ext}`);
+      }
+      this.assetNames.add(name);
+      asset = {
+        path: assetPath,
+        name,
+        mediaType: this.epub.manifestByPath().get(assetPath)?.mediaType,
+      };
+      this.assets.set(assetPath, asset);
+    }
+    return encodeURI(asset.name);
+  }
+
+  // Ids that occur in several chapters are prefixed with the chapter anchor
+  // when everything is merged into one document.
+  private anchorId(entry: ChapterEntry, id: string): string {
+    if (this.split || (this.idCounts.get(id) ?? 0) < 2) return id;
+    return `${entry.anchor}-${id}`;
+  }
+
+  private resolveLink(href: string, from?: ChapterEntry): string {
+    const [rawPath, fragment] = href.split("#");
+    const target = this.entriesByPath.get(safeDecode(rawPath ?? ""));
+    if (!target) return href;
+
+    const id =
+      fragment && target.ids.has(safeDecode(fragment))
+        ? this.anchorId(target, safeDecode(fragment))
+        : undefined;
+
+    if (!this.split) {
+      return `#${encodeURI(id ?? target.anchor)}`;
+    }
+    const file = target === from ? "" : encodeURI(target.fileName);
+    const anchor = id ? `#${encodeURI(id)}` : "";
+    return file + anchor || encodeURI(target.fileName);
+  }
+
+  private renderChapter(entry: ChapterEntry): string {
+    return entry.markdown
+      .replace(ANCHOR_DIV_RE, (_match, ids: string) =>
+        ids
+          .split(" ")
+          .filter(Boolean)
+          .map((id) => `<a id="${this.anchorId(entry, id)}"></a>`)
+          .join(""),
+      )
+      .replace(LINK_TOKEN_RE, (match, index: string) => {
+        const target = this.linkTargets[Number(index)];
+        return target ? this.resolveLink(target.href, target.from) : match;
+      });
+  }
+
+  private renderToc(items: NavItem[], depth = 0): string[] {
+    const lines: string[] = [];
+    for (const item of items) {
+      const label = item.label.replace(/([[\]\\])/g, "\\$1");
+      const link = this.resolveLink(item.path);
+      const indent = "  ".repeat(depth);
+      lines.push(
+        link.startsWith("/")
+          ? `${indent}- ${label}`
+          : `${indent}- [${label}](${link})`,
+      );
+      if (item.subitems?.length) {
+        lines.push(...this.renderToc(item.subitems, depth + 1));
+      }
+    }
+    return lines;
+  }
+
+  private frontIndex(title: string, navItems: NavItem[]): string {
+    const parts = [`# ${title}`];
+    if (navItems.length > 0) {
+      parts.push("## Contents", this.renderToc(navItems).join("\n"));
+    }
+    return parts.join("\n\n");
+  }
+
+  private singleFile(title: string, navItems: NavItem[]): BookMarkdownFile {
+    const sections = [this.frontIndex(title, navItems)];
+    for (const entry of this.entries) {
+      sections.push(
+        `<a id="${entry.anchor}"></a>\n\n${this.renderChapter(entry)}`,
+      );
+    }
+    return { name: "index.md", content: `${sections.join("\n\n")}\n` };
+  }
+
+  private splitFiles(title: string, navItems: NavItem[]): BookMarkdownFile[] {
+    const files: BookMarkdownFile[] = [
+      { name: "index.md", content: `${this.frontIndex(title, navItems)}\n` },
+    ];
+    for (const entry of this.entries) {
+      files.push({
+        name: entry.fileName,
+        content: `${this.renderChapter(entry)}\n`,
+        chapterPath: entry.chapter.path,
+      });
+    }
+    return files;
+  }
+}
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { ContentToMarkdown } from "./ContentToMarkdown";
+import {
+  BUILTIN_PLUGIN_ORDER,
+  ContentToMarkdown,
+  type ConversionOptions,
+  type ConversionPlugin,
+} from "./ContentToMarkdown";
 import { DOMFile } from "./DOMFile";
 import { parseDocument } from "./xmlParser";
 
@@ -301,4 +306,344 @@ describe("ContentToMarkdown", () => {
       expect(result).toContain("More content");
     });
   });
+
+  describe("Tables", () => {
+    async function convert(body: string): Promise<string> {
+      const html = `<html xmlns="http://www.w3.org/1999/xhtml"><body>${body}</body></html>`;
+      const converter = ContentToMarkdown.create();
+      return converter.convertXMLFile(createMockXMLFile(html));
+    }
+
+    it("converts a table with thead into a GFM table", async () => {
+      const result = await convert(`
+        <table>
+          <caption>Planets</caption>
+          <thead><tr><th>Name</th><th>Moons</th></tr></thead>
+          <tbody>
+            <tr><td><em>Earth</em></td><td>1</td></tr>
+            <tr><td>Mars</td><td>2</td></tr>
+          </tbody>
+        </table>`);
+
+      expect(result).toContain(
+        "Planets\n\n| Name | Moons |\n| --- | --- |\n| *Earth* | 1 |\n| Mars | 2 |",
+      );
+    });
+
+    it("detects a header row made of th cells", async () => {
+      const result = await convert(`
+        <table>
+          <tr><th>Key</th><th>Value</th></tr>
+          <tr><td>a|b</td><td><p>one</p></td></tr>
+        </table>`);
+
+      expect(result).toContain(
+        "| Key | Value |\n| --- | --- |\n| a\\|b | one |",
+      );
+    });
+
+    it("emits an empty header row when the table has none", async () => {
+      const result = await convert(`
+        <table>
+          <tr><td>1</td><td>2</td></tr>
+          <tr><td>3</td></tr>
+        </table>`);
+
+      expect(result).toContain("|  |  |\n| --- | --- |\n| 1 | 2 |\n| 3 |  |");
+    });
+
+    it("keeps tables with spans as raw HTML", async () => {
+      const result = await convert(`
+        <table>
+          <tr><th colspan="2">Wide</th></tr>
+
+          <tr><td>1</td><td>2</td></tr>
+        </table>`);
+
+      expect(result).toContain("<table>");
+      expect(result).toContain('<th colspan="2">Wide</th>');
+      expect(result).not.toContain("xmlns");
+      expect(result).not.toContain("| --- |");
+      // Raw HTML blocks must stay contiguous for Markdown renderers
+      const table = result.slice(result.indexOf("<table>"));
+      expect(table.slice(0, table.indexOf("</table>"))).not.toMatch(/\n\s*\n/);
+    });
+
+    it("keeps tables with block content in cells as raw HTML", async () => {
+      const result = await convert(`
+        <table>
+          <tr><td><ul><li>one</li><li>two</li></ul></td></tr>
+        </table>`);
+
+      expect(result).toContain("<ul><li>one</li><li>two</li></ul>");
+    });
+  });
+
+  describe("Footnotes", () => {
+    function xhtml(body: string): string {
+      return `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>${body}</body></html>`;
+    }
+
+    function mockFile(path: string, html: string): DOMFile {
+      const dom = parseDocument(html, "xhtml");
+      const slash = path.lastIndexOf("/");
+      return new DOMFile(
+        path.slice(0, slash) || "/",
+        path.slice(slash + 1),
+        html,
+        dom,
+        "xhtml",
+      );
+    }
+
+    it("converts EPUB3 noterefs and asides into footnotes", async () => {
+      const file = mockFile(
+        "/OEBPS/ch1.xhtml",
+        xhtml(`
+          <p>Text<a epub:type="noteref" href="#fn1">1</a> and again<a epub:type="noteref" href="#fn1">1</a>.</p>
+          <aside epub:type="footnote" id="fn1"><p>The <em>note</em>.</p></aside>`),
+      );
+      const converter = ContentToMarkdown.create({ footnotes: true });
+      const result = await converter.convertXMLFile(file);
+
+      expect(result).toContain("Text[^1] and again[^1].");
+      expect(result).toMatch(/\[\^1\]: The \*note\*\.$/);
+      expect(result.match(/The \*note\*/g)).toHaveLength(1);
+    });
+
+    it("gathers notes from a separate endnotes file", async () => {
+      const notes = mockFile(
+        "/OEBPS/notes.xhtml",
+        xhtml(`
+          <p id="n1"><a href="ch1.xhtml#r1">1.</a> First note.</p>
+          <p id="n2"><a href="ch1.xhtml#r2">2.</a> Second note,
+          see <a href="ch2.xhtml">chapter two</a>.</p>`),
+      );
+      const file = mockFile(
+        "/OEBPS/ch1.xhtml",
+        xhtml(`<p>One<sup><a id="r1" href="notes.xhtml#n1">1</a></sup>
+          two<a id="r2" href="notes.xhtml#n2"><sup>2</sup></a>.</p>`),
+      );
+      const converter = ContentToMarkdown.create({
+        basePath: "/OEBPS",
+        footnotes: {
+          resolveDocument: async (path) =>
+            path === notes.path ? notes : undefined,
+        },
+      });
+      const result = await converter.convertXMLFile(file);
+
+      expect(result).toContain("One[^1] two[^2].");
+      expect(result).toContain("[^1]: First note.");
+      expect(result).toContain(
+        "[^2]: Second note, see [chapter two](/OEBPS/ch2.xhtml).",
+      );
+    });
+
+    it("prefixes labels and leaves unresolved notes as links", async () => {
+      const file = mockFile(
+        "/OEBPS/ch1.xhtml",
+        xhtml(`<p>A<a epub:type="noteref" href="#fn">*</a>
+          B<sup><a href="missing.xhtml#x">2</a></sup></p>
+          <aside epub:type="footnote" id="fn">Note.</aside>`),
+      );
+      const converter = ContentToMarkdown.create({
+        basePath: "/OEBPS",
+        footnotes: { labelPrefix: "3-" },
+      });
+      const result = await converter.convertXMLFile(file);
+
+      expect(result).toContain("A[^3-1]");
+      expect(result).toContain("[2](/OEBPS/missing.xhtml#x)");
+      expect(result).toContain("[^3-1]: Note.");
+    });
+
+    it("drops label elements but keeps numbers that start the note", async () => {
+      const file = mockFile(
+        "/OEBPS/ch1.xhtml",
+        xhtml(`<p>A<a epub:type="noteref" href="#fn1">1</a>
+          B<a epub:type="noteref" href="#fn2">2</a>
+          C<a epub:type="noteref" href="#fn3">3</a></p>
+          <aside epub:type="footnote" id="fn1"><p>1990 census figures.</p></aside>
+          <aside epub:type="footnote" id="fn2"><p><span class="label">2.</span> Labelled note.</p></aside>
+          <aside epub:type="footnote" id="fn3"><p>[<a epub:type="backlink" href="#r3">3</a>] 12 monkeys.</p></aside>`),
+      );
+      const converter = ContentToMarkdown.create({ footnotes: true });
+      const result = await converter.convertXMLFile(file);
+
+      expect(result).toContain("[^1]: 1990 census figures.");
+      expect(result).toContain("[^2]: Labelled note.");
+      expect(result).toContain("[^3]: 12 monkeys.");
+    });
+
+    it("keeps plain links when footnotes are disabled", async () => {
+      const file = mockFile(
+        "/OEBPS/ch1.xhtml",
+        xhtml(`<p>Text<a epub:type="noteref" href="#fn1">1</a></p>
+          <aside epub:type="footnote" id="fn1">Note.</aside>`),
+      );
+      const result = await ContentToMarkdown.create().convertXMLFile(file);
+
+      expect(result).toContain("[1](#fn1)");
+      expect(result).not.toContain("[^1]");
+    });
+  });
+
+  describe("MathML", () => {
+    async function convert(body: string): Promise<string> {
+      const html = `<html xmlns="http://www.w3.org/1999/xhtml"><body>${body}</body></html>`;
+      return ContentToMarkdown.create().convertXMLFile(createMockXMLFile(html));
+    }
+
+    it("converts inline and display math to LaTeX", async () => {
+      const result = await convert(`
+        <p>Let <math xmlns="http://www.w3.org/1998/Math/MathML"><msup><mi>x</mi><mn>2</mn></msup></math> be positive.</p>
+        <math xmlns="http://www.w3.org/1998/Math/MathML" display="block"><mfrac><mn>1</mn><mi>n</mi></mfrac></math>`);
+
+      expect(result).toContain("Let $x^2$ be positive.");
+      expect(result).toContain("$$\n\\frac{1}{n}\n$$");
+    });
+
+    it("falls back to alttext when conversion fails", async () => {
+      const result = await convert(`
+        <p><math xmlns="http://www.w3.org/1998/Math/MathML" alttext="X sub a"><mmultiscripts><mi>X</mi><mi>a</mi><none/></mmultiscripts></math></p>`);
+
+      expect(result).toContain("X sub a");
+      expect(result).not.toContain("$");
+    });
+
+    it("escapes dollar signs in prose but not math delimiters", async () => {
+      const result = await convert(`
+        <p>It cost $100 (or about US$ 80) for <math xmlns="http://www.w3.org/1998/Math/MathML"><mi>n</mi></math> copies.</p>
+        <p><code>echo $HOME</code></p>`);
+
+      expect(result).toContain(
+        "It cost \\$100 (or about US\\$ 80) for $n$ copies.",
+      );
+      expect(result).toContain("`echo $HOME`");
+    });
+  });
+
+  describe("Plugins", () => {
+    async function convert(
+      body: string,
+      options?: ConversionOptions,
+    ): Promise<string> {
+      const html = `<html xmlns="http://www.w3.org/1999/xhtml"><body>${body}</body></html>`;
+      return ContentToMarkdown.create(options).convertXMLFile(
+        createMockXMLFile(html),
+      );
+    }
+
+    it("runs custom DOM transforms", async () => {
+      const removePageNumbers: ConversionPlugin = {
+        name: "remove-page-numbers",
+        transform: (doc) => {
+          for (const span of doc.querySelectorAll("span.pagenum")) {
+            span.remove();
+          }
+        },
+      };
+      const result = await convert(
+        `<p>One <span class="pagenum">[12]</span>two.</p>`,
+        { plugins: [removePageNumbers] },
+      );
+
+      expect(result).toBe("One two.");
+    });
+
+    it("runs plugins by order, around the built-ins", async () => {
+      const seen: string[] = [];
+      const record =
+        (name: string): ConversionPlugin["transform"] =>
+        (doc) => {
+          seen.push(`${name}:${doc.querySelector("h1")?.childElementCount}`);
+        };
+      await convert("<h1><em>Title</em></h1>", {
+        plugins: [
+          { name: "late", transform: record("late") },
+          {
+            name: "early",
+            order: BUILTIN_PLUGIN_ORDER.headings - 1,
+            transform: record("early"),
+          },
+        ],
+      });
+
+      // Only the late plugin sees the heading flattened by "headings"
+      expect(seen).toEqual(["early:1", "late:0"]);
+    });
+
+    it("registers custom rules ahead of built-in ones", async () => {
+      const dropCaps: ConversionPlugin = {
+        name: "drop-caps",
+        rules: (service) =>
+          service.addRule("drop-cap", {
+            filter: (node) =>
+              (node as Element).getAttribute?.("class") === "dropcap",
+            replacement: (content) => content,
+          }),
+      };
+      const result = await convert(
+        `<p><strong class="dropcap">O</strong>nce upon a time.</p>`,
+        { plugins: [dropCaps] },
+      );
+
+      expect(result).toBe("Once upon a time.");
+    });
+
+    it("lets the lower-ordered plugin's rule win", async () => {
+      const emphasis = (name: string, order: number): ConversionPlugin => ({
+        name,
+        order,
+        rules: (service) =>
+          service.addRule(name, {
+            filter: "em",
+            replacement: (content) => `<${name}>${content}`,
+          }),
+      });
+      const rawTables: ConversionPlugin = {
+        name: "raw-tables",
+        order: BUILTIN_PLUGIN_ORDER.tables - 1,
+        rules: (service) =>
+          service.addRule("raw-tables", {
+            filter: "table",
+            replacement: () => "TABLE",
+          }),
+      };
+      const result = await convert(
+        "<p><em>x</em></p><table><tr><td>1</td></tr></table>",
+        { plugins: [emphasis("second", 20), emphasis("first", 10), rawTables] },
+      );
+
+      expect(result).toBe("<first>x\n\nTABLE");
+    });
+
+    it("disables built-in plugins by name", async () => {
+      const table = "<table><tr><th>A</th></tr><tr><td>1</td></tr></table>";
+
+      expect(await convert(table)).toContain("| A |");
+      expect(
+        await convert(table, { disablePlugins: ["tables"] }),
+      ).not.toContain("|");
+    });
+
+    it("replaces a built-in plugin with one of the same name", async () => {
+      const result = await convert('<p><img src="a.png" alt="A"/> text</p>', {
+        basePath: "/OEBPS",
+        plugins: [
+          {
+            name: "image-sources",
+            transform: (doc) => {
+              for (const img of doc.querySelectorAll("img")) {
+                img.setAttribute("src", `cdn/${img.getAttribute("src")}`);
+              }
+            },
+          },
+        ],
+      });
+
+      expect(result).toContain("![A](cdn/a.png)");
+    });
+  });
 });
@@ -1,14 +1,108 @@
 import TurndownService from "turndown";
 import type { DOMFile } from "./DOMFile";
+import {
+  type ResolveDocument,
+  addFootnoteRules,
+  extractFootnotes,
+  renderFootnoteDefinitions,
+} from "./rules/footnotes";
+import { addMathRules } from "./rules/mathml";
+import { addTableRules } from "./rules/tables";
 import { normalizePath } from "./utils/normalizePath";
 
+export interface FootnoteOptions {
+  /** Load another book document, for notes kept in a separate endnotes file */
+  resolveDocument?: ResolveDocument;
+  /** Prefix for generated labels, to keep them unique across merged chapters */
+  labelPrefix?: string;
+}
+
+/**
+ * A named step of the conversion: a DOM transform run before Turndown,
+ * Turndown rules, or both.
+ *
+ * Plugins run in ascending `order`. Built-ins use 100–800 (see
+ * BUILTIN_PLUGIN_ORDER); plugins without an order run after them. When
+ * rules from several plugins match the same element, the plugin with the
+ * lower order wins, so a plugin ordered before `tables` can take over
+ * tables. Among one plugin's own rules, the one added last wins.
+ */
+export interface ConversionPlugin {
+  name: string;
+  order?: number;
+  /** Mutate the chapter DOM before it is handed to Turndown */
+  transform?: (doc: Document, file: DOMFile) => void | Promise<void>;
+  /** Register rules with `service.addRule` */
+  rules?: (service: TurndownService) => void;
+}
+
+export const BUILTIN_PLUGIN_ORDER = {
+  "svg-images": 100,
+  "remove-metadata": 200,
+  "id-anchors": 300,
+  headings: 400,
+  "link-hrefs": 500,
+  "image-sources": 600,
+  tables: 700,
+  math: 800,
+} as const;
+
+export type BuiltinPluginName = keyof typeof BUILTIN_PLUGIN_ORDER;
+
+const DEFAULT_PLUGIN_ORDER = 1000;
+
 export interface ConversionOptions {
   preserveIDs?: boolean;
   basePath?: string;
+  /** Rewrite link hrefs after they have been normalized (fragment-only hrefs included) */
+  rewriteLink?: (href: string) => string;
+  /** Rewrite image sources after they have been normalized */
+  rewriteImage?: (src: string) => string;
+  /**
+   * Convert note references (epub:type="noteref", or EPUB2 superscript links)
+   * into `[^n]` footnotes with definitions appended to the output
+   */
+  footnotes?: boolean | FootnoteOptions;
+  /**
+   * Extra plugins. A plugin named like a built-in replaces it and inherits
+   * its order unless it sets one.
+   */
+  plugins?: ConversionPlugin[];
+  /** Names of plugins, built-in or not, to skip */
+  disablePlugins?: string[];
+}
+
+/**
+ * Merge built-in and user plugins into the order they run in
+ */
+function resolvePlugins(
+  builtins: ConversionPlugin[],
+  options?: ConversionOptions,
+): ConversionPlugin[] {
+  const byName = new Map<string, ConversionPlugin>();
+  for (const plugin of builtins) {
+    byName.set(plugin.name, plugin);
+  }
+  for (const plugin of options?.plugins ?? []) {
+    const order =
+      plugin.order ?? byName.get(plugin.name)?.order ?? DEFAULT_PLUGIN_ORDER;
+    // Re-insert so replacements keep registration order among equal orders
+    byName.delete(plugin.name);
+    byName.set(plugin.name, { ...plugin, order });
+  }
+
+  const disabled = new Set(options?.disablePlugins);
+  // Array.prototype.sort is stable, so equal orders keep registration order
+  return [...byName.values()]
+    .filter((plugin) => !disabled.has(plugin.name))
+    .sort(
+      (a, b) =>
+        (a.order ?? DEFAULT_PLUGIN_ORDER) - (b.order ?? DEFAULT_PLUGIN_ORDER),
+    );
 }
 
 function createTurndownService(): TurndownService {
-  // Minimal Turndown configuration; no custom rules that mutate DOM
+  // Minimal Turndown configuration; rules come from plugins
   return new TurndownService({
     headingStyle: "atx",
     codeBlockStyle: "fenced",
@@ -23,40 +117,98 @@ export class ContentToMarkdown {
   // Base path used for normalizing relative resource URLs in the DOM
   private _basePath?: string;
   private _preserveIDs?: boolean;
+  private _rewriteLink?: (href: string) => string;
+  private _rewriteImage?: (src: string) => string;
+  private _footnotes?: FootnoteOptions;
+  private _plugins: ConversionPlugin[] = [];
 
   static create(options?: ConversionOptions): ContentToMarkdown {
     const td = createTurndownService();
     const instance = new ContentToMarkdown(td);
     instance._basePath = options?.basePath;
     instance._preserveIDs = options?.preserveIDs;
+    instance._rewriteLink = options?.rewriteLink;
+    instance._rewriteImage = options?.rewriteImage;
+    if (options?.footnotes) {
+      instance._footnotes = options.footnotes === true ? {} : options.footnotes;
+      addFootnoteRules(td);
+    }
 
-    // Keep anchor divs as raw HTML so IDs survive
-    if (options?.preserveIDs) {
-      td.addRule("preserve-anchor-divs", {
-        filter: (node) => {
-          // IMPORTANT: nodeName comparison must be case-insensitive
-          // In XHTML documents (like EPUBs), nodeName can be lowercase
-          const nodeName = node.nodeName.toUpperCase();
-          return (
-            nodeName === "DIV" &&
-            (node as Element).hasAttribute("data-anchor-ids")
-          );
-        },
-        replacement: (_content, node) => {
-          // Preserve the original div HTML exactly as-is
-          const div = node as Element;
-          const ids = div.getAttribute("data-anchor-ids");
-          if (ids) {
-            return `<div data-anchor-ids="${ids}">\u200B</div>\n\n`;
-          }
-          return "";
-        },
-      });
+    instance._plugins = resolvePlugins(instance.builtinPlugins(), options);
+    // Turndown tries the most recently added rule first, so register the
+    // earliest plugins last
+    for (const plugin of [...instance._plugins].reverse()) {
+      plugin.rules?.(td);
     }
 
     return instance;
   }
 
+  private builtinPlugins(): ConversionPlugin[] {
+    const order = BUILTIN_PLUGIN_ORDER;
+    const plugins: ConversionPlugin[] = [
+      {
+        name: "svg-images",
+        order: order["svg-images"],
+        transform: (doc) => this.transformSvgImages(doc),
+      },
+      {
+        name: "remove-metadata",
+        order: order["remove-metadata"],
+        transform: (doc) => this.removeMetadataElements(doc),
+      },
+      {
+        name: "headings",
+        order: order.headings,
+        transform: (doc) => this.normalizeHeadings(doc),
+      },
+      {
+        name: "link-hrefs",
+        order: order["link-hrefs"],
+        transform: (doc) => this.normalizeLinkHrefs(doc),
+      },
+      {
+        name: "image-sources",
+        order: order["image-sources"],
+        transform: (doc) => this.normalizeImageSources(doc),
+      },
+      { name: "tables", order: order.tables, rules: addTableRules },
+      { name: "math", order: order.math, rules: addMathRules },
+    ];
+
+    if (this._preserveIDs) {
+      plugins.push({
+        name: "id-anchors",
+        order: order["id-anchors"],
+        transform: (doc) => this.insertIdAnchors(doc),
+        // Keep anchor divs as raw HTML so IDs survive
+        rules: (service) =>
+          service.addRule("preserve-anchor-divs", {
+            filter: (node) => {
+              // IMPORTANT: nodeName comparison must be case-insensitive
+              // In XHTML documents (like EPUBs), nodeName can be lowercase
+              const nodeName = node.nodeName.toUpperCase();
+              return (
+                nodeName === "DIV" &&
+                (node as Element).hasAttribute("data-anchor-ids")
+              );
+            },
+            replacement: (_content, node) => {
+              // Preserve the original div HTML exactly as-is
+              const div = node as Element;
+              const ids = div.getAttribute("data-anchor-ids");
+              if (ids) {
+                return `<div data-anchor-ids="${ids}">\u200B</div>\n\n`;
+              }
+              return "";
+            },
+          }),
+      });
+    }
+
+    return plugins;
+  }
+
   private transformSvgImages(dom: Document): void {
     const SVG_NS = "http://www.w3.org/2000/svg";
 
@@ -105,28 +257,33 @@ export class ContentToMarkdown {
   }
 
   async convertXMLFile(xmlFile: DOMFile): Promise<string> {
-    // Transform SVG images to regular img tags before passing to Turndown
-    this.transformSvgImages(xmlFile.dom);
+    // Pull notes out first, while hrefs are still relative to the file
+    const footnotes = this._footnotes
+      ? await extractFootnotes(
+          xmlFile,
+          this._footnotes.resolveDocument,
+          this._footnotes.labelPrefix,
+        )
+      : [];
 
     // DOM-first transforms prior to Turndown conversion
-    this.transformDocument(xmlFile.dom);
+    for (const plugin of this._plugins) {
+      await plugin.transform?.(xmlFile.dom, xmlFile);
+    }
 
     // Pass the body element from the DOMFile DOM to TurndownService
     const body = xmlFile.dom.querySelector("body");
     const elementToConvert = body || xmlFile.dom.documentElement;
 
     const result = this.turndownService.turndown(elementToConvert as any);
-    return result;
-  }
-
-  // Apply a sequence of DOM-first transforms
-  private transformDocument(doc: Document): Document {
-    this.removeMetadataElements(doc);
-    if (this._preserveIDs) this.insertIdAnchors(doc);
-    this.normalizeHeadings(doc);
-    this.normalizeLinkHrefs(doc);
-    this.normalizeImageSources(doc);
-    return doc;
+    if (footnotes.length === 0) return result;
+
+    const definitions = renderFootnoteDefinitions(
+      footnotes,
+      this.turndownService,
+      { link: this._rewriteLink, image: this._rewriteImage },
+    );
+    return `${result}\n\n${definitions}`;
   }
 
   private removeMetadataElements(doc: Document): void {
@@ -178,8 +335,9 @@ export class ContentToMarkdown {
   private normalizeLinkHrefs(doc: Document): void {
     for (const a of doc.querySelectorAll("a[href]")) {
       const raw = a.getAttribute("href") ?? "";
-      if (!raw || raw.startsWith("#")) continue;
-      a.setAttribute("href", this.normalizeResourcePath(raw));
+      if (!raw) continue;
+      const href = raw.startsWith("#") ? raw : this.normalizeResourcePath(raw);
+      a.setAttribute("href", this._rewriteLink?.(href) ?? href);
     }
   }
 
@@ -187,7 +345,8 @@ export class ContentToMarkdown {
     for (const img of doc.querySelectorAll("img[src]")) {
       const raw = img.getAttribute("src") ?? "";
       if (!raw) continue;
-      img.setAttribute("src", this.normalizeResourcePath(raw));
+      const src = this.normalizeResourcePath(raw);
+      img.setAttribute("src", this._rewriteImage?.(src) ?? src);
       // Only set fallback alt if alt attribute is missing entirely
       if (!img.hasAttribute("alt")) {
         const filename = raw.split("/").pop() ?? "";
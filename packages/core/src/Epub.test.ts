@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { EPub } from "./Epub";
+import { buildOpf, buildXhtml, createMemoryEpub, fetchEpub } from "./testUtils";
+
+const PNG = new Uint8Array([137, 80, 78, 71]);
+const JPEG = new Uint8Array([255, 216, 255]);
+
+const CHAPTER_ITEM = `<item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>`;
+
+describe("EPub.cover", () => {
+  it("finds the cover of Alice in Wonderland", async () => {
+    const epub = await EPub.fromZip(await fetchEpub("alice.epub"));
+    const cover = await epub.cover();
+
+    expect(cover?.item.properties).toContain("cover-image");
+    expect(cover?.mediaType).toMatch(/^image\//);
+    expect(cover?.data.length).toBeGreaterThan(0);
+  });
+
+  it("prefers the EPUB3 cover-image property", async () => {
+    const epub = await createMemoryEpub({
+      "OEBPS/content.opf": buildOpf({
+        metadata: `<meta name="cover" content="other"/>`,
+        manifest: `
+          ${CHAPTER_ITEM}
+          <item id="other" href="images/other.jpg" media-type="image/jpeg"/>
+          <item id="cover" href="images/cover.png" media-type="image/png" properties="cover-image"/>`,
+        spine: `<itemref idref="ch1"/>`,
+      }),
+      "OEBPS/text/ch1.xhtml": buildXhtml("<p>Text</p>"),
+      "OEBPS/images/cover.png": PNG,
+      "OEBPS/images/other.jpg": JPEG,
+    });
+
+    const cover = await epub.cover();
+    expect(cover?.item.id).toBe("cover");
+    expect(cover?.mediaType).toBe("image/png");
+    expect(cover?.data).toEqual(PNG);
+  });
+
+  it("falls back to the EPUB2 meta cover pointer", async () => {
+    const epub = await createMemoryEpub({
+      "OEBPS/content.opf": buildOpf({
+        metadata: `<meta name="cover" content="cover-jpg"/>`,
+        manifest: `
+          ${CHAPTER_ITEM}
+          <item id="cover-jpg" href="images/cover.jpg" media-type="image/jpeg"/>`,
+        spine: `<itemref idref="ch1"/>`,
+      }),
+      "OEBPS/text/ch1.xhtml": buildXhtml("<p>Text</p>"),
+      "OEBPS/images/cover.jpg": JPEG,
+    });
+
+    const cover = await epub.cover();
+    expect(cover?.item.path).toBe("/OEBPS/images/cover.jpg");
+    expect(cover?.data).toEqual(JPEG);
+  });
+
+  it("follows a guide cover reference to the image on that page", async () => {
+    const epub = await createMemoryEpub({
+      "OEBPS/content.opf": buildOpf({
+        manifest: `
+          ${CHAPTER_ITEM}
+          <item id="coverpage" href="text/cover.xhtml" media-type="application/xhtml+xml"/>
+          <item id="img" href="images/front.png" media-type="image/png"/>`,
+        spine: `<itemref idref="ch1"/><itemref idref="coverpage"/>`,
+        guide: `<reference type="cover" href="text/cover.xhtml" title="Cover"/>`,
+      }),
+      "OEBPS/text/ch1.xhtml": buildXhtml("<p>Text</p>"),
+      "OEBPS/text/cover.xhtml": buildXhtml(
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"><image xlink:href="../images/front.png"/></svg>`,
+      ),
+      "OEBPS/images/front.png": PNG,
+    });
+
+    const cover = await epub.cover();
+    expect(cover?.item.id).toBe("img");
+  });
+
+  it("follows a landmarks cover link in the nav document", async () => {
+    const epub = await createMemoryEpub({
+      "OEBPS/content.opf": buildOpf({
+        manifest: `
+          ${CHAPTER_ITEM}
+          <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+          <item id="img" href="images/front.png" media-type="image/png"/>`,
+        spine: `<itemref idref="ch1"/>`,
+      }),
+      "OEBPS/nav.xhtml": buildXhtml(`
+        <nav epub:type="landmarks"><ol>
+          <li><a epub:type="cover" href="images/front.png">Cover</a></li>
+        </ol></nav>`),
+      "OEBPS/text/ch1.xhtml": buildXhtml("<p>Text</p>"),
+      "OEBPS/images/front.png": PNG,
+    });
+
+    const cover = await epub.cover();
+    expect(cover?.item.id).toBe("img");
+  });
+
+  it("uses the first image of the first spine item as a last resort", async () => {
+    const epub = await createMemoryEpub({
+      "OEBPS/content.opf": buildOpf({
+        manifest: `
+          ${CHAPTER_ITEM}
+          <item id="img" href="images/plate.jpg" media-type="image/jpeg"/>`,
+        spine: `<itemref idref="ch1"/>`,
+      }),
+      "OEBPS/text/ch1.xhtml": buildXhtml(
+        `<p><img src="../images/plate.jpg" alt="Plate"/></p>`,
+      ),
+      "OEBPS/images/plate.jpg": JPEG,
+    });
+
+    const cover = await epub.cover();
+    expect(cover?.item.id).toBe("img");
+    expect(cover?.mediaType).toBe("image/jpeg");
+  });
+
+  it("skips images with a malformed src", async () => {
+    const epub = await createMemoryEpub({
+      "OEBPS/content.opf": buildOpf({
+        manifest: `
+          ${CHAPTER_ITEM}
+          <item id="img" href="images/plate.jpg" media-type="image/jpeg"/>`,
+        spine: `<itemref idref="ch1"/>`,
+      }),
+      "OEBPS/text/ch1.xhtml": buildXhtml(
+        `<p><img src="../images/100%.jpg" alt="Broken"/><img src="../images/plate.jpg" alt="Plate"/></p>`,
+      ),
+      "OEBPS/images/plate.jpg": JPEG,
+    });
+
+    const cover = await epub.cover();
+    expect(cover?.item.id).toBe("img");
+  });
+
+  it("returns undefined when the book has no images", async () => {
+    const epub = await createMemoryEpub({
+      "OEBPS/content.opf": buildOpf({
+        manifest: CHAPTER_ITEM,
+        spine: `<itemref idref="ch1"/>`,
+      }),
+      "OEBPS/text/ch1.xhtml": buildXhtml("<p>Text</p>"),
+    });
+
+    expect(await epub.cover()).toBeUndefined();
+  });
+});
@@ -1,10 +1,18 @@
 import JSZip from "jszip";
-import { ContentToMarkdown } from "./ContentToMarkdown";
+import {
+  type BookMarkdown,
+  type BookMarkdownOptions,
+  BookToMarkdown,
+} from "./BookToMarkdown";
+import { ContentToMarkdown, type ConversionOptions } from "./ContentToMarkdown";
 import type { DOMFile } from "./DOMFile";
+import { EpubCFI } from "./EpubCFI";
+import { type MediaOverlayClip, parseMediaOverlay } from "./MediaOverlay";
 import { Metadata } from "./Metadata";
 import { TableOfContents } from "./TableOfContents";
 import { type DataResolver, ZipDataResolver } from "./resolvers";
 import { normalizePath } from "./utils/normalizePath";
+import { safeDecode } from "./utils/safeDecode";
 
 /*
  * EPUB 3.3 Required Metadata:
@@ -20,6 +28,14 @@ export interface ManifestItem {
   path: string;
   mediaType: string;
   properties?: string;
+  /** Id of the SMIL item synchronizing narration with this item */
+  mediaOverlay?: string;
+}
+
+export interface EPubCover {
+  data: Uint8Array;
+  mediaType: string;
+  item: ManifestItem;
 }
 
 interface SpineItem {
@@ -29,6 +45,7 @@ interface SpineItem {
 
 export class EPub {
   private _toc?: TableOfContents;
+  private _cfi?: EpubCFI;
   private _metadata?: Metadata;
   private _manifestByPath?: Map<string, ManifestItem>;
 
@@ -48,6 +65,16 @@ export class EPub {
     return this._toc;
   }
 
+  /**
+   * Get the EPUB CFI handler for generating and resolving locations
+   */
+  get cfi(): EpubCFI {
+    if (!this._cfi) {
+      this._cfi = new EpubCFI(this);
+    }
+    return this._cfi;
+  }
+
   static async init(resolver: DataResolver): Promise<EPub> {
     // Parse container.xml
     const container = await resolver.readDOMFile(
@@ -123,6 +150,7 @@ export class EPub {
         path,
         mediaType: item.getAttribute("media-type") || "",
         properties: item.getAttribute("properties") || undefined,
+        mediaOverlay: item.getAttribute("media-overlay") || undefined,
       };
     });
   }
@@ -227,12 +255,132 @@ export class EPub {
     }
   }
 
+  /**
+   * Locate and read the cover image
+   *
+   * Tried in order: the EPUB3 `cover-image` manifest property, the EPUB2
+   * `<meta name="cover">` pointer, a guide/landmarks `cover` reference, and
+   * finally the first image in the first spine item.
+   */
+  async cover(): Promise<EPubCover | undefined> {
+    const item =
+      this.manifest().find((m) =>
+        m.properties?.split(/\s+/).includes("cover-image"),
+      ) ??
+      this.metaCoverItem() ??
+      (await this.referencedCoverItem()) ??
+      (await this.firstSpineImageItem());
+    if (!item) return undefined;
+
+    const data = await this.resolver.readRaw(item.path);
+    if (!data) return undefined;
+    return { data, mediaType: item.mediaType, item };
+  }
+
+  private metaCoverItem(): ManifestItem | undefined {
+    const content = this.opf
+      .querySelector('metadata meta[name="cover"]')
+      ?.getAttribute("content");
+    if (!content) return undefined;
+
+    // Some EPUB2 books point at the href rather than the manifest id
+    const manifest = this.manifest();
+    const item =
+      manifest.find((m) => m.id === content) ??
+      manifest.find((m) => m.href === content);
+    return item?.mediaType.startsWith("image/") ? item : undefined;
+  }
+
+  private async referencedCoverItem(): Promise<ManifestItem | undefined> {
+    const landmark = (await this.toc.landmarks()).find(
+      (l) => l.type === "cover",
+    );
+    if (!landmark) return undefined;
+
+    const item = this.manifestByPath().get(landmark.path);
+    if (!item) return undefined;
+    if (item.mediaType.startsWith("image/")) return item;
+    return this.firstImageItemIn(item.path);
+  }
+
+  private async firstSpineImageItem(): Promise<ManifestItem | undefined> {
+    const first = this.spineWithManifest(false)[0];
+    if (!first) return undefined;
+    return this.firstImageItemIn(first.manifestItem.path);
+  }
+
+  /**
+   * Find the first image referenced by an XHTML document, including SVG
+   * `<image>` wrappers commonly used for cover pages
+   */
+  private async firstImageItemIn(
+    absPath: string,
+  ): Promise<ManifestItem | undefined> {
+    const page = await this.readDOMFile(absPath);
+    if (!page) return undefined;
+
+    const XLINK_NS = "http://www.w3.org/1999/xlink";
+    for (const el of page.dom.querySelectorAll("img, image, svg\\:image")) {
+      const src =
+        el.getAttribute("src") ||
+        el.getAttribute("xlink:href") ||
+        el.getAttribute("href") ||
+        el.getAttributeNS(XLINK_NS, "href");
+      if (!src) continue;
+
+      const path = normalizePath(page.base, safeDecode(src));
+      const item = this.manifestByPath().get(path);
+      if (item?.mediaType.startsWith("image/")) return item;
+    }
+    return undefined;
+  }
+
+  /**
+   * Narration clips of a chapter's media overlay in reading order, or
+   * undefined when the chapter has none
+   */
+  async mediaOverlay(
+    chapterPath: string,
+  ): Promise<MediaOverlayClip[] | undefined> {
+    const overlayId = this.manifestByPath().get(chapterPath)?.mediaOverlay;
+    if (!overlayId) return undefined;
+    const item = this.manifest().find((m) => m.id === overlayId);
+    if (!item) return undefined;
+    const smil = await this.readDOMFile(item.path, "xml");
+    if (!smil) return undefined;
+    // One SMIL document may narrate several chapters
+    return parseMediaOverlay(smil).filter(
+      (clip) => clip.textPath === chapterPath,
+    );
+  }
+
+  /**
+   * Class the book styles the narrated element with (`media:active-class`)
+   */
+  mediaOverlayActiveClass(): string | undefined {
+    for (const meta of Array.from(this.opf.querySelectorAll("meta"))) {
+      if (meta.getAttribute("property") === "media:active-class") {
+        return meta.textContent?.trim() || undefined;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Convert a chapter to markdown with proper anchor ID preservation
    * @param ref The absolute path to load the chapter
+   * @param options.footnotes Inline referenced notes as Markdown footnotes
+   * @param options.plugins Extra conversion plugins
+   * @param options.disablePlugins Names of conversion plugins to skip
    * @returns Promise<string> The markdown content
    */
-  async chapterMarkdown(ref: string): Promise<string> {
+  async chapterMarkdown(
+    ref: string,
+    options?: { footnotes?: boolean } & Pick<
+      ConversionOptions,
+      "plugins" | "disablePlugins"
+    >,
+  ): Promise<string> {
     // Ensure ref is absolute
     const absRef = ref.startsWith("/")
       ? ref
@@ -248,12 +396,26 @@ export class EPub {
     const converter = ContentToMarkdown.create({
       preserveIDs: true,
       basePath: chapter.base,
+      footnotes: options?.footnotes && {
+        resolveDocument: (path) => this.readDOMFile(path),
+      },
+      plugins: options?.plugins,
+      disablePlugins: options?.disablePlugins,
     });
 
     // Convert to markdown
     return await converter.convertXMLFile(chapter);
   }
 
+  /**
+   * Convert the whole book to Markdown, as one document or one file per chapter
+   * @param options Output layout, image directory, and front index toggles
+   * @returns The Markdown files plus the image assets they reference
+   */
+  async bookMarkdown(options?: BookMarkdownOptions): Promise<BookMarkdown> {
+    return new BookToMarkdown(this, options).convert();
+  }
+
   /**
    * Calculate the SHA256 hash of the OPF file content
    * @returns Promise<Uint8Array> The SHA256 hash as a Uint8Array
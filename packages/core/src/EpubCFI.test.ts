@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { compareCFI, formatCFI, parseCFI, resolveCFIIn } from "./EpubCFI";
+import { buildOpf, buildXhtml, createMemoryEpub } from "./testUtils";
+import { positionAtTextOffset, textOffsetOf } from "./utils/textOffsets";
+import { parseDocument } from "./xmlParser";
+
+function book() {
+  return createMemoryEpub({
+    "OEBPS/content.opf": buildOpf({
+      manifest: `
+        <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+        <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>`,
+      spine: `<itemref idref="cover" linear="no"/><itemref id="ref-ch1" idref="ch1"/>`,
+    }),
+    "OEBPS/cover.xhtml": buildXhtml("<p>Cover</p>"),
+    "OEBPS/text/ch1.xhtml": buildXhtml(
+      `<h1>Title</h1><p id="p2">Hello <em>brave</em> new world</p><p>Last</p>`,
+    ),
+  });
+}
+
+describe("parseCFI / formatCFI", () => {
+  it("round-trips positions, assertions and ranges", () => {
+    for (const cfi of [
+      "epubcfi(/6/4[chap01ref]!/4[body01]/10[para05]/3:10)",
+      "epubcfi(/6/4!/4/2,/1:0,/3:5)",
+      "epubcfi(/6/2!/4/2[a^,b^]c])",
+    ]) {
+      expect(formatCFI(parseCFI(cfi))).toBe(cfi);
+    }
+  });
+
+  it("unescapes assertions", () => {
+    const parsed = parseCFI("epubcfi(/6/2!/4/2[a^,b^]c])");
+    expect(parsed.path.steps[1]).toEqual({ index: 2, id: "a,b]c" });
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => parseCFI("/6/4!/2")).toThrow(/Invalid CFI/);
+    expect(() => parseCFI("epubcfi(/6/x)")).toThrow(/Invalid CFI/);
+  });
+
+  it("orders by document position", () => {
+    const cfis = [
+      "epubcfi(/6/4!/4/4/3:2)",
+      "epubcfi(/6/2!/4/2/1:0)",
+      "epubcfi(/6/4!/4/4/1:7)",
+      "epubcfi(/6/4!/4/4)",
+    ];
+    expect([...cfis].sort(compareCFI)).toEqual([
+      "epubcfi(/6/2!/4/2/1:0)",
+      "epubcfi(/6/4!/4/4)",
+      "epubcfi(/6/4!/4/4/1:7)",
+      "epubcfi(/6/4!/4/4/3:2)",
+    ]);
+  });
+});
+
+describe("EpubCFI", () => {
+  it("generates CFIs through the spine, including non-linear items", async () => {
+    const epub = await book();
+    const chapter = await epub.getChapter("/OEBPS/text/ch1.xhtml");
+    const p = chapter?.querySelector("p") as Element;
+    const world = p.lastChild as Node;
+
+    expect(epub.cfi.generate("/OEBPS/text/ch1.xhtml", p)).toBe(
+      "epubcfi(/6/4[ref-ch1]!/4/4[p2])",
+    );
+    // Text after <em> is the second text run: /3
+    expect(epub.cfi.generate("/OEBPS/text/ch1.xhtml", world, 5)).toBe(
+      "epubcfi(/6/4[ref-ch1]!/4/4[p2]/3:5)",
+    );
+  });
+
+  it("resolves generated CFIs back to the same position", async () => {
+    const epub = await book();
+    const path = "/OEBPS/text/ch1.xhtml";
+    const chapter = await epub.getChapter(path);
+    const em = chapter?.querySelector("em") as Element;
+    const cfi = epub.cfi.generate(path, em.firstChild as Node, 2);
+
+    const resolved = await epub.cfi.resolve(cfi);
+    expect(resolved?.path).toBe(path);
+    expect(resolved?.spineIndex).toBe(1);
+    expect(resolved?.start.node.textContent).toBe("brave");
+    expect(resolved?.start.offset).toBe(2);
+  });
+
+  it("generates and resolves ranges", async () => {
+    const epub = await book();
+    const path = "/OEBPS/text/ch1.xhtml";
+    const chapter = await epub.getChapter(path);
+    const p = chapter?.querySelector("p") as Element;
+    const cfi = epub.cfi.generateRange(path, {
+      startContainer: p.firstChild as Node,
+      startOffset: 0,
+      endContainer: p.lastChild as Node,
+      endOffset: 4,
+    });
+    expect(cfi).toBe("epubcfi(/6/4[ref-ch1]!/4/4[p2],/1:0,/3:4)");
+
+    const { start, end } = resolveCFIIn(chapter?.dom as Document, cfi);
+    expect(start.node).toBe(p.firstChild);
+    expect(end?.node).toBe(p.lastChild);
+    expect(end?.offset).toBe(4);
+  });
+
+  it("follows id assertions when indexes are stale", async () => {
+    const epub = await book();
+    const chapter = await epub.getChapter("/OEBPS/text/ch1.xhtml");
+    const { start } = resolveCFIIn(
+      chapter?.dom as Document,
+      "epubcfi(/6/4!/4/2[p2]/1:3)",
+    );
+    expect(start.node.textContent).toBe("Hello ");
+    expect(start.offset).toBe(3);
+  });
+
+  it("matches itemref assertions by idref", async () => {
+    const epub = await book();
+    expect(epub.cfi.spineTarget("epubcfi(/6/2[ch1]!/4)")).toEqual({
+      path: "/OEBPS/text/ch1.xhtml",
+      spineIndex: 1,
+    });
+  });
+});
+
+describe("text offsets", () => {
+  it("ignores whitespace so positions survive re-rendering", async () => {
+    const epub = await book();
+    const chapter = await epub.getChapter("/OEBPS/text/ch1.xhtml");
+    const body = chapter?.querySelector("body") as Element;
+    const em = chapter?.querySelector("em") as Element;
+    const offset = textOffsetOf(body, em.firstChild as Node, 1);
+    expect(offset).toBe("TitleHello".length + 1);
+
+    const rendered = parseDocument(
+      "<div><h2>Title</h2>\n<p>Hello  <i>brave</i>\n new world</p></div>",
+      "html",
+    ).body;
+    const position = positionAtTextOffset(rendered, offset);
+    expect(position?.node.textContent).toBe("brave");
+    expect(position?.offset).toBe(1);
+    expect(positionAtTextOffset(rendered, 1000)).toBeUndefined();
+  });
+});
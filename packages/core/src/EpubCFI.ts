@@ -0,0 +1,440 @@
+import type { DOMFile } from "./DOMFile";
+import type { EPub } from "./Epub";
+
+/**
+ * EPUB Canonical Fragment Identifiers
+ * (https://idpf.org/epub/linking/cfi/epub-cfi.html)
+ *
+ * A CFI such as `epubcfi(/6/4[ch1]!/4/10[para5]/3:10)` walks from the
+ * package document to a spine itemref (`/6/4`), then through the content
+ * document: even steps select the n/2-th child element, odd steps the text
+ * between elements, and `:10` is a character offset.
+ */
+
+export interface CFIStep {
+  index: number;
+  /** Id assertion, used to recover when the document changed */
+  id?: string;
+}
+
+export interface CFILocation {
+  steps: CFIStep[];
+  offset?: number;
+}
+
+export interface ParsedCFI {
+  /** Steps through the package document to the spine itemref */
+  spine: CFIStep[];
+  /** Steps inside the content document; the common parent for ranges */
+  path: CFILocation;
+  /** Start and end, relative to `path`, when the CFI is a range */
+  range?: { start: CFILocation; end: CFILocation };
+}
+
+export interface DOMPosition {
+  node: Node;
+  offset: number;
+}
+
+/** Range endpoints in the shape of a DOM Range */
+export interface DOMRangeLike {
+  startContainer: Node;
+  startOffset: number;
+  endContainer: Node;
+  endOffset: number;
+}
+
+export interface ResolvedCFI {
+  /** Absolute path of the spine item */
+  path: string;
+  /** Index among all itemrefs, as in `EPub.spine(false)` */
+  spineIndex: number;
+  chapter: DOMFile;
+  start: DOMPosition;
+  end?: DOMPosition;
+}
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+
+function isText(node: Node): boolean {
+  return node.nodeType === TEXT_NODE || node.nodeType === CDATA_SECTION_NODE;
+}
+
+function escapeAssertion(value: string): string {
+  return value.replace(/[\^[\](),;=]/g, "^$&");
+}
+
+function formatLocation(location: CFILocation): string {
+  const steps = location.steps
+    .map(
+      (step) =>
+        `/${step.index}${step.id ? `[${escapeAssertion(step.id)}]` : ""}`,
+    )
+    .join("");
+  return location.offset === undefined ? steps : `${steps}:${location.offset}`;
+}
+
+/**
+ * Serialize a parsed CFI back to its `epubcfi(...)` form
+ */
+export function formatCFI(cfi: ParsedCFI): string {
+  const spine = formatLocation({ steps: cfi.spine });
+  let body = `${spine}!${formatLocation(cfi.path)}`;
+  if (cfi.range) {
+    body += `,${formatLocation(cfi.range.start)},${formatLocation(cfi.range.end)}`;
+  }
+  return `epubcfi(${body})`;
+}
+
+/**
+ * Split on a separator outside assertions, honouring `^` escapes
+ */
+function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i] ?? "";
+    if (char === "^") {
+      current += char + (value[i + 1] ?? "");
+      i++;
+      continue;
+    }
+    if (char === "[") depth++;
+    if (char === "]") depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+const STEP_RE = /^\/(\d+)(?:\[((?:\^.|[^\]])*)\])?/;
+const OFFSET_RE = /^:(\d+)(?:\[(?:\^.|[^\]])*\])?/;
+
+function parseLocation(value: string, cfi: string): CFILocation {
+  const location: CFILocation = { steps: [] };
+  let rest = value;
+  while (rest.startsWith("/")) {
+    const match = STEP_RE.exec(rest);
+    if (!match) throw new Error(`Invalid CFI step in ${cfi}`);
+    const step: CFIStep = { index: Number(match[1]) };
+    if (match[2]) step.id = match[2].replace(/\^(.)/g, "$1");
+    location.steps.push(step);
+    rest = rest.slice(match[0].length);
+  }
+  const offset = OFFSET_RE.exec(rest);
+  if (offset) {
+    location.offset = Number(offset[1]);
+    rest = rest.slice(offset[0].length);
+  }
+  // Temporal (~) and spatial (@) offsets are accepted and ignored
+  if (rest && !/^[~@]/.test(rest)) {
+    throw new Error(`Invalid CFI: ${cfi}`);
+  }
+  return location;
+}
+
+/**
+ * Parse an `epubcfi(...)` string
+ */
+export function parseCFI(cfi: string): ParsedCFI {
+  const match = /^epubcfi\((.*)\)$/.exec(cfi.trim());
+  if (!match?.[1]) throw new Error(`Invalid CFI: ${cfi}`);
+
+  const [parent = "", start, end] = splitTopLevel(match[1], ",");
+  const [spinePart = "", ...contentParts] = splitTopLevel(parent, "!");
+  if (contentParts.length > 1) {
+    throw new Error(`Nested indirection is not supported: ${cfi}`);
+  }
+
+  const parsed: ParsedCFI = {
+    spine: parseLocation(spinePart, cfi).steps,
+    path: parseLocation(contentParts[0] ?? "", cfi),
+  };
+  if (start !== undefined && end !== undefined) {
+    parsed.range = {
+      start: parseLocation(start, cfi),
+      end: parseLocation(end, cfi),
+    };
+  }
+  return parsed;
+}
+
+/**
+ * Order two CFIs by document position; negative when `a` comes first
+ */
+export function compareCFI(a: string, b: string): number {
+  const flatten = (cfi: ParsedCFI): number[] => {
+    const start = cfi.range?.start;
+    const steps = [...cfi.spine, ...cfi.path.steps, ...(start?.steps ?? [])];
+    const offset = start ? start.offset : cfi.path.offset;
+    return [...steps.map((s) => s.index), offset ?? -1];
+  };
+  const left = flatten(parseCFI(a));
+  const right = flatten(parseCFI(b));
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return left.length - right.length;
+}
+
+/**
+ * Steps from the document element down to `el`
+ */
+function elementSteps(el: Element): CFIStep[] {
+  const steps: CFIStep[] = [];
+  let current: Element = el;
+  while (current.parentElement) {
+    const index = Array.from(current.parentElement.children).indexOf(current);
+    const step: CFIStep = { index: (index + 1) * 2 };
+    const id = current.getAttribute("id");
+    if (id) step.id = id;
+    steps.unshift(step);
+    current = current.parentElement;
+  }
+  return steps;
+}
+
+/**
+ * CFI location of a DOM position, using DOM Range semantics: `offset` is a
+ * character offset in text nodes and a child index in elements. An element
+ * without an offset is located itself.
+ */
+export function locationOf(node: Node, offset?: number): CFILocation {
+  let target = node;
+  let charOffset = offset ?? 0;
+
+  if (target.nodeType === ELEMENT_NODE && offset === undefined) {
+    return { steps: elementSteps(target as Element) };
+  }
+  if (target.nodeType === ELEMENT_NODE) {
+    const el = target as Element;
+    const child = el.childNodes[charOffset];
+    if (!child) {
+      // After the last child: the end of the trailing text
+      let trailing = 0;
+      for (let n = el.lastChild; n && n.nodeType !== ELEMENT_NODE; ) {
+        if (isText(n)) trailing += n.textContent?.length ?? 0;
+        n = n.previousSibling;
+      }
+      return {
+        steps: [...elementSteps(el), { index: el.childElementCount * 2 + 1 }],
+        offset: trailing,
+      };
+    }
+    if (child.nodeType === ELEMENT_NODE) {
+      return { steps: elementSteps(child as Element) };
+    }
+    target = child;
+    charOffset = 0;
+  }
+
+  const parent = target.parentElement;
+  if (!parent) throw new Error("Cannot locate a node outside an element");
+
+  // Text steps count the elements before them; adjacent text nodes form
+  // one logical text run
+  let elementsBefore = 0;
+  let runOffset = 0;
+  for (let n = parent.firstChild; n && n !== target; n = n.nextSibling) {
+    if (n.nodeType === ELEMENT_NODE) {
+      elementsBefore++;
+      runOffset = 0;
+    } else if (isText(n)) {
+      runOffset += n.textContent?.length ?? 0;
+    }
+  }
+  return {
+    steps: [...elementSteps(parent), { index: elementsBefore * 2 + 1 }],
+    offset: runOffset + (isText(target) ? charOffset : 0),
+  };
+}
+
+function findById(doc: Document, id: string): Element | null {
+  // getElementById is unreliable for XML documents without a DTD
+  return (
+    doc.getElementById(id) ??
+    Array.from(doc.querySelectorAll("[id]")).find(
+      (el) => el.getAttribute("id") === id,
+    ) ??
+    null
+  );
+}
+
+function textRunPosition(
+  parent: Element,
+  elementsBefore: number,
+  offset: number,
+): DOMPosition {
+  let seen = 0;
+  let remaining = offset;
+  let last: Node | null = null;
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === ELEMENT_NODE) {
+      if (seen === elementsBefore) break;
+      seen++;
+      continue;
+    }
+    if (seen !== elementsBefore || !isText(child)) continue;
+    const length = child.textContent?.length ?? 0;
+    if (remaining <= length) return { node: child, offset: remaining };
+    remaining -= length;
+    last = child;
+  }
+  // Offsets past the run clamp to its end
+  if (last) return { node: last, offset: last.textContent?.length ?? 0 };
+
+  // No text here: point between the surrounding elements
+  const next = parent.children[elementsBefore];
+  const index = next
+    ? Array.from(parent.childNodes).indexOf(next)
+    : parent.childNodes.length;
+  return { node: parent, offset: index };
+}
+
+/**
+ * Resolve a location against a document, starting at `root` (the document
+ * element by default). Id assertions win over indexes when they disagree.
+ */
+export function resolveLocation(
+  doc: Document,
+  location: CFILocation,
+  root: Element = doc.documentElement,
+): DOMPosition {
+  let el = root;
+  for (const step of location.steps) {
+    if (step.index % 2 === 1) {
+      return textRunPosition(el, (step.index - 1) / 2, location.offset ?? 0);
+    }
+    let child: Element | null = el.children[step.index / 2 - 1] ?? null;
+    if (step.id && child?.getAttribute("id") !== step.id) {
+      child = findById(doc, step.id) ?? child;
+    }
+    if (!child) throw new Error(`CFI step /${step.index} not found`);
+    el = child;
+  }
+  return { node: el, offset: location.offset ?? 0 };
+}
+
+/**
+ * Generates and resolves CFIs against the spine of a book
+ */
+export class EpubCFI {
+  constructor(private readonly epub: EPub) {}
+
+  /**
+   * CFI of a position in the spine item at `chapterPath`
+   */
+  generate(chapterPath: string, node: Node, offset?: number): string {
+    return formatCFI({
+      spine: this.spineSteps(chapterPath),
+      path: locationOf(node, offset),
+    });
+  }
+
+  /**
+   * Range CFI (`epubcfi(parent,start,end)`) of a range within one spine item
+   */
+  generateRange(chapterPath: string, range: DOMRangeLike): string {
+    const start = locationOf(range.startContainer, range.startOffset);
+    const end = locationOf(range.endContainer, range.endOffset);
+
+    // The parent path holds the shared element steps; each end keeps at
+    // least its last step
+    let common = 0;
+    const max = Math.min(start.steps.length, end.steps.length) - 1;
+    while (
+      common < max &&
+      start.steps[common]?.index === end.steps[common]?.index
+    ) {
+      common++;
+    }
+
+    return formatCFI({
+      spine: this.spineSteps(chapterPath),
+      path: { steps: start.steps.slice(0, common) },
+      range: {
+        start: { steps: start.steps.slice(common), offset: start.offset },
+        end: { steps: end.steps.slice(common), offset: end.offset },
+      },
+    });
+  }
+
+  /**
+   * Spine item a CFI points into, without loading it
+   */
+  spineTarget(cfi: string): { path: string; spineIndex: number } | undefined {
+    const { spine } = parseCFI(cfi);
+    const spineEl = this.epub.opf.querySelector("spine");
+    const itemStep = spine[1];
+    if (!spineEl || !itemStep) return undefined;
+
+    const itemrefs = Array.from(spineEl.children);
+    let spineIndex = itemStep.index / 2 - 1;
+    const assertion = itemStep.id;
+    if (assertion) {
+      const byAssertion = itemrefs.findIndex(
+        (ref) =>
+          ref.getAttribute("id") === assertion ||
+          ref.getAttribute("idref") === assertion,
+      );
+      if (byAssertion !== -1) spineIndex = byAssertion;
+    }
+
+    const idref = itemrefs[spineIndex]?.getAttribute("idref");
+    const item = this.epub.manifest().find((m) => m.id === idref);
+    return item ? { path: item.path, spineIndex } : undefined;
+  }
+
+  /**
+   * Load the spine item a CFI points into and resolve the position (or
+   * range) in it
+   */
+  async resolve(cfi: string): Promise<ResolvedCFI | undefined> {
+    const target = this.spineTarget(cfi);
+    if (!target) return undefined;
+    const chapter = await this.epub.getChapter(target.path);
+    if (!chapter) return undefined;
+    return { ...target, chapter, ...resolveCFIIn(chapter.dom, cfi) };
+  }
+
+  private spineSteps(chapterPath: string): CFIStep[] {
+    const spineEl = this.epub.opf.querySelector("spine");
+    const item = this.epub.manifestByPath().get(chapterPath);
+    const itemref =
+      item &&
+      spineEl &&
+      Array.from(spineEl.children).find(
+        (ref) => ref.getAttribute("idref") === item.id,
+      );
+    if (!itemref) throw new Error(`Not in the spine: ${chapterPath}`);
+    return elementSteps(itemref);
+  }
+}
+
+/**
+ * Resolve the content-document part of a CFI against an already loaded
+ * spine item
+ */
+export function resolveCFIIn(
+  doc: Document,
+  cfi: string,
+): { start: DOMPosition; end?: DOMPosition } {
+  const parsed = parseCFI(cfi);
+  if (!parsed.range) return { start: resolveLocation(doc, parsed.path) };
+
+  const parent = resolveLocation(doc, parsed.path).node as Element;
+  const within = (location: CFILocation) =>
+    location.steps.length > 0
+      ? resolveLocation(doc, location, parent)
+      : { node: parent, offset: location.offset ?? 0 };
+  return { start: within(parsed.range.start), end: within(parsed.range.end) };
+}
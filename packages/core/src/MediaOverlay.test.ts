@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { parseClockValue } from "./MediaOverlay";
+import { buildOpf, buildXhtml, createMemoryEpub } from "./testUtils";
+
+function buildSmil(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>${body}</body>
+</smil>`;
+}
+
+const MP3 = new Uint8Array([73, 68, 51]);
+
+async function overlayEpub(smil: string) {
+  return createMemoryEpub({
+    "OEBPS/content.opf": buildOpf({
+      metadata: `<meta property="media:active-class">-epub-media-overlay-active</meta>`,
+      manifest: `
+        <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml" media-overlay="ch1-overlay"/>
+        <item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+        <item id="ch1-overlay" href="smil/ch1.smil" media-type="application/smil+xml"/>
+        <item id="audio" href="audio/ch1.mp3" media-type="audio/mpeg"/>`,
+      spine: `<itemref idref="ch1"/><itemref idref="ch2"/>`,
+    }),
+    "OEBPS/text/ch1.xhtml": buildXhtml(
+      `<p><span id="s1">One.</span> <span id="s2">Two.</span></p>`,
+    ),
+    "OEBPS/text/ch2.xhtml": buildXhtml("<p>Quiet.</p>"),
+    "OEBPS/smil/ch1.smil": smil,
+    "OEBPS/audio/ch1.mp3": MP3,
+  });
+}
+
+describe("parseClockValue", () => {
+  it("reads clock values", () => {
+    expect(parseClockValue("1:02:03.5")).toBe(3723.5);
+    expect(parseClockValue("0:00:01.250")).toBe(1.25);
+    expect(parseClockValue("02:03")).toBe(123);
+  });
+
+  it("reads timecounts", () => {
+    expect(parseClockValue("3.5s")).toBe(3.5);
+    expect(parseClockValue("500ms")).toBe(0.5);
+    expect(parseClockValue("2min")).toBe(120);
+    expect(parseClockValue("1h")).toBe(3600);
+    expect(parseClockValue(" 4.25 ")).toBe(4.25);
+  });
+
+  it("rejects malformed values", () => {
+    expect(parseClockValue("")).toBeNull();
+    expect(parseClockValue("1:2:3")).toBeNull();
+    expect(parseClockValue("soon")).toBeNull();
+  });
+});
+
+describe("EPub.mediaOverlay", () => {
+  it("pairs text fragments with audio clips in reading order", async () => {
+    const epub = await overlayEpub(
+      buildSmil(`
+        <seq epub:textref="../text/ch1.xhtml" epub:type="chapter">
+          <par id="p1">
+            <text src="../text/ch1.xhtml#s1"/>
+            <audio src="../audio/ch1.mp3" clipBegin="0:00:00.000" clipEnd="0:00:01.500"/>
+          </par>
+          <seq>
+            <par id="p2">
+              <text src="../text/ch1.xhtml#s2"/>
+              <audio src="../audio/ch1.mp3" clipBegin="1.5s"/>
+            </par>
+          </seq>
+        </seq>`),
+    );
+
+    expect(await epub.mediaOverlay("/OEBPS/text/ch1.xhtml")).toEqual([
+      {
+        textPath: "/OEBPS/text/ch1.xhtml",
+        fragment: "s1",
+        audioPath: "/OEBPS/audio/ch1.mp3",
+        clipBegin: 0,
+        clipEnd: 1.5,
+      },
+      {
+        textPath: "/OEBPS/text/ch1.xhtml",
+        fragment: "s2",
+        audioPath: "/OEBPS/audio/ch1.mp3",
+        clipBegin: 1.5,
+        clipEnd: null,
+      },
+    ]);
+    expect(epub.mediaOverlayActiveClass()).toBe("-epub-media-overlay-active");
+  });
+
+  it("skips pars without a fragment or audio, and other chapters' text", async () => {
+    const epub = await overlayEpub(
+      buildSmil(`
+        <par><text src="../text/ch1.xhtml"/><audio src="../audio/ch1.mp3"/></par>
+        <par><text src="../text/ch1.xhtml#s1"/></par>
+        <par><text src="../text/ch2.xhtml#x"/><audio src="../audio/ch1.mp3"/></par>
+        <par><text src="../text/ch1.xhtml#s2"/><audio src="../audio/ch1.mp3" clipBegin="2s" clipEnd="3s"/></par>`),
+    );
+
+    const clips = await epub.mediaOverlay("/OEBPS/text/ch1.xhtml");
+    expect(clips?.map((clip) => clip.fragment)).toEqual(["s2"]);
+  });
+
+  it("keeps the other pars when a reference is malformed", async () => {
+    const epub = await overlayEpub(
+      buildSmil(`
+        <par><text src="../text/ch1.xhtml#s%1"/><audio src="../audio/ch1.mp3"/></par>
+        <par><text src="../text/ch1.xhtml#s2"/><audio src="../audio/ch%1.mp3"/></par>
+        <par><text src="../text/ch1.xhtml#s1"/><audio src="../audio/ch1.mp3"/></par>`),
+    );
+
+    const clips = await epub.mediaOverlay("/OEBPS/text/ch1.xhtml");
+    expect(clips?.map((clip) => [clip.fragment, clip.audioPath])).toEqual([
+      ["s%1", "/OEBPS/audio/ch1.mp3"],
+      ["s2", "/OEBPS/audio/ch%1.mp3"],
+      ["s1", "/OEBPS/audio/ch1.mp3"],
+    ]);
+  });
+
+  it("returns undefined for chapters without an overlay", async () => {
+    const epub = await overlayEpub(buildSmil(""));
+    expect(await epub.mediaOverlay("/OEBPS/text/ch2.xhtml")).toBeUndefined();
+    expect(epub.manifest().find((m) => m.id === "ch1")?.mediaOverlay).toBe(
+      "ch1-overlay",
+    );
+  });
+});
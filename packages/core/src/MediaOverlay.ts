@@ -0,0 +1,82 @@
+import type { DOMFile } from "./DOMFile";
+import { normalizePath } from "./utils/normalizePath";
+import { safeDecode } from "./utils/safeDecode";
+
+/**
+ * A clip of narration synchronized with an element of a chapter, from a
+ * `<par>` of an EPUB3 media overlay
+ */
+export interface MediaOverlayClip {
+  /** Absolute path of the chapter holding the text */
+  textPath: string;
+  /** Id of the element the clip narrates */
+  fragment: string;
+  /** Absolute path of the audio file */
+  audioPath: string;
+  /** Start of the clip in the audio, in seconds */
+  clipBegin: number;
+  /** End of the clip in the audio, in seconds; null runs to the end */
+  clipEnd: number | null;
+}
+
+const TIMECOUNT_UNITS: Record<string, number> = {
+  h: 3600,
+  min: 60,
+  s: 1,
+  ms: 0.001,
+};
+
+/**
+ * Seconds in a SMIL clock value: a full or partial clock value
+ * (`1:02:03.5`, `02:03.5`) or a timecount (`3.5s`, `500ms`, `2min`, `1h`,
+ * `3.5`). Returns null for anything else.
+ */
+export function parseClockValue(value: string): number | null {
+  const trimmed = value.trim();
+  const clock = /^(?:(\d+):)?(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(trimmed);
+  if (clock) {
+    const [, hours, minutes, seconds] = clock;
+    return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+  const timecount = /^(\d+(?:\.\d+)?)(h|min|s|ms)?$/.exec(trimmed);
+  if (timecount) {
+    const [, count, unit] = timecount;
+    return Number(count) * (TIMECOUNT_UNITS[unit ?? "s"] ?? 1);
+  }
+  return null;
+}
+
+function childNamed(parent: Element, localName: string): Element | undefined {
+  return Array.from(parent.children).find((el) => el.localName === localName);
+}
+
+/**
+ * Clips of a SMIL media overlay document in reading order. Nested `<seq>`s
+ * are flattened; `<par>`s missing a text fragment or audio are skipped.
+ * References with a malformed escape are kept as written, so they only
+ * fail to resolve instead of losing the whole overlay.
+ */
+export function parseMediaOverlay(smil: DOMFile): MediaOverlayClip[] {
+  const clips: MediaOverlayClip[] = [];
+  for (const par of Array.from(smil.dom.querySelectorAll("par"))) {
+    const text = childNamed(par, "text")?.getAttribute("src");
+    const audio = childNamed(par, "audio");
+    const audioSrc = audio?.getAttribute("src");
+    if (!text || !audio || !audioSrc) continue;
+
+    const hashIndex = text.indexOf("#");
+    if (hashIndex < 0) continue;
+    const fragment = safeDecode(text.slice(hashIndex + 1));
+    if (!fragment) continue;
+
+    const clipEnd = audio.getAttribute("clipEnd");
+    clips.push({
+      textPath: normalizePath(smil.base, safeDecode(text.slice(0, hashIndex))),
+      fragment,
+      audioPath: normalizePath(smil.base, safeDecode(audioSrc)),
+      clipBegin: parseClockValue(audio.getAttribute("clipBegin") ?? "") ?? 0,
+      clipEnd: clipEnd ? parseClockValue(clipEnd) : null,
+    });
+  }
+  return clips;
+}
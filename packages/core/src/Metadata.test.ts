@@ -306,6 +306,70 @@ describe("Metadata", () => {
     });
   });
 
+  describe("getSeries", () => {
+    const parse = (inner: string) => {
+      const doc = parseDocument(
+        `<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">${inner}</metadata>`,
+        "xml",
+      );
+      const metadataElement = doc.querySelector("metadata");
+      if (!metadataElement) throw new Error("metadata element not found");
+      return Metadata.fromDom(metadataElement);
+    };
+
+    it("should read EPUB 3 series collections", () => {
+      const metadata = parse(`
+        <dc:title>Abaddon's Gate</dc:title>
+        <meta property="belongs-to-collection" id="c01">The Expanse</meta>
+        <meta refines="#c01" property="collection-type">series</meta>
+        <meta refines="#c01" property="group-position">3</meta>
+      `);
+
+      expect(metadata.getSeries()).toEqual({ name: "The Expanse", index: 3 });
+      expect(
+        metadata.getCollections()[0]?.refinements.get("collection-type"),
+      ).toEqual(["series"]);
+      // Collections don't show up as DC properties
+      expect(Object.keys(metadata.toJSON())).toEqual(["title"]);
+    });
+
+    it("should read Calibre series metas", () => {
+      const metadata = parse(`
+        <dc:title>Caliban's War</dc:title>
+        <meta name="calibre:series" content="The Expanse"/>
+        <meta name="calibre:series_index" content="2.0"/>
+      `);
+
+      expect(metadata.getSeries()).toEqual({ name: "The Expanse", index: 2 });
+      expect(metadata.getNamedMeta("calibre:series_index")).toBe("2.0");
+    });
+
+    it("should prefer typed series over sets and Calibre metas", () => {
+      const metadata = parse(`
+        <meta property="belongs-to-collection" id="set">Boxed Set</meta>
+        <meta refines="#set" property="collection-type">set</meta>
+        <meta name="calibre:series" content="Calibre Series"/>
+        <meta property="belongs-to-collection" id="series">Real Series</meta>
+        <meta refines="#series" property="collection-type">series</meta>
+        <meta refines="#series" property="group-position">1.5</meta>
+      `);
+
+      expect(metadata.getSeries()).toEqual({ name: "Real Series", index: 1.5 });
+    });
+
+    it("should fall back to untyped collections without a position", () => {
+      const metadata = parse(`
+        <meta property="belongs-to-collection">Untyped</meta>
+      `);
+
+      expect(metadata.getSeries()).toEqual({
+        name: "Untyped",
+        index: undefined,
+      });
+      expect(parse("<dc:title>Alone</dc:title>").getSeries()).toBeUndefined();
+    });
+  });
+
   describe("fromXml", () => {
     it("should parse metadata from OPF XML string", () => {
       const opf = `<?xml version="1.0" encoding="UTF-8"?>
@@ -9,10 +9,13 @@
 
   • Every `<dc:* id="…">value</dc:*>` becomes one DCProperty.
   • Every `<meta property="x" refines="#id">value</meta>` turns into a refinement on
-    the DCProperty whose id is that fragment. Meta elements without `refines`
-    (or with an unknown target) are ignored.  
-  • Non-`dc:*` elements (link, meta without refines, etc.) are skipped intentionally;
-    add support as needed.
+    the DCProperty (or collection) whose id is that fragment. Meta elements
+    without `refines` (or with an unknown target) are ignored, except
+    `belongs-to-collection`, which becomes a CollectionProperty.
+  • EPUB 2 style `<meta name="x" content="y"/>` is kept by name (Calibre writes
+    `calibre:series` and `calibre:series_index` this way).
+  • Other non-`dc:*` elements (link, etc.) are skipped intentionally; add
+    support as needed.
 
 */
 import { parseDocument } from "./xmlParser";
@@ -32,9 +35,31 @@ export interface MetaProperty {
   scheme?: string;
 }
 
+/** An EPUB 3 `belongs-to-collection` meta, with its refinements */
+export interface CollectionProperty {
+  name: string;
+  id?: string;
+  refinements: Map<string, string[]>;
+}
+
+export interface SeriesInfo {
+  name: string;
+  /** Position in the series; may be fractional, like 2.5 for a novella */
+  index?: number;
+}
+
+function parseSeriesIndex(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const index = Number.parseFloat(value);
+  return Number.isFinite(index) ? index : undefined;
+}
+
 export class Metadata {
   private propertiesByName: Map<string, DCProperty[]> = new Map();
   private propertiesById: Map<string, DCProperty> = new Map();
+  private collections: CollectionProperty[] = [];
+  private collectionsById: Map<string, CollectionProperty> = new Map();
+  private namedMeta: Map<string, string> = new Map();
 
   /* ---------- public API ---------- */
 
@@ -87,8 +112,15 @@ export class Metadata {
   }
 
   addMeta(meta: MetaProperty): void {
-    if (!meta.refines) return;
-    const target = this.propertiesById.get(meta.refines);
+    if (!meta.refines) {
+      if (meta.property.trim() === "belongs-to-collection") {
+        this.addCollection(meta.value, meta.id);
+      }
+      return;
+    }
+    const target =
+      this.propertiesById.get(meta.refines) ??
+      this.collectionsById.get(meta.refines);
     if (!target) return;
 
     const key = meta.property.trim();
@@ -98,6 +130,54 @@ export class Metadata {
     target.refinements.get(key)?.push(meta.value);
   }
 
+  addCollection(name: string, id?: string): void {
+    const collection: CollectionProperty = { name, id, refinements: new Map() };
+    this.collections.push(collection);
+    if (id) this.collectionsById.set(`#${id}`, collection);
+  }
+
+  /** Record an EPUB 2 `<meta name content>` element */
+  addNamedMeta(name: string, content: string): void {
+    if (!this.namedMeta.has(name)) this.namedMeta.set(name, content);
+  }
+
+  getNamedMeta(name: string): string | undefined {
+    return this.namedMeta.get(name);
+  }
+
+  getCollections(): CollectionProperty[] {
+    return this.collections;
+  }
+
+  /**
+   * The series the book belongs to. Prefers an EPUB 3 collection typed
+   * `series`, then Calibre's `calibre:series`, then an untyped collection.
+   */
+  getSeries(): SeriesInfo | undefined {
+    const typeOf = (collection: CollectionProperty) =>
+      collection.refinements.get("collection-type")?.[0];
+    const fromCollection = (collection: CollectionProperty): SeriesInfo => ({
+      name: collection.name,
+      index: parseSeriesIndex(
+        collection.refinements.get("group-position")?.[0],
+      ),
+    });
+
+    const typed = this.collections.find((c) => typeOf(c) === "series");
+    if (typed) return fromCollection(typed);
+
+    const calibre = this.namedMeta.get("calibre:series")?.trim();
+    if (calibre) {
+      return {
+        name: calibre,
+        index: parseSeriesIndex(this.namedMeta.get("calibre:series_index")),
+      };
+    }
+
+    const untyped = this.collections.find((c) => typeOf(c) === undefined);
+    return untyped ? fromCollection(untyped) : undefined;
+  }
+
   getText(name: string): string | undefined {
     return this.getProperties(name)[0]?.value;
   }
@@ -191,7 +271,12 @@ export class Metadata {
       // <meta>
       if (node.tagName.toLowerCase() === "meta") {
         const property = node.getAttribute("property");
-        if (!property) continue; // ignore plain <meta>
+        if (!property) {
+          const name = node.getAttribute("name");
+          const content = node.getAttribute("content");
+          if (name && content !== null) meta.addNamedMeta(name, content);
+          continue;
+        }
 
         meta.addMeta({
           property,
@@ -1,9 +1,15 @@
 import path from "node:path";
-import { beforeEach, describe, it } from "vitest";
+import { beforeEach, describe, expect, it } from "vitest";
 import { EPub } from "./Epub";
-import type { TableOfContents } from "./TableOfContents";
+import type { NavItem, TableOfContents } from "./TableOfContents";
 import { createTableOfContentsTests } from "./TableOfContents.test.shared";
-import { compareOrUpdateFixture, fetchEpub } from "./testUtils";
+import {
+  buildOpf,
+  buildXhtml,
+  compareOrUpdateFixture,
+  createMemoryEpub,
+  fetchEpub,
+} from "./testUtils";
 
 // Shared tests
 describe(
@@ -43,3 +49,228 @@ describe("TableOfContents - Fixture Tests", () => {
     compareOrUpdateFixture(fixturePath, flatToc);
   });
 });
+
+const CHAPTERS = `
+  <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+  <item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>`;
+const SPINE = `<itemref idref="ch1"/><itemref idref="ch2"/>`;
+
+function epub3(navBody: string): Promise<EPub> {
+  return createMemoryEpub({
+    "OEBPS/content.opf": buildOpf({
+      manifest: `${CHAPTERS}
+        <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+      spine: SPINE,
+    }),
+    "OEBPS/nav.xhtml": buildXhtml(navBody),
+    "OEBPS/text/ch1.xhtml": buildXhtml("<p>One</p>"),
+    "OEBPS/text/ch2.xhtml": buildXhtml("<p>Two</p>"),
+  });
+}
+
+function epub2(ncxBody: string, guide?: string): Promise<EPub> {
+  return createMemoryEpub({
+    "OEBPS/content.opf": buildOpf({
+      manifest: `${CHAPTERS}
+        <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>`,
+      spine: SPINE,
+      guide,
+    }),
+    "OEBPS/toc.ncx": `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <navMap>
+    <navPoint id="n1"><navLabel><text>One</text></navLabel><content src="text/ch1.xhtml"/></navPoint>
+  </navMap>
+  ${ncxBody}
+</ncx>`,
+    "OEBPS/text/ch1.xhtml": buildXhtml("<p>One</p>"),
+    "OEBPS/text/ch2.xhtml": buildXhtml("<p>Two</p>"),
+  });
+}
+
+describe("TableOfContents.pageList", () => {
+  it("reads the EPUB3 page-list nav", async () => {
+    const epub = await epub3(`
+      <nav epub:type="toc"><ol><li><a href="text/ch1.xhtml">One</a></li></ol></nav>
+      <nav epub:type="page-list" hidden="">
+        <ol>
+          <li><a href="text/ch1.xhtml#page_1">1</a></li>
+          <li><a href="text/ch2.xhtml#page%202">2</a></li>
+        </ol>
+      </nav>`);
+
+    expect(await epub.toc.pageList()).toEqual([
+      {
+        label: "1",
+        href: "text/ch1.xhtml#page_1",
+        path: "/OEBPS/text/ch1.xhtml",
+        id: "page_1",
+      },
+      {
+        label: "2",
+        href: "text/ch2.xhtml#page%202",
+        path: "/OEBPS/text/ch2.xhtml",
+        id: "page 2",
+      },
+    ]);
+  });
+
+  it("falls back to the NCX pageList", async () => {
+    const epub = await epub2(`
+      <pageList>
+        <pageTarget id="p1" type="normal" value="1">
+          <navLabel><text>i</text></navLabel><content src="text/ch1.xhtml#pi"/>
+        </pageTarget>
+        <pageTarget id="p2" type="normal" value="137">
+          <navLabel><text>137</text></navLabel><content src="text/ch2.xhtml#p137"/>
+        </pageTarget>
+      </pageList>`);
+
+    const pages = await epub.toc.pageList();
+    expect(pages.map((p) => [p.label, p.path, p.id])).toEqual([
+      ["i", "/OEBPS/text/ch1.xhtml", "pi"],
+      ["137", "/OEBPS/text/ch2.xhtml", "p137"],
+    ]);
+  });
+
+  it("returns nothing when the book has no page list", async () => {
+    const epub = await epub2("");
+    expect(await epub.toc.pageList()).toEqual([]);
+  });
+});
+
+describe("TableOfContents.landmarks", () => {
+  it("reads the EPUB3 landmarks nav", async () => {
+    const epub = await epub3(`
+      <nav epub:type="toc"><ol><li><a href="text/ch1.xhtml">One</a></li></ol></nav>
+      <nav epub:type="landmarks">
+        <ol>
+          <li><a epub:type="cover" href="text/ch1.xhtml">Cover</a></li>
+          <li><a epub:type="bodymatter" href="text/ch2.xhtml#start">Start</a></li>
+        </ol>
+      </nav>`);
+
+    expect(await epub.toc.landmarks()).toEqual([
+      {
+        type: "cover",
+        label: "Cover",
+        href: "text/ch1.xhtml",
+        path: "/OEBPS/text/ch1.xhtml",
+      },
+      {
+        type: "bodymatter",
+        label: "Start",
+        href: "text/ch2.xhtml#start",
+        path: "/OEBPS/text/ch2.xhtml",
+        id: "start",
+      },
+    ]);
+  });
+
+  it("maps EPUB2 guide references onto landmark types", async () => {
+    const epub = await epub2(
+      "",
+      `<reference type="cover" title="Cover" href="text/ch1.xhtml"/>
+       <reference type="text" title="Beginning" href="text/ch2.xhtml"/>`,
+    );
+
+    const landmarks = await epub.toc.landmarks();
+    expect(landmarks.map((l) => [l.type, l.label, l.path])).toEqual([
+      ["cover", "Cover", "/OEBPS/text/ch1.xhtml"],
+      ["bodymatter", "Beginning", "/OEBPS/text/ch2.xhtml"],
+    ]);
+  });
+});
+
+describe("TableOfContents heading fallback", () => {
+  function book(opts: { nav?: string; chapters: string[] }): Promise<EPub> {
+    const files: Record<string, string> = {};
+    const manifest: string[] = [];
+    const spine: string[] = [];
+    opts.chapters.forEach((body, i) => {
+      manifest.push(
+        `<item id="c${i}" href="text/c${i}.xhtml" media-type="application/xhtml+xml"/>`,
+      );
+      spine.push(`<itemref idref="c${i}"/>`);
+      files[`OEBPS/text/c${i}.xhtml`] = buildXhtml(body);
+    });
+    if (opts.nav) {
+      manifest.push(
+        `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+      );
+      files["OEBPS/nav.xhtml"] = buildXhtml(
+        `<nav epub:type="toc"><ol>${opts.nav}</ol></nav>`,
+      );
+    }
+    files["OEBPS/content.opf"] = buildOpf({
+      manifest: manifest.join("\n"),
+      spine: spine.join(""),
+    });
+    return createMemoryEpub(files);
+  }
+
+  const labels = (items: NavItem[]): unknown[] =>
+    items.map((item) =>
+      item.subitems ? [item.label, labels(item.subitems)] : item.label,
+    );
+
+  it("builds a nested TOC from headings when the book has none", async () => {
+    const epub = await book({
+      chapters: [
+        `<h1>Part One</h1><h2 id="c1">Chapter  1</h2><h3>Scene</h3><h2>Chapter 2</h2>`,
+        "<h2>Chapter 3</h2><h5>Too deep</h5><h2> </h2>",
+      ],
+    });
+
+    const items = await epub.toc.navItems();
+    expect(labels(items)).toEqual([
+      ["Part One", [["Chapter 1", ["Scene"]], "Chapter 2"]],
+      "Chapter 3",
+    ]);
+    expect(items[0]?.subitems?.[0]?.path).toBe("/OEBPS/text/c0.xhtml#c1");
+    // Generated ids count h1–h4 in document order
+    expect(items[0]?.path).toBe("/OEBPS/text/c0.xhtml#epubdown-heading-0");
+    expect(items[0]?.subitems?.[1]?.id).toBe("epubdown-heading-3");
+    expect(items[1]?.id).toBe("epubdown-heading-0");
+  });
+
+  it("keeps a publisher TOC unless asked to merge", async () => {
+    const epub = await book({
+      nav: `<li><a href="text/c0.xhtml">Part I</a></li>
+        <li><a href="text/c3.xhtml">Part II</a></li>`,
+      chapters: [
+        "<h1>Part I</h1>",
+        "<h2>One</h2><h3>A</h3>",
+        "<h2>Two</h2>",
+        "<h1>Part II</h1>",
+        "<h2>Three</h2>",
+      ],
+    });
+
+    expect(labels(await epub.toc.navItems())).toEqual(["Part I", "Part II"]);
+    expect(labels(await epub.toc.navItems({ headings: "merge" }))).toEqual([
+      ["Part I", [["One", ["A"]], "Two"]],
+      ["Part II", ["Three"]],
+    ]);
+    // The publisher tree itself is left alone
+    expect(labels(await epub.toc.navItems())).toEqual(["Part I", "Part II"]);
+  });
+
+  it("puts unlisted chapters before the first entry at the top", async () => {
+    const epub = await book({
+      nav: `<li><a href="text/c1.xhtml">Main</a></li>`,
+      chapters: ["<h1>Preface</h1>", "<h1>Main</h1>"],
+    });
+
+    const flat = await epub.toc.flatNavItems({ headings: "merge" });
+    expect(flat.map((item) => [item.label, item.level])).toEqual([
+      ["Preface", 0],
+      ["Main", 0],
+    ]);
+  });
+
+  it("can turn the fallback off", async () => {
+    const epub = await book({ chapters: ["<h1>Only</h1>"] });
+    expect(await epub.toc.navItems({ headings: false })).toEqual([]);
+  });
+});
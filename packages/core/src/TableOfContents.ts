@@ -1,7 +1,9 @@
 import { join } from "node:path";
 import { DOMFile } from "./DOMFile";
 import type { EPub } from "./Epub";
+import { assignHeadingIds } from "./utils/headingIds";
 import { normalizePath } from "./utils/normalizePath";
+import { safeDecode } from "./utils/safeDecode";
 import { parseDocument } from "./xmlParser";
 
 export interface NavItem {
@@ -21,6 +23,45 @@ export interface FlatNavItem {
   parentHref?: string;
 }
 
+export interface PageTarget {
+  /** Print page label, e.g. "137" or "xiv" */
+  label: string;
+  href: string;
+  /** Absolute path of the chapter holding the page break */
+  path: string;
+  /** Fragment id of the page break within the chapter */
+  id?: string;
+}
+
+export interface Landmark {
+  /**
+   * Structural semantic from the EPUB3 vocabulary (cover, toc, bodymatter,
+   * titlepage, ...); EPUB2 guide types are mapped onto it
+   */
+  type: string;
+  label: string;
+  href: string;
+  path: string;
+  id?: string;
+}
+
+export interface NavItemsOptions {
+  /**
+   * Use entries built from chapter h1–h4 headings:
+   * - "fallback" (default): only when the book has no nav document or NCX
+   * - "merge": also nest them into the publisher TOC under the entry that
+   *   precedes them, for chapters the publisher TOC does not list
+   * - false: never
+   */
+  headings?: "fallback" | "merge" | false;
+}
+
+// EPUB2 guide reference types whose EPUB3 name differs
+const GUIDE_TYPES: Record<string, string> = {
+  text: "bodymatter",
+  "title-page": "titlepage",
+};
+
 export class TableOfContents {
   constructor(private readonly epub: EPub) {}
 
@@ -147,9 +188,23 @@ export class TableOfContents {
   }
 
   /**
-   * Parse the table of contents and return nested navigation items
+   * Parse the table of contents and return nested navigation items,
+   * synthesized from chapter headings when the book has none
    */
-  async navItems(): Promise<NavItem[]> {
+  async navItems(options?: NavItemsOptions): Promise<NavItem[]> {
+    const mode = options?.headings ?? "fallback";
+    const publisherItems = await this.publisherNavItems();
+
+    if (mode === "merge" && publisherItems.length > 0) {
+      return this.mergeHeadingNavItems(publisherItems);
+    }
+    if (mode !== false && publisherItems.length === 0) {
+      return this.headingNavItems();
+    }
+    return publisherItems;
+  }
+
+  private async publisherNavItems(): Promise<NavItem[]> {
     const tocFile = await this.html();
     if (!tocFile) {
       return [];
@@ -219,8 +274,8 @@ export class TableOfContents {
    * Parse the table of contents and return a flattened array of navigation items
    * Each item includes its hierarchical level and parent reference
    */
-  async flatNavItems(): Promise<FlatNavItem[]> {
-    const navItems = await this.navItems();
+  async flatNavItems(options?: NavItemsOptions): Promise<FlatNavItem[]> {
+    const navItems = await this.navItems(options);
 
     const flattenNavItems = (
       items: NavItem[],
@@ -256,6 +311,116 @@ export class TableOfContents {
     return flattenNavItems(navItems);
   }
 
+  /**
+   * Build navigation items from the h1–h4 headings of every spine chapter,
+   * nested by heading level. Headings without an id link to the id that
+   * `assignHeadingIds` gives them.
+   */
+  async headingNavItems(): Promise<NavItem[]> {
+    const items: NavItem[] = [];
+    for await (const chapter of this.epub.chapters()) {
+      items.push(...this.chapterHeadingItems(chapter));
+    }
+    return items;
+  }
+
+  private chapterHeadingItems(chapter: DOMFile): NavItem[] {
+    const roots: NavItem[] = [];
+    // Open headings by level, to find the parent of the next one
+    const stack: { level: number; item: NavItem }[] = [];
+
+    for (const heading of assignHeadingIds(chapter.dom)) {
+      const label = (heading.textContent ?? "").replace(/\s+/g, " ").trim();
+      if (!label) continue;
+
+      const id = heading.getAttribute("id") ?? "";
+      const path = `${chapter.path}#${id}`;
+      const item: NavItem = { id, href: path, path, label };
+      const level = Number(heading.localName.slice(1));
+
+      while (stack.length > 0 && (stack.at(-1)?.level ?? 0) >= level) {
+        stack.pop();
+      }
+      const parent = stack.at(-1)?.item;
+      if (parent) {
+        parent.subitems = [...(parent.subitems ?? []), item];
+      } else {
+        roots.push(item);
+      }
+      stack.push({ level, item });
+    }
+    return roots;
+  }
+
+  /**
+   * Nest heading entries for chapters missing from a sparse publisher TOC
+   * (e.g. one listing only parts) under the entry that precedes them in
+   * reading order
+   */
+  private async mergeHeadingNavItems(
+    publisherItems: NavItem[],
+  ): Promise<NavItem[]> {
+    const chapters: DOMFile[] = [];
+    for await (const chapter of this.epub.chapters()) {
+      chapters.push(chapter);
+    }
+    const spineIndex = new Map(chapters.map((c, i) => [c.path, i]));
+    const chapterIndexOf = (item: NavItem) =>
+      spineIndex.get(item.path.split("#")[0] ?? "") ?? -1;
+
+    // Copy the publisher tree so merging does not alias its subitem arrays
+    const copy = (items: NavItem[]): NavItem[] =>
+      items.map((item) => ({
+        ...item,
+        ...(item.subitems && { subitems: copy(item.subitems) }),
+      }));
+    const merged = copy(publisherItems);
+
+    // Publisher entries in document order, depth first
+    const ordered: NavItem[] = [];
+    const visit = (items: NavItem[]) => {
+      for (const item of items) {
+        ordered.push(item);
+        if (item.subitems) visit(item.subitems);
+      }
+    };
+    visit(merged);
+    const listed = new Set(ordered.map(chapterIndexOf));
+
+    chapters.forEach((chapter, index) => {
+      if (listed.has(index)) return;
+      const headings = this.chapterHeadingItems(chapter);
+      if (headings.length === 0) return;
+
+      // The first entry for the nearest earlier listed chapter owns it
+      let owner: NavItem | undefined;
+      let ownerIndex = -1;
+      for (const item of ordered) {
+        const itemIndex = chapterIndexOf(item);
+        if (itemIndex < index && itemIndex > ownerIndex) {
+          owner = item;
+          ownerIndex = itemIndex;
+        }
+      }
+
+      if (owner) {
+        owner.subitems = [...(owner.subitems ?? []), ...headings];
+      } else {
+        // Chapters before the first listed one go in front, in spine order
+        const firstListed = merged.findIndex(
+          (item) => chapterIndexOf(item) > index,
+        );
+        merged.splice(
+          firstListed === -1 ? merged.length : firstListed,
+          0,
+          ...headings,
+        );
+      }
+    });
+
+    return merged;
+  }
+
   /**
    * Extract all anchor links from the table of contents
    * Returns a Map where keys are resolved file paths and values are Sets of anchor IDs
@@ -307,4 +472,102 @@ export class TableOfContents {
 
     return anchorMap;
   }
+
+  /**
+   * Print page labels mapped to their locations in the book, from the EPUB3
+   * `page-list` nav, falling back to the NCX `pageList`
+   */
+  async pageList(): Promise<PageTarget[]> {
+    const navFile = await this.nav();
+    const pageNav = navFile?.querySelectorNamespaced(
+      "nav",
+      'type="page-list"',
+      "epub",
+    );
+    if (navFile && pageNav) {
+      return Array.from(pageNav.querySelectorAll("a[href]")).map((link) =>
+        this.target(
+          navFile,
+          link.getAttribute("href") ?? "",
+          link.textContent?.trim() ?? "",
+        ),
+      );
+    }
+
+    const ncxFile = await this.ncx();
+    if (!ncxFile) return [];
+    return Array.from(ncxFile.dom.querySelectorAll("pageList pageTarget"))
+      .map((pageTarget) => {
+        const label =
+          pageTarget.querySelector("navLabel text")?.textContent?.trim() ||
+          pageTarget.getAttribute("value") ||
+          "";
+        const src =
+          pageTarget.querySelector("content")?.getAttribute("src") ?? "";
+        return this.target(ncxFile, src, label);
+      })
+      .filter((page) => page.href);
+  }
+
+  /**
+   * Structural landmarks (cover, toc, bodymatter, ...), from the EPUB3
+   * `landmarks` nav, falling back to the EPUB2 OPF guide
+   */
+  async landmarks(): Promise<Landmark[]> {
+    const navFile = await this.nav();
+    const landmarksNav = navFile?.querySelectorNamespaced(
+      "nav",
+      'type="landmarks"',
+      "epub",
+    );
+    if (navFile && landmarksNav) {
+      return Array.from(landmarksNav.querySelectorAll("a[href]")).flatMap(
+        (link) => {
+          const type =
+            link.getAttribute("epub:type") ??
+            link.getAttributeNS("http://www.idpf.org/2007/ops", "type") ??
+            "";
+          const target = this.target(
+            navFile,
+            link.getAttribute("href") ?? "",
+            link.textContent?.trim() ?? "",
+          );
+          // epub:type may hold several space-separated semantics
+          return type
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((t) => ({ type: t, ...target }));
+        },
+      );
+    }
+
+    return Array.from(this.epub.opf.querySelectorAll("guide reference"))
+      .map((reference) => {
+        const type = reference.getAttribute("type")?.trim() ?? "";
+        const target = this.target(
+          this.epub.opf,
+          reference.getAttribute("href") ?? "",
+          reference.getAttribute("title")?.trim() ?? "",
+        );
+        return { type: GUIDE_TYPES[type] ?? type, ...target };
+      })
+      .filter((landmark) => landmark.type && landmark.href);
+  }
+
+  /**
+   * Resolve an href relative to the document it appears in
+   */
+  private target(file: DOMFile, href: string, label: string): PageTarget {
+    const fragmentIndex = href.indexOf("#");
+    const id =
+      fragmentIndex !== -1 ? href.substring(fragmentIndex + 1) : undefined;
+    const filePart = fragmentIndex !== -1 ? href.slice(0, fragmentIndex) : href;
+    const path = filePart
+      ? normalizePath(file.base, safeDecode(filePart))
+      : file.path;
+
+    const target: PageTarget = { label, href, path };
+    if (id) target.id = safeDecode(id);
+    return target;
+  }
 }
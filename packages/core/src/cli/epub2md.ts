@@ -0,0 +1,137 @@
+#!/usr/bin/env bun
+import fs from "node:fs/promises";
+import path from "node:path";
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
+import { EPub } from "../Epub";
+import { loadPlugins } from "./loadPlugins";
+
+interface Args {
+  _: string[];
+  output?: string;
+  split?: boolean;
+  imageDir?: string;
+  toc?: boolean;
+  footnotes?: boolean;
+  plugin?: string[];
+  disable?: string[];
+  [x: string]: unknown;
+}
+
+async function exportEpub(inputPath: string, argv: Args) {
+  const data = await fs.readFile(inputPath);
+  const epub = await EPub.fromZip(data);
+  const book = await epub.bookMarkdown({
+    split: argv.split,
+    imageDir: argv.imageDir,
+    toc: argv.toc,
+    footnotes: argv.footnotes,
+    plugins: await loadPlugins(argv.plugin),
+    disablePlugins: argv.disable,
+  });
+
+  const stem = path.basename(inputPath, path.extname(inputPath));
+  const inputDir = path.dirname(inputPath);
+
+  // Single document: -o names the .md file; split: -o names the directory
+  let outputDir: string;
+  if (argv.split) {
+    outputDir = argv.output ?? path.join(inputDir, `${stem}.md`);
+    for (const file of book.files) {
+      await writeOutput(path.join(outputDir, file.name), file.content);
+    }
+  } else {
+    const outputFile = argv.output ?? path.join(inputDir, `${stem}.md`);
+    outputDir = path.dirname(outputFile);
+    await writeOutput(outputFile, book.files[0]?.content ?? "");
+  }
+
+  for (const asset of book.assets) {
+    const bytes = await epub.resolver.readRaw(asset.path);
+    if (!bytes) {
+      console.warn(`Missing asset: ${asset.path}`);
+      continue;
+    }
+    await writeOutput(path.join(outputDir, asset.name), bytes);
+  }
+
+  console.log(
+    `Wrote ${book.files.length} Markdown file(s) and ${book.assets.length} asset(s) for "${book.title}"`,
+  );
+}
+
+async function writeOutput(filePath: string, content: string | Uint8Array) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+}
+
+async function main() {
+  const argv = (await yargs(hideBin(process.argv))
+    .usage("Usage: $0 <input.epub> [options]")
+    .positional("input", {
+      describe: "Path to the EPUB file to convert",
+      type: "string",
+    })
+    .option("output", {
+      alias: "o",
+      type: "string",
+      description:
+        "Output Markdown file, or output directory with --split. Defaults to <input>.md next to the EPUB.",
+    })
+    .option("split", {
+      alias: "s",
+      type: "boolean",
+      description: "Write one Markdown file per chapter plus an index.md",
+      default: false,
+    })
+    .option("imageDir", {
+      type: "string",
+      description: "Directory (relative to the output) for extracted images",
+      default: "images",
+    })
+    .option("toc", {
+      type: "boolean",
+      description: "Include the table of contents as a front index",
+      default: true,
+    })
+    .option("footnotes", {
+      type: "boolean",
+      description:
+        "Turn note references into Markdown footnotes with inlined definitions",
+      default: false,
+    })
+    .option("plugin", {
+      type: "string",
+      array: true,
+      description:
+        "Module exporting a conversion plugin (or an array of them); repeatable",
+    })
+    .option("disable", {
+      type: "string",
+      array: true,
+      description:
+        "Name of a conversion plugin to skip, e.g. headings or tables; repeatable",
+    })
+    .demandCommand(1, "Please provide an input EPUB")
+    .help()
+    .alias("help", "h")
+    .parse()) as Args;
+
+  const inputPath = argv._[0];
+  if (!inputPath) {
+    console.error("Error: No input path provided");
+    process.exit(1);
+  }
+
+  try {
+    await exportEpub(inputPath, argv);
+  } catch (error) {
+    console.error(`Error converting ${inputPath}:`, error);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
@@ -6,6 +6,7 @@ import { hideBin } from "yargs/helpers";
 import { ContentToMarkdown } from "../ContentToMarkdown";
 import { DOMFile } from "../DOMFile";
 import { parseDocument } from "../xmlParser";
+import { loadPlugins } from "./loadPlugins";
 
 const argv = yargs(hideBin(process.argv))
   .usage("Usage: $0 [options]")
@@ -19,6 +20,17 @@ const argv = yargs(hideBin(process.argv))
     type: "string",
     description: "Output markdown file path",
   })
+  .option("plugin", {
+    type: "string",
+    array: true,
+    description:
+      "Module exporting a conversion plugin (or an array of them); repeatable",
+  })
+  .option("disable", {
+    type: "string",
+    array: true,
+    description: "Name of a conversion plugin to skip; repeatable",
+  })
   .help()
   .alias("help", "h")
   .parseSync();
@@ -44,7 +56,10 @@ async function main() {
       dom,
       "html",
     );
-    const converter = ContentToMarkdown.create();
+    const converter = ContentToMarkdown.create({
+      plugins: await loadPlugins(argv.plugin),
+      disablePlugins: argv.disable,
+    });
     const markdown = await converter.convertXMLFile(xmlFile);
 
     // Output the result
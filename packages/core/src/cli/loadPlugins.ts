@@ -0,0 +1,28 @@
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { ConversionPlugin } from "../ContentToMarkdown";
+
+/**
+ * Load conversion plugins from module paths given on the command line.
+ * Each module default-exports a plugin or an array of plugins.
+ */
+export async function loadPlugins(
+  modulePaths: string[] = [],
+): Promise<ConversionPlugin[]> {
+  const plugins: ConversionPlugin[] = [];
+  for (const modulePath of modulePaths) {
+    const url = pathToFileURL(path.resolve(modulePath)).href;
+    const mod = await import(url);
+    const exported: unknown = mod.default ?? mod.plugins;
+    const list = Array.isArray(exported) ? exported : [exported];
+    for (const plugin of list) {
+      if (!plugin || typeof (plugin as ConversionPlugin).name !== "string") {
+        throw new Error(
+          `${modulePath} must default-export a conversion plugin or an array of plugins`,
+        );
+      }
+      plugins.push(plugin as ConversionPlugin);
+    }
+  }
+  return plugins;
+}
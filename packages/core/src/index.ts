@@ -1,23 +1,82 @@
 // Main EPub classes
 export { EPub } from "./Epub";
-export type { ManifestItem } from "./Epub";
+export type { EPubCover, ManifestItem } from "./Epub";
 export { DOMFile } from "./DOMFile";
 export type { ContentType } from "./DOMFile";
 export { Metadata } from "./Metadata";
 export type {
   Metadata as MetadataType,
+  CollectionProperty,
   DCProperty,
   MetaProperty,
+  SeriesInfo,
 } from "./Metadata";
 export { TableOfContents } from "./TableOfContents";
-export type { NavItem, FlatNavItem } from "./TableOfContents";
+export type {
+  FlatNavItem,
+  Landmark,
+  NavItem,
+  NavItemsOptions,
+  PageTarget,
+} from "./TableOfContents";
+export {
+  EpubCFI,
+  compareCFI,
+  formatCFI,
+  locationOf,
+  parseCFI,
+  resolveCFIIn,
+  resolveLocation,
+} from "./EpubCFI";
+export type {
+  CFILocation,
+  CFIStep,
+  DOMPosition,
+  DOMRangeLike,
+  ParsedCFI,
+  ResolvedCFI,
+} from "./EpubCFI";
+export { parseClockValue, parseMediaOverlay } from "./MediaOverlay";
+export type { MediaOverlayClip } from "./MediaOverlay";
+export { BookSearch } from "./BookSearch";
+export type {
+  ChapterSearchResult,
+  SearchHit,
+  SearchOptions,
+} from "./BookSearch";
 
 // Content conversion
-export { ContentToMarkdown } from "./ContentToMarkdown";
-export type { ConversionOptions } from "./ContentToMarkdown";
+export {
+  BUILTIN_PLUGIN_ORDER,
+  ContentToMarkdown,
+} from "./ContentToMarkdown";
+export type {
+  BuiltinPluginName,
+  ConversionOptions,
+  ConversionPlugin,
+  FootnoteOptions,
+} from "./ContentToMarkdown";
+export { BookToMarkdown } from "./BookToMarkdown";
+export type {
+  BookMarkdown,
+  BookMarkdownAsset,
+  BookMarkdownFile,
+  BookMarkdownOptions,
+} from "./BookToMarkdown";
 
 // XML parsing utilities
 export { parseDocument } from "./xmlParser";
 
 // Path utilities
 export { normalizePath } from "./utils/normalizePath";
+
+// Heading ids shared by synthesized tables of contents and renderers
+export { assignHeadingIds } from "./utils/headingIds";
+
+// Whitespace-insensitive text positions, for mapping between a chapter's
+// source and its rendered form
+export {
+  extractText,
+  positionAtTextOffset,
+  textOffsetOf,
+} from "./utils/textOffsets";
@@ -0,0 +1,246 @@
+import type TurndownService from "turndown";
+import type { DOMFile } from "../DOMFile";
+import { normalizePath } from "../utils/normalizePath";
+import { safeDecode } from "../utils/safeDecode";
+
+const OPS_NS = "http://www.idpf.org/2007/ops";
+const NOTE_TYPES = ["footnote", "endnote", "rearnote", "note"];
+const BLOCK_NAMES = new Set(["aside", "li", "p", "div", "section", "dd"]);
+
+// Marker attribute carried by the placeholder that replaces a noteref
+const REF_ATTR = "data-footnote-ref";
+const BACKLINK_TEXT = /^(\[?\d+\]?\.?|↩\uFE0E?|↑|\^|back)$/i;
+// Text of an element that only labels the note, e.g. `<span>1.</span>`
+const LABEL_TEXT = /^([[(]?\d{1,3}[.)\]]?|[*†‡§]+)$/;
+
+export type ResolveDocument = (absPath: string) => Promise<DOMFile | undefined>;
+
+export interface Footnote {
+  label: string;
+  /** Element holding the note body; may belong to another document */
+  element: Element;
+  /** The document the note lives in, for resolving its relative links */
+  file: DOMFile;
+}
+
+function tagName(node: Node): string {
+  return node.nodeName.toLowerCase();
+}
+
+function epubTypes(el: Element): string[] {
+  const value =
+    el.getAttribute("epub:type") ?? el.getAttributeNS(OPS_NS, "type") ?? "";
+  return value.split(/\s+/).filter(Boolean);
+}
+
+function isNoteElement(el: Element): boolean {
+  return epubTypes(el).some((t) => NOTE_TYPES.includes(t));
+}
+
+/**
+ * EPUB2 books mark notes with superscript links instead of epub:type:
+ * `<sup><a href="notes.xhtml#n1">1</a></sup>` or `<a href="#n1"><sup>1</sup></a>`
+ */
+function isSuperscriptRef(link: Element): boolean {
+  const parent = link.parentElement;
+  const wrapped =
+    !!parent &&
+    tagName(parent) === "sup" &&
+    (parent.textContent ?? "").trim() === (link.textContent ?? "").trim();
+  const wraps = Array.from(link.children).some((c) => tagName(c) === "sup");
+  const text = (link.textContent ?? "").trim();
+  return (wrapped || wraps) && text.length > 0 && text.length <= 4;
+}
+
+/**
+ * The block holding the note text. EPUB2 notes often target an empty
+ * `<a id>` inside the paragraph that carries the note.
+ */
+function noteBody(target: Element): Element {
+  if (BLOCK_NAMES.has(tagName(target)) || isNoteElement(target)) {
+    return target;
+  }
+  let el: Element | null = target;
+  while (el && !BLOCK_NAMES.has(tagName(el))) {
+    el = el.parentElement;
+  }
+  return el ?? target;
+}
+
+function resolveAgainst(file: DOMFile, href: string): string {
+  if (/^([a-z][a-z0-9+.-]*:|\/)/i.test(href)) return href;
+  return normalizePath(file.base, href);
+}
+
+function findById(doc: Document, id: string): Element | null {
+  // getElementById is unreliable for XML documents without a DTD
+  return (
+    doc.getElementById(id) ??
+    Array.from(doc.querySelectorAll("[id]")).find(
+      (el) => el.getAttribute("id") === id,
+    ) ??
+    null
+  );
+}
+
+function firstText(node: Node): Text | null {
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === 3) {
+      if ((child.nodeValue ?? "").trim()) return child as Text;
+    } else if (child.nodeType === 1) {
+      const text = firstText(child);
+      if (text) return text;
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove the note's own label from the start of its body: an inline
+ * element holding only the number, and the brackets or period left
+ * around a removed backlink. Text that merely starts with a number stays.
+ */
+function removeLeadingLabel(body: Element, backlinkRemoved: boolean): void {
+  const text = firstText(body);
+  let label: Element | null = null;
+  for (let el = text?.parentElement; el && el !== body; el = el.parentElement) {
+    if (BLOCK_NAMES.has(tagName(el))) break;
+    if (LABEL_TEXT.test((el.textContent ?? "").trim())) label = el;
+  }
+  label?.remove();
+  if (!label && !backlinkRemoved) return;
+
+  // "[<a>1</a>] Note" leaves "[" and "] Note" behind
+  for (let node = firstText(body); node; node = firstText(body)) {
+    const rest = (node.nodeValue ?? "").replace(/^\s*[[\]().]+(?=\s|$)/, "");
+    if (rest === node.nodeValue) break;
+    node.nodeValue = rest;
+    if (rest.trim()) break;
+    node.remove();
+  }
+}
+
+/**
+ * Replace note references in a chapter with placeholders and collect the
+ * referenced note bodies, loading separate endnote files when needed.
+ * Notes that live in the chapter itself are removed from its body.
+ */
+export async function extractFootnotes(
+  file: DOMFile,
+  resolveDocument?: ResolveDocument,
+  labelPrefix = "",
+): Promise<Footnote[]> {
+  const notes: Footnote[] = [];
+  const labelsByTarget = new Map<string, string>();
+  const documents = new Map<string, DOMFile | undefined>([[file.path, file]]);
+  const localNotes = new Set<Element>();
+
+  for (const link of Array.from(file.dom.querySelectorAll("a[href]"))) {
+    const href = link.getAttribute("href") ?? "";
+    const hashIndex = href.indexOf("#");
+    if (hashIndex < 0) continue;
+
+    const isNoteref = epubTypes(link).includes("noteref");
+    if (!isNoteref && !isSuperscriptRef(link)) continue;
+
+    const rawPath = href.slice(0, hashIndex);
+    const fragment = safeDecode(href.slice(hashIndex + 1));
+    if (!fragment || /^[a-z][a-z0-9+.-]*:/i.test(rawPath)) continue;
+    const targetPath = rawPath
+      ? normalizePath(file.base, safeDecode(rawPath))
+      : file.path;
+
+    if (!documents.has(targetPath)) {
+      documents.set(targetPath, await resolveDocument?.(targetPath));
+    }
+    const noteFile = documents.get(targetPath);
+    const target = noteFile && findById(noteFile.dom, fragment);
+    if (!noteFile || !target) continue;
+
+    const body = noteBody(target);
+    // A link inside the block it points to is the note's own backlink
+    if (body.contains(link)) continue;
+
+    const key = `${targetPath}#${fragment}`;
+    let label = labelsByTarget.get(key);
+    if (!label) {
+      label = `${labelPrefix}${notes.length + 1}`;
+      labelsByTarget.set(key, label);
+      notes.push({ label, element: body, file: noteFile });
+      if (noteFile === file) localNotes.add(body);
+    }
+
+    const placeholder = file.dom.createElement("span");
+    placeholder.setAttribute(REF_ATTR, label);
+    // Turndown drops empty elements before rules run
+    placeholder.textContent = label;
+    const parent = link.parentElement;
+    const replaced =
+      parent && tagName(parent) === "sup" && parent.childElementCount === 1
+        ? parent
+        : link;
+    replaced.replaceWith(placeholder);
+  }
+
+  for (const note of localNotes) {
+    note.remove();
+  }
+  return notes;
+}
+
+/**
+ * Render collected notes as Markdown footnote definitions
+ */
+export function renderFootnoteDefinitions(
+  notes: Footnote[],
+  service: TurndownService,
+  rewrite: {
+    link?: (href: string) => string;
+    image?: (src: string) => string;
+  } = {},
+): string {
+  return notes
+    .map((note) => {
+      const body = note.element.cloneNode(true) as Element;
+      // Drop back-references to the text and make other links absolute
+      let backlinkRemoved = false;
+      for (const a of Array.from(body.querySelectorAll("a[href]"))) {
+        const href = a.getAttribute("href") ?? "";
+        const backlink =
+          epubTypes(a).includes("backlink") ||
+          a.getAttribute("role") === "doc-backlink" ||
+          BACKLINK_TEXT.test((a.textContent ?? "").trim());
+        if (backlink && href.includes("#")) {
+          a.remove();
+          backlinkRemoved = true;
+          continue;
+        }
+        const abs = href.startsWith("#")
+          ? `${note.file.path}${href}`
+          : resolveAgainst(note.file, href);
+        a.setAttribute("href", rewrite.link?.(abs) ?? abs);
+      }
+      for (const img of Array.from(body.querySelectorAll("img[src]"))) {
+        const src = resolveAgainst(note.file, img.getAttribute("src") ?? "");
+        img.setAttribute("src", rewrite.image?.(src) ?? src);
+      }
+      removeLeadingLabel(body, backlinkRemoved);
+
+      const markdown = service.turndown(body as unknown as HTMLElement).trim();
+      // Continuation paragraphs are indented under the definition
+      return `[^${note.label}]: ${markdown.replace(/\n(?=.)/g, "\n    ")}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Turn noteref placeholders into `[^n]` references
+ */
+export function addFootnoteRules(service: TurndownService): void {
+  service.addRule("footnote-ref", {
+    filter: (node) =>
+      node.nodeType === 1 && (node as Element).hasAttribute(REF_ATTR),
+    replacement: (_content, node) =>
+      `[^${(node as Element).getAttribute(REF_ATTR)}]`,
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { parseDocument } from "../xmlParser";
+import { mathmlToLatex } from "./mathml";
+
+function math(inner: string, attrs = ""): Element {
+  const doc = parseDocument(
+    `<math xmlns="http://www.w3.org/1998/Math/MathML"${attrs}>${inner}</math>`,
+    "xml",
+  );
+  return doc.documentElement;
+}
+
+describe("mathmlToLatex", () => {
+  it("converts scripts, fractions and roots", () => {
+    expect(
+      mathmlToLatex(
+        math(
+          "<mfrac><mrow><mo>-</mo><mi>b</mi><mo>±</mo><msqrt><msup><mi>b</mi><mn>2</mn></msup><mo>−</mo><mn>4</mn><mi>a</mi><mi>c</mi></msqrt></mrow><mrow><mn>2</mn><mi>a</mi></mrow></mfrac>",
+        ),
+      ),
+    ).toBe("\\frac{-b\\pm\\sqrt{b^2-4ac}}{2a}");
+    expect(mathmlToLatex(math("<mroot><mi>x</mi><mn>3</mn></mroot>"))).toBe(
+      "\\sqrt[3]{x}",
+    );
+    expect(
+      mathmlToLatex(math("<msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup>")),
+    ).toBe("x_i^2");
+  });
+
+  it("maps symbols, functions and large operators", () => {
+    expect(
+      mathmlToLatex(
+        math(
+          "<munderover><mo>∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><mi>sin</mi><mi>α</mi><mi>x</mi>",
+        ),
+      ),
+    ).toBe("\\sum_{i=1}^n\\sin\\alpha x");
+    expect(mathmlToLatex(math("<mover><mi>v</mi><mo>→</mo></mover>"))).toBe(
+      "\\vec{v}",
+    );
+  });
+
+  it("converts fences and matrices", () => {
+    expect(
+      mathmlToLatex(
+        math(
+          '<mfenced open="[" close="]"><mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>0</mn></mtd></mtr><mtr><mtd><mn>0</mn></mtd><mtd><mn>1</mn></mtd></mtr></mtable></mfenced>',
+        ),
+      ),
+    ).toBe("\\left[\\begin{matrix}1 & 0 \\\\ 0 & 1\\end{matrix}\\right]");
+  });
+
+  it("prefers a TeX annotation when present", () => {
+    expect(
+      mathmlToLatex(
+        math(
+          '<semantics><mi>x</mi><annotation encoding="application/x-tex">\\mathbf{x}</annotation></semantics>',
+        ),
+      ),
+    ).toBe("\\mathbf{x}");
+  });
+
+  it("throws on unsupported elements", () => {
+    expect(() =>
+      mathmlToLatex(
+        math("<mmultiscripts><mi>X</mi><mi>a</mi><none/></mmultiscripts>"),
+      ),
+    ).toThrow(/mmultiscripts/);
+  });
+});
@@ -0,0 +1,421 @@
+import type TurndownService from "turndown";
+
+/** Unicode characters with a dedicated LaTeX command */
+const SYMBOLS: Record<string, string> = {
+  α: "\\alpha",
+  β: "\\beta",
+  γ: "\\gamma",
+  δ: "\\delta",
+  ε: "\\epsilon",
+  ϵ: "\\epsilon",
+  ζ: "\\zeta",
+  η: "\\eta",
+  θ: "\\theta",
+  ϑ: "\\vartheta",
+  ι: "\\iota",
+  κ: "\\kappa",
+  λ: "\\lambda",
+  μ: "\\mu",
+  ν: "\\nu",
+  ξ: "\\xi",
+  π: "\\pi",
+  ρ: "\\rho",
+  σ: "\\sigma",
+  ς: "\\varsigma",
+  τ: "\\tau",
+  υ: "\\upsilon",
+  φ: "\\phi",
+  ϕ: "\\phi",
+  χ: "\\chi",
+  ψ: "\\psi",
+  ω: "\\omega",
+  Γ: "\\Gamma",
+  Δ: "\\Delta",
+  Θ: "\\Theta",
+  Λ: "\\Lambda",
+  Ξ: "\\Xi",
+  Π: "\\Pi",
+  Σ: "\\Sigma",
+  Υ: "\\Upsilon",
+  Φ: "\\Phi",
+  Ψ: "\\Psi",
+  Ω: "\\Omega",
+  "∑": "\\sum",
+  "∏": "\\prod",
+  "∫": "\\int",
+  "∬": "\\iint",
+  "∮": "\\oint",
+  "∞": "\\infty",
+  "∂": "\\partial",
+  "∇": "\\nabla",
+  "±": "\\pm",
+  "∓": "\\mp",
+  "×": "\\times",
+  "÷": "\\div",
+  "·": "\\cdot",
+  "⋅": "\\cdot",
+  "∘": "\\circ",
+  "−": "-",
+  "≤": "\\leq",
+  "≥": "\\geq",
+  "≠": "\\neq",
+  "≈": "\\approx",
+  "≡": "\\equiv",
+  "∼": "\\sim",
+  "≃": "\\simeq",
+  "∝": "\\propto",
+  "≪": "\\ll",
+  "≫": "\\gg",
+  "→": "\\to",
+  "←": "\\leftarrow",
+  "↔": "\\leftrightarrow",
+  "⇒": "\\Rightarrow",
+  "⇐": "\\Leftarrow",
+  "⇔": "\\Leftrightarrow",
+  "↦": "\\mapsto",
+  "∈": "\\in",
+  "∉": "\\notin",
+  "∋": "\\ni",
+  "⊂": "\\subset",
+  "⊃": "\\supset",
+  "⊆": "\\subseteq",
+  "⊇": "\\supseteq",
+  "∪": "\\cup",
+  "∩": "\\cap",
+  "∅": "\\emptyset",
+  "∀": "\\forall",
+  "∃": "\\exists",
+  "¬": "\\neg",
+  "∧": "\\wedge",
+  "∨": "\\vee",
+  "⊕": "\\oplus",
+  "⊗": "\\otimes",
+  "⊥": "\\perp",
+  "∥": "\\parallel",
+  "∠": "\\angle",
+  "°": "^\\circ",
+  "′": "'",
+  "″": "''",
+  "…": "\\ldots",
+  "⋯": "\\cdots",
+  "⋮": "\\vdots",
+  ℝ: "\\mathbb{R}",
+  ℕ: "\\mathbb{N}",
+  ℤ: "\\mathbb{Z}",
+  ℚ: "\\mathbb{Q}",
+  ℂ: "\\mathbb{C}",
+  ℏ: "\\hbar",
+  ℓ: "\\ell",
+  "⟨": "\\langle",
+  "⟩": "\\rangle",
+  "〈": "\\langle",
+  "〉": "\\rangle",
+  "⌊": "\\lfloor",
+  "⌋": "\\rfloor",
+  "⌈": "\\lceil",
+  "⌉": "\\rceil",
+  "{": "\\{",
+  "}": "\\}",
+  "%": "\\%",
+  "#": "\\#",
+  "&": "\\&",
+  $: "\\$",
+  _: "\\_",
+  "⁡": "", // function application
+  "⁢": "", // invisible times
+  "⁣": "", // invisible separator
+};
+
+const FUNCTIONS = new Set([
+  "sin",
+  "cos",
+  "tan",
+  "cot",
+  "sec",
+  "csc",
+  "arcsin",
+  "arccos",
+  "arctan",
+  "sinh",
+  "cosh",
+  "tanh",
+  "log",
+  "ln",
+  "lg",
+  "exp",
+  "lim",
+  "max",
+  "min",
+  "sup",
+  "inf",
+  "det",
+  "dim",
+  "gcd",
+  "deg",
+  "arg",
+  "ker",
+]);
+
+const OVER_ACCENTS: Record<string, string> = {
+  "^": "\\hat",
+  ˆ: "\\hat",
+  "~": "\\tilde",
+  "˜": "\\tilde",
+  "¯": "\\bar",
+  "‾": "\\overline",
+  "→": "\\vec",
+  "⃗": "\\vec",
+  "˙": "\\dot",
+  "¨": "\\ddot",
+  "⏞": "\\overbrace",
+};
+
+const UNDER_ACCENTS: Record<string, string> = {
+  _: "\\underline",
+  "¯": "\\underline",
+  "‾": "\\underline",
+  "⏟": "\\underbrace",
+};
+
+const TEX_ENCODINGS = ["application/x-tex", "tex", "latex"];
+
+class UnsupportedMathError extends Error {}
+
+function name(el: Element): string {
+  return el.localName.toLowerCase();
+}
+
+function children(el: Element): Element[] {
+  return Array.from(el.children);
+}
+
+function symbols(text: string): string {
+  let out = "";
+  for (const ch of text) {
+    const sym = SYMBOLS[ch];
+    if (sym === undefined) {
+      out += ch;
+    } else {
+      // Separate control words from following letters
+      out += /^\\[a-zA-Z]+$/.test(sym) ? `${sym} ` : sym;
+    }
+  }
+  return out.replace(/ +$/, "");
+}
+
+function group(tex: string): string {
+  return tex.length === 1 ? tex : `{${tex}}`;
+}
+
+function token(el: Element): string {
+  const text = (el.textContent ?? "").trim();
+  switch (name(el)) {
+    case "mi":
+      if (FUNCTIONS.has(text)) return `\\${text}`;
+      if ([...text].length > 1 && !SYMBOLS[text]) {
+        return `\\mathrm{${symbols(text)}}`;
+      }
+      return symbols(text);
+    case "mn":
+      return symbols(text);
+    case "mo":
+      if (FUNCTIONS.has(text)) return `\\${text}`;
+      return symbols(text);
+    default:
+      return `\\text{${text.replace(/[{}\\]/g, "")}}`;
+  }
+}
+
+function join(parts: string[]): string {
+  // Keep a space after control words so `\alpha x` stays two tokens
+  return parts.reduce(
+    (acc, part) =>
+      acc && /\\[a-zA-Z]+$/.test(acc) && /^[a-zA-Z]/.test(part)
+        ? `${acc} ${part}`
+        : acc + part,
+    "",
+  );
+}
+
+function row(el: Element): string {
+  return join(children(el).map(convert));
+}
+
+function operand(el: Element, index: number): Element {
+  const child = children(el)[index];
+  if (!child) throw new UnsupportedMathError(`<${name(el)}> missing operand`);
+  return child;
+}
+
+function arg(el: Element, index: number): string {
+  return convert(operand(el, index));
+}
+
+function accent(
+  table: Record<string, string>,
+  el: Element,
+): string | undefined {
+  return name(el) === "mo" ? table[(el.textContent ?? "").trim()] : undefined;
+}
+
+// Large operators and limits take scripts directly rather than stacking
+function isLimitBase(tex: string): boolean {
+  return /^\\(sum|prod|int|iint|oint|lim|max|min|sup|inf|bigcup|bigcap)$/.test(
+    tex.trim(),
+  );
+}
+
+function convert(el: Element): string {
+  switch (name(el)) {
+    case "math":
+    case "mrow":
+    case "mstyle":
+    case "mpadded":
+    case "merror":
+      return row(el);
+    case "mphantom":
+      return `\\phantom{${row(el)}}`;
+    case "semantics":
+    case "maction": {
+      const first = children(el)[0];
+      return first ? convert(first) : "";
+    }
+    case "mi":
+    case "mn":
+    case "mo":
+    case "mtext":
+    case "ms":
+      return token(el);
+    case "mspace":
+      return "\\ ";
+    case "msup":
+      return `${group(arg(el, 0))}^${group(arg(el, 1))}`;
+    case "msub":
+      return `${group(arg(el, 0))}_${group(arg(el, 1))}`;
+    case "msubsup":
+      return `${group(arg(el, 0))}_${group(arg(el, 1))}^${group(arg(el, 2))}`;
+    case "mfrac":
+      return el.getAttribute("linethickness") === "0"
+        ? `\\binom{${arg(el, 0)}}{${arg(el, 1)}}`
+        : `\\frac{${arg(el, 0)}}{${arg(el, 1)}}`;
+    case "msqrt":
+      return `\\sqrt{${row(el)}}`;
+    case "mroot":
+      return `\\sqrt[${arg(el, 1)}]{${arg(el, 0)}}`;
+    case "mfenced": {
+      const open = el.getAttribute("open") ?? "(";
+      const close = el.getAttribute("close") ?? ")";
+      const separators = (el.getAttribute("separators") ?? ",").trim();
+      const inner = children(el)
+        .map(convert)
+        .join(separators.charAt(0) || "");
+      return `\\left${fence(open)}${inner}\\right${fence(close)}`;
+    }
+    case "mover": {
+      const base = arg(el, 0);
+      const over = operand(el, 1);
+      if (isLimitBase(base)) return `${base}^${group(convert(over))}`;
+      const command = accent(OVER_ACCENTS, over);
+      return command
+        ? `${command}{${base}}`
+        : `\\overset{${convert(over)}}{${base}}`;
+    }
+    case "munder": {
+      const base = arg(el, 0);
+      const under = operand(el, 1);
+      if (isLimitBase(base)) return `${base}_${group(convert(under))}`;
+      const command = accent(UNDER_ACCENTS, under);
+      return command
+        ? `${command}{${base}}`
+        : `\\underset{${convert(under)}}{${base}}`;
+    }
+    case "munderover": {
+      const base = arg(el, 0);
+      const under = arg(el, 1);
+      const over = arg(el, 2);
+      if (isLimitBase(base)) return `${base}_${group(under)}^${group(over)}`;
+      return `\\overset{${over}}{\\underset{${under}}{${base}}}`;
+    }
+    case "menclose": {
+      const notation = el.getAttribute("notation") ?? "longdiv";
+      if (notation.includes("box")) return `\\boxed{${row(el)}}`;
+      if (notation.includes("updiagonalstrike")) return `\\cancel{${row(el)}}`;
+      return row(el);
+    }
+    case "mtable": {
+      const rows = children(el)
+        .filter((r) => name(r) === "mtr" || name(r) === "mlabeledtr")
+        .map((r) =>
+          children(r)
+            .filter((c) => name(c) === "mtd")
+            .map(row)
+            .join(" & "),
+        );
+      return `\\begin{matrix}${rows.join(" \\\\ ")}\\end{matrix}`;
+    }
+    case "annotation":
+    case "annotation-xml":
+    case "none":
+      return "";
+    default:
+      throw new UnsupportedMathError(
+        `Unsupported MathML element <${name(el)}>`,
+      );
+  }
+}
+
+function fence(delimiter: string): string {
+  if (!delimiter) return ".";
+  if (delimiter === "{" || delimiter === "}") return `\\${delimiter}`;
+  return symbols(delimiter);
+}
+
+/**
+ * Convert a MathML `<math>` element into LaTeX. A TeX annotation supplied by
+ * the publisher wins over the converted presentation markup.
+ */
+export function mathmlToLatex(math: Element): string {
+  for (const annotation of Array.from(math.getElementsByTagName("*"))) {
+    if (name(annotation) !== "annotation") continue;
+    const encoding = (annotation.getAttribute("encoding") ?? "").toLowerCase();
+    if (TEX_ENCODINGS.includes(encoding)) {
+      return (annotation.textContent ?? "").trim();
+    }
+  }
+  return convert(math).replace(/\s+/g, " ").trim();
+}
+
+function isDisplayMath(math: Element): boolean {
+  return (
+    math.getAttribute("display") === "block" ||
+    math.getAttribute("mode") === "display"
+  );
+}
+
+/**
+ * Convert `<math>` into `$...$` or `$$...$$` LaTeX, falling back to the
+ * element's alttext (or its text) when the markup cannot be converted.
+ * Dollar signs in text are escaped, so only the math is delimited.
+ */
+export function addMathRules(service: TurndownService): void {
+  const baseEscape = service.escape.bind(service);
+  service.escape = (text) => baseEscape(text).replace(/\$/g, "\\$");
+
+  service.addRule("mathml", {
+    filter: (node) =>
+      node.nodeType === 1 && (node as Element).localName === "math",
+    replacement: (_content, node) => {
+      const math = node as Element;
+      let tex: string;
+      try {
+        tex = mathmlToLatex(math);
+      } catch (error) {
+        if (!(error instanceof UnsupportedMathError)) throw error;
+        const alt = math.getAttribute("alttext")?.trim();
+        return service.escape(alt || (math.textContent ?? "").trim());
+      }
+      if (!tex) return "";
+      return isDisplayMath(math) ? `\n\n$$\n${tex}\n$$\n\n` : `$${tex}$`;
+    },
+  });
+}
@@ -0,0 +1,152 @@
+import type TurndownService from "turndown";
+
+// Cell content that cannot be expressed on a single GFM table row
+const BLOCK_SELECTOR =
+  "table, ul, ol, dl, pre, blockquote, h1, h2, h3, h4, h5, h6, hr";
+const VOID_ELEMENTS = new Set(["img", "br", "hr", "col", "wbr", "input"]);
+
+function tagName(node: Node): string {
+  return node.nodeName.toLowerCase();
+}
+
+function childElements(el: Element, ...names: string[]): Element[] {
+  return Array.from(el.children).filter((c) => names.includes(tagName(c)));
+}
+
+/**
+ * Rows of a table in document order, looking through thead/tbody/tfoot
+ * but not into nested tables
+ */
+function tableRows(table: Element): Element[] {
+  const rows: Element[] = [];
+  for (const child of Array.from(table.children)) {
+    const name = tagName(child);
+    if (name === "tr") {
+      rows.push(child);
+    } else if (name === "thead" || name === "tbody" || name === "tfoot") {
+      rows.push(...childElements(child, "tr"));
+    }
+  }
+  return rows;
+}
+
+function isSpanned(cell: Element): boolean {
+  return ["rowspan", "colspan"].some(
+    (attr) => Number(cell.getAttribute(attr) ?? "1") > 1,
+  );
+}
+
+function hasBlockContent(cell: Element): boolean {
+  if (cell.querySelector(BLOCK_SELECTOR)) return true;
+  // A single paragraph is fine; several stacked blocks are not
+  const blocks = childElements(cell, "p", "div").filter(
+    (el) => !el.hasAttribute("data-anchor-ids"),
+  );
+  return blocks.length > 1;
+}
+
+/**
+ * Whether a table can be represented as a GFM pipe table
+ */
+export function isSimpleTable(table: Element): boolean {
+  const rows = tableRows(table);
+  if (rows.length === 0) return false;
+  return rows.every((row) =>
+    childElements(row, "td", "th").every(
+      (cell) => !isSpanned(cell) && !hasBlockContent(cell),
+    ),
+  );
+}
+
+function isHeaderRow(row: Element): boolean {
+  if (tagName(row.parentNode as Node) === "thead") return true;
+  const cells = childElements(row, "td", "th");
+  return cells.length > 0 && cells.every((cell) => tagName(cell) === "th");
+}
+
+function escapeCell(markdown: string): string {
+  return markdown
+    .replace(/\s*\n+\s*/g, " ")
+    .replace(/\|/g, "\\|")
+    .trim();
+}
+
+function formatRow(cells: string[], width: number): string {
+  const padded = [...cells];
+  while (padded.length < width) padded.push("");
+  return `| ${padded.join(" | ")} |`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Serialize an element as HTML. XHTML documents would otherwise serialize
+ * with xmlns attributes and self-closing non-void tags, which Markdown
+ * renderers reparse incorrectly.
+ */
+export function serializeHtml(node: Node): string {
+  if (node.nodeType === 3) return escapeHtml(node.textContent ?? "");
+  if (node.nodeType !== 1) return "";
+
+  const el = node as Element;
+  const name = el.localName.toLowerCase();
+  const attrs = Array.from(el.attributes)
+    .filter((attr) => attr.name !== "xmlns" && !attr.name.startsWith("xmlns:"))
+    .map(
+      (attr) =>
+        ` ${attr.name}="${escapeHtml(attr.value).replace(/"/g, "&quot;")}"`,
+    )
+    .join("");
+
+  if (VOID_ELEMENTS.has(name)) return `<${name}${attrs}>`;
+  const children = Array.from(el.childNodes).map(serializeHtml).join("");
+  return `<${name}${attrs}>${children}</${name}>`;
+}
+
+/**
+ * Convert tables to GFM pipe tables, falling back to raw HTML for tables
+ * with rowspan/colspan or block content in cells
+ */
+export function addTableRules(service: TurndownService): void {
+  const convertInline = (el: Element): string =>
+    escapeCell(service.turndown(el as unknown as HTMLElement));
+
+  service.addRule("table", {
+    filter: (node) => tagName(node) === "table",
+    replacement: (_content, node) => {
+      const table = node as Element;
+
+      if (!isSimpleTable(table)) {
+        // Raw HTML blocks must not contain blank lines
+        const html = serializeHtml(table).replace(/\n\s*\n/g, "\n");
+        return `\n\n${html}\n\n`;
+      }
+
+      const rows = tableRows(table);
+      const cellRows = rows.map((row) =>
+        childElements(row, "td", "th").map(convertInline),
+      );
+      const width = Math.max(...cellRows.map((cells) => cells.length));
+
+      // GFM requires a header row; use an empty one when the table has none
+      const hasHeader = rows[0] ? isHeaderRow(rows[0]) : false;
+      const header = hasHeader ? (cellRows.shift() ?? []) : [];
+      const lines = [
+        formatRow(header, width),
+        formatRow(Array(width).fill("---"), width),
+        ...cellRows.map((cells) => formatRow(cells, width)),
+      ];
+
+      const caption = childElements(table, "caption")[0];
+      const captionText = caption ? convertInline(caption) : "";
+      const prefix = captionText ? `${captionText}\n\n` : "";
+
+      return `\n\n${prefix}${lines.join("\n")}\n\n`;
+    },
+  });
+}
@@ -16,3 +16,8 @@ export function compareOrUpdateFixture<T>(fullPath: string, actual: T): void {
 }
 
 export { fetchEpub } from "./testUtils/fetchEpub";
+export {
+  buildOpf,
+  buildXhtml,
+  createMemoryEpub,
+} from "./testUtils/memoryEpub";
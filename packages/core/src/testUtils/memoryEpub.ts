@@ -0,0 +1,66 @@
+import JSZip from "jszip";
+import { EPub } from "../Epub";
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+/**
+ * Build an OPF package document from its inner markup
+ */
+export function buildOpf(parts: {
+  metadata?: string;
+  manifest: string;
+  spine: string;
+  guide?: string;
+}): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" xmlns:dc="http://purl.org/dc/elements/1.1/" version="3.0" unique-identifier="id">
+  <metadata>
+    <dc:identifier id="id">urn:test</dc:identifier>
+    <dc:title>Test Book</dc:title>
+    <dc:language>en</dc:language>
+    ${parts.metadata ?? ""}
+  </metadata>
+  <manifest>
+    ${parts.manifest}
+  </manifest>
+  <spine>
+    ${parts.spine}
+  </spine>
+  ${parts.guide ? `<guide>${parts.guide}</guide>` : ""}
+</package>`;
+}
+
+/**
+ * Build a minimal XHTML chapter document around the given body markup
+ */
+export function buildXhtml(body: string, head = ""): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+  <head><title>Chapter</title>${head}</head>
+  <body>${body}</body>
+</html>`;
+}
+
+/**
+ * Create an EPub backed by an in-memory zip.
+ * Keys are archive paths without a leading slash; the OPF must live at
+ * OEBPS/content.opf unless a container.xml is supplied.
+ */
+export async function createMemoryEpub(
+  files: Record<string, string | Uint8Array>,
+): Promise<EPub> {
+  const zip = new JSZip();
+  if (!files["META-INF/container.xml"]) {
+    zip.file("META-INF/container.xml", CONTAINER_XML);
+  }
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  const data = await zip.generateAsync({ type: "uint8array" });
+  return EPub.fromZip(data);
+}
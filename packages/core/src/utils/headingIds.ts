@@ -0,0 +1,19 @@
+/** Headings scanned when synthesizing a table of contents */
+export const TOC_HEADING_SELECTOR = "h1, h2, h3, h4";
+
+/**
+ * Give every h1–h4 heading under `root` an id, keeping existing ones.
+ *
+ * Generated ids depend only on the heading's position, so a renderer that
+ * calls this on the same chapter gets the ids a synthesized table of
+ * contents links to.
+ */
+export function assignHeadingIds(root: ParentNode): Element[] {
+  const headings = Array.from(root.querySelectorAll(TOC_HEADING_SELECTOR));
+  headings.forEach((heading, index) => {
+    if (!heading.getAttribute("id")) {
+      heading.setAttribute("id", `epubdown-heading-${index}`);
+    }
+  });
+  return headings;
+}
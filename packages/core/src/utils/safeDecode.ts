@@ -0,0 +1,11 @@
+/**
+ * Decode a percent-encoded href or fragment, leaving it as written when it
+ * has a malformed escape
+ */
+export function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
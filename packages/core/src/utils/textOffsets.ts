@@ -0,0 +1,163 @@
+import type { DOMPosition } from "../EpubCFI";
+
+const SKIPPED_ELEMENTS = new Set(["head", "script", "style", "title"]);
+// Whitespace and zero-width spaces differ between a chapter's source and its
+// rendered Markdown, so only the remaining characters are counted
+const IGNORED_CHAR = /[\s\u200B]/;
+
+function isCounted(char: string): boolean {
+  return !IGNORED_CHAR.test(char);
+}
+
+function countChars(text: string, end = text.length): number {
+  let count = 0;
+  for (let i = 0; i < end; i++) {
+    if (isCounted(text[i] ?? "")) count++;
+  }
+  return count;
+}
+
+/**
+ * Visit text nodes under `root` in document order; stops when `visit`
+ * returns true
+ */
+function walkText(root: Node, visit: (text: Node) => boolean): boolean {
+  for (let n = root.firstChild; n; n = n.nextSibling) {
+    if (n.nodeType === 3 || n.nodeType === 4) {
+      if (visit(n)) return true;
+    } else if (
+      n.nodeType === 1 &&
+      !SKIPPED_ELEMENTS.has(n.nodeName.toLowerCase()) &&
+      walkText(n, visit)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Number of visible, non-whitespace characters under `root` before a DOM
+ * position. Offsets are stable across whitespace and markup changes, which
+ * lets a position in a chapter's source be found in its rendered form.
+ */
+export function textOffsetOf(root: Node, node: Node, offset = 0): number {
+  // Normalize element positions to the node right after them
+  let target: Node | null = node;
+  let charOffset = offset;
+  if (node.nodeType === 1) {
+    target = node.childNodes[offset] ?? null;
+    charOffset = 0;
+    if (!target) {
+      // End of the element: count everything inside it
+      let count = 0;
+      walkText(root, (text) => {
+        if (!node.contains(text) && node.compareDocumentPosition(text) & 4) {
+          return true;
+        }
+        count += countChars(text.textContent ?? "");
+        return false;
+      });
+      return count;
+    }
+  }
+
+  let count = 0;
+  walkText(root, (text) => {
+    if (text === target) {
+      count += countChars(text.textContent ?? "", charOffset);
+      return true;
+    }
+    // Stop at the first text node at or after the target
+    if (target !== text && (target?.compareDocumentPosition(text) ?? 0) & 4) {
+      return true;
+    }
+    count += countChars(text.textContent ?? "");
+    return false;
+  });
+  return count;
+}
+
+/**
+ * The DOM position under `root` that has `textOffset` counted characters
+ * before it, placed just before the next counted character. Returns
+ * undefined when the text is shorter.
+ */
+export function positionAtTextOffset(
+  root: Node,
+  textOffset: number,
+): DOMPosition | undefined {
+  let remaining = textOffset;
+  let found: DOMPosition | undefined;
+  walkText(root, (text) => {
+    const value = text.textContent ?? "";
+    for (let i = 0; i < value.length; i++) {
+      if (!isCounted(value[i] ?? "")) continue;
+      if (remaining === 0) {
+        found = { node: text, offset: i };
+        return true;
+      }
+      remaining--;
+    }
+    return false;
+  });
+  return found;
+}
+
+// Elements whose text shouldn't run into the text after them
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "br",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul",
+]);
+
+/**
+ * Text under `root` that counts toward text offsets, with a line break after
+ * each block so words in adjacent blocks stay apart. The breaks aren't
+ * counted, so offsets into the result can be found with `textOffsetOf`.
+ */
+export function extractText(root: Node): string {
+  const parts: string[] = [];
+  const visit = (node: Node) => {
+    for (let n = node.firstChild; n; n = n.nextSibling) {
+      if (n.nodeType === 3 || n.nodeType === 4) {
+        parts.push(n.textContent ?? "");
+      } else if (n.nodeType === 1) {
+        const name = n.nodeName.toLowerCase();
+        if (SKIPPED_ELEMENTS.has(name)) continue;
+        visit(n);
+        if (BLOCK_ELEMENTS.has(name)) parts.push("\n");
+      }
+    }
+  };
+  visit(root);
+  return parts.join("");
+}
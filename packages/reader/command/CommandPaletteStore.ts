@@ -29,6 +29,8 @@ export class CommandPaletteStore {
 
   // commands
   private currentCommands: Command[] = [];
+  // Counts openings, to tell when a command opened the palette again
+  private openCount = 0;
   lastAction = "";
 
   constructor(private events: AppEventSystem) {
@@ -132,10 +134,12 @@ export class CommandPaletteStore {
   async executeSelected(onClose: () => void, idx?: number) {
     const cmd = this.filtered[idx || this.selectedIndex];
     if (!cmd) return;
+    const openCount = this.openCount;
     await cmd.action();
     this.setLastAction(cmd.label);
     this.touchUsage(cmd.id);
-    onClose();
+    // A command may open the palette again to ask for more input
+    if (this.openCount === openCount) onClose();
   }
 
   touchUsage(id: string) {
@@ -208,6 +212,7 @@ export class CommandPaletteStore {
   }
 
   private _open() {
+    this.openCount++;
     this.isOpen = true;
     this.query = "";
     this.selectedIndex = 0;
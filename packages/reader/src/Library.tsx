@@ -1,16 +1,24 @@
+import { BarChart3, LayoutGrid, List } from "lucide-react";
 import { observer } from "mobx-react-lite";
 import type React from "react";
 import { useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
+import { CommandPalette } from "../command/CommandPalette";
 import { ErrorFlash } from "./components/ErrorFlash";
 import { OpenOnDrop } from "./components/OpenOnDrop";
-import { BookList, SearchBar } from "./library/index";
-import { useRootStore } from "./stores/RootStore";
+import {
+  BookList,
+  CollectionFilters,
+  SearchBar,
+  TextMatchList,
+} from "./library/index";
+import { useCommandPaletteStore, useRootStore } from "./stores/RootStore";
 import { useBookLibraryStore } from "./stores/RootStore";
 
 export const Library = observer(() => {
   const rootStore = useRootStore();
   const store = useBookLibraryStore();
+  const palette = useCommandPaletteStore();
   const [, navigate] = useLocation();
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [urlInput, setUrlInput] = useState("");
@@ -132,9 +140,9 @@ export const Library = observer(() => {
 
   // Setup event bindings for library view
   useEffect(() => {
-    const dispose = store.setupBindings();
+    const dispose = store.setupBindings(palette);
     return dispose;
-  }, [store]);
+  }, [store, palette]);
 
   // Empty state
   if (store.books.length === 0 && !store.searchQuery && !store.isLoading) {
@@ -179,7 +187,61 @@ export const Library = observer(() => {
                 />
               </div>
 
-              <div className="flex w-full lg:w-auto lg:justify-end">
+              <div className="flex w-full gap-2 lg:w-auto lg:justify-end">
+                <div className="flex shrink-0 rounded-lg border border-gray-200 bg-white p-0.5">
+                  <button
+                    type="button"
+                    onClick={() => store.setViewMode("list")}
+                    className={`p-1.5 rounded-md transition-colors ${
+                      store.viewMode === "list"
+                        ? "bg-gray-100 text-gray-900"
+                        : "text-gray-400 hover:text-gray-600"
+                    }`}
+                    aria-label="List view"
+                    aria-pressed={store.viewMode === "list"}
+                  >
+                    <List className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => store.setViewMode("grid")}
+                    className={`p-1.5 rounded-md transition-colors ${
+                      store.viewMode === "grid"
+                        ? "bg-gray-100 text-gray-900"
+                        : "text-gray-400 hover:text-gray-600"
+                    }`}
+                    aria-label="Grid view"
+                    aria-pressed={store.viewMode === "grid"}
+                  >
+                    <LayoutGrid className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex shrink-0 rounded-lg border border-gray-200 bg-white p-0.5 text-xs">
+                  {(["recent", "series"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => store.setSortMode(mode)}
+                      className={`px-2 rounded-md transition-colors ${
+                        store.sortMode === mode
+                          ? "bg-gray-100 text-gray-900"
+                          : "text-gray-400 hover:text-gray-600"
+                      }`}
+                      aria-pressed={store.sortMode === mode}
+                    >
+                      {mode === "recent" ? "Recent" : "Series"}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => navigate("/stats")}
+                  className="shrink-0 p-2 rounded-lg border border-gray-200 bg-white text-gray-400 hover:text-gray-600 transition-colors"
+                  aria-label="Reading statistics"
+                  title="Reading statistics"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                </button>
                 <button
                   type="button"
                   onClick={handleShowUploadModal}
@@ -190,6 +252,8 @@ export const Library = observer(() => {
               </div>
             </div>
 
+            <CollectionFilters />
+
             {/* Upload progress */}
             {store.uploadProgress !== null && (
               <div className="bg-blue-50/80 backdrop-blur-sm">
@@ -216,6 +280,7 @@ export const Library = observer(() => {
           {/* Content */}
           <div className="max-w-4xl mx-auto mt-3 mb-8 relative px-4 sm:px-6">
             <BookList />
+            <TextMatchList />
           </div>
 
           {/* Error Flash */}
@@ -231,6 +296,8 @@ export const Library = observer(() => {
 
       {/* Upload Modal */}
       {uploadModal}
+
+      <CommandPalette />
     </>
   );
 });
@@ -5,9 +5,14 @@ import { useLocation, useRoute } from "wouter";
 import { CommandPalette } from "../command/CommandPalette";
 import { ChapterContent } from "./book/ChapterContent";
 import { ChapterNavigation } from "./book/ChapterNavigation";
+import { ChatPanel } from "./book/ChatPanel";
+import { DefinitionPopover } from "./book/DefinitionPopover";
+import { MediaOverlayBar } from "./book/MediaOverlayBar";
+import { ReadAloudBar } from "./book/ReadAloudBar";
 import { Sidebar } from "./book/Sidebar";
 import { TableOfContents } from "./book/TableOfContents";
 import { OpenOnDrop } from "./components/OpenOnDrop";
+import { readerStyleVars } from "./lib/readerSettings";
 import { useReadingProgress } from "./stores/ReadingProgressStore";
 import { useReaderStore } from "./stores/RootStore";
 
@@ -52,6 +57,31 @@ export const ReaderPage = observer(() => {
     return dispose;
   }, [readerStore, epub]); // Re-setup bindings when epub loads
 
+  // Count reading time while the reader is open
+  useEffect(() => readerStore.sessionTracker.attach(), [readerStore]);
+
+  useEffect(() => readerStore.readAloud.attach(), [readerStore]);
+  useEffect(() => readerStore.mediaOverlay.attach(), [readerStore]);
+
+  // Navigating within the open chapter, as to a bookmark, only changes the
+  // hash, which the route doesn't see. wouter announces `navigate` calls
+  // with a `pushState` event; scrolling replaces the hash without one.
+  useEffect(() => {
+    const onNavigate = () => {
+      const { pathname, search, hash } = window.location;
+      if (!pathname.startsWith("/book/")) return;
+      // The same position may be navigated to again after scrolling away
+      lastProcessedUrl.current = pathname + search + hash;
+      readerStore.handleUrlChange(lastProcessedUrl.current);
+    };
+    window.addEventListener("pushState", onNavigate);
+    window.addEventListener("popstate", onNavigate);
+    return () => {
+      window.removeEventListener("pushState", onNavigate);
+      window.removeEventListener("popstate", onNavigate);
+    };
+  }, [readerStore]);
+
   // Handle URL changes
   useEffect(() => {
     // Use full URL including query params and hash
@@ -70,6 +100,7 @@ export const ReaderPage = observer(() => {
 
   if (epub && bookId) {
     const currentChapter = chapters[currentChapterIndex];
+    const { settings } = readerStore.settingsStore;
 
     const handleDrop = async (files: File[]) => {
       if (!files || files.length === 0) return;
@@ -87,9 +118,12 @@ export const ReaderPage = observer(() => {
 
     return (
       <OpenOnDrop onDrop={handleDrop} overlayText="Drop to open in a new tab">
-        <div className="min-h-screen bg-gray-50">
-          {/* Main content - scrollable full screen */}
-          <div className="min-h-screen">
+        <div className="min-h-screen" data-reader-theme={settings.theme}>
+          {/* Main content - scrollable full screen; beside the assistant
+              panel on wide screens */}
+          <div
+            className={`min-h-screen ${readerStore.chat.isOpen ? "lg:pr-96" : ""}`}
+          >
             {/* Fixed container for centering content */}
             <div className="min-h-full flex justify-center relative">
               <div className="max-w-4xl w-full relative">
@@ -115,7 +149,11 @@ export const ReaderPage = observer(() => {
                     </div>
                   )}
 
-                  <div className="book-reader" ref={readerContainerRef}>
+                  <div
+                    className="book-reader"
+                    ref={readerContainerRef}
+                    style={readerStyleVars(settings, readerStore.useHtmlMode)}
+                  >
                     {/* Chapter Navigation Widget */}
                     <ChapterNavigation />
 
@@ -129,6 +167,11 @@ export const ReaderPage = observer(() => {
             </div>
           </div>
 
+          <ReadAloudBar />
+          <MediaOverlayBar />
+          <DefinitionPopover />
+          <ChatPanel />
+
           {/* Command Palette */}
           <CommandPalette />
         </div>
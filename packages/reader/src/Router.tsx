@@ -2,10 +2,11 @@ import { Route, Router, Switch } from "wouter";
 import CommandPalettePage from "../pages/CommandPalettePage";
 import { UploadErrorsPrototype } from "../prototype/UploadErrors";
 import SliderPrototype from "../prototype/slider/SliderPrototype";
-import { AddBookPage } from "./pages/AddBookPage";
 import { Library } from "./Library";
 import { ReaderPage } from "./ReaderPage";
 import { NotFound } from "./components/NotFound";
+import { AddBookPage } from "./pages/AddBookPage";
+import { StatsPage } from "./pages/StatsPage";
 import { PdfPage } from "./pdf/PdfPage";
 
 export function AppRouter() {
@@ -14,6 +15,7 @@ export function AppRouter() {
       <Switch>
         <Route path="/" component={Library} />
         <Route path="/addBook" component={AddBookPage} />
+        <Route path="/stats" component={StatsPage} />
         <Route path="/book/:bookId/:chapterIndex?" component={ReaderPage} />
         <Route path="/pdf/:bookId" component={PdfPage} />
         <Route
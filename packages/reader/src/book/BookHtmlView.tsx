@@ -1,23 +1,42 @@
 // BookHtmlView.tsx
 import { observer } from "mobx-react-lite";
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import tailwindBaseCSS from "./tailwind-base.css?inline";
 import { inlineChapterHTML } from "../lib/inlineHtmlAssets";
-import type { EPub, DOMFile } from "@epubdown/core";
+import { htmlModeCss } from "../lib/readerSettings";
+import { useReaderStore } from "../stores/RootStore";
+import { type DOMFile, type EPub, assignHeadingIds } from "@epubdown/core";
+import { useChapterHighlights } from "./useChapterHighlights";
+import { useMediaOverlay } from "./useMediaOverlay";
+import { useSearchHit } from "./useSearchHit";
 
 export interface BookHtmlViewProps {
   epub: EPub;
   chapter: DOMFile;
   onNavigate: (absPath: string) => void;
+  /**
+   * Called with the chapter's root once it is in the shadow root; the
+   * returned function runs when the root is replaced or unmounted
+   */
+  onRendered?: (body: HTMLElement) => (() => void) | undefined;
 }
 
 export const BookHtmlView = observer(function BookHtmlView({
   epub,
   chapter,
   onNavigate,
+  onRendered,
 }: BookHtmlViewProps) {
   const hostRef = useRef<HTMLDivElement>(null);
   const lastCleanupRef = useRef<(() => void) | null>(null);
+  const settingsStyleRef = useRef<HTMLStyleElement | null>(null);
+  const onRenderedRef = useRef(onRendered);
+  onRenderedRef.current = onRendered;
+  const [body, setBody] = useState<HTMLElement | null>(null);
+  const settingsCss = htmlModeCss(useReaderStore().settingsStore.settings);
+  useChapterHighlights(body, chapter.path);
+  useSearchHit(body, chapter.path);
+  useMediaOverlay(body, chapter.path);
 
   useEffect(() => {
     if (!hostRef.current) return;
@@ -44,7 +63,7 @@ export const BookHtmlView = observer(function BookHtmlView({
         tailwindBaseCSS +
         `
         .chapter-html-body{max-width:100%;overflow-x:auto}
-        img{max-width:100%;height:auto}
+        img{max-width:100%;height:auto;max-height:var(--pager-height,none)}
         pre{overflow-x:auto}
         table{border-collapse:collapse}
       `;
@@ -52,9 +71,17 @@ export const BookHtmlView = observer(function BookHtmlView({
       const wrapper = document.createElement("div");
       wrapper.className = "chapter-html-body";
       wrapper.innerHTML = html;
+      // Same ids a synthesized table of contents links to
+      assignHeadingIds(wrapper);
+
+      // Display settings go after the publisher's inlined stylesheets
+      const settingsStyle = document.createElement("style");
+      settingsStyleRef.current = settingsStyle;
 
       shadow.appendChild(styles);
       shadow.appendChild(wrapper);
+      shadow.appendChild(settingsStyle);
+      setBody(wrapper);
 
       const onClick = (e: MouseEvent) => {
         const a = (e.target as HTMLElement).closest(
@@ -84,6 +111,16 @@ export const BookHtmlView = observer(function BookHtmlView({
     };
   }, [epub, chapter, onNavigate]); // intentionally not dependent on cleanup
 
+  // Restyle in place when display settings change, without rebuilding
+  useEffect(() => {
+    if (!body || !settingsStyleRef.current) return;
+    settingsStyleRef.current.textContent = settingsCss;
+  }, [body, settingsCss]);
+
+  useEffect(() => {
+    if (body) return onRenderedRef.current?.(body);
+  }, [body]);
+
   // True-unmount cleanup
   useEffect(() => {
     return () => {
@@ -0,0 +1,110 @@
+import { Pencil, Trash2 } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import type { Bookmark } from "../lib/BookmarkDatabase";
+import { useReaderStore } from "../stores/RootStore";
+
+const BookmarkItem: React.FC<{ bookmark: Bookmark }> = observer(
+  ({ bookmark }) => {
+    const readerStore = useReaderStore();
+    const [label, setLabel] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const isRenaming = label !== null;
+
+    // Opened on purpose to rename
+    useEffect(() => {
+      if (isRenaming) inputRef.current?.focus();
+    }, [isRenaming]);
+
+    const save = async () => {
+      if (label === null) return;
+      await readerStore.bookmarkStore.rename(bookmark.id, label.trim());
+      setLabel(null);
+    };
+
+    if (isRenaming) {
+      return (
+        <li className="py-1">
+          <input
+            ref={inputRef}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onBlur={save}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save();
+              if (e.key === "Escape") setLabel(null);
+            }}
+            placeholder={readerStore.bookmarkLabel({
+              ...bookmark,
+              label: undefined,
+            })}
+            className="w-full text-sm px-2 py-1 border border-gray-300 rounded focus:outline-none focus:border-blue-400"
+          />
+        </li>
+      );
+    }
+
+    return (
+      <li className="group flex items-center gap-1">
+        <a
+          href={readerStore.bookmarkHref(bookmark)}
+          onClick={(e) => {
+            // Allow CMD+click (Mac) or Ctrl+click to open in a new tab
+            if (e.metaKey || e.ctrlKey) return;
+            e.preventDefault();
+            readerStore.goToBookmark(bookmark);
+          }}
+          className="flex-1 min-w-0 truncate py-1 px-2 rounded text-sm text-gray-700 hover:bg-gray-100"
+        >
+          {readerStore.bookmarkLabel(bookmark)}
+        </a>
+        <button
+          type="button"
+          onClick={() => setLabel(bookmark.label ?? "")}
+          className="p-1 text-gray-400 hover:text-gray-800 opacity-0 group-hover:opacity-100"
+          aria-label="Rename bookmark"
+        >
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={() => readerStore.bookmarkStore.remove(bookmark.id)}
+          className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+          aria-label="Delete bookmark"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </li>
+    );
+  },
+);
+
+/**
+ * The open book's bookmarks, in reading order
+ */
+export const BookmarkList: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const { bookmarks } = readerStore.bookmarkStore;
+
+  return (
+    <div className="p-4 bg-white">
+      <button
+        type="button"
+        onClick={() => readerStore.addBookmark()}
+        className="w-full mb-3 px-3 py-1.5 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50"
+      >
+        Bookmark this position <span className="text-gray-400">⌘D</span>
+      </button>
+      {bookmarks.length === 0 ? (
+        <div className="text-gray-500 text-sm">No bookmarks yet.</div>
+      ) : (
+        <ul>
+          {bookmarks.map((bookmark) => (
+            <BookmarkItem key={bookmark.id} bookmark={bookmark} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
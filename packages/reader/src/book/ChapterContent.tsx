@@ -1,28 +1,92 @@
-import { ContentToMarkdown, type DOMFile, type EPub } from "@epubdown/core";
+import type { DOMFile, EPub } from "@epubdown/core";
 import { ArrowRight } from "lucide-react";
 import { observer } from "mobx-react-lite";
 import type React from "react";
-import { useEffect, useLayoutEffect, useRef } from "react";
-import { BookHtmlView } from "./BookHtmlView";
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
 import { AsyncView } from "../lib/AsyncView";
+import { headingAnchorPlugin } from "../markdown/headingAnchors";
+import { pageMarkerPlugin } from "../markdown/pageMarkers";
 import { markdownToReact } from "../markdownToReact";
 import { useReadingProgress } from "../stores/ReadingProgressStore";
 import { useReaderStore } from "../stores/RootStore";
+import { BookHtmlView } from "./BookHtmlView";
+import type { TrackedContent } from "./ContinuousScroll";
+import { ContinuousView } from "./ContinuousView";
+import { PaginatedView } from "./PaginatedView";
+import { cfiPositionCodec } from "./cfiPositions";
+import { useChapterHighlights } from "./useChapterHighlights";
+import { useMediaOverlay } from "./useMediaOverlay";
+import { useSearchHit } from "./useSearchHit";
+
+/**
+ * Hands a rendered chapter to whoever tracks positions across several
+ * chapters (continuous mode) instead of ReadingProgressStore; `content` is
+ * null where positions aren't tracked. Returns a disposer.
+ */
+export type ChapterReadyHandler = (
+  content: TrackedContent | null,
+) => () => void;
 
 // Helper component for HTML mode rendering
 const HtmlModeRender: React.FC<{
   epub: EPub;
   chapter: DOMFile;
   onNavigate: (path: string) => void;
-}> = ({ epub, chapter, onNavigate }) => {
-  return <BookHtmlView epub={epub} chapter={chapter} onNavigate={onNavigate} />;
+  onReady?: ChapterReadyHandler;
+}> = ({ epub, chapter, onNavigate, onReady }) => {
+  const readingProgress = useReadingProgress();
+
+  const handleRendered = (body: HTMLElement) => {
+    if (onReady) return onReady(null);
+
+    // Positions are encoded against a fresh copy of the source, as in
+    // Markdown mode; the publisher's blocks sit inside sections
+    let cancelled = false;
+    let stopTracking: (() => void) | undefined;
+    epub
+      .getChapter(chapter.path)
+      .then((source) => {
+        if (cancelled) return;
+        readingProgress.setNestedBlocks(true);
+        readingProgress.setPositionCodec(
+          source ? cfiPositionCodec(epub, source) : null,
+        );
+        readingProgress.onLayoutEffect(body);
+        stopTracking = readingProgress.onEffect(body);
+      })
+      .catch((error) => {
+        console.error("Failed to track reading position:", error);
+      });
+    return () => {
+      cancelled = true;
+      stopTracking?.();
+    };
+  };
+
+  return (
+    <BookHtmlView
+      epub={epub}
+      chapter={chapter}
+      onNavigate={onNavigate}
+      onRendered={handleRendered}
+    />
+  );
 };
 
 // Helper component for Markdown mode rendering
 const MarkdownModeRender: React.FC<{
+  epub: EPub;
   chapter: DOMFile;
-}> = ({ chapter }) => {
+  onReady?: ChapterReadyHandler;
+}> = ({ epub, chapter, onReady }) => {
   const readingProgress = useReadingProgress();
+  const readerStore = useReaderStore();
 
   return (
     <AsyncView
@@ -31,28 +95,48 @@ const MarkdownModeRender: React.FC<{
       }
     >
       {async ({ signal }) => {
-        const converter = ContentToMarkdown.create({
-          basePath: chapter.base,
+        // Read synchronously so AsyncView re-runs when the plugins change
+        const converter = readerStore.createConverter(chapter, {
+          plugins: [
+            pageMarkerPlugin(readerStore.pagesForChapter(chapter.path)),
+            headingAnchorPlugin(),
+          ],
         });
         const markdown = await converter.convertXMLFile(chapter);
         const reactContent = await markdownToReact(markdown);
+        // Conversion rewrote `chapter`; positions are encoded against a
+        // fresh copy of the source
+        const source = await epub.getChapter(chapter.path);
+        const codec = source ? cfiPositionCodec(epub, source) : null;
 
         // Return a component function to use hooks for reading progress tracking
         return () => {
           const contentRef = useRef<HTMLDivElement>(null);
+          const [contentEl, setContentEl] = useState<HTMLDivElement | null>(
+            null,
+          );
+          useChapterHighlights(contentEl, chapter.path);
+          useSearchHit(contentEl, chapter.path);
+          useMediaOverlay(contentEl, chapter.path);
 
-          // Scroll restoration using useLayoutEffect (runs before paint)
+          // Scroll restoration using useLayoutEffect (runs before paint).
+          // Its dependencies are fixed for the chapter's render.
           useLayoutEffect(() => {
-            if (contentRef.current) {
-              readingProgress.onLayoutEffect(contentRef.current);
+            if (!contentRef.current) return;
+            setContentEl(contentRef.current);
+            if (onReady) {
+              return onReady({ el: contentRef.current, codec });
             }
-          }, []);
+            readingProgress.setNestedBlocks(false);
+            readingProgress.setPositionCodec(codec);
+            readingProgress.onLayoutEffect(contentRef.current);
+          }, [onReady]);
 
           // Progress tracking using useEffect (runs after paint)
           useEffect(() => {
-            if (!contentRef.current) return;
+            if (!contentRef.current || onReady) return;
             return readingProgress.onEffect(contentRef.current);
-          }, []);
+          }, [onReady]);
 
           return <div ref={contentRef}>{reactContent}</div>;
         };
@@ -73,22 +157,36 @@ export const ChapterContent: React.FC<ChapterContentProps> = observer(
     const { currentChapter, currentChapterIndex, chapters, epub, useHtmlMode } =
       readerStore;
     const hasNextChapter = currentChapterIndex < chapters.length - 1;
+    const { layout } = readerStore.settingsStore;
+    // Stable, so the HTML view isn't rebuilt when this re-renders
+    const handleNavigate = useCallback(
+      (path: string) => readerStore.handleTocChapterSelect(path),
+      [readerStore],
+    );
 
-    // Render content based on mode
-    let reactTree: React.ReactNode = null;
-    if (currentChapter) {
-      if (useHtmlMode && epub) {
-        reactTree = (
-          <HtmlModeRender
-            epub={epub}
-            chapter={currentChapter}
-            onNavigate={(p) => readerStore.handleTocChapterSelect(p)}
-          />
+    // Stable too, so continuous mode only renders the chapters it adds
+    const renderChapter = useCallback(
+      (chapter: DOMFile, onReady?: ChapterReadyHandler) => {
+        if (!epub) return null;
+        if (useHtmlMode) {
+          return (
+            <HtmlModeRender
+              epub={epub}
+              chapter={chapter}
+              onNavigate={handleNavigate}
+              onReady={onReady}
+            />
+          );
+        }
+        return (
+          <MarkdownModeRender epub={epub} chapter={chapter} onReady={onReady} />
         );
-      } else {
-        reactTree = <MarkdownModeRender chapter={currentChapter} />;
-      }
-    }
+      },
+      [epub, useHtmlMode, handleNavigate],
+    );
+
+    // Render content based on mode
+    const reactTree = currentChapter ? renderChapter(currentChapter) : null;
 
     const handleContinueReading = () => {
       if (hasNextChapter) {
@@ -104,10 +202,17 @@ export const ChapterContent: React.FC<ChapterContentProps> = observer(
 
     return (
       <article className={`epub-chapter ${className ?? ""}`}>
-        <div className="chapter-content">{reactTree}</div>
+        {layout === "paginated" ? (
+          <PaginatedView>{reactTree}</PaginatedView>
+        ) : layout === "continuous" ? (
+          <ContinuousView renderChapter={renderChapter} />
+        ) : (
+          <div className="chapter-content">{reactTree}</div>
+        )}
 
-        {/* Continue Reading Link */}
-        {hasNextChapter && (
+        {/* Continue Reading Link; the other layouts flow into the next
+            chapter themselves */}
+        {hasNextChapter && layout === "scroll" && (
           <div className="flex justify-end mt-12 mb-8">
             <button
               type="button"
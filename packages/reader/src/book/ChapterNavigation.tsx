@@ -3,6 +3,7 @@ import { observer } from "mobx-react-lite";
 import type React from "react";
 import { useEffect, useRef, useState } from "react";
 import { useReaderStore } from "../stores/RootStore";
+import { usePageLabel } from "./usePageLabel";
 
 export const ChapterNavigation: React.FC = observer(() => {
   const readerStore = useReaderStore();
@@ -13,6 +14,7 @@ export const ChapterNavigation: React.FC = observer(() => {
   const currentChapterTitle = readerStore.currentChapterTitle;
   const bookTitle = metadata.title;
   const totalChapters = chapters.length;
+  const pageLabel = usePageLabel();
 
   const hasPrevious = currentChapterIndex > 0;
   const hasNext = currentChapterIndex < totalChapters - 1;
@@ -88,6 +90,7 @@ export const ChapterNavigation: React.FC = observer(() => {
           </div>
           <div className="text-[10px] text-gray-400">
             {bookTitle || "Unknown Book"}
+            {pageLabel && <span> · p. {pageLabel}</span>}
           </div>
         </div>
 
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { blockForPage, countPages, pageAtOffset } from "./ChapterPager";
+
+describe("countPages", () => {
+  it("counts whole pages, tolerating rounded scroll widths", () => {
+    expect(countPages(1200, 400)).toBe(3);
+    expect(countPages(1201, 400.4)).toBe(3);
+    expect(countPages(0, 400)).toBe(1);
+    expect(countPages(1200, 0)).toBe(1);
+  });
+});
+
+describe("pageAtOffset", () => {
+  it("finds the page holding an offset", () => {
+    expect(pageAtOffset(0, 400)).toBe(0);
+    expect(pageAtOffset(399, 400)).toBe(0);
+    expect(pageAtOffset(800, 400)).toBe(2);
+    // A column edge a fraction of a pixel early still starts the page
+    expect(pageAtOffset(799.6, 400)).toBe(2);
+    expect(pageAtOffset(-5, 400)).toBe(0);
+  });
+});
+
+describe("blockForPage", () => {
+  const starts = [0, 0, 1, 3, 3];
+
+  it("reports the first block starting on the page", () => {
+    expect(blockForPage(starts, 0)).toBe(0);
+    expect(blockForPage(starts, 1)).toBe(2);
+    expect(blockForPage(starts, 3)).toBe(3);
+  });
+
+  it("falls back to the block continuing onto the page", () => {
+    expect(blockForPage(starts, 2)).toBe(2);
+    expect(blockForPage(starts, 5)).toBe(4);
+  });
+
+  it("returns -1 when no block reaches the page", () => {
+    expect(blockForPage([], 0)).toBe(-1);
+    expect(blockForPage([1], 0)).toBe(-1);
+  });
+});
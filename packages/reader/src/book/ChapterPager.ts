@@ -0,0 +1,220 @@
+import { action, makeObservable, observable, reaction } from "mobx";
+import type { ReaderStore } from "../stores/ReaderStore";
+import type {
+  PositionViewport,
+  ReadingProgressStore,
+} from "../stores/ReadingProgressStore";
+
+// Room below the pages for the page counter
+const FOOTER_HEIGHT = 64;
+const MIN_PAGE_HEIGHT = 240;
+
+/**
+ * Pages in a column layout `scrollWidth` wide, one `pageWidth` per page
+ */
+export function countPages(scrollWidth: number, pageWidth: number): number {
+  if (pageWidth <= 0) return 1;
+  return Math.max(1, Math.round(scrollWidth / pageWidth));
+}
+
+/**
+ * Page that holds horizontal `offset` of the column layout
+ */
+export function pageAtOffset(offset: number, pageWidth: number): number {
+  if (pageWidth <= 0) return 0;
+  // Tolerate subpixel rounding at column edges
+  return Math.max(0, Math.floor((offset + 0.5) / pageWidth));
+}
+
+/**
+ * Block to report for `page`, given the page each block starts on: the
+ * first block starting there, else the one continuing from earlier pages
+ */
+export function blockForPage(blockPages: number[], page: number): number {
+  let continuing = -1;
+  for (let i = 0; i < blockPages.length; i++) {
+    const start = blockPages[i] ?? 0;
+    if (start === page) return i;
+    if (start > page) break;
+    continuing = i;
+  }
+  return continuing;
+}
+
+/**
+ * Lays a chapter out in viewport-sized CSS columns and turns its pages,
+ * flowing into the neighbouring chapters at either end
+ */
+export class ChapterPager implements PositionViewport {
+  page = 0;
+  pageCount = 1;
+  private el: HTMLElement | null = null;
+  // Entered backwards from the next chapter: stay on the last page
+  private enterAtEnd = false;
+
+  constructor(
+    private readerStore: ReaderStore,
+    private progress: ReadingProgressStore,
+  ) {
+    makeObservable<ChapterPager, "show">(this, {
+      page: observable,
+      pageCount: observable,
+      measure: action,
+      show: action,
+    });
+  }
+
+  /**
+   * Page `el`, whose first child holds the columns; returns a disposer
+   */
+  attach(el: HTMLElement): () => void {
+    this.el = el;
+    this.progress.setViewport(this);
+    window.scrollTo(0, 0);
+    this.measure();
+
+    const onResize = () => {
+      // Reflowing moves text between pages; keep the block in view
+      const block = this.currentBlock();
+      this.measure();
+      if (block) this.show(this.pageOf(block));
+    };
+    // Search hits and highlights scroll the pager with scrollIntoView;
+    // snap to whole pages
+    const onScroll = () => {
+      if (Math.abs(el.scrollLeft - this.page * this.pageWidth) < 1) return;
+      this.goTo(pageAtOffset(el.scrollLeft, this.pageWidth));
+    };
+    // Images and the HTML view's shadow root change the page count as
+    // they load
+    const resizeObserver = new ResizeObserver(() => this.measure());
+    const observeChildren = () => {
+      resizeObserver.disconnect();
+      for (const child of el.firstElementChild?.children ?? []) {
+        resizeObserver.observe(child);
+      }
+      this.measure();
+    };
+    const mutationObserver = new MutationObserver(observeChildren);
+    if (el.firstElementChild) {
+      mutationObserver.observe(el.firstElementChild, { childList: true });
+    }
+    observeChildren();
+
+    window.addEventListener("resize", onResize);
+    el.addEventListener("scroll", onScroll);
+    // A new chapter starts on its first page unless entered backwards;
+    // without reporting, since the blocks are still the old chapter's
+    const disposeReaction = reaction(
+      () => this.readerStore.currentChapterIndex,
+      () => {
+        if (!this.enterAtEnd) this.show(0);
+      },
+    );
+
+    return () => {
+      window.removeEventListener("resize", onResize);
+      el.removeEventListener("scroll", onScroll);
+      resizeObserver.disconnect();
+      mutationObserver.disconnect();
+      disposeReaction();
+      if (this.progress.getViewport() === this) {
+        this.progress.setViewport(null);
+      }
+      this.el = null;
+    };
+  }
+
+  /**
+   * Fit the pager to the window and count the chapter's pages
+   */
+  measure(): void {
+    const el = this.el;
+    if (!el) return;
+    const top = el.getBoundingClientRect().top + window.scrollY;
+    const height = Math.max(
+      MIN_PAGE_HEIGHT,
+      window.innerHeight - top - FOOTER_HEIGHT,
+    );
+    el.style.height = `${height}px`;
+    // Lets images shrink to fit a page
+    el.style.setProperty("--pager-height", `${height}px`);
+    this.pageCount = countPages(el.scrollWidth, this.pageWidth);
+    this.show(this.enterAtEnd ? this.pageCount - 1 : this.page);
+  }
+
+  reveal(block: Element | null): void {
+    window.scrollTo(0, 0);
+    this.measure();
+    if (block) {
+      this.enterAtEnd = false;
+      this.goTo(this.pageOf(block));
+    } else if (this.enterAtEnd) {
+      this.enterAtEnd = false;
+      this.goTo(this.pageCount - 1);
+    } else {
+      this.goTo(0);
+    }
+  }
+
+  goTo(page: number): void {
+    this.show(page);
+    this.reportPosition();
+  }
+
+  nextPage(): void {
+    this.enterAtEnd = false;
+    if (this.page < this.pageCount - 1) {
+      this.goTo(this.page + 1);
+    } else if (this.readerStore.hasNextChapter) {
+      this.readerStore.nextChapter();
+    }
+  }
+
+  previousPage(): void {
+    if (this.page > 0) {
+      this.enterAtEnd = false;
+      this.goTo(this.page - 1);
+    } else if (this.readerStore.hasPreviousChapter) {
+      this.enterAtEnd = true;
+      this.readerStore.previousChapter();
+    }
+  }
+
+  private get pageWidth(): number {
+    return this.el?.getBoundingClientRect().width ?? 0;
+  }
+
+  private show(page: number): void {
+    this.page = Math.min(Math.max(0, page), this.pageCount - 1);
+    if (this.el) this.el.scrollLeft = this.page * this.pageWidth;
+  }
+
+  /**
+   * Page a block starts on
+   */
+  private pageOf(block: Element): number {
+    const el = this.el;
+    const rect = block.getClientRects()[0];
+    if (!el || !rect) return 0;
+    const offset = rect.left - el.getBoundingClientRect().left + el.scrollLeft;
+    return Math.min(pageAtOffset(offset, this.pageWidth), this.pageCount - 1);
+  }
+
+  private currentBlock(): Element | undefined {
+    const index = this.progress.getCurrentBlockIndex();
+    return index === null ? undefined : this.progress.getBlockByIndex(index);
+  }
+
+  private reportPosition(): void {
+    const blocks = this.progress.getBlocks();
+    if (blocks.length === 0) return;
+    const index = blockForPage(
+      blocks.map((block) => this.pageOf(block)),
+      this.page,
+    );
+    if (index >= 0 && index !== this.progress.getCurrentBlockIndex()) {
+      this.progress.setCurrentBlockIndex(index);
+    }
+  }
+}
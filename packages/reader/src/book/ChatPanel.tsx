@@ -0,0 +1,223 @@
+import { Settings, Square, Trash2, X } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import type { ChatMessage } from "../lib/ChatDatabase";
+import { useReaderStore } from "../stores/RootStore";
+
+const EndpointSettings: React.FC<{ onDone?: () => void }> = observer(
+  ({ onDone }) => {
+    const { chat } = useReaderStore();
+    const { endpoint } = chat;
+    const field =
+      "w-full text-sm px-2 py-1 border border-gray-200 rounded focus:outline-none focus:border-blue-400";
+
+    return (
+      <div className="p-4 space-y-3 border-b border-gray-200 bg-gray-50">
+        <p className="text-xs text-gray-600">
+          Any OpenAI-compatible chat completions endpoint, hosted or running
+          locally. The key is stored in this browser only.
+        </p>
+        <label className="block text-sm text-gray-700">
+          Base URL
+          <input
+            value={endpoint.baseUrl}
+            onChange={(e) => chat.setEndpoint({ baseUrl: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className={field}
+          />
+        </label>
+        <label className="block text-sm text-gray-700">
+          Model
+          <input
+            value={endpoint.model}
+            onChange={(e) => chat.setEndpoint({ model: e.target.value })}
+            placeholder="llama3.2"
+            className={field}
+          />
+        </label>
+        <label className="block text-sm text-gray-700">
+          API key
+          <input
+            type="password"
+            value={endpoint.apiKey}
+            onChange={(e) => chat.setEndpoint({ apiKey: e.target.value })}
+            placeholder="Optional"
+            autoComplete="off"
+            className={field}
+          />
+        </label>
+        {onDone && chat.isConfigured && (
+          <button
+            type="button"
+            onClick={onDone}
+            className="px-3 py-1 text-sm text-gray-700 border border-gray-200 rounded-lg bg-white hover:bg-gray-100"
+          >
+            Done
+          </button>
+        )}
+      </div>
+    );
+  },
+);
+
+const MessageView: React.FC<{ message: ChatMessage }> = ({ message }) => {
+  if (message.role === "assistant") {
+    return (
+      <div className="text-sm text-gray-800 whitespace-pre-wrap">
+        {message.content}
+      </div>
+    );
+  }
+  // Prompts rendered from templates are long; show their title
+  if (message.title) {
+    return (
+      <details className="text-sm bg-blue-50 rounded-lg px-3 py-2">
+        <summary className="cursor-pointer text-blue-900">
+          {message.title}
+        </summary>
+        <div className="mt-2 text-gray-700 whitespace-pre-wrap">
+          {message.content}
+        </div>
+      </details>
+    );
+  }
+  return (
+    <div className="text-sm bg-blue-50 text-blue-900 rounded-lg px-3 py-2 whitespace-pre-wrap">
+      {message.content}
+    </div>
+  );
+};
+
+/**
+ * Conversation about the open chapter with the configured LLM endpoint,
+ * beside the chapter. Templates are sent here with their "Ask" commands.
+ */
+export const ChatPanel: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const { chat } = readerStore;
+  const [draft, setDraft] = useState("");
+  const [showSettings, setShowSettings] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const messageCount = chat.messages.length;
+  const answer = chat.streamingAnswer;
+
+  // Follow the conversation as it grows, not as the draft or settings change
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || (messageCount === 0 && !answer)) return;
+    el.scrollTop = el.scrollHeight;
+  }, [messageCount, answer]);
+
+  if (!chat.isOpen) return null;
+
+  const send = () => {
+    if (!draft.trim() || chat.isStreaming) return;
+    void chat.send(draft.trim());
+    setDraft("");
+  };
+
+  return (
+    <aside className="fixed right-0 top-0 z-40 h-screen w-full sm:w-96 flex flex-col bg-white border-l border-gray-200 shadow-lg">
+      <div className="flex items-center gap-1 px-4 py-3 border-b border-gray-200">
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold text-gray-900">Assistant</div>
+          <div className="text-xs text-gray-500 truncate">
+            {readerStore.currentChapterTitle || "This chapter"}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowSettings(!showSettings)}
+          className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded"
+          aria-label="Endpoint settings"
+          aria-pressed={showSettings}
+        >
+          <Settings className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => chat.clearConversation()}
+          disabled={chat.messages.length === 0 || chat.isStreaming}
+          className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-gray-100 rounded disabled:opacity-40 disabled:hover:bg-transparent"
+          aria-label="Clear conversation"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => chat.setOpen(false)}
+          className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded"
+          aria-label="Close assistant"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {(showSettings || !chat.isConfigured) && (
+        <EndpointSettings onDone={() => setShowSettings(false)} />
+      )}
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {chat.messages.length === 0 && answer === null && (
+          <p className="text-sm text-gray-500">
+            Ask about this chapter, or send a template from the command palette
+            with its “Ask” command. Templates still copy to the clipboard by
+            default.
+          </p>
+        )}
+        {chat.messages.map((message) => (
+          <MessageView key={message.id} message={message} />
+        ))}
+        {answer !== null && (
+          <div className="text-sm text-gray-800 whitespace-pre-wrap">
+            {answer || <span className="text-gray-400">Thinking…</span>}
+          </div>
+        )}
+        {chat.error && <p className="text-sm text-red-600">{chat.error}</p>}
+      </div>
+
+      <div className="p-3 border-t border-gray-200 flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (
+              e.key === "Enter" &&
+              !e.shiftKey &&
+              !e.nativeEvent.isComposing
+            ) {
+              e.preventDefault();
+              send();
+            }
+          }}
+          rows={2}
+          placeholder={
+            chat.isConfigured ? "Ask a follow-up…" : "Set up an endpoint first"
+          }
+          disabled={!chat.isConfigured}
+          className="flex-1 resize-none text-sm px-2 py-1.5 border border-gray-200 rounded-lg focus:outline-none focus:border-blue-400 disabled:bg-gray-50"
+        />
+        {chat.isStreaming ? (
+          <button
+            type="button"
+            onClick={() => chat.stop()}
+            className="p-2 text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-100"
+            aria-label="Stop"
+          >
+            <Square className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={send}
+            disabled={!chat.isConfigured || !draft.trim()}
+            className="px-3 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Send
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+});
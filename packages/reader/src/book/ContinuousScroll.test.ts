@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { type ChapterWindow, nextChapterRange } from "./ContinuousScroll";
+
+// Chapters 3-5 loaded, reading chapter 4 with a few screens either side
+const settled: ChapterWindow = {
+  first: 3,
+  last: 5,
+  current: 4,
+  chapterCount: 10,
+  top: -4,
+  firstBottom: -2.5,
+  lastTop: 2.5,
+  bottom: 5,
+};
+
+describe("nextChapterRange", () => {
+  it("keeps the range while there is text either side", () => {
+    expect(nextChapterRange(settled)).toEqual({ first: 3, last: 5 });
+  });
+
+  it("loads the next chapter when nearing the end", () => {
+    expect(nextChapterRange({ ...settled, bottom: 1.5 })).toEqual({
+      first: 3,
+      last: 6,
+    });
+  });
+
+  it("loads the previous chapter when nearing the top", () => {
+    expect(nextChapterRange({ ...settled, top: -0.5 })).toEqual({
+      first: 2,
+      last: 5,
+    });
+  });
+
+  it("stops at the ends of the book", () => {
+    expect(
+      nextChapterRange({
+        ...settled,
+        first: 0,
+        last: 2,
+        current: 1,
+        chapterCount: 3,
+        top: 0,
+        bottom: 1,
+      }),
+    ).toEqual({ first: 0, last: 2 });
+  });
+
+  it("unloads a far-off chapter once too many are loaded", () => {
+    const many = { ...settled, first: 2, last: 6, bottom: 1 };
+    // Loading chapter 7 makes six; chapter 2 is far above
+    expect(nextChapterRange({ ...many, firstBottom: -3 })).toEqual({
+      first: 3,
+      last: 7,
+    });
+    // Scrolling back up, chapter 6 is far below instead
+    expect(
+      nextChapterRange({
+        ...many,
+        bottom: 6,
+        top: 0,
+        firstBottom: 0.5,
+        lastTop: 4,
+      }),
+    ).toEqual({ first: 1, last: 5 });
+  });
+
+  it("never unloads the current chapter", () => {
+    // Reading the first loaded chapter, with nothing below far enough off
+    expect(
+      nextChapterRange({
+        ...settled,
+        first: 0,
+        last: 4,
+        current: 0,
+        top: -3,
+        firstBottom: -3,
+        lastTop: 0.5,
+        bottom: 1,
+      }),
+    ).toEqual({ first: 0, last: 5 });
+  });
+});
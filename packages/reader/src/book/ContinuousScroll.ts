@@ -0,0 +1,255 @@
+import { action, makeObservable, observable, reaction } from "mobx";
+import type { ReaderStore } from "../stores/ReaderStore";
+import type {
+  PositionCodec,
+  ReadingProgressStore,
+} from "../stores/ReadingProgressStore";
+
+// Same reading line ReadingProgressStore tracks, as a share of the viewport
+const READING_LINE = 0.2;
+// Chapters kept rendered before far-off ones are unloaded
+const MAX_CHAPTERS = 5;
+
+/** Rendered chapter content that reading positions are tracked in */
+export interface TrackedContent {
+  el: HTMLElement;
+  codec: PositionCodec | null;
+}
+
+/** Where loaded chapters sit relative to the viewport, in viewport heights */
+export interface ChapterWindow {
+  first: number;
+  last: number;
+  /** Chapter under the reading line */
+  current: number;
+  chapterCount: number;
+  /** Top of the first loaded chapter */
+  top: number;
+  /** Bottom of the first loaded chapter */
+  firstBottom: number;
+  /** Top of the last loaded chapter */
+  lastTop: number;
+  /** Bottom of the last loaded chapter */
+  bottom: number;
+}
+
+/**
+ * How to change the loaded range: load a chapter at an end when less than a
+ * viewport of text is left there, and unload an end chapter once it is far
+ * off-screen. The thresholds differ so a chapter just unloaded isn't loaded
+ * straight back.
+ */
+export function nextChapterRange(w: ChapterWindow): {
+  first: number;
+  last: number;
+} {
+  let { first, last } = w;
+  if (w.bottom < 2 && last < w.chapterCount - 1) last++;
+  if (w.top > -1 && first > 0) first--;
+  if (last - first + 1 > MAX_CHAPTERS) {
+    if (w.firstBottom < -2 && first < w.current) first++;
+    else if (w.lastTop > 3 && last > w.current) last--;
+  }
+  return { first, last };
+}
+
+/**
+ * Renders the chapters around the current one as one scroll. Chapters load
+ * as the reader nears either end, far-off ones unload, and the chapter
+ * under the reading line becomes the current one.
+ */
+export class ContinuousScroll {
+  first: number;
+  last: number;
+  /** Bumped when the reader jumps elsewhere, to render afresh */
+  generation = 0;
+  private sections = new Map<number, HTMLElement>();
+  private ready = new Set<number>();
+  private contents = new Map<number, TrackedContent>();
+  // Chapter that restores the URL's position once rendered
+  private entry: number | null;
+  private tracked: number | null = null;
+  // The current chapter's top, kept in place as chapters above change size
+  private anchor: { el: HTMLElement; top: number } | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+
+  constructor(
+    private readerStore: ReaderStore,
+    private progress: ReadingProgressStore,
+  ) {
+    this.first = readerStore.currentChapterIndex;
+    this.last = this.first;
+    this.entry = this.first;
+    this.tracked = this.first;
+    makeObservable<ContinuousScroll, "setRange" | "jumpTo">(this, {
+      first: observable,
+      last: observable,
+      generation: observable,
+      setRange: action,
+      jumpTo: action,
+    });
+  }
+
+  get indexes(): number[] {
+    const indexes: number[] = [];
+    for (let i = this.first; i <= this.last; i++) indexes.push(i);
+    return indexes;
+  }
+
+  attach(): () => void {
+    this.resizeObserver = new ResizeObserver(() => this.keepAnchor());
+    for (const el of this.sections.values()) this.resizeObserver.observe(el);
+
+    window.addEventListener("scroll", this.update, { passive: true });
+    window.addEventListener("resize", this.update);
+    // Chapters picked elsewhere (table of contents, links) start over
+    const disposeReaction = reaction(
+      () => this.readerStore.currentChapterIndex,
+      (index) => {
+        if (index !== this.tracked) this.jumpTo(index);
+      },
+    );
+
+    return () => {
+      window.removeEventListener("scroll", this.update);
+      window.removeEventListener("resize", this.update);
+      disposeReaction();
+      this.resizeObserver?.disconnect();
+      this.resizeObserver = null;
+      this.progress.stopTracking();
+    };
+  }
+
+  /**
+   * Ref callback for a chapter's section
+   */
+  setSection(index: number, el: HTMLElement | null): void {
+    const previous = this.sections.get(index);
+    if (previous) this.resizeObserver?.unobserve(previous);
+    if (el) {
+      this.sections.set(index, el);
+      this.resizeObserver?.observe(el);
+    } else {
+      this.sections.delete(index);
+      this.ready.delete(index);
+    }
+  }
+
+  /**
+   * A chapter finished rendering; `content` is set when positions can be
+   * tracked in it. Returns a disposer for when it unmounts.
+   */
+  chapterReady(index: number, content: TrackedContent | null): () => void {
+    this.ready.add(index);
+    if (content) this.contents.set(index, content);
+
+    if (index === this.entry) {
+      this.entry = null;
+      if (!content) {
+        window.scrollTo(0, 0);
+      } else {
+        this.progress.setPositionCodec(content.codec);
+        this.progress.onLayoutEffect(content.el);
+        // Start tracking once the restored scroll has settled, as
+        // ReadingProgressStore.onEffect does
+        setTimeout(() => {
+          if (this.tracked === index) this.track(index);
+        }, 100);
+      }
+    } else if (index === this.tracked) {
+      this.track(index);
+    }
+    this.update();
+
+    return () => {
+      this.ready.delete(index);
+      if (this.contents.get(index) === content) this.contents.delete(index);
+    };
+  }
+
+  /**
+   * Keep the current chapter in place after the loaded range changed
+   */
+  keepAnchor(): void {
+    const anchor = this.anchor;
+    if (!anchor?.el.isConnected) return;
+    const delta = anchor.el.getBoundingClientRect().top - anchor.top;
+    if (Math.abs(delta) >= 1) window.scrollBy(0, delta);
+  }
+
+  private update = (): void => {
+    const current = this.chapterAtReadingLine();
+    if (current === null) return;
+    const el = this.sections.get(current);
+    if (el) this.anchor = { el, top: el.getBoundingClientRect().top };
+
+    if (current !== this.tracked) {
+      this.tracked = current;
+      this.readerStore.followChapter(current);
+      this.track(current);
+    }
+
+    // Chapters still rendering have no height to measure against
+    for (const index of this.indexes) {
+      if (!this.ready.has(index)) return;
+    }
+    const firstEl = this.sections.get(this.first);
+    const lastEl = this.sections.get(this.last);
+    if (!firstEl || !lastEl) return;
+    const height = window.innerHeight;
+    const firstRect = firstEl.getBoundingClientRect();
+    const lastRect = lastEl.getBoundingClientRect();
+    const next = nextChapterRange({
+      first: this.first,
+      last: this.last,
+      current,
+      chapterCount: this.readerStore.chapters.length,
+      top: firstRect.top / height,
+      firstBottom: firstRect.bottom / height,
+      lastTop: lastRect.top / height,
+      bottom: lastRect.bottom / height,
+    });
+    if (next.first !== this.first || next.last !== this.last) {
+      this.setRange(next.first, next.last);
+    }
+  };
+
+  private chapterAtReadingLine(): number | null {
+    const line = window.innerHeight * READING_LINE;
+    let last: number | null = null;
+    for (const index of this.indexes) {
+      const el = this.sections.get(index);
+      if (!el) continue;
+      const rect = el.getBoundingClientRect();
+      if (rect.top > line) break;
+      last = index;
+    }
+    return last ?? (this.sections.has(this.first) ? this.first : null);
+  }
+
+  private track(index: number): void {
+    const content = this.contents.get(index);
+    if (!content) {
+      this.progress.stopTracking();
+      return;
+    }
+    this.progress.setPositionCodec(content.codec);
+    this.progress.setup(content.el);
+    this.progress.startTracking(content.el);
+  }
+
+  private setRange(first: number, last: number): void {
+    this.first = first;
+    this.last = last;
+  }
+
+  private jumpTo(index: number): void {
+    this.first = index;
+    this.last = index;
+    this.entry = index;
+    this.tracked = index;
+    this.anchor = null;
+    this.generation++;
+    this.progress.stopTracking();
+  }
+}
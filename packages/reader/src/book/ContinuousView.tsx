@@ -0,0 +1,88 @@
+import type { DOMFile } from "@epubdown/core";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import {
+  memo,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useState,
+} from "react";
+import { useReadingProgress } from "../stores/ReadingProgressStore";
+import { useReaderStore } from "../stores/RootStore";
+import type { ChapterReadyHandler } from "./ChapterContent";
+import { ContinuousScroll } from "./ContinuousScroll";
+
+type RenderChapter = (
+  chapter: DOMFile,
+  onReady: ChapterReadyHandler,
+) => React.ReactNode;
+
+// One chapter of the scroll. Memoized with stable callbacks, so only the
+// chapters entering or leaving the range mount or unmount.
+const ChapterSection: React.FC<{
+  scroll: ContinuousScroll;
+  index: number;
+  chapter: DOMFile;
+  renderChapter: RenderChapter;
+}> = memo(({ scroll, index, chapter, renderChapter }) => {
+  const onReady = useCallback<ChapterReadyHandler>(
+    (content) => scroll.chapterReady(index, content),
+    [scroll, index],
+  );
+  const sectionRef = useCallback(
+    (el: HTMLElement | null) => scroll.setSection(index, el),
+    [scroll, index],
+  );
+  const content = useMemo(
+    () => renderChapter(chapter, onReady),
+    [renderChapter, chapter, onReady],
+  );
+
+  return (
+    <section data-chapter-index={index} ref={sectionRef}>
+      {content}
+    </section>
+  );
+});
+
+/**
+ * The chapters around the current one, one after another in a single scroll
+ */
+export const ContinuousView: React.FC<{
+  renderChapter: RenderChapter;
+}> = observer(({ renderChapter }) => {
+  const readerStore = useReaderStore();
+  const readingProgress = useReadingProgress();
+  const [scroll] = useState(
+    () => new ContinuousScroll(readerStore, readingProgress),
+  );
+
+  useEffect(() => scroll.attach(), [scroll]);
+
+  // Chapters added or removed above the current one shift it; put it back
+  // before paint. Renders follow changes of the range, and the check is a
+  // no-op when nothing moved.
+  useLayoutEffect(() => {
+    scroll.keepAnchor();
+  });
+
+  return (
+    <div className="chapter-content continuous-chapters">
+      {scroll.indexes.map((index) => {
+        const chapter = readerStore.chapters[index];
+        if (!chapter) return null;
+        return (
+          <ChapterSection
+            key={`${chapter.path}:${scroll.generation}`}
+            scroll={scroll}
+            index={index}
+            chapter={chapter}
+            renderChapter={renderChapter}
+          />
+        );
+      })}
+    </div>
+  );
+});
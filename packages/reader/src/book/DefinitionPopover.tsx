@@ -0,0 +1,132 @@
+import { BookmarkPlus, Check, X } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useEffect, useRef } from "react";
+import { useReaderStore } from "../stores/RootStore";
+
+const WIDTH = 320;
+const MARGIN = 8;
+
+/**
+ * Definitions of a word selected with "Define", under the word (or above
+ * it near the bottom of the window). Scrolling, Escape or clicking
+ * elsewhere closes it.
+ */
+export const DefinitionPopover: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const { dictionaryStore } = readerStore;
+  const { lookup } = dictionaryStore;
+  const popoverRef = useRef<HTMLElement>(null);
+  const isOpen = lookup !== null;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = () => dictionaryStore.closeLookup();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close();
+    };
+    const onPointerDown = (e: PointerEvent) => {
+      if (!popoverRef.current?.contains(e.target as Node)) close();
+    };
+    document.addEventListener("keydown", onKeyDown);
+    document.addEventListener("pointerdown", onPointerDown);
+    window.addEventListener("scroll", close, { passive: true });
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      document.removeEventListener("pointerdown", onPointerDown);
+      window.removeEventListener("scroll", close);
+    };
+  }, [isOpen, dictionaryStore]);
+
+  if (!lookup) return null;
+
+  const { anchor, definitions } = lookup;
+  const below = anchor.bottom < window.innerHeight * 0.6;
+  const left = Math.max(
+    MARGIN,
+    Math.min(anchor.left, window.innerWidth - WIDTH - MARGIN),
+  );
+  const position: React.CSSProperties = below
+    ? { top: anchor.bottom + MARGIN, left }
+    : { bottom: window.innerHeight - anchor.top + MARGIN, left };
+
+  return (
+    <section
+      ref={popoverRef}
+      aria-label={`Definition of ${lookup.word}`}
+      style={{ ...position, width: WIDTH }}
+      className="fixed z-50 max-h-80 flex flex-col bg-white border border-gray-200 rounded-lg shadow-lg text-sm"
+    >
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-100">
+        <span className="flex-1 font-semibold text-gray-900 truncate">
+          {lookup.word}
+        </span>
+        {definitions && definitions.length > 0 && (
+          <button
+            type="button"
+            onClick={() => dictionaryStore.saveLookup()}
+            disabled={lookup.savedId !== null}
+            className="flex items-center gap-1 px-2 py-0.5 text-xs text-gray-600 hover:bg-gray-100 rounded disabled:text-green-700 disabled:hover:bg-transparent"
+          >
+            {lookup.savedId !== null ? (
+              <>
+                <Check className="w-3.5 h-3.5" /> Saved
+              </>
+            ) : (
+              <>
+                <BookmarkPlus className="w-3.5 h-3.5" /> Save word
+              </>
+            )}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => dictionaryStore.closeLookup()}
+          className="p-0.5 text-gray-400 hover:text-gray-700 rounded"
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto px-3 py-2">
+        {lookup.dictionaryCount === 0 ? (
+          <p className="text-gray-500">
+            No dictionaries
+            {readerStore.metadata.language
+              ? ` for ${readerStore.metadata.language}`
+              : ""}
+            .{" "}
+            <button
+              type="button"
+              onClick={() => {
+                dictionaryStore.closeLookup();
+                readerStore.setSidebarPanel("vocabulary");
+                readerStore.setSidebarOpen(true);
+              }}
+              className="text-blue-600 hover:underline"
+            >
+              Import one
+            </button>
+          </p>
+        ) : definitions === null ? (
+          <p className="text-gray-500">Looking up…</p>
+        ) : definitions.length === 0 ? (
+          <p className="text-gray-500">No definition found.</p>
+        ) : (
+          definitions.map((def) => (
+            <div key={def.id} className="mb-2 last:mb-0">
+              <div className="text-xs text-gray-400">
+                {def.dictionaryName}
+                {def.headword !== lookup.word && ` · ${def.headword}`}
+              </div>
+              <p className="whitespace-pre-line text-gray-800">
+                {def.definition}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+});
@@ -0,0 +1,165 @@
+import { Trash2 } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import { HIGHLIGHT_COLORS, type Highlight } from "../lib/HighlightDatabase";
+import { useReaderStore } from "../stores/RootStore";
+import { HIGHLIGHT_BACKGROUNDS } from "./highlights";
+
+const NoteEditor: React.FC<{
+  highlight: Highlight;
+  onDone: () => void;
+}> = ({ highlight, onDone }) => {
+  const { highlightStore } = useReaderStore();
+  const [note, setNote] = useState(highlight.note ?? "");
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Opened on purpose to write the note
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const save = async () => {
+    await highlightStore.update(highlight.id, { note: note.trim() });
+    onDone();
+  };
+
+  return (
+    <div className="mt-2">
+      <textarea
+        ref={textareaRef}
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) save();
+          if (e.key === "Escape") onDone();
+        }}
+        rows={3}
+        placeholder="Add a note"
+        className="w-full text-sm p-2 border border-gray-300 rounded focus:outline-none focus:border-blue-400"
+      />
+      <div className="flex justify-end gap-2 mt-1">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          className="px-2 py-1 text-xs text-white bg-blue-600 hover:bg-blue-700 rounded"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const HighlightItem: React.FC<{ highlight: Highlight }> = observer(
+  ({ highlight }) => {
+    const readerStore = useReaderStore();
+    const { highlightStore } = readerStore;
+    const isEditing = highlightStore.editingId === highlight.id;
+    const isMissing = highlightStore.missingIds.has(highlight.id);
+
+    return (
+      <li className="py-2 border-b border-gray-100 last:border-0">
+        <button
+          type="button"
+          onClick={() => readerStore.goToHighlight(highlight)}
+          className="w-full text-left text-sm text-gray-800 hover:text-gray-950"
+        >
+          <span
+            className="px-0.5 rounded-sm line-clamp-3"
+            style={{ backgroundColor: HIGHLIGHT_BACKGROUNDS[highlight.color] }}
+          >
+            {highlight.quote}
+          </span>
+        </button>
+        {isMissing && (
+          <p className="mt-1 text-xs text-amber-700">
+            This text wasn't found in the chapter
+          </p>
+        )}
+
+        {highlight.note && !isEditing && (
+          <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">
+            {highlight.note}
+          </p>
+        )}
+        {isEditing && (
+          <NoteEditor
+            highlight={highlight}
+            onDone={() => highlightStore.setEditing(null)}
+          />
+        )}
+
+        <div className="flex items-center gap-1 mt-1">
+          {HIGHLIGHT_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => highlightStore.update(highlight.id, { color })}
+              className={`w-4 h-4 rounded-full border ${
+                color === highlight.color ? "border-gray-600" : "border-white"
+              }`}
+              style={{ backgroundColor: HIGHLIGHT_BACKGROUNDS[color] }}
+              aria-label={`Change color to ${color}`}
+            />
+          ))}
+          <button
+            type="button"
+            onClick={() => highlightStore.setEditing(highlight.id)}
+            className="ml-2 text-xs text-gray-500 hover:text-gray-800"
+          >
+            {highlight.note ? "Edit note" : "Add note"}
+          </button>
+          <button
+            type="button"
+            onClick={() => highlightStore.remove(highlight.id)}
+            className="ml-auto p-1 text-gray-400 hover:text-red-600"
+            aria-label="Delete highlight"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </li>
+    );
+  },
+);
+
+/**
+ * The open book's highlights, grouped by chapter
+ */
+export const HighlightList: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const groups = readerStore.highlightGroups;
+
+  if (groups.length === 0) {
+    return (
+      <div className="p-4 text-gray-500 text-sm">
+        No highlights yet. Select text to highlight it.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-white">
+      {groups.map((group) => (
+        <section key={group.chapterIndex} className="mb-4">
+          <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+            {group.title}
+          </h3>
+          <ul>
+            {group.highlights.map((highlight) => (
+              <HighlightItem key={highlight.id} highlight={highlight} />
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+});
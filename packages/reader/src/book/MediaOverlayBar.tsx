@@ -0,0 +1,40 @@
+import { Pause, Play, SkipBack, SkipForward, X } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useReaderStore } from "../stores/RootStore";
+import { BarButton } from "./ReadAloudBar";
+
+/**
+ * Controls for the book's narration, floating at the bottom while it plays
+ */
+export const MediaOverlayBar: React.FC = observer(() => {
+  const { mediaOverlay } = useReaderStore();
+  if (!mediaOverlay.isActive) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1 px-3 py-1.5 bg-white/95 border border-gray-200 rounded-full shadow-md backdrop-blur-sm">
+      <BarButton label="Previous passage" onClick={() => mediaOverlay.skip(-1)}>
+        <SkipBack className="w-4 h-4" />
+      </BarButton>
+      <BarButton
+        label={mediaOverlay.status === "playing" ? "Pause" : "Play"}
+        onClick={() => mediaOverlay.toggle()}
+      >
+        {mediaOverlay.status === "playing" ? (
+          <Pause className="w-5 h-5" />
+        ) : (
+          <Play className="w-5 h-5" />
+        )}
+      </BarButton>
+      <BarButton label="Next passage" onClick={() => mediaOverlay.skip(1)}>
+        <SkipForward className="w-4 h-4" />
+      </BarButton>
+      <span className="px-2 text-xs text-gray-500 tabular-nums">
+        {mediaOverlay.index + 1} / {mediaOverlay.clips.length}
+      </span>
+      <BarButton label="Stop narration" onClick={() => mediaOverlay.stop()}>
+        <X className="w-4 h-4" />
+      </BarButton>
+    </div>
+  );
+});
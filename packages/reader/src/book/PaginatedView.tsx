@@ -0,0 +1,135 @@
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useEffect, useRef, useState } from "react";
+import { useReadingProgress } from "../stores/ReadingProgressStore";
+import { useEventSystem, useReaderStore } from "../stores/RootStore";
+import { ChapterPager } from "./ChapterPager";
+
+// Share of the page width, at either side, that turns the page on click
+const CLICK_ZONE = 0.3;
+const SWIPE_DISTANCE = 50;
+
+// Arrow keys belong to inputs (search box, settings sliders) while typing
+function isTyping(): boolean {
+  const el = document.activeElement;
+  return (
+    el instanceof HTMLElement &&
+    (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName))
+  );
+}
+
+/**
+ * The chapter laid out in pages, turned with the arrow keys, clicks at the
+ * page edges, or swipes
+ */
+export const PaginatedView: React.FC<{ children: React.ReactNode }> = observer(
+  ({ children }) => {
+    const readerStore = useReaderStore();
+    const readingProgress = useReadingProgress();
+    const events = useEventSystem();
+    const [pager] = useState(
+      () => new ChapterPager(readerStore, readingProgress),
+    );
+    const pagerRef = useRef<HTMLDivElement>(null);
+    const touchStart = useRef<{ x: number; y: number } | null>(null);
+
+    useEffect(() => {
+      if (!pagerRef.current) return;
+      return pager.attach(pagerRef.current);
+    }, [pager]);
+
+    // Clicks at the page edges turn pages, as the arrow keys below do from
+    // the keyboard
+    useEffect(() => {
+      const el = pagerRef.current;
+      if (!el) return;
+      const onClick = (e: MouseEvent) => {
+        // Leave links, buttons and text selections alone; the path reaches
+        // into the HTML view's shadow root
+        const onControl = e
+          .composedPath()
+          .some(
+            (target) =>
+              target instanceof Element && target.matches("a, button"),
+          );
+        if (onControl || !window.getSelection()?.isCollapsed) return;
+
+        const rect = el.getBoundingClientRect();
+        const x = (e.clientX - rect.left) / rect.width;
+        if (x < CLICK_ZONE) pager.previousPage();
+        else if (x > 1 - CLICK_ZONE) pager.nextPage();
+      };
+      el.addEventListener("click", onClick);
+      return () => el.removeEventListener("click", onClick);
+    }, [pager]);
+
+    useEffect(() => {
+      const when = () => !isTyping();
+      return events.register([
+        {
+          id: "reader.nextPage",
+          event: { kind: "key", combo: "ArrowRight" },
+          layer: "view:reader",
+          when,
+          run: () => pager.nextPage(),
+        },
+        {
+          id: "reader.previousPage",
+          event: { kind: "key", combo: "ArrowLeft" },
+          layer: "view:reader",
+          when,
+          run: () => pager.previousPage(),
+        },
+        {
+          id: "reader.nextPage.pageDown",
+          event: { kind: "key", combo: "PageDown" },
+          layer: "view:reader",
+          when,
+          run: () => pager.nextPage(),
+        },
+        {
+          id: "reader.previousPage.pageUp",
+          event: { kind: "key", combo: "PageUp" },
+          layer: "view:reader",
+          when,
+          run: () => pager.previousPage(),
+        },
+      ]);
+    }, [events, pager]);
+
+    const handleTouchStart = (e: React.TouchEvent) => {
+      const touch = e.touches[0];
+      touchStart.current = touch
+        ? { x: touch.clientX, y: touch.clientY }
+        : null;
+    };
+
+    const handleTouchEnd = (e: React.TouchEvent) => {
+      const start = touchStart.current;
+      const touch = e.changedTouches[0];
+      touchStart.current = null;
+      if (!start || !touch) return;
+      const dx = touch.clientX - start.x;
+      const dy = touch.clientY - start.y;
+      if (Math.abs(dx) < SWIPE_DISTANCE || Math.abs(dx) < Math.abs(dy)) return;
+      if (dx < 0) pager.nextPage();
+      else pager.previousPage();
+    };
+
+    return (
+      <div>
+        <div
+          ref={pagerRef}
+          className="chapter-pager"
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
+        >
+          <div className="chapter-content chapter-columns">{children}</div>
+        </div>
+        <div className="page-counter">
+          Page {pager.page + 1} of {pager.pageCount}
+        </div>
+      </div>
+    );
+  },
+);
@@ -0,0 +1,101 @@
+import { Pause, Play, SkipBack, SkipForward, X } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import type { SpeechVoice } from "../lib/SpeechEngine";
+import { RATE_RANGE } from "../stores/ReadAloudStore";
+import { useReaderStore } from "../stores/RootStore";
+
+const RATES: number[] = [];
+for (let r = RATE_RANGE.min; r <= RATE_RANGE.max; r += RATE_RANGE.step) {
+  RATES.push(r);
+}
+
+// Voices for the book's language when there are any; browsers list dozens
+function voicesFor(voices: SpeechVoice[], language?: string): SpeechVoice[] {
+  const prefix = language?.split("-")[0]?.toLowerCase();
+  const matching = prefix
+    ? voices.filter((voice) => voice.lang.toLowerCase().startsWith(prefix))
+    : [];
+  return matching.length > 0 ? matching : voices;
+}
+
+export const BarButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ label, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="p-1.5 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-full"
+    aria-label={label}
+    title={label}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Controls for reading aloud, floating at the bottom while it is on
+ */
+export const ReadAloudBar: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const { readAloud } = readerStore;
+  if (!readAloud.isActive) return null;
+
+  const voices = voicesFor(readAloud.voices, readerStore.metadata.language);
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1 px-3 py-1.5 bg-white/95 border border-gray-200 rounded-full shadow-md backdrop-blur-sm">
+      <BarButton label="Previous sentence" onClick={() => readAloud.skip(-1)}>
+        <SkipBack className="w-4 h-4" />
+      </BarButton>
+      <BarButton
+        label={readAloud.status === "playing" ? "Pause" : "Play"}
+        onClick={() => readAloud.toggle()}
+      >
+        {readAloud.status === "playing" ? (
+          <Pause className="w-5 h-5" />
+        ) : (
+          <Play className="w-5 h-5" />
+        )}
+      </BarButton>
+      <BarButton label="Next sentence" onClick={() => readAloud.skip(1)}>
+        <SkipForward className="w-4 h-4" />
+      </BarButton>
+
+      <select
+        value={readAloud.rate}
+        onChange={(e) => readAloud.setRate(Number(e.target.value))}
+        className="ml-2 px-1 py-0.5 text-sm border border-gray-200 rounded-md bg-white"
+        aria-label="Speed"
+      >
+        {RATES.map((rate) => (
+          <option key={rate} value={rate}>
+            {rate}×
+          </option>
+        ))}
+      </select>
+
+      {voices.length > 0 && (
+        <select
+          value={readAloud.voiceId ?? ""}
+          onChange={(e) => readAloud.setVoice(e.target.value || null)}
+          className="max-w-40 px-1 py-0.5 text-sm border border-gray-200 rounded-md bg-white"
+          aria-label="Voice"
+        >
+          <option value="">Default voice</option>
+          {voices.map((voice) => (
+            <option key={voice.id} value={voice.id}>
+              {voice.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <BarButton label="Stop reading aloud" onClick={() => readAloud.stop()}>
+        <X className="w-4 h-4" />
+      </BarButton>
+    </div>
+  );
+});
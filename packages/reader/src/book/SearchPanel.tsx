@@ -0,0 +1,106 @@
+import type { SearchHit } from "@epubdown/core";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useEffect, useRef } from "react";
+import { useReaderStore } from "../stores/RootStore";
+import { MAX_SEARCH_HITS } from "../stores/SearchStore";
+
+const SearchHitItem: React.FC<{ hit: SearchHit }> = observer(({ hit }) => {
+  const readerStore = useReaderStore();
+  const isActive = readerStore.searchStore.activeHit === hit;
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={() => readerStore.goToSearchHit(hit)}
+        className={`w-full text-left py-1.5 px-2 rounded text-sm text-gray-600 hover:bg-gray-100 ${
+          isActive ? "bg-gray-100" : ""
+        }`}
+      >
+        <span className="line-clamp-3">
+          …{hit.before}
+          <mark className="bg-orange-200 text-gray-900 rounded-sm">
+            {hit.match}
+          </mark>
+          {hit.after}…
+        </span>
+      </button>
+    </li>
+  );
+});
+
+/**
+ * Full-text search of the open book, with hits grouped by chapter
+ */
+export const SearchPanel: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const { searchStore, isSidebarOpen } = readerStore;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const groups = readerStore.searchGroups;
+
+  // The sidebar stays mounted while closed; focus the query when it opens
+  useEffect(() => {
+    if (isSidebarOpen) inputRef.current?.focus();
+  }, [isSidebarOpen]);
+
+  let status: string | null = null;
+  if (searchStore.isSearching) {
+    status = "Searching…";
+  } else if (searchStore.truncated) {
+    status = `Showing the first ${MAX_SEARCH_HITS} matches`;
+  } else if (searchStore.query.trim()) {
+    const count = searchStore.hitCount;
+    status =
+      count === 0 ? "No matches" : `${count} match${count === 1 ? "" : "es"}`;
+  }
+
+  return (
+    <div className="p-4 bg-white">
+      <input
+        ref={inputRef}
+        type="search"
+        value={searchStore.query}
+        onChange={(e) => searchStore.setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") void searchStore.run();
+        }}
+        placeholder="Search in book"
+        className="w-full text-sm px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:border-blue-400"
+      />
+      <div className="flex items-center gap-4 mt-2 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={searchStore.matchCase}
+            onChange={(e) => searchStore.setMatchCase(e.target.checked)}
+          />
+          Match case
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={searchStore.wholeWord}
+            onChange={(e) => searchStore.setWholeWord(e.target.checked)}
+          />
+          Whole words
+        </label>
+      </div>
+
+      {status && <div className="mt-3 text-xs text-gray-500">{status}</div>}
+
+      {groups.map((group) => (
+        <section key={group.chapterIndex} className="mt-4">
+          <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+            {group.title}
+          </h3>
+          <ul>
+            {group.hits.map((hit) => (
+              <SearchHitItem key={hit.index} hit={hit} />
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+});
@@ -0,0 +1,226 @@
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import {
+  EMBEDDED_FONT_PREFIX,
+  FONT_STACKS,
+  type ReaderLayout,
+  type ReaderSettings,
+  type ReaderTextAlign,
+  type ReaderTheme,
+  SETTING_RANGES,
+} from "../lib/readerSettings";
+import { useReaderStore } from "../stores/RootStore";
+
+const THEME_OPTIONS: { id: ReaderTheme; label: string; swatch: string }[] = [
+  { id: "light", label: "Light", swatch: "bg-white text-gray-900" },
+  { id: "sepia", label: "Sepia", swatch: "bg-[#f4ecd8] text-[#5b4636]" },
+  { id: "dark", label: "Dark", swatch: "bg-[#1c1c1e] text-gray-200" },
+];
+
+const LAYOUT_OPTIONS: { id: ReaderLayout; label: string }[] = [
+  { id: "scroll", label: "Scroll" },
+  { id: "paginated", label: "Pages" },
+  { id: "continuous", label: "Continuous" },
+];
+
+const ALIGN_OPTIONS: { id: ReaderTextAlign; label: string }[] = [
+  { id: "start", label: "Left" },
+  { id: "justify", label: "Justified" },
+];
+
+type RangeKey = keyof typeof SETTING_RANGES;
+
+const RANGE_LABELS: Record<
+  RangeKey,
+  { label: string; format: (value: number) => string }
+> = {
+  fontSize: { label: "Font size", format: (value) => `${value}px` },
+  lineHeight: { label: "Line height", format: (value) => value.toFixed(1) },
+  pageWidth: { label: "Page width", format: (value) => `${value}ch` },
+  margin: { label: "Margins", format: (value) => `${value}rem` },
+};
+
+const RangeSetting: React.FC<{
+  setting: RangeKey;
+  value: number;
+  onChange: (patch: Partial<ReaderSettings>) => void;
+}> = ({ setting, value, onChange }) => {
+  const { min, max, step } = SETTING_RANGES[setting];
+  const { label, format } = RANGE_LABELS[setting];
+  return (
+    <label className="block">
+      <div className="flex justify-between text-sm text-gray-700">
+        <span>{label}</span>
+        <span className="text-gray-500 tabular-nums">{format(value)}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange({ [setting]: Number(e.target.value) })}
+        className="w-full"
+      />
+    </label>
+  );
+};
+
+/**
+ * Typography and theme of the reader, for all books or only the open one
+ */
+export const SettingsPanel: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const { settingsStore, useHtmlMode } = readerStore;
+  const { settings } = settingsStore;
+  const update = (patch: Partial<ReaderSettings>) =>
+    settingsStore.update(patch);
+
+  return (
+    <div className="p-4 bg-white space-y-4">
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settingsStore.hasBookOverrides}
+          onChange={(e) => settingsStore.setUseBookOverrides(e.target.checked)}
+          disabled={settingsStore.bookId === null}
+        />
+        Only for this book
+      </label>
+
+      <div>
+        <div className="text-sm text-gray-700 mb-1">Theme</div>
+        <div className="grid grid-cols-3 gap-2">
+          {THEME_OPTIONS.map((theme) => (
+            <button
+              key={theme.id}
+              type="button"
+              onClick={() => update({ theme: theme.id })}
+              className={`px-2 py-1.5 text-sm rounded-lg border ${theme.swatch} ${
+                settings.theme === theme.id
+                  ? "border-blue-600 ring-1 ring-blue-600"
+                  : "border-gray-200"
+              }`}
+              aria-pressed={settings.theme === theme.id}
+            >
+              {theme.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-sm text-gray-700 mb-1">Layout</div>
+        <div className="grid grid-cols-3 gap-2">
+          {LAYOUT_OPTIONS.map((layout) => (
+            <button
+              key={layout.id}
+              type="button"
+              onClick={() => update({ layout: layout.id })}
+              className={`px-2 py-1 text-sm rounded-lg border ${
+                settings.layout === layout.id
+                  ? "border-blue-600 text-gray-900"
+                  : "border-gray-200 text-gray-600 hover:bg-gray-50"
+              }`}
+              aria-pressed={settings.layout === layout.id}
+            >
+              {layout.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block">
+        <div className="text-sm text-gray-700 mb-1">Font</div>
+        <select
+          value={settings.fontFamily}
+          onChange={(e) => update({ fontFamily: e.target.value })}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+        >
+          {Object.entries(FONT_STACKS).map(([id, font]) => (
+            <option key={id} value={id}>
+              {font.label}
+            </option>
+          ))}
+          {/* The book's own fonts only load in HTML mode */}
+          {useHtmlMode && <option value="publisher">Publisher default</option>}
+          {useHtmlMode && settingsStore.bookFonts.length > 0 && (
+            <optgroup label="Embedded in this book">
+              {settingsStore.bookFonts.map((family) => (
+                <option key={family} value={`${EMBEDDED_FONT_PREFIX}${family}`}>
+                  {family}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+      </label>
+
+      {(Object.keys(SETTING_RANGES) as RangeKey[]).map((setting) => (
+        <RangeSetting
+          key={setting}
+          setting={setting}
+          value={settings[setting]}
+          onChange={update}
+        />
+      ))}
+
+      <div>
+        <div className="text-sm text-gray-700 mb-1">Alignment</div>
+        <div className="grid grid-cols-2 gap-2">
+          {ALIGN_OPTIONS.map((align) => (
+            <button
+              key={align.id}
+              type="button"
+              onClick={() => update({ textAlign: align.id })}
+              className={`px-2 py-1 text-sm rounded-lg border ${
+                settings.textAlign === align.id
+                  ? "border-blue-600 text-gray-900"
+                  : "border-gray-200 text-gray-600 hover:bg-gray-50"
+              }`}
+              aria-pressed={settings.textAlign === align.id}
+            >
+              {align.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.hyphenate}
+          onChange={(e) => update({ hyphenate: e.target.checked })}
+        />
+        Hyphenation
+      </label>
+
+      {useHtmlMode && (
+        <label className="flex items-start gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.overridePublisherStyles}
+            onChange={(e) =>
+              update({ overridePublisherStyles: e.target.checked })
+            }
+            className="mt-0.5"
+          />
+          <span>
+            Override publisher styles
+            <span className="block text-xs text-gray-500">
+              Apply these settings over the book's own CSS
+            </span>
+          </span>
+        </label>
+      )}
+
+      <button
+        type="button"
+        onClick={() => settingsStore.resetToDefaults()}
+        className="w-full px-3 py-1.5 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+});
@@ -1,9 +1,33 @@
-import { Book, Code2, Menu, Search, X } from "lucide-react";
+import {
+  AudioLines,
+  Book,
+  Code2,
+  Headphones,
+  Languages,
+  Menu,
+  MessageSquare,
+  Search,
+  Type,
+  X,
+} from "lucide-react";
 import { observer } from "mobx-react-lite";
 import type React from "react";
 import { useEffect, useRef } from "react";
 import { useLocation } from "wouter";
+import type { SidebarPanel } from "../stores/ReaderStore";
 import { useReaderStore } from "../stores/RootStore";
+import { BookmarkList } from "./BookmarkList";
+import { HighlightList } from "./HighlightList";
+import { SearchPanel } from "./SearchPanel";
+import { SettingsPanel } from "./SettingsPanel";
+import { VocabularyPanel } from "./VocabularyPanel";
+
+const PANELS: { id: SidebarPanel; label: string }[] = [
+  { id: "contents", label: "Contents" },
+  { id: "search", label: "Search" },
+  { id: "bookmarks", label: "Bookmarks" },
+  { id: "highlights", label: "Highlights" },
+];
 
 interface SidebarProps {
   children?: React.ReactNode;
@@ -13,7 +37,7 @@ export const Sidebar = observer(({ children }: SidebarProps) => {
   const [, navigate] = useLocation();
   const readerStore = useReaderStore();
   const sidebarRef = useRef<HTMLDivElement>(null);
-  const { isSidebarOpen: isOpen } = readerStore;
+  const { isSidebarOpen: isOpen, sidebarPanel } = readerStore;
 
   // Setup event bindings for sidebar
   useEffect(() => {
@@ -113,12 +137,116 @@ export const Sidebar = observer(({ children }: SidebarProps) => {
                     {readerStore.useHtmlMode ? "on" : "off"}
                   </span>
                 </button>
+
+                {readerStore.readAloud.available && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      readerStore.readAloud.play();
+                      readerStore.setSidebarOpen(false);
+                    }}
+                    disabled={readerStore.useHtmlMode}
+                    title={
+                      readerStore.useHtmlMode
+                        ? "Not available with HTML rendering"
+                        : undefined
+                    }
+                    className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <Headphones className="w-5 h-5 text-gray-600" />
+                    <span>Read aloud</span>
+                  </button>
+                )}
+
+                {readerStore.mediaOverlay.hasOverlay && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      readerStore.mediaOverlay.play();
+                      readerStore.setSidebarOpen(false);
+                    }}
+                    className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-200 rounded-lg transition-colors"
+                  >
+                    <AudioLines className="w-5 h-5 text-gray-600" />
+                    <span>Play narration</span>
+                  </button>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => readerStore.setSidebarPanel("vocabulary")}
+                  className={`w-full flex items-center gap-3 px-3 py-2 text-left rounded-lg transition-colors ${
+                    sidebarPanel === "vocabulary"
+                      ? "bg-gray-200"
+                      : "hover:bg-gray-200"
+                  }`}
+                >
+                  <Languages className="w-5 h-5 text-gray-600" />
+                  <span>Dictionary</span>
+                </button>
+
+                <button
+                  type="button"
+                  onClick={() => {
+                    readerStore.chat.setOpen(true);
+                    readerStore.setSidebarOpen(false);
+                  }}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-gray-200 rounded-lg transition-colors"
+                >
+                  <MessageSquare className="w-5 h-5 text-gray-600" />
+                  <span>Assistant</span>
+                </button>
+
+                <button
+                  type="button"
+                  onClick={() => readerStore.setSidebarPanel("settings")}
+                  className={`w-full flex items-center gap-3 px-3 py-2 text-left rounded-lg transition-colors ${
+                    sidebarPanel === "settings"
+                      ? "bg-gray-200"
+                      : "hover:bg-gray-200"
+                  }`}
+                >
+                  <Type className="w-5 h-5 text-gray-600" />
+                  <span>Display</span>
+                </button>
               </div>
             </div>
           </div>
 
+          {/* Panel tabs */}
+          <div className="flex px-2 border-b border-gray-200">
+            {PANELS.map((panel) => (
+              <button
+                key={panel.id}
+                type="button"
+                onClick={() => readerStore.setSidebarPanel(panel.id)}
+                className={`px-2 py-2 text-sm -mb-px border-b-2 transition-colors ${
+                  sidebarPanel === panel.id
+                    ? "border-blue-600 text-gray-900"
+                    : "border-transparent text-gray-500 hover:text-gray-800"
+                }`}
+              >
+                {panel.label}
+              </button>
+            ))}
+          </div>
+
           {/* Table of contents or other content */}
-          <div className="flex-1">{children}</div>
+          <div className="flex-1">
+            {sidebarPanel === "search" ? (
+              <SearchPanel />
+            ) : sidebarPanel === "bookmarks" ? (
+              <BookmarkList />
+            ) : sidebarPanel === "highlights" ? (
+              <HighlightList />
+            ) : sidebarPanel === "vocabulary" ? (
+              <VocabularyPanel />
+            ) : sidebarPanel === "settings" ? (
+              <SettingsPanel />
+            ) : (
+              children
+            )}
+          </div>
         </div>
       </div>
     </>
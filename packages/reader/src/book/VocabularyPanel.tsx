@@ -0,0 +1,188 @@
+import { Trash2 } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useRef, useState } from "react";
+import type { Dictionary } from "../lib/DictionaryDatabase";
+import { dictionariesForLanguage } from "../stores/DictionaryStore";
+import { useReaderStore } from "../stores/RootStore";
+
+const DICTIONARY_FILES = ".ifo,.idx,.gz,.dict,.dz,.json,.tsv,.tab,.txt";
+
+const DictionaryItem: React.FC<{ dictionary: Dictionary; inUse: boolean }> =
+  observer(({ dictionary, inUse }) => {
+    const { dictionaryStore } = useReaderStore();
+
+    return (
+      <li className="group flex items-center gap-2 py-1">
+        <div className="flex-1 min-w-0">
+          <div className="truncate text-sm text-gray-800">
+            {dictionary.name}
+          </div>
+          <div className="text-xs text-gray-500">
+            {dictionary.entryCount.toLocaleString()} entries
+            {inUse ? "" : " · not for this book"}
+          </div>
+        </div>
+        <input
+          defaultValue={dictionary.language ?? ""}
+          onBlur={(e) => {
+            if (e.target.value.trim() !== (dictionary.language ?? "")) {
+              dictionaryStore.setDictionaryLanguage(
+                dictionary.id,
+                e.target.value,
+              );
+            }
+          }}
+          placeholder="any"
+          className="w-14 text-xs px-1.5 py-0.5 border border-gray-200 rounded focus:outline-none focus:border-blue-400"
+          aria-label={`Language of ${dictionary.name}`}
+        />
+        <button
+          type="button"
+          onClick={() => {
+            if (window.confirm(`Delete the dictionary “${dictionary.name}”?`)) {
+              dictionaryStore.removeDictionary(dictionary.id);
+            }
+          }}
+          className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+          aria-label="Delete dictionary"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </li>
+    );
+  });
+
+const DictionaryImport: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const { dictionaryStore } = readerStore;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [language, setLanguage] = useState<string>(
+    readerStore.metadata.language ?? "",
+  );
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          placeholder="Language, e.g. en"
+          className="w-32 text-sm px-2 py-1 border border-gray-200 rounded focus:outline-none focus:border-blue-400"
+          aria-label="Dictionary language"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={dictionaryStore.isImporting}
+          className="flex-1 px-3 py-1 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          {!dictionaryStore.isImporting
+            ? "Import dictionary"
+            : dictionaryStore.importProgress === null
+              ? "Importing…"
+              : `Importing… ${dictionaryStore.importProgress}%`}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={DICTIONARY_FILES}
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = "";
+            if (files.length > 0) dictionaryStore.importFiles(files, language);
+          }}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        StarDict (choose the .ifo, .idx and .dict files together), JSON or
+        tab-separated word lists. Leave the language empty to use the one in the
+        file.
+      </p>
+      {dictionaryStore.importError && (
+        <p className="text-xs text-red-600">{dictionaryStore.importError}</p>
+      )}
+    </div>
+  );
+});
+
+/**
+ * Words saved from "Define" in the open book, and the offline
+ * dictionaries definitions come from
+ */
+export const VocabularyPanel: React.FC = observer(() => {
+  const readerStore = useReaderStore();
+  const { dictionaryStore } = readerStore;
+  const { vocabulary, dictionaries } = dictionaryStore;
+  const inUse = new Set(
+    dictionariesForLanguage(dictionaries, readerStore.metadata.language).map(
+      (d) => d.id,
+    ),
+  );
+
+  return (
+    <div className="p-4 bg-white space-y-6">
+      <section>
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Vocabulary</h3>
+        {vocabulary.length === 0 ? (
+          <div className="text-gray-500 text-sm">
+            No words yet. Select a word and choose Define to look it up.
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {vocabulary.map((entry) => (
+              <li key={entry.id} className="group text-sm">
+                <div className="flex items-center gap-1">
+                  <span className="flex-1 font-medium text-gray-900">
+                    {entry.word}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => dictionaryStore.removeWord(entry.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                    aria-label="Remove word"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                {entry.definition && (
+                  <p className="text-gray-700 line-clamp-3 whitespace-pre-line">
+                    {entry.definition}
+                  </p>
+                )}
+                {entry.context && (
+                  <p className="mt-0.5 text-xs text-gray-500 italic">
+                    {entry.context}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-sm font-medium text-gray-900 mb-1">Dictionaries</h3>
+        {dictionaries.length === 0 ? (
+          <div className="text-gray-500 text-sm">
+            No dictionaries imported. Definitions are looked up offline in
+            dictionaries you import here.
+          </div>
+        ) : (
+          <ul>
+            {dictionaries.map((dictionary) => (
+              <DictionaryItem
+                key={dictionary.id}
+                dictionary={dictionary}
+                inUse={inUse.has(dictionary.id)}
+              />
+            ))}
+          </ul>
+        )}
+        <DictionaryImport />
+      </section>
+    </div>
+  );
+});
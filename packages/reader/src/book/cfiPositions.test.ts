@@ -0,0 +1,68 @@
+import { EPub } from "@epubdown/core";
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { cfiPositionCodec } from "./cfiPositions";
+
+async function book(): Promise<EPub> {
+  const zip = new JSZip();
+  zip.file(
+    "META-INF/container.xml",
+    `<?xml version="1.0"?><container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>`,
+  );
+  zip.file(
+    "OEBPS/content.opf",
+    `<?xml version="1.0"?><package xmlns="http://www.idpf.org/2007/opf" version="3.0"><metadata/><manifest><item id="ch1" href="ch1.xhtml" media-type="application/xhtml+xml"/></manifest><spine><itemref idref="ch1"/></spine></package>`,
+  );
+  zip.file(
+    "OEBPS/ch1.xhtml",
+    `<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>One</title></head><body><div class="wrap"><h1>Chapter One</h1><p>First  paragraph.</p><p id="second">Second <b>paragraph</b>.</p></div></body></html>`,
+  );
+  return EPub.fromZip(await zip.generateAsync({ type: "uint8array" }));
+}
+
+// What the Markdown renderer makes of the chapter: no wrapper, new markup
+function rendered(): HTMLElement {
+  const content = document.createElement("div");
+  content.innerHTML =
+    "<h1>Chapter One</h1>\n<p>First paragraph.</p>\n<p>Second <strong>paragraph</strong>.</p>";
+  return content;
+}
+
+describe("cfiPositionCodec", () => {
+  it("round-trips rendered blocks through source CFIs", async () => {
+    const epub = await book();
+    const source = await epub.getChapter("/OEBPS/ch1.xhtml");
+    if (!source) throw new Error("chapter missing");
+    const codec = cfiPositionCodec(epub, source);
+    const content = rendered();
+    const block = content.children[2] as Element;
+
+    const cfi = codec.encode(block, content);
+    expect(cfi).toBe("epubcfi(/6/2!/4/2/6[second]/1:0)");
+    expect(codec.decode(cfi as string, content)).toBe(block);
+  });
+
+  it("finds blocks nested in the publisher's HTML", async () => {
+    const epub = await book();
+    const source = await epub.getChapter("/OEBPS/ch1.xhtml");
+    if (!source) throw new Error("chapter missing");
+    const codec = cfiPositionCodec(epub, source);
+    // HTML mode renders the source body as is
+    const content = document.createElement("div");
+    content.innerHTML = `<div class="wrap"><h1>Chapter One</h1><p>First  paragraph.</p><p id="second">Second <b>paragraph</b>.</p></div>`;
+    const block = content.querySelector("#second") as Element;
+
+    const cfi = codec.encode(block, content);
+    expect(cfi).toBe("epubcfi(/6/2!/4/2/6[second]/1:0)");
+    expect(codec.decode(cfi as string, content)).toBe(block);
+  });
+
+  it("ignores CFIs into other spine items", async () => {
+    const epub = await book();
+    const source = await epub.getChapter("/OEBPS/ch1.xhtml");
+    if (!source) throw new Error("chapter missing");
+    const codec = cfiPositionCodec(epub, source);
+    expect(codec.decode("epubcfi(/6/4!/4/2)", rendered())).toBeNull();
+    expect(codec.decode("epubcfi(nonsense)", rendered())).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  type DOMFile,
+  type DOMPosition,
+  type EPub,
+  positionAtTextOffset,
+  resolveCFIIn,
+  textOffsetOf,
+} from "@epubdown/core";
+import {
+  BLOCK_SELECTOR,
+  type PositionCodec,
+} from "../stores/ReadingProgressStore";
+
+/**
+ * Encode reading positions in a rendered chapter, Markdown or the
+ * publisher's HTML, as CFIs into the chapter's source document, and back.
+ *
+ * Rendered blocks don't map one-to-one to source elements, so positions are
+ * matched by counting non-whitespace characters from the start of the
+ * chapter. `source` must be an unconverted copy of the chapter, since
+ * conversion rewrites the DOM it is given.
+ */
+export function cfiPositionCodec(epub: EPub, source: DOMFile): PositionCodec {
+  const sourceRoot = source.querySelector("body") ?? source.dom;
+
+  return {
+    encode(block, content) {
+      const offset = textOffsetOf(content, block);
+      const position = positionAtTextOffset(sourceRoot, offset);
+      if (!position) return null;
+      return epub.cfi.generate(source.path, position.node, position.offset);
+    },
+
+    decode(cfi, content) {
+      let start: DOMPosition;
+      try {
+        if (epub.cfi.spineTarget(cfi)?.path !== source.path) return null;
+        start = resolveCFIIn(source.dom, cfi).start;
+      } catch {
+        return null;
+      }
+      const rendered = positionAtTextOffset(
+        content,
+        textOffsetOf(sourceRoot, start.node, start.offset),
+      );
+      // Climb to the outermost block holding the position, as tracked
+      // blocks may sit in sections; else to the top-level element
+      let block: Element | null = null;
+      let top: Node | null = null;
+      let node: Node | null = rendered?.node ?? null;
+      while (node && node !== content) {
+        if (node.nodeType === 1 && (node as Element).matches(BLOCK_SELECTOR)) {
+          block = node as Element;
+        }
+        top = node;
+        node = node.parentNode;
+      }
+      if (!node) return null;
+      return block ?? (top?.nodeType === 1 ? (top as Element) : null);
+    },
+  };
+}
+
+/**
+ * Range CFI into `source` covering the text between two offsets, as counted
+ * by `textOffsetOf`
+ */
+export function textRangeCfi(
+  epub: EPub,
+  source: DOMFile,
+  startOffset: number,
+  endOffset: number,
+): string | null {
+  const sourceRoot = source.querySelector("body") ?? source.dom;
+  const start = positionAtTextOffset(sourceRoot, startOffset);
+  const last = positionAtTextOffset(sourceRoot, endOffset - 1);
+  if (!start || !last) return null;
+  return epub.cfi.generateRange(source.path, {
+    startContainer: start.node,
+    startOffset: start.offset,
+    endContainer: last.node,
+    // Just past the last highlighted character
+    endOffset: last.offset + 1,
+  });
+}
+
+/**
+ * Offset of the start of a CFI in `source`, as counted by `textOffsetOf`;
+ * null when the CFI doesn't resolve in it
+ */
+export function cfiTextOffset(
+  epub: EPub,
+  source: DOMFile,
+  cfi: string,
+): number | null {
+  const sourceRoot = source.querySelector("body") ?? source.dom;
+  try {
+    if (epub.cfi.spineTarget(cfi)?.path !== source.path) return null;
+    const { start } = resolveCFIIn(source.dom, cfi);
+    return textOffsetOf(sourceRoot, start.node, start.offset);
+  } catch {
+    return null;
+  }
+}
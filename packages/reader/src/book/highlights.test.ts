@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import type { Highlight } from "../lib/HighlightDatabase";
+import { DEFAULT_READER_SETTINGS, htmlModeCss } from "../lib/readerSettings";
+import {
+  HIGHLIGHT_BACKGROUNDS,
+  applyHighlights,
+  clearHighlights,
+  clearSearchHit,
+  clearSpokenText,
+  highlightElementId,
+  markSearchHit,
+  markSpokenText,
+  rangeTextOffsets,
+} from "./highlights";
+
+function content(html: string): HTMLElement {
+  const root = document.createElement("div");
+  root.innerHTML = html;
+  return root;
+}
+
+function highlight(
+  startOffset: number,
+  endOffset: number,
+  overrides: Partial<Highlight> = {},
+): Highlight {
+  return {
+    id: 1,
+    bookId: 1,
+    chapterPath: "/ch1.xhtml",
+    cfi: "",
+    startOffset,
+    endOffset,
+    quote: "",
+    color: "yellow",
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe("highlights", () => {
+  it("measures a selection the way it is re-applied", () => {
+    const root = content("<p>Hello <em>brave</em> new world</p>");
+    const range = document.createRange();
+    range.setStart(root.querySelector("em")?.firstChild as Node, 0);
+    range.setEnd(root.querySelector("p")?.lastChild as Node, 4);
+    // Whitespace isn't counted: "Hello" is 5, "brave new" ends at 13
+    expect(rangeTextOffsets(root, range)).toEqual({
+      startOffset: 5,
+      endOffset: 13,
+    });
+  });
+
+  it("wraps text across elements and blocks", () => {
+    const root = content("<p>Hello <em>brave</em> new</p>\n<p>world</p>");
+    applyHighlights(root, [highlight(5, 15, { note: "nice" })]);
+
+    const marks = Array.from(root.querySelectorAll("mark"));
+    expect(marks.map((m) => m.textContent)).toEqual(["brave", " new", "wo"]);
+    expect(marks[0]?.id).toBe(highlightElementId(1));
+    expect(marks[1]?.id).toBe("");
+    expect(marks[0]?.title).toBe("nice");
+  });
+
+  it("skips highlights past the end of the text", () => {
+    const root = content("<p>Short</p>");
+    applyHighlights(root, [highlight(2, 50)]);
+    expect(root.querySelector("mark")).toBeNull();
+  });
+
+  it("places a highlight where its quote is nearest its anchor", () => {
+    const root = content("<p>one two one two one</p>");
+    // Anchored at the last "one" (offset 12) with offsets that drifted
+    const missing = applyHighlights(
+      root,
+      [highlight(3, 6, { quote: "one" })],
+      () => 12,
+    );
+
+    expect(missing).toEqual([]);
+    const marks = Array.from(root.querySelectorAll("mark"));
+    expect(marks.map((m) => m.textContent)).toEqual(["one"]);
+    expect(marks[0]?.previousSibling?.textContent).toBe("one two one two ");
+  });
+
+  it("reports highlights whose quote isn't in the text", () => {
+    const root = content("<p>Hello brave new world</p>");
+    const missing = applyHighlights(root, [
+      highlight(0, 5, { quote: "Hello" }),
+      highlight(5, 10, { id: 2, quote: "timid" }),
+    ]);
+
+    expect(missing).toEqual([2]);
+    expect(
+      Array.from(root.querySelectorAll("mark")).map((m) => m.textContent),
+    ).toEqual(["Hello"]);
+  });
+
+  it("keeps its color when publisher styles are overridden", () => {
+    const style = document.createElement("style");
+    style.textContent = htmlModeCss({
+      ...DEFAULT_READER_SETTINGS,
+      overridePublisherStyles: true,
+    });
+    const root = content("<p>Hello <span>brave</span> world</p>");
+    root.className = "chapter-html-body";
+    document.body.append(style, root);
+    try {
+      applyHighlights(root, [highlight(5, 10)]);
+      const mark = root.querySelector("mark") as HTMLElement;
+      expect(getComputedStyle(mark).backgroundColor).toBe(
+        HIGHLIGHT_BACKGROUNDS.yellow,
+      );
+      // jsdom doesn't weigh `!important`, so check what the rules select
+      const backgroundRules = Array.from(style.sheet?.cssRules ?? []).filter(
+        (rule): rule is CSSStyleRule =>
+          rule instanceof CSSStyleRule &&
+          rule.cssText.includes("background-color"),
+      );
+      expect(backgroundRules).not.toHaveLength(0);
+      for (const rule of backgroundRules) {
+        expect(root.querySelector("span")?.matches(rule.selectorText)).toBe(
+          true,
+        );
+        expect(mark.matches(rule.selectorText)).toBe(false);
+      }
+    } finally {
+      style.remove();
+      root.remove();
+    }
+  });
+
+  it("restores the original text nodes when cleared", () => {
+    const root = content("<p>Hello brave new world</p>");
+    const html = root.innerHTML;
+    applyHighlights(root, [
+      highlight(5, 10),
+      highlight(7, 12, { id: 2, color: "green" }),
+    ]);
+    expect(root.querySelectorAll("mark").length).toBeGreaterThan(1);
+
+    clearHighlights(root);
+    expect(root.innerHTML).toBe(html);
+    expect(root.querySelector("p")?.childNodes.length).toBe(1);
+  });
+
+  it("marks a search hit apart from highlights", () => {
+    const root = content("<p>Hello brave new world</p>");
+    const html = root.innerHTML;
+    applyHighlights(root, [highlight(0, 5)]);
+    const mark = markSearchHit(root, {
+      startOffset: 5,
+      endOffset: 10,
+      match: "brave",
+    });
+    expect(mark?.textContent).toBe("brave");
+
+    clearSearchHit(root);
+    expect(root.querySelectorAll("mark")).toHaveLength(1);
+    clearHighlights(root);
+    expect(root.innerHTML).toBe(html);
+  });
+
+  it("marks a search hit where its match is, near its offsets", () => {
+    // Rendered Markdown dropped the "*" the source counted
+    const root = content("<p>Note: the brave and the bold</p>");
+    const mark = markSearchHit(root, {
+      startOffset: 9,
+      endOffset: 14,
+      match: "brave",
+    });
+    expect(mark?.textContent).toBe("brave");
+
+    clearSearchHit(root);
+    expect(
+      markSearchHit(root, { startOffset: 9, endOffset: 14, match: "timid" }),
+    ).toBeUndefined();
+    expect(root.querySelector("mark")).toBeNull();
+  });
+
+  it("marks a spoken sentence across inline elements", () => {
+    const root = content("<p>One. Two <em>and</em> three. Four.</p>");
+    const html = root.innerHTML;
+    const first = markSpokenText(root, 4, 16);
+    expect(first?.textContent).toBe("Two ");
+    expect(
+      Array.from(root.querySelectorAll("mark"), (m) => m.textContent).join(""),
+    ).toBe("Two and three.");
+
+    clearSpokenText(root);
+    expect(root.innerHTML).toBe(html);
+  });
+});
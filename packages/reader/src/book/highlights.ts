@@ -0,0 +1,265 @@
+import {
+  extractText,
+  positionAtTextOffset,
+  textOffsetOf,
+} from "@epubdown/core";
+import type { SearchHit } from "@epubdown/core";
+import type { Highlight, HighlightColor } from "../lib/HighlightDatabase";
+
+/** Marks the element a chapter renders into; highlight offsets count from it */
+export const HIGHLIGHT_ROOT_ATTR = "data-highlight-root";
+const HIGHLIGHT_ID_ATTR = "data-highlight-id";
+const SEARCH_HIT_ATTR = "data-search-hit";
+const SPOKEN_ATTR = "data-spoken";
+
+// Inline so the colors also apply inside the HTML mode shadow root
+export const HIGHLIGHT_BACKGROUNDS: Record<HighlightColor, string> = {
+  yellow: "rgba(250, 204, 21, 0.4)",
+  green: "rgba(74, 222, 128, 0.4)",
+  blue: "rgba(96, 165, 250, 0.4)",
+  pink: "rgba(244, 114, 182, 0.4)",
+};
+const SEARCH_HIT_BACKGROUND = "rgba(251, 146, 60, 0.6)";
+const SPOKEN_BACKGROUND = "rgba(96, 165, 250, 0.3)";
+
+/** Fragment id of the first mark of a highlight, for scrolling to it */
+export function highlightElementId(id: number): string {
+  return `highlight-${id}`;
+}
+
+/**
+ * Rendered chapter root holding `node`, if any
+ */
+export function findHighlightRoot(node: Node): HTMLElement | null {
+  const el = node.nodeType === 1 ? (node as Element) : node.parentElement;
+  return el?.closest<HTMLElement>(`[${HIGHLIGHT_ROOT_ATTR}]`) ?? null;
+}
+
+/**
+ * Text offsets of a range within a rendered chapter root
+ */
+export function rangeTextOffsets(
+  root: Node,
+  range: Range,
+): { startOffset: number; endOffset: number } {
+  return {
+    startOffset: textOffsetOf(root, range.startContainer, range.startOffset),
+    endOffset: textOffsetOf(root, range.endContainer, range.endOffset),
+  };
+}
+
+// Characters that text offsets skip (see `textOffsetOf`)
+const UNCOUNTED_CHARS = /[\s\u200B]/g;
+
+/**
+ * The characters of a rendered chapter root that text offsets count, so
+ * that index `i` of the result is text offset `i`
+ */
+export function countedText(root: Node): string {
+  return extractText(root).replace(UNCOUNTED_CHARS, "");
+}
+
+/**
+ * Offsets of `text` in `counted` (see `countedText`), taking the occurrence
+ * nearest `near`. Markdown rendering shifts offsets where it changes the
+ * text (math, footnotes moved to the end of the chapter, alt text), so
+ * offsets taken from the source or the other renderer are checked against
+ * the text they should cover. Null when the text isn't there at all.
+ */
+export function findTextNear(
+  counted: string,
+  text: string,
+  near: number,
+): { startOffset: number; endOffset: number } | null {
+  const needle = text.replace(UNCOUNTED_CHARS, "");
+  if (!needle) return null;
+
+  let best = -1;
+  for (
+    let i = counted.indexOf(needle);
+    i !== -1;
+    i = counted.indexOf(needle, i + 1)
+  ) {
+    if (best === -1 || Math.abs(i - near) < Math.abs(best - near)) best = i;
+    // Later occurrences are only farther away
+    if (i >= near) break;
+  }
+  return best === -1
+    ? null
+    : { startOffset: best, endOffset: best + needle.length };
+}
+
+function wrapRange(range: Range): HTMLElement[] {
+  const doc = range.startContainer.ownerDocument ?? document;
+  const root = range.commonAncestorContainer;
+  const texts: Text[] = [];
+  if (root.nodeType === 3) {
+    texts.push(root as Text);
+  } else {
+    const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+      if (range.intersectsNode(n)) texts.push(n as Text);
+    }
+  }
+
+  const marks: HTMLElement[] = [];
+  for (const text of texts) {
+    const start = text === range.startContainer ? range.startOffset : 0;
+    const end = text === range.endContainer ? range.endOffset : text.length;
+    // Skip whitespace between blocks, which can't hold inline marks
+    if (!text.data.slice(start, end).trim()) continue;
+
+    let target = text;
+    if (end < target.length) target.splitText(end);
+    if (start > 0) target = target.splitText(start);
+
+    const mark = doc.createElement("mark");
+    mark.style.color = "inherit";
+    target.parentNode?.insertBefore(mark, target);
+    mark.appendChild(target);
+    marks.push(mark);
+  }
+  return marks;
+}
+
+/**
+ * Wrap the text between two text offsets of `root` in `<mark>` elements.
+ * Nothing is wrapped when the offsets run past the rendered text.
+ */
+function markTextOffsets(
+  root: Node,
+  startOffset: number,
+  endOffset: number,
+): HTMLElement[] {
+  if (endOffset <= startOffset) return [];
+  const start = positionAtTextOffset(root, startOffset);
+  const last = positionAtTextOffset(root, endOffset - 1);
+  if (!start || !last) return [];
+
+  const range = (root.ownerDocument ?? document).createRange();
+  range.setStart(start.node, start.offset);
+  range.setEnd(last.node, last.offset + 1);
+  return wrapRange(range);
+}
+
+/**
+ * Wrap the text of each highlight in `<mark>` elements. Each highlight is
+ * looked for near `sourceOffset(highlight)`, its start resolved from its
+ * CFI, or else near its stored offsets, and placed where its quote is.
+ * Returns the ids of highlights whose quote isn't in the rendered text;
+ * those are left unmarked rather than marking other words.
+ */
+export function applyHighlights(
+  root: Node,
+  highlights: Highlight[],
+  sourceOffset?: (highlight: Highlight) => number | null,
+): number[] {
+  const missing: number[] = [];
+  const counted = highlights.length > 0 ? countedText(root) : "";
+  for (const highlight of highlights) {
+    const near = sourceOffset?.(highlight) ?? highlight.startOffset;
+    // Highlights without a quote have nothing to check against
+    const place = highlight.quote.trim()
+      ? findTextNear(counted, highlight.quote, near)
+      : highlight;
+    if (!place) {
+      missing.push(highlight.id);
+      continue;
+    }
+    const marks = markTextOffsets(root, place.startOffset, place.endOffset);
+    for (const mark of marks) {
+      mark.setAttribute(HIGHLIGHT_ID_ATTR, String(highlight.id));
+      mark.style.backgroundColor = HIGHLIGHT_BACKGROUNDS[highlight.color];
+      if (highlight.note) mark.title = highlight.note;
+    }
+    if (marks[0]) marks[0].id = highlightElementId(highlight.id);
+  }
+  return missing;
+}
+
+/**
+ * Mark a search hit in its rendered chapter, returning the first mark to
+ * scroll to
+ */
+export function markSearchHit(
+  root: Node,
+  hit: Pick<SearchHit, "startOffset" | "endOffset" | "match">,
+): HTMLElement | undefined {
+  // Offsets are counted in the source and may drift in rendered Markdown
+  const place = findTextNear(countedText(root), hit.match, hit.startOffset);
+  if (!place) return undefined;
+  const marks = markTextOffsets(root, place.startOffset, place.endOffset);
+  for (const mark of marks) {
+    mark.setAttribute(SEARCH_HIT_ATTR, "");
+    mark.style.backgroundColor = SEARCH_HIT_BACKGROUND;
+  }
+  return marks[0];
+}
+
+/**
+ * Mark the text being read aloud or narrated, returning the first mark to
+ * scroll to
+ */
+export function markSpokenText(
+  root: Node,
+  startOffset: number,
+  endOffset: number,
+): HTMLElement | undefined {
+  const marks = markTextOffsets(root, startOffset, endOffset);
+  for (const mark of marks) {
+    mark.setAttribute(SPOKEN_ATTR, "");
+    mark.style.backgroundColor = SPOKEN_BACKGROUND;
+  }
+  return marks[0];
+}
+
+/**
+ * Remove marks added by `applyHighlights`, restoring the original text nodes
+ */
+export function clearHighlights(root: ParentNode): void {
+  unwrapMarks(root, `mark[${HIGHLIGHT_ID_ATTR}]`);
+}
+
+/**
+ * Remove the mark added by `markSearchHit`
+ */
+export function clearSearchHit(root: ParentNode): void {
+  unwrapMarks(root, `mark[${SEARCH_HIT_ATTR}]`);
+}
+
+/**
+ * Keep a mark of the text being read aloud within the middle of the window,
+ * scrolling only when it leaves it so the page doesn't move with every
+ * sentence
+ */
+export function keepInView(mark: HTMLElement): void {
+  const rect = mark.getBoundingClientRect();
+  const { innerWidth: width, innerHeight: height } = window;
+  if (
+    rect.top < height * 0.1 ||
+    rect.bottom > height * 0.8 ||
+    rect.left < 0 ||
+    rect.right > width
+  ) {
+    mark.scrollIntoView({ block: "center" });
+  }
+}
+
+/**
+ * Remove the marks added by `markSpokenText`
+ */
+export function clearSpokenText(root: ParentNode): void {
+  unwrapMarks(root, `mark[${SPOKEN_ATTR}]`);
+}
+
+function unwrapMarks(root: ParentNode, selector: string): void {
+  const parents = new Set<Node>();
+  for (const mark of Array.from(root.querySelectorAll(selector))) {
+    const parent = mark.parentNode;
+    if (!parent) continue;
+    while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+    mark.remove();
+    parents.add(parent);
+  }
+  for (const parent of parents) parent.normalize();
+}
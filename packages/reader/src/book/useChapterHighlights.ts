@@ -0,0 +1,76 @@
+import { reaction } from "mobx";
+import { useEffect } from "react";
+import { useReaderStore } from "../stores/RootStore";
+import { cfiTextOffset } from "./cfiPositions";
+import {
+  HIGHLIGHT_ROOT_ATTR,
+  applyHighlights,
+  clearHighlights,
+  highlightElementId,
+} from "./highlights";
+
+// The URL fragment, left raw when it has a malformed escape
+function decodedHash(): string {
+  const hash = window.location.hash.slice(1);
+  try {
+    return decodeURIComponent(hash);
+  } catch {
+    return hash;
+  }
+}
+
+/**
+ * Keep the highlights of a chapter applied to its rendered root, re-applying
+ * them whenever they change. Highlights are anchored by their CFIs into a
+ * fresh copy of the chapter's source.
+ */
+export function useChapterHighlights(
+  root: HTMLElement | null,
+  chapterPath: string,
+): void {
+  const readerStore = useReaderStore();
+  const { highlightStore } = readerStore;
+
+  useEffect(() => {
+    if (!root) return;
+    root.setAttribute(HIGHLIGHT_ROOT_ATTR, "");
+    const { epub } = readerStore;
+    let cancelled = false;
+    let dispose: (() => void) | undefined;
+
+    (async () => {
+      const source = await epub?.getChapter(chapterPath).catch((error) => {
+        console.error("Failed to load chapter source:", error);
+        return undefined;
+      });
+      if (cancelled) return;
+      dispose = reaction(
+        () => highlightStore.forChapter(chapterPath),
+        (highlights) => {
+          clearHighlights(root);
+          const missing = applyHighlights(root, highlights, (highlight) =>
+            epub && source ? cfiTextOffset(epub, source, highlight.cfi) : null,
+          );
+          highlightStore.setMissing(chapterPath, missing);
+
+          // Links to a highlight land before it is applied
+          const hash = decodedHash();
+          const target = highlights.find(
+            (h) => highlightElementId(h.id) === hash,
+          );
+          if (target) {
+            root
+              .querySelector(`#${highlightElementId(target.id)}`)
+              ?.scrollIntoView({ block: "center" });
+          }
+        },
+        { fireImmediately: true },
+      );
+    })();
+
+    return () => {
+      cancelled = true;
+      dispose?.();
+    };
+  }, [root, chapterPath, highlightStore, readerStore]);
+}
@@ -0,0 +1,74 @@
+import { type DOMPosition, textOffsetOf } from "@epubdown/core";
+import { useEffect } from "react";
+import { useReaderStore } from "../stores/RootStore";
+
+// Text position under a point, looking into the HTML view's shadow root
+function caretPositionAt(
+  root: HTMLElement,
+  x: number,
+  y: number,
+): DOMPosition | null {
+  const rootNode = root.getRootNode();
+  if (document.caretPositionFromPoint) {
+    const shadowRoots = rootNode instanceof ShadowRoot ? [rootNode] : [];
+    const caret = document.caretPositionFromPoint(x, y, { shadowRoots });
+    return caret ? { node: caret.offsetNode, offset: caret.offset } : null;
+  }
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range
+    ? { node: range.startContainer, offset: range.startOffset }
+    : null;
+}
+
+/**
+ * Register a rendered chapter for media overlay narration: the narrated
+ * text is marked in it, and clicking text while narrating seeks to it
+ */
+export function useMediaOverlay(
+  root: HTMLElement | null,
+  chapterPath: string,
+): void {
+  const { mediaOverlay } = useReaderStore();
+
+  useEffect(() => {
+    if (!root) return;
+    mediaOverlay.setContent(chapterPath, root);
+
+    const clipAt = (e: MouseEvent): number => {
+      const { clips } = mediaOverlay;
+      // Ids survive in HTML mode
+      for (const target of e.composedPath()) {
+        if (target === root) break;
+        if (target instanceof Element && target.id) {
+          const index = clips.findIndex((clip) => clip.fragment === target.id);
+          if (index >= 0) return index;
+        }
+      }
+      const position = caretPositionAt(root, e.clientX, e.clientY);
+      if (!position || !root.contains(position.node)) return -1;
+      return mediaOverlay.clipAtRenderedOffset(
+        root,
+        textOffsetOf(root, position.node, position.offset),
+      );
+    };
+
+    const onClick = (e: MouseEvent) => {
+      // Leave links, buttons and text selections alone
+      const onControl = e
+        .composedPath()
+        .some(
+          (target) => target instanceof Element && target.matches("a, button"),
+        );
+      if (!mediaOverlay.isActive || onControl) return;
+      if (!window.getSelection()?.isCollapsed) return;
+      const index = clipAt(e);
+      if (index >= 0) mediaOverlay.seek(index);
+    };
+
+    root.addEventListener("click", onClick);
+    return () => {
+      root.removeEventListener("click", onClick);
+      mediaOverlay.removeContent(chapterPath, root);
+    };
+  }, [root, chapterPath, mediaOverlay]);
+}
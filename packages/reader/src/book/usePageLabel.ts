@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { useReaderStore } from "../stores/RootStore";
+import { findFragmentTarget } from "../utils/findFragmentTarget";
+
+// Same reading line ReadingProgressStore tracks, as a fraction of the viewport
+const READING_LINE = 0.2;
+
+/**
+ * Print page label at the reading line, from the book's page list.
+ * Undefined when the book has no page list.
+ */
+export function usePageLabel(): string | undefined {
+  const readerStore = useReaderStore();
+  const { currentChapterIndex, currentChapterPages, pageList } = readerStore;
+  const [label, setLabel] = useState<string>();
+
+  useEffect(() => {
+    if (pageList.length === 0) {
+      setLabel(undefined);
+      return;
+    }
+    // A page that started in an earlier chapter runs until the first break
+    const carried = readerStore.pageLabelBeforeChapter(currentChapterIndex);
+
+    const update = () => {
+      const line = window.innerHeight * READING_LINE;
+      let current = carried;
+      for (const page of currentChapterPages) {
+        // A target without a fragment starts at the top of the chapter
+        const el = page.id ? findFragmentTarget(page.id) : null;
+        if (page.id && !el) continue;
+        if (el && el.getBoundingClientRect().top > line) break;
+        current = page.label;
+      }
+      setLabel(current);
+    };
+
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    return () => window.removeEventListener("scroll", update);
+  }, [readerStore, currentChapterIndex, currentChapterPages, pageList]);
+
+  return label;
+}
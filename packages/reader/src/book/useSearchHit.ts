@@ -0,0 +1,28 @@
+import { reaction } from "mobx";
+import { useEffect } from "react";
+import { useReaderStore } from "../stores/RootStore";
+import { clearSearchHit, markSearchHit } from "./highlights";
+
+/**
+ * Mark the search hit the reader navigated to when it is in this chapter,
+ * and scroll to it
+ */
+export function useSearchHit(
+  root: HTMLElement | null,
+  chapterPath: string,
+): void {
+  const { searchStore } = useReaderStore();
+
+  useEffect(() => {
+    if (!root) return;
+    return reaction(
+      () => searchStore.activeHit,
+      (hit) => {
+        clearSearchHit(root);
+        if (hit?.path !== chapterPath) return;
+        markSearchHit(root, hit)?.scrollIntoView({ block: "center" });
+      },
+      { fireImmediately: true },
+    );
+  }, [root, chapterPath, searchStore]);
+}
@@ -5,6 +5,7 @@ import type { SQLiteDB } from "@hayeah/sqlite-browser";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import { nukeIndexedDBDatabases } from "../stores/testUtils";
 import { BookDatabase } from "./BookDatabase";
+import { CollectionDatabase } from "./CollectionDatabase";
 import { getDb } from "./providers";
 
 describe("BookDatabase", () => {
@@ -175,6 +176,15 @@ describe("BookDatabase", () => {
       expect(result[1]?.id).toBe(bookId1);
       expect(result[1]?.title).toBe("Book 1");
     });
+
+    it("should retrieve several books by id in one query", async () => {
+      const result = await bookDatabase.getBooks([bookId1, 999999, bookId2]);
+
+      expect(result.map((book) => book.id).sort()).toEqual(
+        [bookId1, bookId2].sort(),
+      );
+      expect(await bookDatabase.getBooks([])).toEqual([]);
+    });
   });
 
   describe("updateLastOpened", () => {
@@ -276,6 +286,21 @@ describe("BookDatabase", () => {
 
       expect(result).toHaveLength(0);
     });
+
+    it("should find books by tag name", async () => {
+      const collectionDb = new CollectionDatabase(db);
+      const python = (await bookDatabase.searchBooks("python"))[0];
+      const tag = await collectionDb.createCollection("tag", "Scripting");
+      await collectionDb.addBooks("tag", tag.id, [python?.id ?? -1]);
+
+      const result = await bookDatabase.searchBooks("script");
+
+      expect(result.map((book) => book.title).sort()).toEqual([
+        "JavaScript: The Good Parts",
+        "Learning JavaScript",
+        "Python Programming",
+      ]);
+    });
   });
 
   describe("metadata handling", () => {
@@ -331,4 +356,33 @@ describe("BookDatabase", () => {
       expect(result).toBeNull();
     });
   });
+
+  describe("series backfill", () => {
+    it("should list EPUBs until their series is stored", async () => {
+      const bookId = await bookDatabase.addBook({
+        title: "Leviathan Wakes",
+        filename: "leviathan.epub",
+        fileSize: 1024,
+        contentHash: new Uint8Array([50, 51, 52, 53, 54]),
+        fileType: "epub",
+      });
+      // Books are checked as they are imported
+      expect(await bookDatabase.booksWithoutSeriesCheck()).toEqual([]);
+
+      // As for a book imported before series were stored
+      await db.exec("UPDATE books SET series_checked = 0 WHERE id = ?", [
+        bookId,
+      ]);
+      expect(await bookDatabase.booksWithoutSeriesCheck()).toEqual([bookId]);
+
+      await bookDatabase.updateSeries(bookId, {
+        name: "The Expanse",
+        index: 1,
+      });
+      expect(await bookDatabase.booksWithoutSeriesCheck()).toEqual([]);
+      const book = await bookDatabase.getBook(bookId);
+      expect(book?.seriesName).toBe("The Expanse");
+      expect(book?.seriesIndex).toBe(1);
+    });
+  });
 });
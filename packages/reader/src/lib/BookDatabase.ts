@@ -13,6 +13,9 @@ export interface BookMetadata {
   metadata?: string; // JSON string of book metadata
   contentHash: Uint8Array;
   fileType: FileType;
+  seriesName?: string;
+  /** Position in the series; may be fractional */
+  seriesIndex?: number;
 }
 
 export class BookDatabase {
@@ -25,8 +28,9 @@ export class BookDatabase {
   async addBook(book: Omit<BookMetadata, "id" | "createdAt">): Promise<number> {
     const sql = `
       INSERT INTO books (
-        title, author, filename, file_size, created_at, metadata, content_hash, file_type
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        title, author, filename, file_size, created_at, metadata, content_hash, file_type,
+        series_name, series_index, series_checked
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1)
       RETURNING id
     `;
 
@@ -39,6 +43,8 @@ export class BookDatabase {
       book.metadata || null, // Already a JSON string
       book.contentHash,
       book.fileType,
+      book.seriesName || null,
+      book.seriesIndex ?? null,
     ]);
 
     if (!result.rows[0]) {
@@ -58,6 +64,19 @@ export class BookDatabase {
     return this.rowToBookMetadata(row);
   }
 
+  /**
+   * Books with the given ids, in no particular order; missing ids are left out
+   */
+  async getBooks(ids: number[]): Promise<BookMetadata[]> {
+    if (ids.length === 0) return [];
+    const results = await this.db.query(
+      `SELECT * FROM books WHERE id IN (${ids.map(() => "?").join(", ")})`,
+      ids,
+    );
+
+    return results.rows.map(this.rowToBookMetadata);
+  }
+
   async getAllBooks(): Promise<BookMetadata[]> {
     const results = await this.db.query(
       "SELECT * FROM books ORDER BY COALESCE(last_opened_at, created_at) DESC, id DESC",
@@ -73,13 +92,45 @@ export class BookDatabase {
 
     const searchPattern = `%${query.toLowerCase()}%`;
     const results = await this.db.query(
-      "SELECT * FROM books WHERE LOWER(title) LIKE ? OR LOWER(author) LIKE ? ORDER BY COALESCE(last_opened_at, created_at) DESC, id DESC",
-      [searchPattern, searchPattern],
+      `SELECT * FROM books
+      WHERE LOWER(title) LIKE ? OR LOWER(author) LIKE ?
+        OR LOWER(series_name) LIKE ?
+        OR id IN (
+          SELECT book_tags.book_id FROM book_tags
+          JOIN tags ON tags.id = book_tags.tag_id
+          WHERE LOWER(tags.name) LIKE ?
+        )
+      ORDER BY COALESCE(last_opened_at, created_at) DESC, id DESC`,
+      [searchPattern, searchPattern, searchPattern, searchPattern],
     );
 
     return results.rows.map(this.rowToBookMetadata);
   }
 
+  /**
+   * EPUBs whose series hasn't been read from their OPF, as for books
+   * imported before series were stored
+   */
+  async booksWithoutSeriesCheck(): Promise<number[]> {
+    const result = await this.db.query<{ id: number }>(
+      "SELECT id FROM books WHERE file_type = 'epub' AND series_checked = 0 ORDER BY id",
+    );
+    return result.rows.map((row) => row.id);
+  }
+
+  /**
+   * Store the series read from a book's OPF; null for none
+   */
+  async updateSeries(
+    id: number,
+    series: { name: string; index?: number } | null,
+  ): Promise<void> {
+    await this.db.exec(
+      "UPDATE books SET series_name = ?, series_index = ?, series_checked = 1 WHERE id = ?",
+      [series?.name || null, series?.index ?? null, id],
+    );
+  }
+
   async updateLastOpened(id: number): Promise<void> {
     await this.db.exec("UPDATE books SET last_opened_at = ? WHERE id = ?", [
       Date.now(),
@@ -115,6 +166,8 @@ export class BookDatabase {
       metadata: row.metadata, // JSON string
       contentHash: row.content_hash,
       fileType: row.file_type || "epub", // Default to epub for backwards compatibility
+      seriesName: row.series_name ?? undefined,
+      seriesIndex: row.series_index ?? undefined,
     };
   }
 }
@@ -0,0 +1,102 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import { BookDatabase } from "./BookDatabase";
+import {
+  BookTextIndex,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+} from "./BookTextIndex";
+import { getDb } from "./providers";
+
+describe("BookTextIndex", () => {
+  let textIndex: BookTextIndex;
+  let bookDb: BookDatabase;
+  let db: SQLiteDB;
+
+  const addBook = (title: string, fileType: "epub" | "pdf" = "epub") =>
+    bookDb.addBook({
+      title,
+      filename: `${title}.${fileType}`,
+      fileSize: 1,
+      contentHash: new TextEncoder().encode(title),
+      fileType,
+    });
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    bookDb = await BookDatabase.create(db);
+    textIndex = new BookTextIndex(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("finds chapters by their text, best matches first", async () => {
+    const moby = await addBook("Moby Dick");
+    const other = await addBook("Other");
+    await textIndex.indexBook(moby, [
+      { chapterIndex: 0, title: "Loomings", text: "Call me Ishmael." },
+      {
+        chapterIndex: 3,
+        title: "The Whiteness",
+        text: "The whale, the whale, the white whale.",
+      },
+    ]);
+    await textIndex.indexBook(other, [
+      { chapterIndex: 1, title: null, text: "A whale appears once." },
+    ]);
+
+    const matches = await textIndex.search("whale");
+    expect(matches.map((m) => [m.bookId, m.chapterIndex])).toEqual([
+      [moby, 3],
+      [other, 1],
+    ]);
+    expect(matches[0]?.chapterTitle).toBe("The Whiteness");
+    expect(matches[0]?.snippet).toContain(
+      `${SNIPPET_MATCH_START}whale${SNIPPET_MATCH_END}`,
+    );
+
+    // The last word matches as a prefix
+    expect(await textIndex.search("ishm")).toHaveLength(1);
+    expect(await textIndex.search("")).toEqual([]);
+  });
+
+  it("replaces a book's rows when it is indexed again", async () => {
+    const bookId = await addBook("Book");
+    await textIndex.indexBook(bookId, [
+      { chapterIndex: 0, title: null, text: "old text" },
+    ]);
+    await textIndex.indexBook(bookId, [
+      { chapterIndex: 0, title: null, text: "new text" },
+    ]);
+
+    expect(await textIndex.search("old")).toEqual([]);
+    expect(await textIndex.search("new")).toHaveLength(1);
+  });
+
+  it("lists EPUBs that still need indexing", async () => {
+    const indexed = await addBook("Indexed");
+    const pending = await addBook("Pending");
+    await addBook("Scan", "pdf");
+    await textIndex.indexBook(indexed, []);
+
+    expect(await textIndex.booksToIndex()).toEqual([pending]);
+  });
+
+  it("deletes a book's rows", async () => {
+    const bookId = await addBook("Book");
+    await textIndex.indexBook(bookId, [
+      { chapterIndex: 0, title: null, text: "some text" },
+    ]);
+    await textIndex.deleteBook(bookId);
+
+    expect(await textIndex.search("text")).toEqual([]);
+    expect(await textIndex.booksToIndex()).toEqual([bookId]);
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { toFtsQuery } from "./BookTextIndex";
+
+describe("toFtsQuery", () => {
+  it("requires every word and treats the last as a prefix", () => {
+    expect(toFtsQuery("white  whale")).toBe('"white" "whale"*');
+  });
+
+  it("quotes operators and quotes in the input", () => {
+    expect(toFtsQuery('NOT "call" me*')).toBe('"NOT" """call""" "me*"*');
+  });
+
+  it("returns null for blank input", () => {
+    expect(toFtsQuery("   ")).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+
+/**
+ * Bump when the extracted text changes shape, so books indexed by an older
+ * version are indexed again
+ */
+export const TEXT_INDEX_VERSION = 1;
+
+// Delimit matched terms in snippets; they can't appear in book text
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+
+export interface ChapterText {
+  /** Index into the reader's chapter list, as in `/book/:id/:chapterIndex` */
+  chapterIndex: number;
+  title: string | null;
+  text: string;
+}
+
+export interface TextMatch {
+  bookId: number;
+  chapterIndex: number;
+  chapterTitle: string | null;
+  /** Text around the match, with matched terms between SNIPPET_MATCH_* */
+  snippet: string;
+  /** bm25 score; lower is a better match */
+  rank: number;
+}
+
+/**
+ * FTS5 query for what the user typed: every word must appear, and the last
+ * one may be a prefix, as it's probably still being typed
+ */
+export function toFtsQuery(input: string): string | null {
+  const words = input.split(/\s+/).filter((word) => word.length > 0);
+  if (words.length === 0) return null;
+  // Quoted strings are taken literally, so operators in the input are inert
+  const quoted = words.map((word) => `"${word.replace(/"/g, '""')}"`);
+  return `${quoted.join(" ")}*`;
+}
+
+export class BookTextIndex {
+  constructor(private db: SQLiteDB) {}
+
+  /**
+   * Replace the indexed text of a book
+   */
+  async indexBook(bookId: number, chapters: ChapterText[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.exec("DELETE FROM book_text WHERE book_id = ?", [bookId]);
+      await tx.execBatch(
+        `INSERT INTO book_text (chapter_title, content, book_id, chapter_index)
+        VALUES (?, ?, ?, ?)`,
+        chapters.map((c) => [c.title, c.text, bookId, c.chapterIndex]),
+      );
+      await tx.exec(
+        `INSERT OR REPLACE INTO book_text_status (book_id, version, indexed_at)
+        VALUES (?, ?, ?)`,
+        [bookId, TEXT_INDEX_VERSION, Date.now()],
+      );
+    });
+  }
+
+  /**
+   * EPUBs not indexed yet, or indexed by an older TEXT_INDEX_VERSION
+   */
+  async booksToIndex(): Promise<number[]> {
+    const result = await this.db.query<{ id: number }>(
+      `SELECT books.id FROM books
+      LEFT JOIN book_text_status status ON status.book_id = books.id
+      WHERE books.file_type = 'epub'
+        AND (status.version IS NULL OR status.version < ?)
+      ORDER BY books.id`,
+      [TEXT_INDEX_VERSION],
+    );
+    return result.rows.map((row) => row.id);
+  }
+
+  /**
+   * Chapters matching `query`, best matches first
+   */
+  async search(query: string, limit = 50): Promise<TextMatch[]> {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+
+    const result = await this.db.query(
+      `SELECT book_id, chapter_index, chapter_title,
+        snippet(book_text, 1, ?, ?, '…', 16) AS snippet,
+        bm25(book_text) AS rank
+      FROM book_text
+      WHERE book_text MATCH ?
+      ORDER BY rank
+      LIMIT ?`,
+      [SNIPPET_MATCH_START, SNIPPET_MATCH_END, match, limit],
+    );
+    return result.rows.map(this.rowToTextMatch);
+  }
+
+  async deleteBook(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM book_text WHERE book_id = ?", [bookId]);
+    await this.db.exec("DELETE FROM book_text_status WHERE book_id = ?", [
+      bookId,
+    ]);
+  }
+
+  private rowToTextMatch(row: any): TextMatch {
+    return {
+      bookId: row.book_id,
+      chapterIndex: row.chapter_index,
+      chapterTitle: row.chapter_title ?? null,
+      snippet: row.snippet,
+      rank: row.rank,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import { BookmarkDatabase, type NewBookmark } from "./BookmarkDatabase";
+import { getDb } from "./providers";
+
+const bookmark = (overrides: Partial<NewBookmark> = {}): NewBookmark => ({
+  bookId: 1,
+  chapterIndex: 0,
+  blockIndex: 0,
+  ...overrides,
+});
+
+describe("BookmarkDatabase", () => {
+  let bookmarkDb: BookmarkDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    bookmarkDb = new BookmarkDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("adds and lists bookmarks in reading order", async () => {
+    await bookmarkDb.addBookmark(bookmark({ chapterIndex: 2, blockIndex: 1 }));
+    await bookmarkDb.addBookmark(bookmark({ chapterIndex: 0, blockIndex: 7 }));
+    const first = await bookmarkDb.addBookmark(
+      bookmark({
+        blockIndex: 3,
+        cfi: "epubcfi(/6/2!/4/6,/1:0,/1:1)",
+        label: "Opening",
+      }),
+    );
+    await bookmarkDb.addBookmark(bookmark({ bookId: 2 }));
+
+    const bookmarks = await bookmarkDb.getBookmarks(1);
+    expect(bookmarks.map((b) => [b.chapterIndex, b.blockIndex])).toEqual([
+      [0, 3],
+      [0, 7],
+      [2, 1],
+    ]);
+    expect(bookmarks[0]).toEqual(first);
+  });
+
+  it("renames and clears labels", async () => {
+    const { id } = await bookmarkDb.addBookmark(bookmark());
+    await bookmarkDb.renameBookmark(id, "Later");
+    expect((await bookmarkDb.getBookmarks(1))[0]?.label).toBe("Later");
+
+    await bookmarkDb.renameBookmark(id, "");
+    expect((await bookmarkDb.getBookmarks(1))[0]?.label).toBeUndefined();
+  });
+
+  it("deletes single bookmarks and whole books", async () => {
+    const { id } = await bookmarkDb.addBookmark(bookmark());
+    await bookmarkDb.addBookmark(bookmark({ blockIndex: 9 }));
+    await bookmarkDb.deleteBookmark(id);
+    expect(await bookmarkDb.getBookmarks(1)).toHaveLength(1);
+
+    await bookmarkDb.deleteBookmarksForBook(1);
+    expect(await bookmarkDb.getBookmarks(1)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,84 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+
+export interface Bookmark {
+  id: number;
+  bookId: number;
+  /** Index into the reader's chapter list, as in `/book/:id/:chapterIndex` */
+  chapterIndex: number;
+  /** Block tracked by ReadingProgressStore, as in `#p_N` */
+  blockIndex: number;
+  /**
+   * CFI into the chapter's source for the block, when the chapter had a
+   * position codec; the bookmark's anchor, with `blockIndex` as fallback
+   */
+  cfi?: string;
+  label?: string;
+  createdAt: number;
+}
+
+export type NewBookmark = Omit<Bookmark, "id" | "createdAt">;
+
+export class BookmarkDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  async addBookmark(bookmark: NewBookmark): Promise<Bookmark> {
+    const now = Date.now();
+    const result = await this.db.query<{ id: number }>(
+      `INSERT INTO bookmarks (book_id, chapter_index, block_index, cfi, label, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      RETURNING id`,
+      [
+        bookmark.bookId,
+        bookmark.chapterIndex,
+        bookmark.blockIndex,
+        bookmark.cfi ?? null,
+        bookmark.label || null,
+        now,
+      ],
+    );
+
+    const id = result.rows[0]?.id;
+    if (id === undefined) {
+      throw new Error("Failed to get auto-generated bookmark ID");
+    }
+    return { ...bookmark, id, createdAt: now };
+  }
+
+  /**
+   * Bookmarks of a book, in reading order
+   */
+  async getBookmarks(bookId: number): Promise<Bookmark[]> {
+    const result = await this.db.query(
+      "SELECT * FROM bookmarks WHERE book_id = ? ORDER BY chapter_index, block_index",
+      [bookId],
+    );
+    return result.rows.map(this.rowToBookmark);
+  }
+
+  async renameBookmark(id: number, label: string): Promise<void> {
+    await this.db.exec("UPDATE bookmarks SET label = ? WHERE id = ?", [
+      label || null,
+      id,
+    ]);
+  }
+
+  async deleteBookmark(id: number): Promise<void> {
+    await this.db.exec("DELETE FROM bookmarks WHERE id = ?", [id]);
+  }
+
+  async deleteBookmarksForBook(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM bookmarks WHERE book_id = ?", [bookId]);
+  }
+
+  private rowToBookmark(row: any): Bookmark {
+    return {
+      id: row.id,
+      bookId: row.book_id,
+      chapterIndex: row.chapter_index,
+      blockIndex: row.block_index,
+      cfi: row.cfi ?? undefined,
+      label: row.label ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import { ChatDatabase, type NewChatMessage } from "./ChatDatabase";
+import { getDb } from "./providers";
+
+const message = (overrides: Partial<NewChatMessage> = {}): NewChatMessage => ({
+  bookId: 1,
+  chapterPath: "/OEBPS/ch1.xhtml",
+  role: "user",
+  content: "What happens here?",
+  ...overrides,
+});
+
+describe("ChatDatabase", () => {
+  let chatDb: ChatDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    chatDb = new ChatDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("keeps a conversation per book chapter, in order", async () => {
+    const question = await chatDb.addMessage(message({ title: "TLDR" }));
+    const reply = await chatDb.addMessage(
+      message({ role: "assistant", content: "A summary." }),
+    );
+    await chatDb.addMessage(message({ chapterPath: "/OEBPS/ch2.xhtml" }));
+    await chatDb.addMessage(message({ bookId: 2 }));
+
+    expect(await chatDb.getMessages(1, "/OEBPS/ch1.xhtml")).toEqual([
+      question,
+      reply,
+    ]);
+    expect(question.title).toBe("TLDR");
+    expect(reply.title).toBeUndefined();
+  });
+
+  it("deletes conversations and whole books", async () => {
+    await chatDb.addMessage(message());
+    await chatDb.addMessage(message({ chapterPath: "/OEBPS/ch2.xhtml" }));
+
+    await chatDb.deleteConversation(1, "/OEBPS/ch1.xhtml");
+    expect(await chatDb.getMessages(1, "/OEBPS/ch1.xhtml")).toEqual([]);
+    expect(await chatDb.getMessages(1, "/OEBPS/ch2.xhtml")).toHaveLength(1);
+
+    await chatDb.deleteMessagesForBook(1);
+    expect(await chatDb.getMessages(1, "/OEBPS/ch2.xhtml")).toEqual([]);
+  });
+});
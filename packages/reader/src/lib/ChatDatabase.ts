@@ -0,0 +1,79 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+
+export interface ChatMessage {
+  id: number;
+  bookId: number;
+  /** Absolute path of the spine item the conversation is about */
+  chapterPath: string;
+  role: "user" | "assistant";
+  content: string;
+  /** Template a prompt was rendered from */
+  title?: string;
+  createdAt: number;
+}
+
+export type NewChatMessage = Omit<ChatMessage, "id" | "createdAt">;
+
+export class ChatDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  async addMessage(message: NewChatMessage): Promise<ChatMessage> {
+    const now = Date.now();
+    const result = await this.db.query<{ id: number }>(
+      `INSERT INTO chat_messages (book_id, chapter_path, role, content, title, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      RETURNING id`,
+      [
+        message.bookId,
+        message.chapterPath,
+        message.role,
+        message.content,
+        message.title || null,
+        now,
+      ],
+    );
+
+    const id = result.rows[0]?.id;
+    if (id === undefined) {
+      throw new Error("Failed to get auto-generated chat message ID");
+    }
+    return { ...message, id, createdAt: now };
+  }
+
+  /**
+   * The conversation about a chapter, oldest message first
+   */
+  async getMessages(
+    bookId: number,
+    chapterPath: string,
+  ): Promise<ChatMessage[]> {
+    const result = await this.db.query(
+      "SELECT * FROM chat_messages WHERE book_id = ? AND chapter_path = ? ORDER BY id",
+      [bookId, chapterPath],
+    );
+    return result.rows.map(this.rowToMessage);
+  }
+
+  async deleteConversation(bookId: number, chapterPath: string): Promise<void> {
+    await this.db.exec(
+      "DELETE FROM chat_messages WHERE book_id = ? AND chapter_path = ?",
+      [bookId, chapterPath],
+    );
+  }
+
+  async deleteMessagesForBook(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM chat_messages WHERE book_id = ?", [bookId]);
+  }
+
+  private rowToMessage(row: any): ChatMessage {
+    return {
+      id: row.id,
+      bookId: row.book_id,
+      chapterPath: row.chapter_path,
+      role: row.role,
+      content: row.content,
+      title: row.title ?? undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import { CollectionDatabase } from "./CollectionDatabase";
+import { getDb } from "./providers";
+
+describe("CollectionDatabase", () => {
+  let collectionDb: CollectionDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    collectionDb = new CollectionDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("reuses shelves with the same name in any case", async () => {
+    const shelf = await collectionDb.createCollection("shelf", " To Read ");
+    const again = await collectionDb.createCollection("shelf", "to read");
+
+    expect(again.id).toBe(shelf.id);
+    expect(again.name).toBe("To Read");
+    expect(await collectionDb.getCollections("shelf")).toHaveLength(1);
+    expect(await collectionDb.getCollections("tag")).toEqual([]);
+  });
+
+  it("assigns books in bulk and counts them", async () => {
+    const fiction = await collectionDb.createCollection("tag", "fiction");
+    const classic = await collectionDb.createCollection("tag", "classic");
+    await collectionDb.addBooks("tag", fiction.id, [1, 2, 3]);
+    await collectionDb.addBooks("tag", classic.id, [2, 2]);
+    await collectionDb.removeBooks("tag", fiction.id, [3]);
+
+    const tags = await collectionDb.getCollections("tag");
+    expect(tags.map((tag) => [tag.name, tag.bookCount])).toEqual([
+      ["classic", 1],
+      ["fiction", 2],
+    ]);
+    expect(await collectionDb.getMemberships("tag")).toEqual(
+      new Map([
+        [1, [fiction.id]],
+        [2, [fiction.id, classic.id]],
+      ]),
+    );
+  });
+
+  it("merges a tag renamed to the name of another", async () => {
+    const scifi = await collectionDb.createCollection("tag", "scifi");
+    const sf = await collectionDb.createCollection("tag", "SF");
+    await collectionDb.addBooks("tag", scifi.id, [1, 2]);
+    await collectionDb.addBooks("tag", sf.id, [2, 3]);
+
+    expect(await collectionDb.renameCollection("tag", sf.id, "Sf")).toBe(sf.id);
+    expect(await collectionDb.renameCollection("tag", sf.id, "SciFi")).toBe(
+      scifi.id,
+    );
+
+    const tags = await collectionDb.getCollections("tag");
+    expect(tags.map((tag) => [tag.name, tag.bookCount])).toEqual([
+      ["scifi", 3],
+    ]);
+  });
+
+  it("removes books from deleted collections and deleted books", async () => {
+    const shelf = await collectionDb.createCollection("shelf", "Work");
+    const tag = await collectionDb.createCollection("tag", "notes");
+    await collectionDb.addBooks("shelf", shelf.id, [1, 2]);
+    await collectionDb.addBooks("tag", tag.id, [1]);
+
+    await collectionDb.deleteBook(1);
+    expect(await collectionDb.getMemberships("tag")).toEqual(new Map());
+    expect([...(await collectionDb.getMemberships("shelf")).keys()]).toEqual([
+      2,
+    ]);
+
+    await collectionDb.deleteCollection("shelf", shelf.id);
+    expect(await collectionDb.getCollections("shelf")).toEqual([]);
+    expect(await collectionDb.getMemberships("shelf")).toEqual(new Map());
+  });
+});
@@ -0,0 +1,187 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+
+/** Shelves group books by hand; tags are free-form labels, also searched */
+export type CollectionKind = "shelf" | "tag";
+
+export interface Collection {
+  id: number;
+  kind: CollectionKind;
+  name: string;
+  bookCount: number;
+  createdAt: number;
+}
+
+const TABLES: Record<
+  CollectionKind,
+  { table: string; join: string; key: string }
+> = {
+  shelf: { table: "shelves", join: "book_shelves", key: "shelf_id" },
+  tag: { table: "tags", join: "book_tags", key: "tag_id" },
+};
+
+export class CollectionDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  /**
+   * Shelves or tags by name, with the number of books in each
+   */
+  async getCollections(kind: CollectionKind): Promise<Collection[]> {
+    const { table, join, key } = TABLES[kind];
+    const result = await this.db.query(
+      `SELECT c.*, COUNT(j.book_id) AS book_count
+      FROM ${table} c
+      LEFT JOIN ${join} j ON j.${key} = c.id
+      GROUP BY c.id
+      ORDER BY c.name COLLATE NOCASE`,
+    );
+    return result.rows.map((row: any) => this.rowToCollection(kind, row));
+  }
+
+  /**
+   * Create a shelf or tag, or return the existing one with the same name
+   * (names are compared case-insensitively)
+   */
+  async createCollection(
+    kind: CollectionKind,
+    name: string,
+  ): Promise<Collection> {
+    const { table, join, key } = TABLES[kind];
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error(`${kind === "shelf" ? "Shelf" : "Tag"} name is empty`);
+    }
+
+    await this.db.exec(
+      `INSERT OR IGNORE INTO ${table} (name, created_at) VALUES (?, ?)`,
+      [trimmed, Date.now()],
+    );
+    const result = await this.db.query(
+      `SELECT c.*, COUNT(j.book_id) AS book_count
+      FROM ${table} c
+      LEFT JOIN ${join} j ON j.${key} = c.id
+      WHERE c.name = ?
+      GROUP BY c.id`,
+      [trimmed],
+    );
+    const row = result.rows[0];
+    if (!row) {
+      throw new Error(`Failed to create ${kind} "${trimmed}"`);
+    }
+    return this.rowToCollection(kind, row);
+  }
+
+  /**
+   * Rename a shelf or tag. Renaming it to the name of another one merges
+   * them: its books move to the other one, and it is deleted. Returns the id
+   * of the shelf or tag that now has the name.
+   */
+  async renameCollection(
+    kind: CollectionKind,
+    id: number,
+    name: string,
+  ): Promise<number> {
+    const { table, join, key } = TABLES[kind];
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error(`${kind === "shelf" ? "Shelf" : "Tag"} name is empty`);
+    }
+
+    // Names are unique case-insensitively; changing only the case is a rename
+    const existing = await this.db.query<{ id: number }>(
+      `SELECT id FROM ${table} WHERE name = ? AND id != ?`,
+      [trimmed, id],
+    );
+    const targetId = existing.rows[0]?.id;
+    if (targetId === undefined) {
+      await this.db.exec(`UPDATE ${table} SET name = ? WHERE id = ?`, [
+        trimmed,
+        id,
+      ]);
+      return id;
+    }
+
+    await this.db.transaction(async (tx) => {
+      await tx.exec(
+        `INSERT OR IGNORE INTO ${join} (book_id, ${key})
+        SELECT book_id, ? FROM ${join} WHERE ${key} = ?`,
+        [targetId, id],
+      );
+      await tx.exec(`DELETE FROM ${join} WHERE ${key} = ?`, [id]);
+      await tx.exec(`DELETE FROM ${table} WHERE id = ?`, [id]);
+    });
+    return targetId;
+  }
+
+  /**
+   * Delete a shelf or tag; its books stay in the library
+   */
+  async deleteCollection(kind: CollectionKind, id: number): Promise<void> {
+    const { table, join, key } = TABLES[kind];
+    await this.db.transaction(async (tx) => {
+      await tx.exec(`DELETE FROM ${join} WHERE ${key} = ?`, [id]);
+      await tx.exec(`DELETE FROM ${table} WHERE id = ?`, [id]);
+    });
+  }
+
+  async addBooks(
+    kind: CollectionKind,
+    id: number,
+    bookIds: number[],
+  ): Promise<void> {
+    if (bookIds.length === 0) return;
+    const { join, key } = TABLES[kind];
+    await this.db.transaction(async (tx) => {
+      await tx.execBatch(
+        `INSERT OR IGNORE INTO ${join} (book_id, ${key}) VALUES (?, ?)`,
+        bookIds.map((bookId) => [bookId, id]),
+      );
+    });
+  }
+
+  async removeBooks(
+    kind: CollectionKind,
+    id: number,
+    bookIds: number[],
+  ): Promise<void> {
+    if (bookIds.length === 0) return;
+    const { join, key } = TABLES[kind];
+    await this.db.transaction(async (tx) => {
+      await tx.execBatch(
+        `DELETE FROM ${join} WHERE book_id = ? AND ${key} = ?`,
+        bookIds.map((bookId) => [bookId, id]),
+      );
+    });
+  }
+
+  /**
+   * Shelf or tag ids of every book that has any
+   */
+  async getMemberships(kind: CollectionKind): Promise<Map<number, number[]>> {
+    const { join, key } = TABLES[kind];
+    const result = await this.db.query<{ book_id: number; id: number }>(
+      `SELECT book_id, ${key} AS id FROM ${join} ORDER BY book_id, ${key}`,
+    );
+    const memberships = new Map<number, number[]>();
+    for (const row of result.rows) {
+      const ids = memberships.get(row.book_id) ?? [];
+      ids.push(row.id);
+      memberships.set(row.book_id, ids);
+    }
+    return memberships;
+  }
+
+  async deleteBook(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM book_shelves WHERE book_id = ?", [bookId]);
+    await this.db.exec("DELETE FROM book_tags WHERE book_id = ?", [bookId]);
+  }
+
+  private rowToCollection(kind: CollectionKind, row: any): Collection {
+    return {
+      id: row.id,
+      kind,
+      name: row.name,
+      bookCount: row.book_count ?? 0,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import { DictionaryDatabase, dictionaryTerm } from "./DictionaryDatabase";
+import { getDb } from "./providers";
+
+describe("DictionaryDatabase", () => {
+  let dictionaryDb: DictionaryDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    dictionaryDb = new DictionaryDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("normalizes terms for lookup", () => {
+    expect(dictionaryTerm("“Darcy’s,”")).toBe("darcy's");
+    expect(dictionaryTerm("  Ice  cream ")).toBe("ice cream");
+  });
+
+  it("imports dictionaries and looks words up in the chosen ones", async () => {
+    const progress: number[] = [];
+    const english = await dictionaryDb.addDictionary(
+      {
+        name: "English",
+        language: "en",
+        entries: [
+          { headword: "Bank", definition: "A river's edge." },
+          { headword: "bank", definition: "A place for money." },
+          { headword: "...", definition: "Dropped: no term." },
+        ],
+      },
+      (stored) => progress.push(stored),
+    );
+    const french = await dictionaryDb.addDictionary({
+      name: "Français",
+      entries: [{ headword: "bank", definition: "Banque." }],
+    });
+    expect(english.entryCount).toBe(2);
+    expect(progress).toEqual([2]);
+    expect(french.language).toBeUndefined();
+
+    expect(await dictionaryDb.getDictionaries()).toEqual([english, french]);
+
+    const definitions = await dictionaryDb.lookup("BANK.", [
+      french.id,
+      english.id,
+    ]);
+    expect(definitions.map((d) => [d.dictionaryName, d.definition])).toEqual([
+      ["Français", "Banque."],
+      ["English", "A river's edge."],
+      ["English", "A place for money."],
+    ]);
+    expect(await dictionaryDb.lookup("bank", [])).toEqual([]);
+  });
+
+  it("changes languages and deletes dictionaries with their entries", async () => {
+    const { id } = await dictionaryDb.addDictionary({
+      name: "Mini",
+      entries: [{ headword: "a", definition: "first letter" }],
+    });
+    await dictionaryDb.setLanguage(id, "en-GB");
+    expect((await dictionaryDb.getDictionaries())[0]?.language).toBe("en-GB");
+
+    await dictionaryDb.deleteDictionary(id);
+    expect(await dictionaryDb.getDictionaries()).toEqual([]);
+    const rows = await db.query("SELECT * FROM dictionary_entries");
+    expect(rows.rows).toEqual([]);
+  });
+});
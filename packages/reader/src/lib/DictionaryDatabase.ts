@@ -0,0 +1,153 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+import type { ParsedDictionary } from "./dictionaryFiles";
+
+export interface Dictionary {
+  id: number;
+  name: string;
+  /** BCP 47 tag; undefined when the dictionary serves any language */
+  language?: string;
+  entryCount: number;
+  createdAt: number;
+}
+
+export interface Definition {
+  /** Row id of the dictionary entry */
+  id: number;
+  dictionaryId: number;
+  dictionaryName: string;
+  headword: string;
+  definition: string;
+}
+
+/**
+ * The form of a word that lookups match on: surrounding punctuation
+ * trimmed, case folded and typographic apostrophes made plain, so a
+ * selected "Darcy’s," finds the headword "darcy's"
+ */
+export function dictionaryTerm(word: string): string {
+  return word
+    .normalize("NFC")
+    .replace(/[‘’]/g, "'")
+    .replace(/^[\p{P}\s]+|[\p{P}\s]+$/gu, "")
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+// Entries inserted per statement batch; large dictionaries have hundreds
+// of thousands
+const ENTRY_BATCH_SIZE = 2000;
+
+export class DictionaryDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  /**
+   * Store a parsed dictionary, calling `onProgress` with the number of
+   * entries stored after each batch
+   */
+  async addDictionary(
+    parsed: ParsedDictionary,
+    onProgress?: (stored: number, total: number) => void,
+  ): Promise<Dictionary> {
+    const now = Date.now();
+    const entries = parsed.entries
+      .map((e) => ({ ...e, term: dictionaryTerm(e.headword) }))
+      .filter((e) => e.term);
+
+    return this.db.transaction(async (tx) => {
+      const result = await tx.query<{ id: number }>(
+        `INSERT INTO dictionaries (name, language, entry_count, created_at)
+        VALUES (?, ?, ?, ?)
+        RETURNING id`,
+        [parsed.name, parsed.language || null, entries.length, now],
+      );
+      const id = result.rows[0]?.id;
+      if (id === undefined) {
+        throw new Error("Failed to get auto-generated dictionary ID");
+      }
+      for (let i = 0; i < entries.length; i += ENTRY_BATCH_SIZE) {
+        const batch = entries.slice(i, i + ENTRY_BATCH_SIZE);
+        await tx.execBatch(
+          `INSERT INTO dictionary_entries (dictionary_id, term, headword, definition)
+          VALUES (?, ?, ?, ?)`,
+          batch.map((e) => [id, e.term, e.headword, e.definition]),
+        );
+        onProgress?.(i + batch.length, entries.length);
+      }
+      return {
+        id,
+        name: parsed.name,
+        language: parsed.language || undefined,
+        entryCount: entries.length,
+        createdAt: now,
+      };
+    });
+  }
+
+  async getDictionaries(): Promise<Dictionary[]> {
+    const result = await this.db.query(
+      "SELECT * FROM dictionaries ORDER BY name COLLATE NOCASE",
+    );
+    return result.rows.map(this.rowToDictionary);
+  }
+
+  async setLanguage(id: number, language: string): Promise<void> {
+    await this.db.exec("UPDATE dictionaries SET language = ? WHERE id = ?", [
+      language || null,
+      id,
+    ]);
+  }
+
+  async deleteDictionary(id: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.exec("DELETE FROM dictionary_entries WHERE dictionary_id = ?", [
+        id,
+      ]);
+      await tx.exec("DELETE FROM dictionaries WHERE id = ?", [id]);
+    });
+  }
+
+  /**
+   * Definitions of `word` in the given dictionaries, in their order
+   */
+  async lookup(word: string, dictionaryIds: number[]): Promise<Definition[]> {
+    const term = dictionaryTerm(word);
+    if (!term || dictionaryIds.length === 0) return [];
+    const result = await this.db.query<{
+      id: number;
+      dictionary_id: number;
+      name: string;
+      headword: string;
+      definition: string;
+    }>(
+      `SELECT e.rowid AS id, e.dictionary_id, d.name, e.headword, e.definition
+      FROM dictionary_entries e
+      JOIN dictionaries d ON d.id = e.dictionary_id
+      WHERE e.term = ? AND e.dictionary_id IN (${dictionaryIds.map(() => "?").join(", ")})
+      ORDER BY e.rowid`,
+      [term, ...dictionaryIds],
+    );
+    const rank = new Map(dictionaryIds.map((id, i) => [id, i]));
+    return result.rows
+      .map((row) => ({
+        id: row.id,
+        dictionaryId: row.dictionary_id,
+        dictionaryName: row.name,
+        headword: row.headword,
+        definition: row.definition,
+      }))
+      .sort(
+        (a, b) =>
+          (rank.get(a.dictionaryId) ?? 0) - (rank.get(b.dictionaryId) ?? 0),
+      );
+  }
+
+  private rowToDictionary(row: any): Dictionary {
+    return {
+      id: row.id,
+      name: row.name,
+      language: row.language ?? undefined,
+      entryCount: row.entry_count,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import { HighlightDatabase, type NewHighlight } from "./HighlightDatabase";
+import { getDb } from "./providers";
+
+const highlight = (overrides: Partial<NewHighlight> = {}): NewHighlight => ({
+  bookId: 1,
+  chapterPath: "/OEBPS/ch1.xhtml",
+  cfi: "epubcfi(/6/2!/4/2,/1:0,/1:5)",
+  startOffset: 0,
+  endOffset: 5,
+  quote: "Hello",
+  color: "yellow",
+  ...overrides,
+});
+
+describe("HighlightDatabase", () => {
+  let highlightDb: HighlightDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    highlightDb = new HighlightDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("adds and lists highlights in chapter and text order", async () => {
+    await highlightDb.addHighlight(
+      highlight({ startOffset: 20, endOffset: 30 }),
+    );
+    const first = await highlightDb.addHighlight(highlight({ note: "Why?" }));
+    await highlightDb.addHighlight(highlight({ bookId: 2 }));
+
+    const highlights = await highlightDb.getHighlights(1);
+    expect(highlights.map((h) => h.startOffset)).toEqual([0, 20]);
+    expect(highlights[0]).toEqual(first);
+    expect(highlights[0]?.note).toBe("Why?");
+  });
+
+  it("updates color and note", async () => {
+    const { id } = await highlightDb.addHighlight(highlight());
+    await highlightDb.updateHighlight(id, { color: "blue", note: "Later" });
+    await highlightDb.updateHighlight(id, { note: "" });
+
+    const [updated] = await highlightDb.getHighlights(1);
+    expect(updated?.color).toBe("blue");
+    expect(updated?.note).toBeUndefined();
+  });
+
+  it("deletes single highlights and whole books", async () => {
+    const { id } = await highlightDb.addHighlight(highlight());
+    await highlightDb.addHighlight(highlight({ startOffset: 9 }));
+    await highlightDb.deleteHighlight(id);
+    expect(await highlightDb.getHighlights(1)).toHaveLength(1);
+
+    await highlightDb.deleteHighlightsForBook(1);
+    expect(await highlightDb.getHighlights(1)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,123 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+
+export type HighlightColor = "yellow" | "green" | "blue" | "pink";
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = [
+  "yellow",
+  "green",
+  "blue",
+  "pink",
+];
+
+export interface Highlight {
+  id: number;
+  bookId: number;
+  /** Absolute path of the spine item */
+  chapterPath: string;
+  /** Range CFI into the chapter's source document; the highlight's anchor */
+  cfi: string;
+  /**
+   * Non-whitespace characters before the start and end of the highlight in
+   * the rendering it was made in, counted from the start of the chapter
+   * (see `textOffsetOf`). Used where the CFI no longer resolves.
+   */
+  startOffset: number;
+  endOffset: number;
+  /** Highlighted text, for listing and for placing the highlight near its anchor */
+  quote: string;
+  color: HighlightColor;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewHighlight = Omit<Highlight, "id" | "createdAt" | "updatedAt">;
+
+export class HighlightDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  async addHighlight(highlight: NewHighlight): Promise<Highlight> {
+    const now = Date.now();
+    const result = await this.db.query<{ id: number }>(
+      `INSERT INTO highlights (
+        book_id, chapter_path, cfi, start_offset, end_offset, quote, color, note, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id`,
+      [
+        highlight.bookId,
+        highlight.chapterPath,
+        highlight.cfi,
+        highlight.startOffset,
+        highlight.endOffset,
+        highlight.quote,
+        highlight.color,
+        highlight.note || null,
+        now,
+        now,
+      ],
+    );
+
+    const id = result.rows[0]?.id;
+    if (id === undefined) {
+      throw new Error("Failed to get auto-generated highlight ID");
+    }
+    return { ...highlight, id, createdAt: now, updatedAt: now };
+  }
+
+  /**
+   * Highlights of a book, in chapter and text order
+   */
+  async getHighlights(bookId: number): Promise<Highlight[]> {
+    const result = await this.db.query(
+      "SELECT * FROM highlights WHERE book_id = ? ORDER BY chapter_path, start_offset",
+      [bookId],
+    );
+    return result.rows.map(this.rowToHighlight);
+  }
+
+  async updateHighlight(
+    id: number,
+    changes: Partial<Pick<Highlight, "color" | "note">>,
+  ): Promise<void> {
+    const sets: string[] = [];
+    const params: (string | number | null)[] = [];
+    if (changes.color !== undefined) {
+      sets.push("color = ?");
+      params.push(changes.color);
+    }
+    if (changes.note !== undefined) {
+      sets.push("note = ?");
+      params.push(changes.note || null);
+    }
+    if (sets.length === 0) return;
+
+    await this.db.exec(
+      `UPDATE highlights SET ${sets.join(", ")}, updated_at = ? WHERE id = ?`,
+      [...params, Date.now(), id],
+    );
+  }
+
+  async deleteHighlight(id: number): Promise<void> {
+    await this.db.exec("DELETE FROM highlights WHERE id = ?", [id]);
+  }
+
+  async deleteHighlightsForBook(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM highlights WHERE book_id = ?", [bookId]);
+  }
+
+  private rowToHighlight(row: any): Highlight {
+    return {
+      id: row.id,
+      bookId: row.book_id,
+      chapterPath: row.chapter_path,
+      cfi: row.cfi,
+      startOffset: row.start_offset,
+      endOffset: row.end_offset,
+      quote: row.quote,
+      color: row.color,
+      note: row.note ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import { ReaderSettingsDatabase } from "./ReaderSettingsDatabase";
+import { getDb } from "./providers";
+
+describe("ReaderSettingsDatabase", () => {
+  let settingsDb: ReaderSettingsDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    settingsDb = new ReaderSettingsDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("returns null for books without overrides", async () => {
+    expect(await settingsDb.getOverrides(1)).toBeNull();
+  });
+
+  it("saves, replaces and deletes a book's overrides", async () => {
+    await settingsDb.saveOverrides(1, { theme: "dark" });
+    await settingsDb.saveOverrides(1, { theme: "sepia", fontSize: 20 });
+    await settingsDb.saveOverrides(2, {});
+
+    expect(await settingsDb.getOverrides(1)).toEqual({
+      theme: "sepia",
+      fontSize: 20,
+    });
+    // An empty override still means the book has its own settings
+    expect(await settingsDb.getOverrides(2)).toEqual({});
+
+    await settingsDb.deleteOverrides(1);
+    expect(await settingsDb.getOverrides(1)).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+import { type ReaderSettings, sanitizeSettings } from "./readerSettings";
+
+/**
+ * Per-book reader settings; global settings live in localStorage
+ */
+export class ReaderSettingsDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  /**
+   * Settings a book overrides, or null when it follows the global settings
+   */
+  async getOverrides(bookId: number): Promise<Partial<ReaderSettings> | null> {
+    const result = await this.db.query<{ settings: string }>(
+      "SELECT settings FROM book_reader_settings WHERE book_id = ?",
+      [bookId],
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    try {
+      return sanitizeSettings(JSON.parse(row.settings));
+    } catch {
+      return {};
+    }
+  }
+
+  async saveOverrides(
+    bookId: number,
+    overrides: Partial<ReaderSettings>,
+  ): Promise<void> {
+    await this.db.exec(
+      `INSERT OR REPLACE INTO book_reader_settings (book_id, settings, updated_at)
+      VALUES (?, ?, ?)`,
+      [bookId, JSON.stringify(overrides), Date.now()],
+    );
+  }
+
+  async deleteOverrides(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM book_reader_settings WHERE book_id = ?", [
+      bookId,
+    ]);
+  }
+}
@@ -0,0 +1,65 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import { ReadingPositionDatabase } from "./ReadingPositionDatabase";
+import { getDb } from "./providers";
+
+describe("ReadingPositionDatabase", () => {
+  let positionDb: ReadingPositionDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    positionDb = new ReadingPositionDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("keeps one position per book", async () => {
+    await positionDb.savePosition({
+      bookId: 1,
+      chapterIndex: 2,
+      blockIndex: 5,
+      progress: 0.3,
+    });
+    const saved = await positionDb.savePosition({
+      bookId: 1,
+      chapterIndex: 4,
+      blockIndex: 0,
+      progress: 0.5,
+    });
+
+    expect(await positionDb.getPosition(1)).toEqual(saved);
+    expect(await positionDb.getPosition(2)).toBeNull();
+  });
+
+  it("lists progress by book and deletes positions", async () => {
+    await positionDb.savePosition({
+      bookId: 1,
+      chapterIndex: 0,
+      blockIndex: 0,
+      progress: 0.1,
+    });
+    await positionDb.savePosition({
+      bookId: 2,
+      chapterIndex: 9,
+      blockIndex: 3,
+      progress: 1,
+    });
+    expect(await positionDb.getAllProgress()).toEqual(
+      new Map([
+        [1, 0.1],
+        [2, 1],
+      ]),
+    );
+
+    await positionDb.deletePosition(1);
+    expect([...(await positionDb.getAllProgress()).keys()]).toEqual([2]);
+  });
+});
@@ -0,0 +1,81 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+
+export interface ReadingPosition {
+  bookId: number;
+  /** Index into the reader's chapter list, as in `/book/:id/:chapterIndex` */
+  chapterIndex: number;
+  /** Block tracked by ReadingProgressStore, as in `#p_N` */
+  blockIndex: number;
+  /**
+   * CFI into the chapter's source for the block, when the chapter had a
+   * position codec; resumed from before `blockIndex`, which counts blocks
+   * differently in each rendering mode
+   */
+  cfi?: string;
+  /** Fraction of the spine read, from 0 to 1 */
+  progress: number;
+  updatedAt: number;
+}
+
+export type NewReadingPosition = Omit<ReadingPosition, "updatedAt">;
+
+/**
+ * Last reading position of each EPUB, one row per book
+ */
+export class ReadingPositionDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  async savePosition(position: NewReadingPosition): Promise<ReadingPosition> {
+    const updatedAt = Date.now();
+    await this.db.exec(
+      `INSERT OR REPLACE INTO reading_positions
+        (book_id, chapter_index, block_index, cfi, progress, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        position.bookId,
+        position.chapterIndex,
+        position.blockIndex,
+        position.cfi ?? null,
+        position.progress,
+        updatedAt,
+      ],
+    );
+    return { ...position, updatedAt };
+  }
+
+  async getPosition(bookId: number): Promise<ReadingPosition | null> {
+    const result = await this.db.query(
+      "SELECT * FROM reading_positions WHERE book_id = ?",
+      [bookId],
+    );
+    const row = result.rows[0];
+    return row ? this.rowToPosition(row) : null;
+  }
+
+  /**
+   * Progress of every book with a saved position, by book id
+   */
+  async getAllProgress(): Promise<Map<number, number>> {
+    const result = await this.db.query<{ book_id: number; progress: number }>(
+      "SELECT book_id, progress FROM reading_positions",
+    );
+    return new Map(result.rows.map((row) => [row.book_id, row.progress]));
+  }
+
+  async deletePosition(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM reading_positions WHERE book_id = ?", [
+      bookId,
+    ]);
+  }
+
+  private rowToPosition(row: any): ReadingPosition {
+    return {
+      bookId: row.book_id,
+      chapterIndex: row.chapter_index,
+      blockIndex: row.block_index,
+      cfi: row.cfi ?? undefined,
+      progress: row.progress,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import {
+  type NewReadingSession,
+  ReadingSessionDatabase,
+} from "./ReadingSessionDatabase";
+import { getDb } from "./providers";
+
+const session = (
+  bookId: number,
+  day: number,
+  activeMs: number,
+  wordsRead: number,
+): NewReadingSession => {
+  const startedAt = new Date(2024, 0, day, 20).getTime();
+  return {
+    bookId,
+    chapterIndex: 0,
+    startedAt,
+    endedAt: startedAt + activeMs,
+    activeMs,
+    wordsRead,
+  };
+};
+
+describe("ReadingSessionDatabase", () => {
+  let sessionDb: ReadingSessionDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    sessionDb = new ReadingSessionDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("totals sessions by local day", async () => {
+    await sessionDb.addSession(session(1, 1, 60000, 200));
+    await sessionDb.addSession(session(2, 1, 30000, 100));
+    await sessionDb.addSession(session(1, 3, 10000, 50));
+
+    expect(await sessionDb.getDailyTotals("2024-01-02")).toEqual([
+      { day: "2024-01-03", activeMs: 10000, wordsRead: 50 },
+    ]);
+    expect(await sessionDb.getDailyTotals("2024-01-01")).toEqual([
+      { day: "2024-01-01", activeMs: 90000, wordsRead: 300 },
+      { day: "2024-01-03", activeMs: 10000, wordsRead: 50 },
+    ]);
+    expect(await sessionDb.getReadingDays()).toEqual([
+      "2024-01-01",
+      "2024-01-03",
+    ]);
+  });
+
+  it("deletes the sessions of a book", async () => {
+    await sessionDb.addSession(session(1, 1, 60000, 200));
+    await sessionDb.addSession(session(2, 2, 30000, 100));
+
+    await sessionDb.deleteSessionsForBook(1);
+    expect(await sessionDb.getReadingDays()).toEqual(["2024-01-02"]);
+  });
+});
@@ -0,0 +1,118 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+import { dayKey } from "./readingStats";
+
+export interface ReadingSession {
+  id: number;
+  bookId: number;
+  /** Index into the reader's chapter list, as in `/book/:id/:chapterIndex` */
+  chapterIndex: number;
+  startedAt: number;
+  endedAt: number;
+  /** Time spent reading, without idle gaps and hidden-tab time */
+  activeMs: number;
+  /** Estimated from the chapter's word count and how far the reader got */
+  wordsRead: number;
+}
+
+export type NewReadingSession = Omit<ReadingSession, "id">;
+
+export interface DailyReading {
+  /** Local date, as YYYY-MM-DD */
+  day: string;
+  activeMs: number;
+  wordsRead: number;
+}
+
+export interface BookReading {
+  bookId: number;
+  title: string;
+  activeMs: number;
+  wordsRead: number;
+  lastReadAt: number;
+}
+
+export class ReadingSessionDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  async addSession(session: NewReadingSession): Promise<ReadingSession> {
+    const result = await this.db.query<{ id: number }>(
+      `INSERT INTO reading_sessions
+        (book_id, chapter_index, day, started_at, ended_at, active_ms, words_read)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      RETURNING id`,
+      [
+        session.bookId,
+        session.chapterIndex,
+        dayKey(session.startedAt),
+        session.startedAt,
+        session.endedAt,
+        session.activeMs,
+        session.wordsRead,
+      ],
+    );
+
+    const id = result.rows[0]?.id;
+    if (id === undefined) {
+      throw new Error("Failed to get auto-generated reading session ID");
+    }
+    return { ...session, id };
+  }
+
+  /**
+   * Totals per day from `since` (a YYYY-MM-DD day) on, oldest first. Days
+   * without reading are left out.
+   */
+  async getDailyTotals(since: string): Promise<DailyReading[]> {
+    const result = await this.db.query(
+      `SELECT day, SUM(active_ms) AS active_ms, SUM(words_read) AS words_read
+      FROM reading_sessions
+      WHERE day >= ?
+      GROUP BY day
+      ORDER BY day`,
+      [since],
+    );
+    return result.rows.map((row: any) => ({
+      day: row.day,
+      activeMs: row.active_ms,
+      wordsRead: row.words_read,
+    }));
+  }
+
+  /**
+   * Totals per book, most read first
+   */
+  async getBookTotals(): Promise<BookReading[]> {
+    const result = await this.db.query(
+      `SELECT books.id AS book_id, books.title,
+        SUM(s.active_ms) AS active_ms, SUM(s.words_read) AS words_read,
+        MAX(s.ended_at) AS last_read_at
+      FROM reading_sessions s
+      JOIN books ON books.id = s.book_id
+      GROUP BY books.id
+      ORDER BY active_ms DESC`,
+    );
+    return result.rows.map((row: any) => ({
+      bookId: row.book_id,
+      title: row.title,
+      activeMs: row.active_ms,
+      wordsRead: row.words_read,
+      lastReadAt: row.last_read_at,
+    }));
+  }
+
+  /**
+   * Every day with reading, as YYYY-MM-DD, oldest first
+   */
+  async getReadingDays(): Promise<string[]> {
+    const result = await this.db.query<{ day: string }>(
+      "SELECT DISTINCT day FROM reading_sessions ORDER BY day",
+    );
+    return result.rows.map((row) => row.day);
+  }
+
+  async deleteSessionsForBook(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM reading_sessions WHERE book_id = ?", [
+      bookId,
+    ]);
+  }
+}
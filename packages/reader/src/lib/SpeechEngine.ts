@@ -0,0 +1,107 @@
+/** A voice the engine can speak with */
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  lang: string;
+  isDefault: boolean;
+}
+
+export interface SpeechRequest {
+  text: string;
+  /** 1 is normal speed */
+  rate: number;
+  /** SpeechVoice id, or null for the engine's default */
+  voiceId: string | null;
+  lang?: string;
+}
+
+export interface SpeechCallbacks {
+  onEnd(): void;
+  onError(error: string): void;
+}
+
+/**
+ * Speaks text one utterance at a time. ReadAloudStore drives it; tests
+ * substitute a fake.
+ */
+export interface SpeechEngine {
+  readonly available: boolean;
+  getVoices(): SpeechVoice[];
+  /** Voices often load after startup; returns a disposer */
+  onVoicesChanged(listener: () => void): () => void;
+  /**
+   * Speak `request`, replacing anything being spoken. Callbacks only fire
+   * for the latest utterance, and not at all once it is cancelled.
+   */
+  speak(request: SpeechRequest, callbacks: SpeechCallbacks): void;
+  cancel(): void;
+}
+
+/**
+ * SpeechEngine on the Web Speech API's `speechSynthesis`
+ */
+export class WebSpeechEngine implements SpeechEngine {
+  private current: SpeechSynthesisUtterance | null = null;
+
+  constructor(
+    private synth: SpeechSynthesis | undefined = typeof window !== "undefined"
+      ? window.speechSynthesis
+      : undefined,
+  ) {}
+
+  get available(): boolean {
+    return this.synth !== undefined;
+  }
+
+  getVoices(): SpeechVoice[] {
+    return (this.synth?.getVoices() ?? []).map((voice) => ({
+      id: voice.voiceURI,
+      name: voice.name,
+      lang: voice.lang,
+      isDefault: voice.default,
+    }));
+  }
+
+  onVoicesChanged(listener: () => void): () => void {
+    const synth = this.synth;
+    if (!synth) return () => {};
+    synth.addEventListener("voiceschanged", listener);
+    return () => synth.removeEventListener("voiceschanged", listener);
+  }
+
+  speak(request: SpeechRequest, callbacks: SpeechCallbacks): void {
+    const synth = this.synth;
+    if (!synth) {
+      callbacks.onError("Speech synthesis is not available");
+      return;
+    }
+    this.cancel();
+
+    const utterance = new SpeechSynthesisUtterance(request.text);
+    utterance.rate = request.rate;
+    if (request.lang) utterance.lang = request.lang;
+    const voice = synth
+      .getVoices()
+      .find((candidate) => candidate.voiceURI === request.voiceId);
+    if (voice) utterance.voice = voice;
+
+    // Cancelling fires `end` or an "interrupted" error on the old utterance
+    utterance.onend = () => {
+      if (this.current !== utterance) return;
+      this.current = null;
+      callbacks.onEnd();
+    };
+    utterance.onerror = (event) => {
+      if (this.current !== utterance) return;
+      this.current = null;
+      callbacks.onError(event.error);
+    };
+    this.current = utterance;
+    synth.speak(utterance);
+  }
+
+  cancel(): void {
+    this.current = null;
+    this.synth?.cancel();
+  }
+}
@@ -0,0 +1,57 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+/**
+ * @vitest-environment browser
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { nukeIndexedDBDatabases } from "../stores/testUtils";
+import {
+  type NewVocabularyEntry,
+  VocabularyDatabase,
+} from "./VocabularyDatabase";
+import { getDb } from "./providers";
+
+const word = (
+  overrides: Partial<NewVocabularyEntry> = {},
+): NewVocabularyEntry => ({
+  bookId: 1,
+  chapterPath: "/OEBPS/ch1.xhtml",
+  word: "melancholy",
+  definition: "A deep, pensive sadness.",
+  context: "She felt melancholy, and stayed in.",
+  ...overrides,
+});
+
+describe("VocabularyDatabase", () => {
+  let vocabularyDb: VocabularyDatabase;
+  let db: SQLiteDB;
+
+  beforeEach(async () => {
+    await nukeIndexedDBDatabases();
+    db = await getDb(`test-${Date.now()}`);
+    vocabularyDb = new VocabularyDatabase(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it("adds and lists a book's words, most recent first", async () => {
+    const first = await vocabularyDb.addEntry(word());
+    const second = await vocabularyDb.addEntry(word({ word: "pensive" }));
+    await vocabularyDb.addEntry(word({ bookId: 2 }));
+
+    expect(await vocabularyDb.getEntries(1)).toEqual([second, first]);
+  });
+
+  it("deletes single words and whole books", async () => {
+    const { id } = await vocabularyDb.addEntry(word());
+    await vocabularyDb.addEntry(word({ word: "pensive" }));
+    await vocabularyDb.deleteEntry(id);
+    expect((await vocabularyDb.getEntries(1)).map((v) => v.word)).toEqual([
+      "pensive",
+    ]);
+
+    await vocabularyDb.deleteEntriesForBook(1);
+    expect(await vocabularyDb.getEntries(1)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { SQLiteDB } from "@hayeah/sqlite-browser";
+
+export interface VocabularyEntry {
+  id: number;
+  bookId: number;
+  /** Absolute path of the spine item the word was looked up in */
+  chapterPath: string;
+  word: string;
+  definition: string;
+  /** Sentence the word was selected in */
+  context: string;
+  createdAt: number;
+}
+
+export type NewVocabularyEntry = Omit<VocabularyEntry, "id" | "createdAt">;
+
+export class VocabularyDatabase {
+  constructor(private db: SQLiteDB) {}
+
+  async addEntry(entry: NewVocabularyEntry): Promise<VocabularyEntry> {
+    const now = Date.now();
+    const result = await this.db.query<{ id: number }>(
+      `INSERT INTO vocabulary (book_id, chapter_path, word, definition, context, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      RETURNING id`,
+      [
+        entry.bookId,
+        entry.chapterPath,
+        entry.word,
+        entry.definition,
+        entry.context,
+        now,
+      ],
+    );
+
+    const id = result.rows[0]?.id;
+    if (id === undefined) {
+      throw new Error("Failed to get auto-generated vocabulary ID");
+    }
+    return { ...entry, id, createdAt: now };
+  }
+
+  /**
+   * Words saved while reading a book, most recent first
+   */
+  async getEntries(bookId: number): Promise<VocabularyEntry[]> {
+    const result = await this.db.query(
+      "SELECT * FROM vocabulary WHERE book_id = ? ORDER BY created_at DESC, id DESC",
+      [bookId],
+    );
+    return result.rows.map(this.rowToEntry);
+  }
+
+  async deleteEntry(id: number): Promise<void> {
+    await this.db.exec("DELETE FROM vocabulary WHERE id = ?", [id]);
+  }
+
+  async deleteEntriesForBook(bookId: number): Promise<void> {
+    await this.db.exec("DELETE FROM vocabulary WHERE book_id = ?", [bookId]);
+  }
+
+  private rowToEntry(row: any): VocabularyEntry {
+    return {
+      id: row.id,
+      bookId: row.book_id,
+      chapterPath: row.chapter_path,
+      word: row.word,
+      definition: row.definition,
+      context: row.context,
+      createdAt: row.created_at,
+    };
+  }
+}
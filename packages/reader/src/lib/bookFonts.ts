@@ -0,0 +1,35 @@
+import type { EPub } from "@epubdown/core";
+
+const FONT_FACE = /@font-face\s*\{([^}]*)\}/gi;
+const FONT_FAMILY = /font-family\s*:\s*([^;]+)/i;
+
+/**
+ * Font families declared with `@font-face` in a stylesheet
+ */
+export function fontFaceFamilies(css: string): string[] {
+  const families: string[] = [];
+  for (const match of css.matchAll(FONT_FACE)) {
+    const family = match[1]
+      ?.match(FONT_FAMILY)?.[1]
+      ?.trim()
+      .replace(/^['"]|['"]$/g, "");
+    if (family) families.push(family);
+  }
+  return families;
+}
+
+/**
+ * Families of the fonts a book embeds, from every stylesheet in its manifest
+ */
+export async function embeddedFontFamilies(epub: EPub): Promise<string[]> {
+  const families = new Set<string>();
+  const stylesheets = epub
+    .manifest()
+    .filter((item) => item.mediaType === "text/css");
+  for (const item of stylesheets) {
+    const css = await epub.resolver.read(item.path);
+    if (!css) continue;
+    for (const family of fontFaceFamilies(css)) families.add(family);
+  }
+  return [...families].sort((a, b) => a.localeCompare(b));
+}
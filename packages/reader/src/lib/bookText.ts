@@ -0,0 +1,30 @@
+import { type EPub, extractText } from "@epubdown/core";
+import type { ChapterText } from "./BookTextIndex";
+
+/**
+ * Plain text of each chapter in the reader's chapter list, titled from the
+ * table of contents, for the library text index
+ */
+export async function extractChapterTexts(epub: EPub): Promise<ChapterText[]> {
+  const titleByPath = new Map<string, string>();
+  for (const item of await epub.toc.flatNavItems()) {
+    const path = item.path.split("#")[0] ?? "";
+    if (!titleByPath.has(path)) titleByPath.set(path, item.label);
+  }
+
+  const chapters: ChapterText[] = [];
+  let chapterIndex = 0;
+  for await (const chapter of epub.chapters()) {
+    const body = chapter.dom.querySelector("body") ?? chapter.dom;
+    const text = extractText(body).replace(/\s+/g, " ").trim();
+    if (text) {
+      chapters.push({
+        chapterIndex,
+        title: titleByPath.get(chapter.path) ?? null,
+        text,
+      });
+    }
+    chapterIndex++;
+  }
+  return chapters;
+}
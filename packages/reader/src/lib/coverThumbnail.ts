@@ -0,0 +1,91 @@
+import { DEFAULT_PDFIUM_WASM_URL } from "@embedpdf/pdfium";
+import type { EPub } from "@epubdown/core";
+import { type PDFEngine, createPdfiumEngine } from "@epubdown/pdf-render";
+
+/** Thumbnails are stored at this width; height follows the aspect ratio */
+export const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_TYPE = "image/jpeg";
+const THUMBNAIL_QUALITY = 0.85;
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode thumbnail")),
+      THUMBNAIL_TYPE,
+      THUMBNAIL_QUALITY,
+    );
+  });
+}
+
+/**
+ * Downscale an image to thumbnail width, never upscaling small images
+ */
+export async function createImageThumbnail(image: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, THUMBNAIL_WIDTH / bitmap.width);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    // JPEG has no alpha; paint transparent covers onto white
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await canvasToBlob(canvas);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Thumbnail of the EPUB cover image, or null when the book has no cover
+ */
+export async function createEpubThumbnail(epub: EPub): Promise<Blob | null> {
+  const cover = await epub.cover();
+  if (!cover) return null;
+  return createImageThumbnail(
+    new Blob([new Uint8Array(cover.data)], { type: cover.mediaType }),
+  );
+}
+
+// One PDFium instance for every import; the WASM module is large
+let pdfEngine: Promise<PDFEngine> | null = null;
+
+function getPdfEngine(): Promise<PDFEngine> {
+  if (!pdfEngine) {
+    const engine = createPdfiumEngine();
+    pdfEngine = engine
+      .init({ wasmUrl: DEFAULT_PDFIUM_WASM_URL })
+      .then(() => engine);
+    // Let the next import retry a failed load
+    pdfEngine.catch(() => {
+      pdfEngine = null;
+    });
+  }
+  return pdfEngine;
+}
+
+/**
+ * Thumbnail of the first PDF page, rendered with PDFium at thumbnail width
+ */
+export async function createPdfThumbnail(data: Uint8Array): Promise<Blob> {
+  const engine = await getPdfEngine();
+  const doc = await engine.loadDocument(data);
+  try {
+    const { wPt } = await doc.getPageSize(0);
+    const page = await doc.loadPage(0);
+    try {
+      const canvas = document.createElement("canvas");
+      await page.renderToCanvas(canvas, (THUMBNAIL_WIDTH / wPt) * 72);
+      return await canvasToBlob(canvas);
+    } finally {
+      page.destroy();
+    }
+  } finally {
+    doc.destroy();
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseJsonDictionary,
+  parseStarDict,
+  parseTsvDictionary,
+} from "./dictionaryFiles";
+
+const encoder = new TextEncoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+// .idx and .dict contents for entries whose data is already encoded
+function stardict(entries: [string, Uint8Array][]) {
+  const idx: Uint8Array[] = [];
+  const dict: Uint8Array[] = [];
+  let offset = 0;
+  for (const [word, data] of entries) {
+    idx.push(encoder.encode(word), new Uint8Array([0]));
+    idx.push(uint32(offset), uint32(data.length));
+    dict.push(data);
+    offset += data.length;
+  }
+  return { idx: concat(idx), dict: concat(dict) };
+}
+
+const ifo = (fields: string) =>
+  `StarDict's dict ifo file\nversion=2.4.2\nbookname=Tiny\n${fields}`;
+
+describe("parseJsonDictionary", () => {
+  it("reads word-to-definition objects", () => {
+    expect(
+      parseJsonDictionary('{"cat": "A small feline.", "dog": ""}', "pets"),
+    ).toEqual({
+      name: "pets",
+      language: undefined,
+      entries: [{ headword: "cat", definition: "A small feline." }],
+    });
+  });
+
+  it("reads entry lists with a name, language and senses", () => {
+    const parsed = parseJsonDictionary(
+      JSON.stringify({
+        name: "Mini",
+        language: "fr",
+        entries: [
+          { word: "chat", definitions: ["cat", "chat (talk)"] },
+          { headword: "chien", definition: "dog" },
+          { word: 3 },
+        ],
+      }),
+      "file",
+    );
+    expect(parsed.name).toBe("Mini");
+    expect(parsed.language).toBe("fr");
+    expect(parsed.entries).toEqual([
+      { headword: "chat", definition: "cat\nchat (talk)" },
+      { headword: "chien", definition: "dog" },
+    ]);
+  });
+
+  it("rejects JSON without entries", () => {
+    expect(() => parseJsonDictionary("42", "x")).toThrow("no entries");
+  });
+});
+
+describe("parseTsvDictionary", () => {
+  it("reads tab-separated lines with escapes", () => {
+    const parsed = parseTsvDictionary(
+      "# comment\nalpha\tfirst\\nletter\n\nbeta\tsecond\\\\b\nno tab\n",
+      "greek",
+    );
+    expect(parsed.entries).toEqual([
+      { headword: "alpha", definition: "first\nletter" },
+      { headword: "beta", definition: "second\\b" },
+    ]);
+  });
+});
+
+describe("parseStarDict", () => {
+  it("reads entries of a single plain-text type", () => {
+    const { idx, dict } = stardict([
+      ["apple", encoder.encode("A fruit.")],
+      ["banana", encoder.encode("Another fruit.")],
+    ]);
+    const parsed = parseStarDict(
+      ifo("sametypesequence=m\nlang=en"),
+      idx,
+      dict,
+      "fallback",
+    );
+    expect(parsed).toEqual({
+      name: "Tiny",
+      language: "en",
+      entries: [
+        { headword: "apple", definition: "A fruit." },
+        { headword: "banana", definition: "Another fruit." },
+      ],
+    });
+  });
+
+  it("reads typed fields, turning markup into text and skipping binary", () => {
+    const data = concat([
+      encoder.encode("t"),
+      encoder.encode("ˈæpəl\0"),
+      encoder.encode("W"),
+      uint32(2),
+      new Uint8Array([1, 2]),
+      encoder.encode("h"),
+      encoder.encode("<b>A</b> fruit.<br>Red &amp; green&#x2e;\0"),
+    ]);
+    const { idx, dict } = stardict([["apple", data]]);
+    const parsed = parseStarDict(ifo(""), idx, dict, "fallback");
+    expect(parsed.entries).toEqual([
+      { headword: "apple", definition: "ˈæpəl\nA fruit.\nRed & green." },
+    ]);
+  });
+
+  it("rejects files that are not StarDict", () => {
+    const { idx, dict } = stardict([]);
+    expect(() => parseStarDict("bookname=x", idx, dict, "x")).toThrow(
+      "Not a StarDict",
+    );
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Reading offline dictionaries for import: StarDict (.ifo, .idx and .dict,
+ * optionally compressed) or a simple JSON or tab-separated word list
+ */
+
+export interface DictionaryEntry {
+  headword: string;
+  /** Plain text; lines separated by "\n" */
+  definition: string;
+}
+
+export interface ParsedDictionary {
+  name: string;
+  /** BCP 47 tag, when the file declares one */
+  language?: string;
+  entries: DictionaryEntry[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+function decodeEntity(entity: string, name: string): string {
+  if (name.startsWith("#")) {
+    const code =
+      name[1] === "x" || name[1] === "X"
+        ? Number.parseInt(name.slice(2), 16)
+        : Number.parseInt(name.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  }
+  return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+}
+
+// Text of HTML, Pango or XDXF markup, keeping line breaks. Tags are
+// stripped rather than parsed: a dictionary has an entry per word, too
+// many for a DOM parse each.
+function markupToText(markup: string): string {
+  return markup
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, decodeEntity)
+    .trim();
+}
+
+function entry(headword: unknown, definition: unknown): DictionaryEntry | null {
+  const text = Array.isArray(definition)
+    ? definition.filter((d) => typeof d === "string").join("\n")
+    : definition;
+  if (typeof headword !== "string" || typeof text !== "string") return null;
+  const word = headword.trim();
+  const meaning = text.trim();
+  return word && meaning ? { headword: word, definition: meaning } : null;
+}
+
+/**
+ * A JSON dictionary: an object mapping words to definitions, an array of
+ * `{ word, definition }` entries, or `{ name, language, entries }` with
+ * either of those as entries. A definition may be a list of senses.
+ */
+export function parseJsonDictionary(
+  text: string,
+  name: string,
+): ParsedDictionary {
+  const data: unknown = JSON.parse(text);
+  let dictionaryName = name;
+  let language: string | undefined;
+  let entries: unknown = data;
+  if (
+    data &&
+    typeof data === "object" &&
+    !Array.isArray(data) &&
+    "entries" in data
+  ) {
+    const meta = data as { name?: unknown; language?: unknown };
+    if (typeof meta.name === "string" && meta.name.trim()) {
+      dictionaryName = meta.name.trim();
+    }
+    if (typeof meta.language === "string" && meta.language.trim()) {
+      language = meta.language.trim();
+    }
+    entries = (data as { entries: unknown }).entries;
+  }
+
+  const parsed: DictionaryEntry[] = [];
+  if (Array.isArray(entries)) {
+    for (const item of entries) {
+      if (!item || typeof item !== "object") continue;
+      const { word, headword, definition, definitions } = item as Record<
+        string,
+        unknown
+      >;
+      const found = entry(word ?? headword, definition ?? definitions);
+      if (found) parsed.push(found);
+    }
+  } else if (entries && typeof entries === "object") {
+    for (const [word, definition] of Object.entries(entries)) {
+      const found = entry(word, definition);
+      if (found) parsed.push(found);
+    }
+  } else {
+    throw new Error("JSON dictionary has no entries");
+  }
+  return { name: dictionaryName, language, entries: parsed };
+}
+
+/**
+ * A tab-separated dictionary: one `word<TAB>definition` per line, with
+ * `\n`, `\t` and `\\` escapes in the definition as in StarDict tab files.
+ * Blank lines and lines starting with `#` are skipped.
+ */
+export function parseTsvDictionary(
+  text: string,
+  name: string,
+): ParsedDictionary {
+  const entries: DictionaryEntry[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#")) continue;
+    const tab = line.indexOf("\t");
+    if (tab < 0) continue;
+    const definition = line
+      .slice(tab + 1)
+      .replace(/\\([nt\\])/g, (_, c: string) =>
+        c === "n" ? "\n" : c === "t" ? "\t" : "\\",
+      );
+    const found = entry(line.slice(0, tab), definition);
+    if (found) entries.push(found);
+  }
+  return { name, entries };
+}
+
+function parseIfo(text: string): Map<string, string> {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.startsWith("StarDict's dict ifo file")) {
+    throw new Error("Not a StarDict .ifo file");
+  }
+  const fields = new Map<string, string>();
+  for (const line of lines.slice(1)) {
+    const eq = line.indexOf("=");
+    if (eq > 0) fields.set(line.slice(0, eq).trim(), line.slice(eq + 1).trim());
+  }
+  return fields;
+}
+
+const utf8 = new TextDecoder("utf-8");
+
+// Text of one entry's fields. Lowercase field types are NUL-terminated
+// strings and uppercase ones are size-prefixed binary; with
+// `sametypesequence` the types are left out and the last field runs to the
+// end of the entry.
+function stardictText(data: Uint8Array, sameTypes: string | undefined): string {
+  const texts: string[] = [];
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let pos = 0;
+  let typeIndex = 0;
+  while (pos < data.length) {
+    let type: string;
+    let last = false;
+    if (sameTypes) {
+      if (typeIndex >= sameTypes.length) break;
+      type = sameTypes.charAt(typeIndex++);
+      last = typeIndex === sameTypes.length;
+    } else {
+      type = String.fromCharCode(data[pos++] ?? 0);
+    }
+
+    let field: Uint8Array;
+    if (type === type.toLowerCase()) {
+      let end = last ? data.length : data.indexOf(0, pos);
+      if (end < 0) end = data.length;
+      field = data.subarray(pos, end);
+      pos = end + 1;
+    } else {
+      const size =
+        last || pos + 4 > data.length ? data.length - pos : view.getUint32(pos);
+      if (!last) pos += 4;
+      pos += size;
+      continue;
+    }
+
+    const value = utf8.decode(field).trim();
+    if (!value) continue;
+    if ("mlty".includes(type)) texts.push(value);
+    else if ("ghxkw".includes(type)) texts.push(markupToText(value));
+  }
+  return texts.join("\n");
+}
+
+/**
+ * A StarDict dictionary from the contents of its .ifo, .idx and .dict
+ * files, the latter two already decompressed
+ */
+export function parseStarDict(
+  ifo: string,
+  idx: Uint8Array,
+  dict: Uint8Array,
+  fallbackName: string,
+): ParsedDictionary {
+  const info = parseIfo(ifo);
+  const offsetBytes = info.get("idxoffsetbits") === "64" ? 8 : 4;
+  const sameTypes = info.get("sametypesequence") || undefined;
+  const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength);
+
+  const entries: DictionaryEntry[] = [];
+  let pos = 0;
+  while (pos < idx.length) {
+    const end = idx.indexOf(0, pos);
+    if (end < 0 || end + 1 + offsetBytes + 4 > idx.length) break;
+    const headword = utf8.decode(idx.subarray(pos, end));
+    pos = end + 1;
+    const offset =
+      offsetBytes === 8 ? Number(view.getBigUint64(pos)) : view.getUint32(pos);
+    pos += offsetBytes;
+    const size = view.getUint32(pos);
+    pos += 4;
+    const found = entry(
+      headword,
+      stardictText(dict.subarray(offset, offset + size), sameTypes),
+    );
+    if (found) entries.push(found);
+  }
+  return {
+    name: info.get("bookname") || fallbackName,
+    language: info.get("lang") || undefined,
+    entries,
+  };
+}
+
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(data)])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Bytes of a file, decompressed when gzipped (.gz, or dictzip's .dz)
+async function fileBytes(file: File): Promise<Uint8Array> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return /\.(gz|dz)$/i.test(file.name) ? gunzip(bytes) : bytes;
+}
+
+function baseName(file: File): string {
+  return file.name.replace(/\.(gz|dz)$/i, "").replace(/\.[^.]+$/, "");
+}
+
+/**
+ * Parse the files chosen for import: the three files of a StarDict
+ * dictionary, or one .json, .tsv, .tab or .txt file
+ */
+export async function readDictionaryFiles(
+  files: File[],
+): Promise<ParsedDictionary> {
+  const find = (pattern: RegExp) => files.find((f) => pattern.test(f.name));
+
+  const ifo = find(/\.ifo$/i);
+  if (ifo) {
+    const idx = find(/\.idx(\.gz)?$/i);
+    const dict = find(/\.dict(\.dz|\.gz)?$/i);
+    if (!idx || !dict) {
+      throw new Error("A StarDict dictionary needs its .ifo, .idx and .dict");
+    }
+    return parseStarDict(
+      await ifo.text(),
+      await fileBytes(idx),
+      await fileBytes(dict),
+      baseName(ifo),
+    );
+  }
+
+  const json = find(/\.json$/i);
+  if (json) return parseJsonDictionary(await json.text(), baseName(json));
+
+  const tsv = find(/\.(tsv|tab|txt)$/i);
+  if (tsv) return parseTsvDictionary(await tsv.text(), baseName(tsv));
+
+  throw new Error(
+    "Unsupported dictionary: choose StarDict files, or a .json or .tsv file",
+  );
+}
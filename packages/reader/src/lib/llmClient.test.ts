@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  type LlmEndpoint,
+  chatCompletionsUrl,
+  streamChatCompletion,
+} from "./llmClient";
+
+const endpoint: LlmEndpoint = {
+  baseUrl: "http://localhost:8080/v1/",
+  model: "local",
+  apiKey: "",
+};
+
+// A server-sent events response delivered in the given chunks
+function sseResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+const delta = (content: string) =>
+  `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+describe("chatCompletionsUrl", () => {
+  it("appends the chat completions route once", () => {
+    expect(chatCompletionsUrl("http://localhost:8080/v1/")).toBe(
+      "http://localhost:8080/v1/chat/completions",
+    );
+    expect(
+      chatCompletionsUrl("https://api.example.com/v1/chat/completions"),
+    ).toBe("https://api.example.com/v1/chat/completions");
+  });
+});
+
+describe("streamChatCompletion", () => {
+  it("streams deltas split across chunks", async () => {
+    const events = `${delta("Hello")}${delta(", ")}${delta("world")}data: [DONE]\n\n`;
+    const fetchFn = vi.fn(async (_url: string, _init: RequestInit) =>
+      sseResponse([
+        events.slice(0, 30),
+        events.slice(30, 95),
+        events.slice(95),
+      ]),
+    );
+    const deltas: string[] = [];
+
+    const answer = await streamChatCompletion(
+      endpoint,
+      [{ role: "user", content: "Hi" }],
+      (text) => deltas.push(text),
+      undefined,
+      fetchFn,
+    );
+
+    expect(answer).toBe("Hello, world");
+    expect(deltas).toEqual(["Hello", ", ", "world"]);
+    const [url, init] = fetchFn.mock.calls[0] ?? [];
+    expect(url).toBe("http://localhost:8080/v1/chat/completions");
+    expect(JSON.parse(init?.body as string)).toEqual({
+      model: "local",
+      messages: [{ role: "user", content: "Hi" }],
+      stream: true,
+    });
+    expect(init?.headers).not.toHaveProperty("Authorization");
+  });
+
+  it("sends the key and accepts answers that are not streamed", async () => {
+    const fetchFn = vi.fn(async (_url: string, _init: RequestInit) =>
+      Response.json({ choices: [{ message: { content: "All at once" } }] }),
+    );
+    const deltas: string[] = [];
+
+    const answer = await streamChatCompletion(
+      { ...endpoint, apiKey: "secret" },
+      [],
+      (text) => deltas.push(text),
+      undefined,
+      fetchFn,
+    );
+
+    expect(answer).toBe("All at once");
+    expect(deltas).toEqual(["All at once"]);
+    const [, init] = fetchFn.mock.calls[0] ?? [];
+    expect(init?.headers).toHaveProperty("Authorization", "Bearer secret");
+  });
+
+  it("reports the server's error message", async () => {
+    const fetchFn = vi.fn(async (_url: string, _init: RequestInit) =>
+      Response.json(
+        { error: { message: "model not found" } },
+        { status: 404, statusText: "Not Found" },
+      ),
+    );
+
+    await expect(
+      streamChatCompletion(endpoint, [], () => {}, undefined, fetchFn),
+    ).rejects.toThrow("404 Not Found – model not found");
+  });
+});
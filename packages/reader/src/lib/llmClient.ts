@@ -0,0 +1,121 @@
+/**
+ * An OpenAI-compatible chat completions endpoint: a hosted API, or a local
+ * server such as llama.cpp, Ollama or LM Studio
+ */
+export interface LlmEndpoint {
+  /** Base of the API, e.g. `http://localhost:11434/v1` */
+  baseUrl: string;
+  model: string;
+  /** Sent as a bearer token; local servers usually need none */
+  apiKey: string;
+}
+
+export interface ChatTurn {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/** The part of `fetch` the client uses; tests pass a fake */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * URL of the chat completions route under `baseUrl`, which may already
+ * name it
+ */
+export function chatCompletionsUrl(baseUrl: string): string {
+  const base = baseUrl.trim().replace(/\/+$/, "");
+  return base.endsWith("/chat/completions") ? base : `${base}/chat/completions`;
+}
+
+function errorMessage(data: unknown): string | undefined {
+  const error = (data as { error?: unknown } | null)?.error;
+  if (typeof error === "string") return error;
+  const message = (error as { message?: unknown } | undefined)?.message;
+  return typeof message === "string" ? message : undefined;
+}
+
+/**
+ * Send `messages` and stream the answer, calling `onDelta` with each piece
+ * of text as it arrives. Resolves with the whole answer. Servers that
+ * ignore `stream` and answer in one response work too.
+ */
+export async function streamChatCompletion(
+  endpoint: LlmEndpoint,
+  messages: ChatTurn[],
+  onDelta: (text: string) => void,
+  signal?: AbortSignal,
+  fetchFn: FetchFn = (url, init) => fetch(url, init),
+): Promise<string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "text/event-stream",
+  };
+  if (endpoint.apiKey.trim()) {
+    headers.Authorization = `Bearer ${endpoint.apiKey.trim()}`;
+  }
+
+  const response = await fetchFn(chatCompletionsUrl(endpoint.baseUrl), {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ model: endpoint.model, messages, stream: true }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    let detail = body.slice(0, 200);
+    try {
+      detail = errorMessage(JSON.parse(body)) ?? detail;
+    } catch {
+      // Not JSON; show the start of the body
+    }
+    throw new Error(
+      `Request failed: ${response.status} ${response.statusText}${detail ? ` – ${detail}` : ""}`,
+    );
+  }
+
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (!contentType.includes("text/event-stream") || !response.body) {
+    const data = await response.json();
+    const text: string = data?.choices?.[0]?.message?.content ?? "";
+    if (!text && errorMessage(data)) throw new Error(errorMessage(data));
+    onDelta(text);
+    return text;
+  }
+
+  // Server-sent events: `data: {json}` lines, ending with `data: [DONE]`
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let answer = "";
+
+  const handleLine = (line: string): boolean => {
+    if (!line.startsWith("data:")) return false;
+    const payload = line.slice(5).trim();
+    if (payload === "[DONE]") return true;
+    if (!payload) return false;
+    const data = JSON.parse(payload);
+    const message = errorMessage(data);
+    if (message) throw new Error(message);
+    const delta: unknown = data?.choices?.[0]?.delta?.content;
+    if (typeof delta === "string" && delta) {
+      answer += delta;
+      onDelta(delta);
+    }
+    return false;
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? "" : (lines.pop() ?? "");
+    for (const line of lines) {
+      if (handleLine(line)) {
+        await reader.cancel();
+        return answer;
+      }
+    }
+    if (done) return answer;
+  }
+}
@@ -0,0 +1,70 @@
+import type { MediaOverlayClip } from "@epubdown/core";
+import { describe, expect, it } from "vitest";
+import { type LocatedClip, clipAtOffset, locateClips } from "./mediaOverlays";
+
+function body(html: string): HTMLElement {
+  const root = document.createElement("body");
+  root.innerHTML = html;
+  return root;
+}
+
+function clip(fragment: string, clipBegin = 0): MediaOverlayClip {
+  return {
+    textPath: "/ch1.xhtml",
+    fragment,
+    audioPath: "/ch1.mp3",
+    clipBegin,
+    clipEnd: null,
+  };
+}
+
+function located(startOffset: number, endOffset: number): LocatedClip {
+  return { ...clip("x"), startOffset, endOffset, text: "" };
+}
+
+describe("locateClips", () => {
+  it("finds the text each clip narrates", () => {
+    const root = body(
+      `<h1 id="t">Title</h1><p><span id="s1">One two.</span> <span id="s2">Three.</span></p>`,
+    );
+    const clips = locateClips(root, [clip("t"), clip("s1", 1), clip("s2", 2)]);
+    expect(
+      clips.map(({ fragment, startOffset, endOffset }) => ({
+        fragment,
+        startOffset,
+        endOffset,
+      })),
+    ).toEqual([
+      { fragment: "t", startOffset: 0, endOffset: 5 },
+      { fragment: "s1", startOffset: 5, endOffset: 12 },
+      { fragment: "s2", startOffset: 12, endOffset: 18 },
+    ]);
+    expect(clips[1]?.clipBegin).toBe(1);
+    expect(clips[1]?.text).toBe("One two.");
+  });
+
+  it("drops clips whose element is missing or empty", () => {
+    const root = body(`<p id="a">Text</p><p id="empty"> </p>`);
+    const clips = locateClips(root, [
+      clip("missing"),
+      clip("empty"),
+      clip("a"),
+    ]);
+    expect(clips.map((c) => c.fragment)).toEqual(["a"]);
+  });
+});
+
+describe("clipAtOffset", () => {
+  it("finds the clip containing an offset", () => {
+    const clips = [located(0, 5), located(5, 12)];
+    expect(clipAtOffset(clips, 0)).toBe(0);
+    expect(clipAtOffset(clips, 5)).toBe(1);
+    expect(clipAtOffset(clips, 12)).toBe(-1);
+  });
+
+  it("prefers the narrowest of nested clips", () => {
+    const clips = [located(0, 20), located(4, 8), located(8, 12)];
+    expect(clipAtOffset(clips, 6)).toBe(1);
+    expect(clipAtOffset(clips, 15)).toBe(0);
+  });
+});
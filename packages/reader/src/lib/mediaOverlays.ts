@@ -0,0 +1,63 @@
+import {
+  type MediaOverlayClip,
+  extractText,
+  textOffsetOf,
+} from "@epubdown/core";
+
+/** A narration clip with the text it narrates, as text offsets */
+export interface LocatedClip extends MediaOverlayClip {
+  startOffset: number;
+  endOffset: number;
+  /** The narrated text, to check the offsets against a rendering */
+  text: string;
+}
+
+/**
+ * Find the text each clip narrates in the chapter source. Markdown mode
+ * drops most ids, so the rendered text is found by offsets instead, as
+ * highlights are. Clips whose element is missing or empty are dropped.
+ */
+export function locateClips(
+  body: Element,
+  clips: MediaOverlayClip[],
+): LocatedClip[] {
+  const byId = new Map<string, Element>();
+  for (const el of Array.from(body.querySelectorAll("[id]"))) {
+    const id = el.getAttribute("id");
+    if (id && !byId.has(id)) byId.set(id, el);
+  }
+
+  const located: LocatedClip[] = [];
+  for (const clip of clips) {
+    const el = byId.get(clip.fragment);
+    if (!el) continue;
+    const startOffset = textOffsetOf(body, el, 0);
+    const endOffset = textOffsetOf(body, el, el.childNodes.length);
+    if (endOffset > startOffset) {
+      located.push({ ...clip, startOffset, endOffset, text: extractText(el) });
+    }
+  }
+  return located;
+}
+
+/**
+ * Index of the clip narrating the text at `offset`, or -1. The narrowest
+ * wins where clips nest, as word clips do inside sentence clips.
+ */
+export function clipAtOffset(clips: LocatedClip[], offset: number): number {
+  let found = -1;
+  for (let i = 0; i < clips.length; i++) {
+    const clip = clips[i];
+    if (!clip || offset < clip.startOffset || offset >= clip.endOffset) {
+      continue;
+    }
+    const best = clips[found];
+    if (
+      !best ||
+      clip.endOffset - clip.startOffset < best.endOffset - best.startOffset
+    ) {
+      found = i;
+    }
+  }
+  return found;
+}
@@ -5,6 +5,10 @@ import type { AppCtx, AppEventSystem, AppLayers } from "../app/context";
 import { EventSystem } from "../events/EventSystem";
 import { BookLibraryStore } from "../stores/BookLibraryStore";
 import { ReaderStore } from "../stores/ReaderStore";
+import {
+  type ReadingProgressStore,
+  getReadingProgressStore,
+} from "../stores/ReadingProgressStore";
 import { RootStore } from "../stores/RootStore";
 import { ReaderTemplateContext } from "../templates/ReaderTemplateContext";
 import { type ReaderTemplates, parseTemplates } from "../templates/Template";
@@ -79,6 +83,11 @@ export function provideEventSystem(): AppEventSystem {
   return system;
 }
 
+export function provideReadingProgressStore(): ReadingProgressStore {
+  // Shared with the views, which reach it through useReadingProgress
+  return getReadingProgressStore();
+}
+
 export function provideReaderTemplates(): ReaderTemplates {
   return {
     selection: parseTemplates(selectionTemplatesRaw),
@@ -101,6 +110,7 @@ export function initRootStore(cfg: StorageConfig): RootStore {
     BookDatabase,
     provideEventSystem,
     provideReaderTemplates,
+    provideReadingProgressStore,
     ReaderStore,
     provideBookLibraryStore,
     CommandPaletteStore,
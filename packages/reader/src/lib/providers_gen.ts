@@ -7,6 +7,7 @@ import {
   provideBookLibraryStore,
   provideEventSystem,
   provideReaderTemplates,
+  provideReadingProgressStore,
   provideSQLiteDB,
 } from "./providers";
 import type { StorageConfig } from "./providers";
@@ -24,11 +25,13 @@ export async function initRootStore(cfg: StorageConfig) {
   );
   const commandPaletteStore = new CommandPaletteStore(appEventSystem);
   const readerTemplates = provideReaderTemplates();
+  const readingProgressStore = provideReadingProgressStore();
   const readerStore = new ReaderStore(
     bookLibraryStore,
     appEventSystem,
     commandPaletteStore,
     readerTemplates,
+    readingProgressStore,
   );
   const rootStore = new RootStore(
     readerStore,
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { fontFaceFamilies } from "./bookFonts";
+import {
+  DEFAULT_READER_SETTINGS,
+  FONT_STACKS,
+  fontFamilyCss,
+  htmlModeCss,
+  readerStyleVars,
+  sanitizeSettings,
+} from "./readerSettings";
+
+describe("sanitizeSettings", () => {
+  it("keeps known settings and clamps numbers to their ranges", () => {
+    expect(
+      sanitizeSettings({
+        fontFamily: "serif",
+        fontSize: 100,
+        lineHeight: 0.5,
+        textAlign: "justify",
+        theme: "sepia",
+        hyphenate: true,
+      }),
+    ).toEqual({
+      fontFamily: "serif",
+      fontSize: 32,
+      lineHeight: 1.2,
+      textAlign: "justify",
+      theme: "sepia",
+      hyphenate: true,
+    });
+  });
+
+  it("drops unknown keys and mistyped values", () => {
+    expect(
+      sanitizeSettings({
+        theme: "neon",
+        fontSize: "18",
+        pageWidth: Number.NaN,
+        extra: 1,
+      }),
+    ).toEqual({});
+    expect(sanitizeSettings(null)).toEqual({});
+    expect(sanitizeSettings("dark")).toEqual({});
+  });
+});
+
+describe("fontFamilyCss", () => {
+  it("maps built-in fonts to their stacks", () => {
+    expect(fontFamilyCss("serif", false)).toBe(FONT_STACKS.serif?.stack);
+  });
+
+  it("keeps the book's fonts only in HTML mode", () => {
+    expect(fontFamilyCss("publisher", true)).toBeNull();
+    expect(fontFamilyCss("book:Linux Libertine", true)).toBe(
+      '"Linux Libertine", serif',
+    );
+    expect(fontFamilyCss("publisher", false)).toBe(FONT_STACKS.system?.stack);
+    expect(fontFamilyCss("book:Linux Libertine", false)).toBe(
+      FONT_STACKS.system?.stack,
+    );
+  });
+});
+
+describe("readerStyleVars", () => {
+  it("turns settings into CSS custom properties", () => {
+    expect(readerStyleVars(DEFAULT_READER_SETTINGS, false)).toEqual({
+      "--reader-font-size": "18px",
+      "--reader-line-height": "1.6",
+      "--reader-page-width": "65ch",
+      "--reader-margin": "1rem",
+      "--reader-text-align": "start",
+      "--reader-hyphens": "manual",
+      "--reader-font-family": FONT_STACKS.system?.stack,
+    });
+  });
+
+  it("leaves the font to the book for publisher fonts", () => {
+    const vars = readerStyleVars(
+      { ...DEFAULT_READER_SETTINGS, fontFamily: "publisher" },
+      true,
+    );
+    expect(vars["--reader-font-family"]).toBeUndefined();
+  });
+});
+
+describe("htmlModeCss", () => {
+  it("only forces settings over publisher styles when asked", () => {
+    expect(htmlModeCss(DEFAULT_READER_SETTINGS)).not.toContain("!important");
+    expect(
+      htmlModeCss({
+        ...DEFAULT_READER_SETTINGS,
+        overridePublisherStyles: true,
+      }),
+    ).toContain("font-size: inherit !important");
+  });
+
+  it("does not set a font for publisher fonts", () => {
+    const css = htmlModeCss({
+      ...DEFAULT_READER_SETTINGS,
+      fontFamily: "publisher",
+      overridePublisherStyles: true,
+    });
+    expect(css).not.toContain("font-family");
+  });
+});
+
+describe("fontFaceFamilies", () => {
+  it("lists the families declared with @font-face", () => {
+    const css = `
+      @font-face { font-family: "Libertine"; src: url(a.woff2); }
+      @font-face {
+        src: url(b.otf);
+        font-family: 'Gentium Plus';
+      }
+      p { font-family: Georgia; }
+    `;
+    expect(fontFaceFamilies(css)).toEqual(["Libertine", "Gentium Plus"]);
+  });
+});
@@ -0,0 +1,185 @@
+export type ReaderTheme = "light" | "sepia" | "dark";
+export type ReaderTextAlign = "start" | "justify";
+/**
+ * Scroll through a chapter, turn its pages, or scroll on through the
+ * chapters around it
+ */
+export type ReaderLayout = "scroll" | "paginated" | "continuous";
+
+/**
+ * How the reader presents book text. `fontFamily` is a key of FONT_STACKS,
+ * "publisher" for the book's own CSS, or "book:<family>" for a font embedded
+ * in the book (HTML mode only).
+ */
+export interface ReaderSettings {
+  fontFamily: string;
+  /** px */
+  fontSize: number;
+  lineHeight: number;
+  /** Maximum text width, in ch */
+  pageWidth: number;
+  /** Horizontal padding around the text, in rem */
+  margin: number;
+  textAlign: ReaderTextAlign;
+  hyphenate: boolean;
+  theme: ReaderTheme;
+  layout: ReaderLayout;
+  /** HTML mode: let these settings win over the publisher's stylesheets */
+  overridePublisherStyles: boolean;
+}
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  fontFamily: "system",
+  fontSize: 18,
+  lineHeight: 1.6,
+  pageWidth: 65,
+  margin: 1,
+  textAlign: "start",
+  hyphenate: false,
+  theme: "light",
+  layout: "scroll",
+  overridePublisherStyles: false,
+};
+
+export const FONT_STACKS: Record<string, { label: string; stack: string }> = {
+  system: {
+    label: "System",
+    stack: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+  },
+  serif: {
+    label: "Serif",
+    stack: 'Charter, "Iowan Old Style", Georgia, "Times New Roman", serif',
+  },
+  sans: {
+    label: "Sans serif",
+    stack: '"Helvetica Neue", Arial, "Noto Sans", sans-serif',
+  },
+  mono: {
+    label: "Monospace",
+    stack: 'ui-monospace, "SF Mono", Menlo, Consolas, monospace',
+  },
+};
+
+export const EMBEDDED_FONT_PREFIX = "book:";
+
+export const SETTING_RANGES = {
+  fontSize: { min: 12, max: 32, step: 1 },
+  lineHeight: { min: 1.2, max: 2.2, step: 0.1 },
+  pageWidth: { min: 40, max: 100, step: 5 },
+  margin: { min: 0, max: 4, step: 0.5 },
+} as const;
+
+const THEMES: ReaderTheme[] = ["light", "sepia", "dark"];
+const LAYOUTS: ReaderLayout[] = ["scroll", "paginated", "continuous"];
+
+/**
+ * Keep the known, well-typed settings from stored JSON; everything else is
+ * dropped so old or hand-edited values can't break the reader
+ */
+export function sanitizeSettings(value: unknown): Partial<ReaderSettings> {
+  if (!value || typeof value !== "object") return {};
+  const input = value as Record<string, unknown>;
+  const out: Partial<ReaderSettings> = {};
+
+  if (typeof input.fontFamily === "string") out.fontFamily = input.fontFamily;
+  for (const key of Object.keys(SETTING_RANGES) as Array<
+    keyof typeof SETTING_RANGES
+  >) {
+    const n = input[key];
+    if (typeof n === "number" && Number.isFinite(n)) {
+      const { min, max } = SETTING_RANGES[key];
+      out[key] = Math.min(max, Math.max(min, n));
+    }
+  }
+  if (input.textAlign === "start" || input.textAlign === "justify") {
+    out.textAlign = input.textAlign;
+  }
+  if (typeof input.hyphenate === "boolean") out.hyphenate = input.hyphenate;
+  if (THEMES.includes(input.theme as ReaderTheme)) {
+    out.theme = input.theme as ReaderTheme;
+  }
+  if (LAYOUTS.includes(input.layout as ReaderLayout)) {
+    out.layout = input.layout as ReaderLayout;
+  }
+  if (typeof input.overridePublisherStyles === "boolean") {
+    out.overridePublisherStyles = input.overridePublisherStyles;
+  }
+  return out;
+}
+
+/**
+ * CSS font-family for a setting, or null to keep the book's own fonts.
+ * Embedded fonts and "publisher" only exist in HTML mode; Markdown mode
+ * falls back to the system stack.
+ */
+export function fontFamilyCss(
+  fontFamily: string,
+  htmlMode: boolean,
+): string | null {
+  const known = FONT_STACKS[fontFamily];
+  if (known) return known.stack;
+  if (htmlMode && fontFamily === "publisher") return null;
+  if (htmlMode && fontFamily.startsWith(EMBEDDED_FONT_PREFIX)) {
+    const family = fontFamily.slice(EMBEDDED_FONT_PREFIX.length);
+    return `"${family.replace(/["\\]/g, "")}", serif`;
+  }
+  return FONT_STACKS.system?.stack ?? null;
+}
+
+/**
+ * Custom properties read by the `.book-reader` styles in index.css and by
+ * the HTML mode shadow root, which inherits them
+ */
+export function readerStyleVars(
+  settings: ReaderSettings,
+  htmlMode: boolean,
+): Record<string, string> {
+  const vars: Record<string, string> = {
+    "--reader-font-size": `${settings.fontSize}px`,
+    "--reader-line-height": String(settings.lineHeight),
+    "--reader-page-width": `${settings.pageWidth}ch`,
+    "--reader-margin": `${settings.margin}rem`,
+    "--reader-text-align": settings.textAlign,
+    "--reader-hyphens": settings.hyphenate ? "auto" : "manual",
+  };
+  const family = fontFamilyCss(settings.fontFamily, htmlMode);
+  if (family) vars["--reader-font-family"] = family;
+  return vars;
+}
+
+/**
+ * Stylesheet for the HTML mode shadow root. Without `overridePublisherStyles`
+ * the settings only set inherited defaults, which the publisher's CSS may
+ * refine; with it they are forced onto every element.
+ */
+export function htmlModeCss(settings: ReaderSettings): string {
+  const keepFont = fontFamilyCss(settings.fontFamily, true) === null;
+  const base = `
+    .chapter-html-body {
+      ${keepFont ? "" : "font-family: var(--reader-font-family);"}
+      font-size: var(--reader-font-size);
+      line-height: var(--reader-line-height);
+      text-align: var(--reader-text-align);
+      hyphens: var(--reader-hyphens);
+      color: var(--reader-text-color);
+    }
+  `;
+  if (!settings.overridePublisherStyles) return base;
+
+  return `${base}
+    .chapter-html-body :where(p, li, blockquote, dd, dt, div, span, td, th, a, em, strong, i, b) {
+      ${keepFont ? "" : "font-family: inherit !important;"}
+      line-height: inherit !important;
+      color: inherit !important;
+      hyphens: inherit !important;
+    }
+    .chapter-html-body :where(p, li, blockquote, dd, div) {
+      font-size: inherit !important;
+      text-align: inherit !important;
+    }
+    /* Highlight, search hit and spoken-text marks keep their inline colors */
+    .chapter-html-body *:not(mark[data-highlight-id], mark[data-search-hit], mark[data-spoken]) {
+      background-color: transparent !important;
+    }
+  `;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeStreaks,
+  countWords,
+  dayKey,
+  formatDuration,
+  lastDays,
+} from "./readingStats";
+
+describe("dayKey", () => {
+  it("uses the local date", () => {
+    expect(dayKey(new Date(2024, 1, 9, 23, 59).getTime())).toBe("2024-02-09");
+  });
+});
+
+describe("lastDays", () => {
+  it("lists days up to today across month ends", () => {
+    expect(lastDays("2024-03-01", 3)).toEqual([
+      "2024-02-28",
+      "2024-02-29",
+      "2024-03-01",
+    ]);
+  });
+});
+
+describe("computeStreaks", () => {
+  const days = ["2024-01-01", "2024-01-02", "2024-01-03", "2024-01-07"];
+
+  it("finds the longest run of consecutive days", () => {
+    expect(computeStreaks(days, "2024-01-20")).toEqual({
+      current: 0,
+      longest: 3,
+    });
+  });
+
+  it("keeps the current streak until a day is missed", () => {
+    const recent = [...days, "2024-01-08"];
+    expect(computeStreaks(recent, "2024-01-08").current).toBe(2);
+    expect(computeStreaks(recent, "2024-01-09").current).toBe(2);
+    expect(computeStreaks(recent, "2024-01-10").current).toBe(0);
+  });
+
+  it("handles no reading", () => {
+    expect(computeStreaks([], "2024-01-01")).toEqual({
+      current: 0,
+      longest: 0,
+    });
+  });
+});
+
+describe("countWords", () => {
+  it("splits on any whitespace", () => {
+    expect(countWords("  Call me\nIshmael.\t ")).toBe(3);
+    expect(countWords("")).toBe(0);
+  });
+});
+
+describe("formatDuration", () => {
+  it("shows seconds, minutes or hours", () => {
+    expect(formatDuration(40_000)).toBe("40s");
+    expect(formatDuration(12 * 60_000)).toBe("12m");
+    expect(formatDuration(125 * 60_000)).toBe("2h 5m");
+  });
+});
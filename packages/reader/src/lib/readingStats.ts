@@ -0,0 +1,78 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local calendar date of a timestamp, as YYYY-MM-DD
+ */
+export function dayKey(time: number): string {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Whole days since the epoch; UTC so DST changes don't skip or repeat days
+function dayNumber(key: string): number {
+  const [year, month, day] = key.split("-").map(Number);
+  return Math.round(Date.UTC(year ?? 0, (month ?? 1) - 1, day ?? 1) / DAY_MS);
+}
+
+/**
+ * The `count` day keys ending with `today`, oldest first
+ */
+export function lastDays(today: string, count: number): string[] {
+  const end = dayNumber(today);
+  const days: string[] = [];
+  for (let n = end - count + 1; n <= end; n++) {
+    days.push(new Date(n * DAY_MS).toISOString().slice(0, 10));
+  }
+  return days;
+}
+
+export interface Streaks {
+  /** Consecutive days read up to today, or up to yesterday if not yet today */
+  current: number;
+  longest: number;
+}
+
+/**
+ * Reading streaks from the days anything was read
+ */
+export function computeStreaks(days: string[], today: string): Streaks {
+  const numbers = [...new Set(days.map(dayNumber))].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const n of numbers) {
+    run = previous !== null && n === previous + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = n;
+  }
+
+  // `run` is the streak ending on the last reading day
+  const last = numbers[numbers.length - 1];
+  const todayNumber = dayNumber(today);
+  const current =
+    last !== undefined && todayNumber - last <= 1 && last <= todayNumber
+      ? run
+      : 0;
+  return { current, longest };
+}
+
+/**
+ * Number of words in a text, for estimating words read
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/**
+ * Duration as "2h 5m", "12m" or "40s"
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  if (totalMinutes === 0) return `${Math.round(ms / 1000)}s`;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
@@ -52,4 +52,274 @@ export async function runMigrations(db: SQLiteDB): Promise<void> {
   await migrator.up([
     { name: "create_pdf_page_sizes_table", up: createPdfPageSizesTable },
   ]);
+
+  const createHighlightsTable = `
+    CREATE TABLE IF NOT EXISTS highlights (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL,
+      chapter_path TEXT NOT NULL,
+      cfi TEXT NOT NULL,
+      start_offset INTEGER NOT NULL,
+      end_offset INTEGER NOT NULL,
+      quote TEXT NOT NULL,
+      color TEXT NOT NULL,
+      note TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_highlights_book_id ON highlights(book_id);
+  `;
+
+  await migrator.up([
+    { name: "create_highlights_table", up: createHighlightsTable },
+  ]);
+
+  const createBookmarksTable = `
+    CREATE TABLE IF NOT EXISTS bookmarks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL,
+      chapter_index INTEGER NOT NULL,
+      block_index INTEGER NOT NULL,
+      label TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bookmarks_book_id ON bookmarks(book_id);
+  `;
+
+  await migrator.up([
+    { name: "create_bookmarks_table", up: createBookmarksTable },
+  ]);
+
+  // Chapter text for library-wide search. book_text_status records which
+  // books are indexed, and with which version of the text extraction.
+  const createBookTextIndex = `
+    CREATE VIRTUAL TABLE IF NOT EXISTS book_text USING fts5(
+      chapter_title,
+      content,
+      book_id UNINDEXED,
+      chapter_index UNINDEXED,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE TABLE IF NOT EXISTS book_text_status (
+      book_id INTEGER PRIMARY KEY,
+      version INTEGER NOT NULL,
+      indexed_at INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    );
+  `;
+
+  await migrator.up([
+    { name: "create_book_text_index", up: createBookTextIndex },
+  ]);
+
+  const createReadingPositionsTable = `
+    CREATE TABLE IF NOT EXISTS reading_positions (
+      book_id INTEGER PRIMARY KEY,
+      chapter_index INTEGER NOT NULL,
+      block_index INTEGER NOT NULL,
+      progress REAL NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    );
+  `;
+
+  await migrator.up([
+    { name: "create_reading_positions_table", up: createReadingPositionsTable },
+  ]);
+
+  // `day` is the local date a session started on, as YYYY-MM-DD, so daily
+  // totals don't depend on SQLite's idea of the time zone
+  const createReadingSessionsTable = `
+    CREATE TABLE IF NOT EXISTS reading_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL,
+      chapter_index INTEGER NOT NULL,
+      day TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      ended_at INTEGER NOT NULL,
+      active_ms INTEGER NOT NULL,
+      words_read INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_reading_sessions_day ON reading_sessions(day);
+    CREATE INDEX IF NOT EXISTS idx_reading_sessions_book_id ON reading_sessions(book_id);
+  `;
+
+  await migrator.up([
+    { name: "create_reading_sessions_table", up: createReadingSessionsTable },
+  ]);
+
+  // Shelves and tags are both user-defined collections of books; they only
+  // differ in how the library presents them
+  const createCollectionTables = `
+    CREATE TABLE IF NOT EXISTS shelves (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS book_shelves (
+      book_id INTEGER NOT NULL,
+      shelf_id INTEGER NOT NULL,
+      PRIMARY KEY (book_id, shelf_id),
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+      FOREIGN KEY (shelf_id) REFERENCES shelves(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS book_tags (
+      book_id INTEGER NOT NULL,
+      tag_id INTEGER NOT NULL,
+      PRIMARY KEY (book_id, tag_id),
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE,
+      FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_book_shelves_shelf_id ON book_shelves(shelf_id);
+    CREATE INDEX IF NOT EXISTS idx_book_tags_tag_id ON book_tags(tag_id);
+  `;
+
+  await migrator.up([
+    { name: "create_shelves_and_tags_tables", up: createCollectionTables },
+  ]);
+
+  // Series from the OPF (EPUB 3 collections or Calibre metas), read at import
+  const addSeriesColumns = `
+    ALTER TABLE books ADD COLUMN series_name TEXT;
+    ALTER TABLE books ADD COLUMN series_index REAL;
+  `;
+
+  await migrator.up([{ name: "add_series_columns", up: addSeriesColumns }]);
+
+  // Per-book overrides of the global reader settings, as JSON
+  const createBookReaderSettingsTable = `
+    CREATE TABLE IF NOT EXISTS book_reader_settings (
+      book_id INTEGER PRIMARY KEY,
+      settings TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    );
+  `;
+
+  await migrator.up([
+    {
+      name: "create_book_reader_settings_table",
+      up: createBookReaderSettingsTable,
+    },
+  ]);
+
+  // Imported offline dictionaries. `term` is the headword as lookups match
+  // it (see `dictionaryTerm`); foreign keys aren't enforced, so entries are
+  // deleted with their dictionary explicitly.
+  const createDictionaryTables = `
+    CREATE TABLE IF NOT EXISTS dictionaries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      language TEXT,
+      entry_count INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS dictionary_entries (
+      dictionary_id INTEGER NOT NULL,
+      term TEXT NOT NULL,
+      headword TEXT NOT NULL,
+      definition TEXT NOT NULL,
+      FOREIGN KEY (dictionary_id) REFERENCES dictionaries(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_dictionary_entries_term ON dictionary_entries(term, dictionary_id);
+    CREATE INDEX IF NOT EXISTS idx_dictionary_entries_dictionary_id ON dictionary_entries(dictionary_id);
+  `;
+
+  await migrator.up([
+    { name: "create_dictionary_tables", up: createDictionaryTables },
+  ]);
+
+  // Words looked up while reading, with the sentence they were found in
+  const createVocabularyTable = `
+    CREATE TABLE IF NOT EXISTS vocabulary (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL,
+      chapter_path TEXT NOT NULL,
+      word TEXT NOT NULL,
+      definition TEXT NOT NULL,
+      context TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_vocabulary_book_id ON vocabulary(book_id);
+  `;
+
+  await migrator.up([
+    { name: "create_vocabulary_table", up: createVocabularyTable },
+  ]);
+
+  // Conversations with the configured LLM endpoint, one per book chapter.
+  // `title` names the template a prompt was rendered from.
+  const createChatMessagesTable = `
+    CREATE TABLE IF NOT EXISTS chat_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      book_id INTEGER NOT NULL,
+      chapter_path TEXT NOT NULL,
+      role TEXT NOT NULL,
+      content TEXT NOT NULL,
+      title TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (book_id) REFERENCES books(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_chat_messages_chapter ON chat_messages(book_id, chapter_path);
+  `;
+
+  await migrator.up([
+    { name: "create_chat_messages_table", up: createChatMessagesTable },
+  ]);
+
+  // Bookmarks anchored by a CFI into the chapter's source; the block index
+  // stays as the fallback for bookmarks made without one
+  const addBookmarkCfiColumn = `
+    ALTER TABLE bookmarks ADD COLUMN cfi TEXT;
+  `;
+
+  await migrator.up([
+    { name: "add_bookmark_cfi_column", up: addBookmarkCfiColumn },
+  ]);
+
+  // Whether the series was read from the book's OPF. Books imported before
+  // the series columns existed are read back once by
+  // `BookLibraryStore.backfillSeries`.
+  const addSeriesCheckedColumn = `
+    ALTER TABLE books ADD COLUMN series_checked INTEGER NOT NULL DEFAULT 0;
+    UPDATE books SET series_checked = 1 WHERE file_type != 'epub';
+  `;
+
+  await migrator.up([
+    { name: "add_series_checked_column", up: addSeriesCheckedColumn },
+  ]);
+
+  // Reading positions anchored by a CFI, as bookmarks are; the block index
+  // stays as the fallback for positions saved without one
+  const addReadingPositionCfiColumn = `
+    ALTER TABLE reading_positions ADD COLUMN cfi TEXT;
+  `;
+
+  await migrator.up([
+    {
+      name: "add_reading_position_cfi_column",
+      up: addReadingPositionCfiColumn,
+    },
+  ]);
 }
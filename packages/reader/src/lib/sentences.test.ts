@@ -0,0 +1,33 @@
+import { positionAtTextOffset } from "@epubdown/core";
+import { describe, expect, it } from "vitest";
+import { splitSentences } from "./sentences";
+
+describe("splitSentences", () => {
+  it("splits text into sentences with text offsets", () => {
+    expect(splitSentences("It rained. Did it stop? No!")).toEqual([
+      { text: "It rained.", startOffset: 0, endOffset: 9 },
+      { text: "Did it stop?", startOffset: 9, endOffset: 19 },
+      { text: "No!", startOffset: 19, endOffset: 22 },
+    ]);
+  });
+
+  it("reads through wrapped lines and drops blank segments", () => {
+    expect(splitSentences("  First\n  line.\n\n ")).toEqual([
+      { text: "First line.", startOffset: 0, endOffset: 10 },
+    ]);
+    expect(splitSentences("")).toEqual([]);
+  });
+
+  it("counts offsets the way rendered text is located", () => {
+    const root = document.createElement("p");
+    root.innerHTML = "He said “hi.” Then <em>left</em>.";
+    const [, second] = splitSentences(root.textContent ?? "");
+    expect(second?.text).toBe("Then left.");
+    const start = positionAtTextOffset(root, second?.startOffset ?? -1);
+    expect(start?.node.textContent?.slice(start.offset)).toBe("Then ");
+  });
+
+  it("falls back to the default locale for malformed language tags", () => {
+    expect(splitSentences("One. Two.", "not a locale")).toHaveLength(2);
+  });
+});
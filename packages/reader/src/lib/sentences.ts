@@ -0,0 +1,44 @@
+/** A sentence of a block, located by text offsets within the block */
+export interface Sentence {
+  text: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+// Text offsets skip whitespace and zero-width spaces
+const UNCOUNTED = /[\s\u200B]/;
+
+// Books can declare language tags Intl rejects
+function createSegmenter(locale?: string): Intl.Segmenter {
+  try {
+    return new Intl.Segmenter(locale, { granularity: "sentence" });
+  } catch {
+    return new Intl.Segmenter(undefined, { granularity: "sentence" });
+  }
+}
+
+/**
+ * Split a block's text into sentences, with offsets that `textOffsetOf` and
+ * `positionAtTextOffset` understand. Line breaks are taken for wrapped
+ * source lines, not sentence ends.
+ */
+export function splitSentences(text: string, locale?: string): Sentence[] {
+  const segmenter = createSegmenter(locale);
+  const sentences: Sentence[] = [];
+  let counted = 0;
+  // Collapsing whitespace leaves the counted characters as they were
+  for (const { segment } of segmenter.segment(text.replace(/\s+/g, " "))) {
+    const startOffset = counted;
+    // Per UTF-16 unit, as text offsets are counted
+    for (let i = 0; i < segment.length; i++) {
+      if (!UNCOUNTED.test(segment[i] ?? "")) counted++;
+    }
+    if (counted === startOffset) continue;
+    sentences.push({
+      text: segment.trim(),
+      startOffset,
+      endOffset: counted,
+    });
+  }
+  return sentences;
+}
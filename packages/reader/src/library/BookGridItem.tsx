@@ -0,0 +1,104 @@
+import { Trash2 } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import { useEffect } from "react";
+import { Link } from "wouter";
+import type { BookMetadata } from "../lib/BookDatabase";
+import { useBookLibraryStore } from "../stores/RootStore";
+import { formatSeries } from "../utils/series";
+
+interface BookGridItemProps {
+  book: BookMetadata;
+  onDelete: (e: React.MouseEvent) => void;
+  /** Picking books for bulk assignment: clicks toggle instead of opening */
+  selection?: { selected: boolean; onToggle: () => void };
+}
+
+export const BookGridItem = observer(
+  ({ book, onDelete, selection }: BookGridItemProps) => {
+    const store = useBookLibraryStore();
+    const coverUrl = store.coverUrls.get(book.id);
+    const series = formatSeries(book);
+
+    useEffect(() => {
+      store.loadCover(book.id);
+    }, [store, book.id]);
+
+    return (
+      <Link
+        href={book.fileType === "pdf" ? `/pdf/${book.id}` : `/book/${book.id}`}
+        onClick={(e) => {
+          if (!selection) return;
+          e.preventDefault();
+          selection.onToggle();
+        }}
+        className="group flex flex-col gap-2 no-underline text-inherit"
+      >
+        <div
+          className={`relative aspect-[2/3] rounded-md overflow-hidden bg-gray-100 shadow-sm group-hover:shadow-md transition-shadow duration-150 ${
+            selection?.selected ? "ring-2 ring-blue-600" : ""
+          }`}
+        >
+          {coverUrl ? (
+            <img
+              src={coverUrl}
+              alt=""
+              className="w-full h-full object-cover"
+              loading="lazy"
+            />
+          ) : (
+            // Placeholder while loading, or for books without a cover
+            <div className="w-full h-full flex items-center justify-center p-3 text-center text-xs font-medium text-gray-500 break-words">
+              {book.title}
+            </div>
+          )}
+
+          {selection ? (
+            <input
+              type="checkbox"
+              checked={selection.selected}
+              readOnly
+              tabIndex={-1}
+              className="absolute top-2 left-2 pointer-events-none"
+              aria-label={`Select ${book.title}`}
+            />
+          ) : (
+            !book.lastOpenedAt && (
+              <span
+                className="absolute top-2 left-2 inline-block w-2 h-2 rounded-full bg-blue-300 ring-2 ring-white"
+                aria-label="Unread"
+              />
+            )
+          )}
+
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault();
+              onDelete(e);
+            }}
+            className="absolute top-1 right-1 p-1 bg-white/90 rounded transition-opacity duration-150 opacity-100 sm:opacity-0 sm:group-hover:opacity-100"
+            aria-label="Delete book"
+          >
+            <Trash2 className="w-3.5 h-3.5 text-gray-400 hover:text-red-500" />
+          </button>
+        </div>
+
+        <div className="min-w-0 text-xs">
+          <div className="font-medium text-gray-900 line-clamp-2 break-words">
+            {book.title}
+            {book.fileType === "pdf" && (
+              <span className="text-gray-500 ml-1">(pdf)</span>
+            )}
+          </div>
+          {book.author && (
+            <div className="text-gray-500 truncate">{book.author}</div>
+          )}
+          {series && (
+            <div className="text-gray-400 italic truncate">{series}</div>
+          )}
+        </div>
+      </Link>
+    );
+  },
+);
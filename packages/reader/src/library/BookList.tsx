@@ -1,7 +1,10 @@
 import { observer } from "mobx-react-lite";
 import type React from "react";
+import { Fragment } from "react";
 import { useBookLibraryStore } from "../stores/RootStore";
+import { BookGridItem } from "./BookGridItem";
 import { BookRow } from "./BookRow";
+import { SelectionBar } from "./SelectionBar";
 
 export const BookList = observer(() => {
   const store = useBookLibraryStore();
@@ -13,23 +16,86 @@ export const BookList = observer(() => {
   };
 
   const title = store.searchQuery ? "Search Results" : "Library";
+  const books = store.visibleBooks;
+  const selectionFor = (bookId: number) =>
+    store.isSelecting
+      ? {
+          selected: store.selectedBookIds.has(bookId),
+          onToggle: () => store.toggleBookSelected(bookId),
+        }
+      : undefined;
+
+  // When sorted by series, a heading starts each series
+  const seriesHeading = (index: number): string | null => {
+    if (store.sortMode !== "series") return null;
+    const name = books[index]?.seriesName?.toLowerCase();
+    const previous = books[index - 1];
+    if (previous && previous.seriesName?.toLowerCase() === name) return null;
+    return books[index]?.seriesName ?? "Not in a series";
+  };
 
   return (
     <div className="bg-white shadow-sm rounded-lg overflow-hidden">
-      <div className="px-4 sm:px-6 py-2 bg-gray-50 border-b border-gray-200">
+      <div className="flex items-center justify-between px-4 sm:px-6 py-2 bg-gray-50 border-b border-gray-200">
         <span className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
-          {title} ({store.books.length})
+          {title} ({books.length})
         </span>
+        {books.length > 0 && !store.isSelecting && (
+          <button
+            type="button"
+            onClick={() => store.setSelecting(true)}
+            className="text-xs text-gray-500 hover:text-gray-800"
+          >
+            Select
+          </button>
+        )}
       </div>
-      {store.books.length > 0 ? (
-        store.books.map((book) => (
-          <BookRow
-            key={book.id}
-            book={book}
-            onDelete={(e) => handleDelete(book.id, e)}
-            searchQuery={store.searchQuery}
-          />
-        ))
+      <SelectionBar />
+      {books.length > 0 && store.viewMode === "grid" ? (
+        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-4 p-4 sm:p-6">
+          {books.map((book, index) => {
+            const heading = seriesHeading(index);
+            return (
+              <Fragment key={book.id}>
+                {heading && (
+                  <h3 className="col-span-full text-xs font-medium text-gray-500 pt-2 first:pt-0">
+                    {heading}
+                  </h3>
+                )}
+                <BookGridItem
+                  book={book}
+                  onDelete={(e) => handleDelete(book.id, e)}
+                  selection={selectionFor(book.id)}
+                />
+              </Fragment>
+            );
+          })}
+        </div>
+      ) : books.length > 0 ? (
+        books.map((book, index) => {
+          const heading = seriesHeading(index);
+          return (
+            <Fragment key={book.id}>
+              {heading && (
+                <h3 className="px-4 sm:px-6 pt-4 pb-1 text-xs font-medium text-gray-500 border-b border-gray-100">
+                  {heading}
+                </h3>
+              )}
+              <BookRow
+                book={book}
+                onDelete={(e) => handleDelete(book.id, e)}
+                searchQuery={store.searchQuery}
+                progress={store.progressByBook.get(book.id)}
+                tags={store.collectionNames("tag", book.id)}
+                selection={selectionFor(book.id)}
+              />
+            </Fragment>
+          );
+        })
+      ) : store.shelfFilter !== null || store.tagFilter !== null ? (
+        <div className="px-4 sm:px-6 py-16 text-center">
+          <p className="text-gray-500">No books match the selected filters</p>
+        </div>
       ) : store.searchQuery ? (
         <div className="px-4 sm:px-6 py-16 text-center">
           <p className="text-gray-500">No books match '{store.searchQuery}'</p>
@@ -3,17 +3,26 @@ import type React from "react";
 import { Link } from "wouter";
 import type { BookMetadata } from "../lib/BookDatabase";
 import { formatRelative } from "../utils/dateUtils";
+import { formatSeries } from "../utils/series";
 
 interface BookRowProps {
   book: BookMetadata;
   onDelete: (e: React.MouseEvent) => void;
   searchQuery: string;
+  /** Fraction of the book read, when it has a saved reading position */
+  progress?: number;
+  tags?: string[];
+  /** Picking books for bulk assignment: clicks toggle instead of opening */
+  selection?: { selected: boolean; onToggle: () => void };
 }
 
 export const BookRow: React.FC<BookRowProps> = ({
   book,
   onDelete,
   searchQuery,
+  progress,
+  tags = [],
+  selection,
 }) => {
   // Highlight matching text
   const highlightText = (text: string) => {
@@ -34,6 +43,8 @@ export const BookRow: React.FC<BookRowProps> = ({
     });
   };
 
+  const series = formatSeries(book);
+
   const formatOpened = (last?: number, created?: number) => {
     if (last) return formatRelative(last);
     return "never";
@@ -42,15 +53,33 @@ export const BookRow: React.FC<BookRowProps> = ({
   return (
     <Link
       href={book.fileType === "pdf" ? `/pdf/${book.id}` : `/book/${book.id}`}
-      className="flex gap-3 px-4 sm:px-6 py-3 text-sm hover:bg-gray-50 border-b border-gray-100 cursor-pointer transition-colors duration-100 no-underline text-inherit group"
+      onClick={(e) => {
+        if (!selection) return;
+        e.preventDefault();
+        selection.onToggle();
+      }}
+      className={`flex gap-3 px-4 sm:px-6 py-3 text-sm border-b border-gray-100 cursor-pointer transition-colors duration-100 no-underline text-inherit group ${
+        selection?.selected ? "bg-blue-50" : "hover:bg-gray-50"
+      }`}
     >
-      {/* Unread indicator */}
+      {/* Selection checkbox, or unread indicator */}
       <div className="flex items-start pt-1">
-        {!book.lastOpenedAt && (
-          <span
-            className="inline-block w-2 h-2 rounded-full bg-blue-300 shrink-0"
-            aria-label="Unread"
+        {selection ? (
+          <input
+            type="checkbox"
+            checked={selection.selected}
+            readOnly
+            tabIndex={-1}
+            className="pointer-events-none"
+            aria-label={`Select ${book.title}`}
           />
+        ) : (
+          !book.lastOpenedAt && (
+            <span
+              className="inline-block w-2 h-2 rounded-full bg-blue-300 shrink-0"
+              aria-label="Unread"
+            />
+          )
         )}
       </div>
 
@@ -68,11 +97,32 @@ export const BookRow: React.FC<BookRowProps> = ({
               {highlightText(book.author)}
             </span>
           )}
+          {series && (
+            <span className="text-gray-400 text-xs ml-2 italic">
+              {highlightText(series)}
+            </span>
+          )}
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="ml-2 px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 text-xs"
+            >
+              #{highlightText(tag)}
+            </span>
+          ))}
         </div>
       </div>
 
       {/* Last opened and delete - fixed width on desktop */}
-      <div className="flex items-center gap-2 shrink-0 sm:w-24 sm:justify-end">
+      <div className="flex items-center gap-2 shrink-0 sm:w-32 sm:justify-end">
+        {progress !== undefined && (
+          <span
+            className="text-xs text-gray-500 tabular-nums"
+            title="Read so far"
+          >
+            {Math.round(progress * 100)}%
+          </span>
+        )}
         <span className="text-xs text-gray-500 whitespace-nowrap">
           {formatOpened(book.lastOpenedAt, book.createdAt)}
         </span>
@@ -0,0 +1,119 @@
+import { Pencil, Trash2 } from "lucide-react";
+import { observer } from "mobx-react-lite";
+import type { Collection, CollectionKind } from "../lib/CollectionDatabase";
+import { useBookLibraryStore } from "../stores/RootStore";
+import { alertCollectionError } from "./collectionErrors";
+
+const KIND_LABELS: Record<CollectionKind, string> = {
+  shelf: "Shelves",
+  tag: "Tags",
+};
+
+interface FilterRowProps {
+  kind: CollectionKind;
+  collections: Collection[];
+  activeId: number | null;
+  onSelect: (id: number | null) => void;
+}
+
+const FilterRow = observer(
+  ({ kind, collections, activeId, onSelect }: FilterRowProps) => {
+    const store = useBookLibraryStore();
+    const active = collections.find((collection) => collection.id === activeId);
+
+    const handleRename = () => {
+      if (!active) return;
+      const name = prompt(`Rename "${active.name}" to:`, active.name);
+      if (name?.trim()) {
+        store
+          .renameCollection(kind, active.id, name)
+          .catch(alertCollectionError(`Couldn't rename "${active.name}"`));
+      }
+    };
+
+    const handleDelete = () => {
+      if (!active) return;
+      // Books stay in the library; only the grouping goes away
+      if (confirm(`Delete "${active.name}"? Its books are kept.`)) {
+        store
+          .deleteCollection(kind, active.id)
+          .catch(alertCollectionError(`Couldn't delete "${active.name}"`));
+      }
+    };
+
+    return (
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        <span className="w-14 shrink-0 text-gray-500">{KIND_LABELS[kind]}</span>
+        {collections.map((collection) => (
+          <button
+            key={collection.id}
+            type="button"
+            onClick={() =>
+              onSelect(collection.id === activeId ? null : collection.id)
+            }
+            className={`px-2 py-0.5 rounded-full border transition-colors ${
+              collection.id === activeId
+                ? "bg-blue-600 border-blue-600 text-white"
+                : "bg-white border-gray-200 text-gray-700 hover:border-gray-300"
+            }`}
+            aria-pressed={collection.id === activeId}
+          >
+            {kind === "tag" ? `#${collection.name}` : collection.name}
+            <span className="ml-1 opacity-70 tabular-nums">
+              {collection.bookCount}
+            </span>
+          </button>
+        ))}
+        {active && (
+          <>
+            <button
+              type="button"
+              onClick={handleRename}
+              className="p-1 text-gray-400 hover:text-gray-700 rounded"
+              aria-label={`Rename ${active.name}`}
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="p-1 text-gray-400 hover:text-red-500 rounded"
+              aria-label={`Delete ${active.name}`}
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </div>
+    );
+  },
+);
+
+/**
+ * Shelf and tag filters for the library list
+ */
+export const CollectionFilters = observer(() => {
+  const store = useBookLibraryStore();
+  if (store.shelves.length === 0 && store.tags.length === 0) return null;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 pb-3 space-y-1.5">
+      {store.shelves.length > 0 && (
+        <FilterRow
+          kind="shelf"
+          collections={store.shelves}
+          activeId={store.shelfFilter}
+          onSelect={(id) => store.setShelfFilter(id)}
+        />
+      )}
+      {store.tags.length > 0 && (
+        <FilterRow
+          kind="tag"
+          collections={store.tags}
+          activeId={store.tagFilter}
+          onSelect={(id) => store.setTagFilter(id)}
+        />
+      )}
+    </div>
+  );
+});
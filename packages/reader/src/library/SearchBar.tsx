@@ -10,7 +10,7 @@ interface SearchBarProps {
 export const SearchBar: React.FC<SearchBarProps> = ({
   value,
   onChange,
-  placeholder = "Search titles and authors...",
+  placeholder = "Search titles, authors and text...",
 }) => {
   return (
     <div className="relative max-w-md mx-auto">
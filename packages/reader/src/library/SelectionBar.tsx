@@ -0,0 +1,115 @@
+import { observer } from "mobx-react-lite";
+import type React from "react";
+import type { CollectionKind } from "../lib/CollectionDatabase";
+import { useBookLibraryStore } from "../stores/RootStore";
+import { alertCollectionError } from "./collectionErrors";
+
+// Option values are "<action>:<collection id>", or "new"
+const NEW_COLLECTION = "new";
+
+const CollectionSelect = observer(({ kind }: { kind: CollectionKind }) => {
+  const store = useBookLibraryStore();
+  const collections = store.collections(kind);
+  const disabled = store.selectedBookIds.size === 0;
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    // The select stays on its placeholder, so each pick is a one-off action
+    const value = e.target.value;
+    const bookIds = [...store.selectedBookIds];
+
+    if (value === NEW_COLLECTION) {
+      const name = prompt(`New ${kind} name:`);
+      if (name?.trim()) {
+        store
+          .createCollection(kind, name, bookIds)
+          .catch(alertCollectionError(`Couldn't create ${kind} "${name}"`));
+      }
+      return;
+    }
+
+    const [action, id] = value.split(":");
+    if (action === "add") {
+      store
+        .addToCollection(kind, Number(id), bookIds)
+        .catch(alertCollectionError(`Couldn't add books to the ${kind}`));
+    } else if (action === "remove") {
+      store
+        .removeFromCollection(kind, Number(id), bookIds)
+        .catch(alertCollectionError(`Couldn't remove books from the ${kind}`));
+    }
+  };
+
+  return (
+    <select
+      value=""
+      onChange={handleChange}
+      disabled={disabled}
+      className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white disabled:opacity-50"
+      aria-label={`Assign ${kind}`}
+    >
+      <option value="" disabled>
+        {kind === "shelf" ? "Shelf…" : "Tag…"}
+      </option>
+      <optgroup label={`Add to ${kind}`}>
+        {collections.map((collection) => (
+          <option key={collection.id} value={`add:${collection.id}`}>
+            {collection.name}
+          </option>
+        ))}
+        <option value={NEW_COLLECTION}>New {kind}…</option>
+      </optgroup>
+      {collections.length > 0 && (
+        <optgroup label={`Remove from ${kind}`}>
+          {collections.map((collection) => (
+            <option key={collection.id} value={`remove:${collection.id}`}>
+              {collection.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+});
+
+/**
+ * Bulk shelf and tag assignment for the books picked in the list
+ */
+export const SelectionBar = observer(() => {
+  const store = useBookLibraryStore();
+  if (!store.isSelecting) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 sm:px-6 py-2 bg-blue-50 border-b border-blue-100 text-sm">
+      <span className="text-blue-800 tabular-nums">
+        {store.selectedBookIds.size} selected
+      </span>
+      <button
+        type="button"
+        onClick={() => store.selectAllVisible()}
+        className="px-2 py-1 text-blue-700 hover:bg-blue-100 rounded-md"
+      >
+        Select all
+      </button>
+      {store.selectedBookIds.size > 0 && (
+        <button
+          type="button"
+          onClick={() => store.clearSelection()}
+          className="px-2 py-1 text-blue-700 hover:bg-blue-100 rounded-md"
+        >
+          Clear
+        </button>
+      )}
+      <div className="flex gap-2 ml-auto">
+        <CollectionSelect kind="shelf" />
+        <CollectionSelect kind="tag" />
+        <button
+          type="button"
+          onClick={() => store.setSelecting(false)}
+          className="px-3 py-1 font-medium bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+});
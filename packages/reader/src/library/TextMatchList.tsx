@@ -0,0 +1,97 @@
+import { observer } from "mobx-react-lite";
+import { Link } from "wouter";
+import {
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  type TextMatch,
+} from "../lib/BookTextIndex";
+import { useBookLibraryStore } from "../stores/RootStore";
+
+interface SnippetPart {
+  text: string;
+  match: boolean;
+  /** Position in the snippet, a key that stays with the part */
+  start: number;
+}
+
+// Split a snippet into plain text and matched terms
+function snippetParts(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let start = 0;
+  for (const segment of snippet.split(SNIPPET_MATCH_START)) {
+    const [match, rest] = segment.includes(SNIPPET_MATCH_END)
+      ? segment.split(SNIPPET_MATCH_END, 2)
+      : [null, segment];
+    if (match) parts.push({ text: match, match: true, start });
+    if (rest) {
+      parts.push({
+        text: rest,
+        match: false,
+        start: start + segment.length - rest.length,
+      });
+    }
+    start += segment.length + 1;
+  }
+  return parts;
+}
+
+const TextMatchRow = observer(({ match }: { match: TextMatch }) => {
+  const store = useBookLibraryStore();
+  const book = store.books.find((b) => b.id === match.bookId);
+
+  return (
+    <Link
+      href={`/book/${match.bookId}/${match.chapterIndex}`}
+      className="block px-4 sm:px-6 py-3 text-sm hover:bg-gray-50 border-b border-gray-100 no-underline text-inherit"
+    >
+      <div className="text-xs text-gray-500">
+        <span className="font-medium text-gray-700">
+          {book?.title ?? "Untitled"}
+        </span>
+        {" · "}
+        {match.chapterTitle ?? `Chapter ${match.chapterIndex + 1}`}
+      </div>
+      <p className="mt-1 text-gray-600 line-clamp-2">
+        {snippetParts(match.snippet).map((part) =>
+          part.match ? (
+            <mark key={part.start} className="bg-yellow-200 text-gray-900">
+              {part.text}
+            </mark>
+          ) : (
+            part.text
+          ),
+        )}
+      </p>
+    </Link>
+  );
+});
+
+/**
+ * Chapters whose text matches the library search, best matches first
+ */
+export const TextMatchList = observer(() => {
+  const store = useBookLibraryStore();
+  if (!store.searchQuery.trim()) return null;
+  if (store.textMatches.length === 0 && store.indexingBookId === null) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 bg-white shadow-sm rounded-lg overflow-hidden">
+      <div className="px-4 sm:px-6 py-2 bg-gray-50 border-b border-gray-200 flex justify-between">
+        <span className="text-xs font-semibold text-gray-600 uppercase tracking-wider">
+          In book text ({store.textMatches.length})
+        </span>
+        {store.indexingBookId !== null && (
+          <span className="text-xs text-gray-400">Indexing library…</span>
+        )}
+      </div>
+      {store.textMatches.map((match) => (
+        <TextMatchRow
+          key={`${match.bookId}-${match.chapterIndex}`}
+          match={match}
+        />
+      ))}
+    </div>
+  );
+});
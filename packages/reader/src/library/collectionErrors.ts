@@ -0,0 +1,13 @@
+/**
+ * Rejection handler for shelf and tag changes made from the library, which
+ * reports the failure the way the library asks for names: with a dialog
+ */
+export function alertCollectionError(
+  message: string,
+): (error: unknown) => void {
+  return (error) => {
+    console.error(`${message}:`, error);
+    const detail = error instanceof Error ? error.message : String(error);
+    alert(`${message}: ${detail}`);
+  };
+}
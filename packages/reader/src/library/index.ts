@@ -1,3 +1,7 @@
+export { BookGridItem } from "./BookGridItem";
 export { BookList } from "./BookList";
 export { BookRow } from "./BookRow";
+export { CollectionFilters } from "./CollectionFilters";
 export { SearchBar } from "./SearchBar";
+export { SelectionBar } from "./SelectionBar";
+export { TextMatchList } from "./TextMatchList";
@@ -0,0 +1,28 @@
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import type React from "react";
+import { useMemo } from "react";
+
+export interface MathFormulaProps {
+  tex: string;
+  display?: boolean;
+}
+
+// Renders LaTeX produced by ContentToMarkdown from MathML
+export const MathFormula: React.FC<MathFormulaProps> = ({ tex, display }) => {
+  const html = useMemo(
+    () =>
+      katex.renderToString(tex, {
+        displayMode: display,
+        throwOnError: false,
+      }),
+    [tex, display],
+  );
+
+  // A span even in display mode, since formulas sit inside <p> after marked;
+  // KaTeX's own .katex-display wrapper is a block
+  return (
+    // biome-ignore lint/security/noDangerouslySetInnerHtml: KaTeX escapes the TeX it renders
+    <span className="math-formula" dangerouslySetInnerHTML={{ __html: html }} />
+  );
+};
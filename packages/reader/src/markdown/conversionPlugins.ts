@@ -0,0 +1,8 @@
+import type { ConversionPlugin } from "@epubdown/core";
+
+/**
+ * Conversion plugins applied to every chapter rendered in Markdown mode and
+ * to chapter Markdown copied through templates. Publisher-specific cleanups
+ * (page-number spans, drop caps, ...) belong here rather than in core.
+ */
+export const readerConversionPlugins: ConversionPlugin[] = [];
@@ -0,0 +1,23 @@
+import { ContentToMarkdown, DOMFile, parseDocument } from "@epubdown/core";
+import { describe, expect, it } from "vitest";
+import { headingAnchorPlugin } from "./headingAnchors";
+
+describe("headingAnchorPlugin", () => {
+  it("keeps existing and generated heading ids as anchors", async () => {
+    const html = `<html xmlns="http://www.w3.org/1999/xhtml"><body><h1 id="top">Title</h1><p>Text</p><h2><em>Next</em></h2></body></html>`;
+    const file = new DOMFile(
+      "/OEBPS",
+      "ch1.xhtml",
+      html,
+      parseDocument(html, "xhtml"),
+      "xhtml",
+    );
+    const converter = ContentToMarkdown.create({
+      plugins: [headingAnchorPlugin()],
+    });
+
+    expect(await converter.convertXMLFile(file)).toBe(
+      '# <span id="top"></span>Title\n\nText\n\n## <span id="epubdown-heading-1"></span>Next',
+    );
+  });
+});
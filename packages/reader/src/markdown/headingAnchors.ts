@@ -0,0 +1,33 @@
+import {
+  BUILTIN_PLUGIN_ORDER,
+  type ConversionPlugin,
+  assignHeadingIds,
+} from "@epubdown/core";
+import { escapeAttr } from "./pageMarkers";
+
+/**
+ * Keep h1–h4 ids through Markdown conversion as an empty span at the start
+ * of the heading, so TOC entries with fragments (including the generated
+ * ids of a synthesized TOC) can be scrolled to
+ */
+export function headingAnchorPlugin(): ConversionPlugin {
+  return {
+    name: "heading-anchors",
+    // Ids are numbered by heading position, before anything is removed
+    order: BUILTIN_PLUGIN_ORDER["svg-images"] - 1,
+    transform: (doc) => {
+      assignHeadingIds(doc);
+    },
+    rules: (service) =>
+      service.addRule("heading-anchor", {
+        filter: (node) =>
+          /^h[1-4]$/i.test(node.nodeName) &&
+          !!(node as Element).getAttribute("id"),
+        replacement: (content, node) => {
+          const level = Number(node.nodeName.slice(1));
+          const id = escapeAttr((node as Element).getAttribute("id") ?? "");
+          return `\n\n${"#".repeat(level)} <span id="${id}"></span>${content}\n\n`;
+        },
+      }),
+  };
+}
@@ -5,3 +5,6 @@ export { Image } from "./Image";
 export type { ImageProps } from "./Image";
 
 export { InternalLink } from "./InternalLink";
+
+export { MathFormula } from "./MathFormula";
+export type { MathFormulaProps } from "./MathFormula";
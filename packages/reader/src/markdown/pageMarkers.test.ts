@@ -0,0 +1,40 @@
+import { ContentToMarkdown, DOMFile, parseDocument } from "@epubdown/core";
+import { describe, expect, it } from "vitest";
+import { pageMarkerPlugin } from "./pageMarkers";
+
+function chapter(body: string): DOMFile {
+  const html = `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>${body}</body></html>`;
+  return new DOMFile(
+    "/OEBPS",
+    "ch1.xhtml",
+    html,
+    parseDocument(html, "xhtml"),
+    "xhtml",
+  );
+}
+
+describe("pageMarkerPlugin", () => {
+  it("keeps empty page breaks as labelled spans", async () => {
+    const converter = ContentToMarkdown.create({
+      plugins: [
+        pageMarkerPlugin([
+          {
+            label: "137",
+            href: "ch1.xhtml#p137",
+            path: "/OEBPS/ch1.xhtml",
+            id: "p137",
+          },
+        ]),
+      ],
+    });
+    const markdown = await converter.convertXMLFile(
+      chapter(
+        `<p>End of one page<span epub:type="pagebreak" id="p137" title="137"/> and the next.</p>`,
+      ),
+    );
+
+    expect(markdown).toBe(
+      'End of one page<span id="p137" data-page-label="137"></span> and the next.',
+    );
+  });
+});
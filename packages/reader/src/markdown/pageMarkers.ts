@@ -0,0 +1,60 @@
+import {
+  BUILTIN_PLUGIN_ORDER,
+  type ConversionPlugin,
+  type PageTarget,
+} from "@epubdown/core";
+
+/** Attribute carried by the rendered marker of a print page break */
+export const PAGE_LABEL_ATTR = "data-page-label";
+
+export function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+/**
+ * Keep print page breaks through Markdown conversion as empty spans with
+ * their original id, so page-list targets can be scrolled to and the page
+ * under the reading line can be shown. Page breaks are usually empty
+ * elements, which Turndown would drop.
+ */
+export function pageMarkerPlugin(pages: PageTarget[]): ConversionPlugin {
+  return {
+    name: "page-markers",
+    // Ids must be read before the built-ins rewrite the document
+    order: BUILTIN_PLUGIN_ORDER["svg-images"] - 1,
+    transform: (doc) => {
+      const byId = new Map<string, Element>();
+      for (const el of Array.from(doc.querySelectorAll("[id]"))) {
+        byId.set(el.getAttribute("id") ?? "", el);
+      }
+
+      for (const page of pages) {
+        const target = page.id && byId.get(page.id);
+        if (!target || !page.id) continue;
+
+        const marker = doc.createElement("span");
+        marker.setAttribute(PAGE_LABEL_ATTR, page.label);
+        marker.setAttribute("id", page.id);
+        // Turndown drops empty elements before rules run
+        marker.textContent = "\u200B";
+        target.removeAttribute("id");
+        target.parentNode?.insertBefore(marker, target);
+      }
+    },
+    rules: (service) =>
+      service.addRule("page-marker", {
+        filter: (node) =>
+          node.nodeType === 1 &&
+          (node as Element).hasAttribute(PAGE_LABEL_ATTR),
+        replacement: (_content, node) => {
+          const el = node as Element;
+          const id = escapeAttr(el.getAttribute("id") ?? "");
+          const label = escapeAttr(el.getAttribute(PAGE_LABEL_ATTR) ?? "");
+          return `<span id="${id}" ${PAGE_LABEL_ATTR}="${label}"></span>`;
+        },
+      }),
+  };
+}
@@ -13,6 +13,12 @@ vi.mock("./MarkdownComponents", () => ({
       { href, "data-testid": "mock-footnote" },
       children,
     ),
+  MathFormula: ({ tex, display }: any) =>
+    React.createElement(
+      "span",
+      { "data-testid": "mock-math", "data-display": display },
+      tex,
+    ),
 }));
 
 describe("markdownToReact", () => {
@@ -81,4 +87,73 @@ More text here.
     expect(html).toContain(">1<");
     expect(html).toContain("More text here");
   });
+
+  it("should render GFM tables", async () => {
+    const markdown = `
+| Name | Moons |
+| --- | --- |
+| Earth | 1 |
+`;
+
+    const result = await markdownToReact(markdown);
+    const html = renderToStaticMarkup(result as React.ReactElement);
+
+    expect(html).toContain("<th>Name</th>");
+    expect(html).toContain("<td>Earth</td>");
+  });
+
+  it("should render raw HTML tables with spans", async () => {
+    const markdown = `
+Before
+
+<table><tr><th colspan="2">Wide</th></tr>
+<tr><td>1</td><td><img src="a.png" alt="A"></td></tr></table>
+
+After
+`;
+
+    const result = await markdownToReact(markdown);
+    const html = renderToStaticMarkup(result as React.ReactElement);
+
+    expect(html).toContain('<th colSpan="2">Wide</th>');
+    expect(html).toContain('data-testid="mock-image"');
+    expect(html).toMatch(/<\/table>.*After/s);
+  });
+
+  it("should render inline and display LaTeX math", async () => {
+    const markdown = `
+Let $x_1 * y_2$ hold, costing $5 and $10.
+
+$$
+\\frac{a_1}{b_1}
+$$
+
+Code \`$not math$\` stays.
+`;
+
+    const result = await markdownToReact(markdown);
+    const html = renderToStaticMarkup(result as React.ReactElement);
+
+    expect(html).toContain(
+      '<span data-testid="mock-math" data-display="false">x_1 * y_2</span>',
+    );
+    expect(html).toContain(
+      '<span data-testid="mock-math" data-display="true">\\frac{a_1}{b_1}</span>',
+    );
+    expect(html).toContain("costing $5 and $10.");
+    expect(html).toContain("<code>$not math$</code>");
+  });
+
+  it("should leave escaped dollar amounts in prose as text", async () => {
+    const markdown =
+      "It cost \\$100 (or about US\\$ 80), and $a \\$ b$ is math.";
+
+    const result = await markdownToReact(markdown);
+    const html = renderToStaticMarkup(result as React.ReactElement);
+
+    expect(html).toContain("It cost $100 (or about US$ 80), and ");
+    expect(html).toContain(
+      '<span data-testid="mock-math" data-display="false">a \\$ b</span>',
+    );
+  });
 });
@@ -1,13 +1,51 @@
 import parse, { type DOMNode, Element, domToReact } from "html-react-parser";
 import { marked } from "marked";
 import React from "react";
-import { Footnote, Image, InternalLink } from "./MarkdownComponents";
+import {
+  Footnote,
+  Image,
+  InternalLink,
+  MathFormula,
+} from "./MarkdownComponents";
+
+// Code and escaped `\$` are matched first and left alone; the converter
+// escapes every dollar sign that is not a math delimiter. Inline math must
+// not start or end with whitespace, or be followed by a digit, so prices
+// like "$5 and $10" in hand-written Markdown stay text too.
+const MATH_RE =
+  /(```[\s\S]*?```|`[^`\n]*`|\\\$)|\$\$((?:\\[\s\S]|[^\\])+?)\$\$|\$(?!\s)((?:\\.|[^$\\\n])+?)(?<!\s)\$(?!\d)/g;
+
+/**
+ * Swap LaTeX math for placeholder elements before Markdown parsing, so
+ * marked does not apply emphasis or escapes inside the TeX
+ */
+export function extractMath(markdown: string): {
+  markdown: string;
+  formulas: string[];
+} {
+  const formulas: string[] = [];
+  const replaced = markdown.replace(
+    MATH_RE,
+    (match, skip: string | undefined, display?: string, inline?: string) => {
+      if (skip) return match;
+      const tex = (display ?? inline ?? "").trim();
+      formulas.push(tex);
+      const index = formulas.length - 1;
+      return display !== undefined
+        ? `<x-math data-index="${index}" data-display="true"></x-math>`
+        : `<x-math data-index="${index}"></x-math>`;
+    },
+  );
+  return { markdown: replaced, formulas };
+}
 
 export async function markdownToReact(
   markdown: string,
 ): Promise<React.ReactNode> {
+  const { markdown: source, formulas } = extractMath(markdown);
+
   // Convert markdown to HTML using marked
-  const html = await marked.parse(markdown, {
+  const html = await marked.parse(source, {
     mangle: false,
     headerIds: false,
   });
@@ -48,6 +86,17 @@ export async function markdownToReact(
           );
         }
 
+        if (tag === "x-math") {
+          const tex = formulas[Number(domNode.attribs["data-index"])];
+          if (tex === undefined) return;
+          return (
+            <MathFormula
+              tex={tex}
+              display={domNode.attribs["data-display"] === "true"}
+            />
+          );
+        }
+
         if (tag === "x-footnote") {
           const { href, id, class: className } = domNode.attribs;
           const children = domToReact(domNode.children as DOMNode[]);
@@ -0,0 +1,234 @@
+import { ArrowLeft } from "lucide-react";
+import { makeAutoObservable, runInAction } from "mobx";
+import { observer } from "mobx-react-lite";
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import type {
+  BookReading,
+  DailyReading,
+  ReadingSessionDatabase,
+} from "../lib/ReadingSessionDatabase";
+import {
+  type Streaks,
+  computeStreaks,
+  dayKey,
+  formatDuration,
+  lastDays,
+} from "../lib/readingStats";
+import { useBookLibraryStore } from "../stores/RootStore";
+import { formatRelative } from "../utils/dateUtils";
+
+// Days shown in the daily chart
+const CHART_DAYS = 30;
+
+export class StatsPageStore {
+  isLoading = true;
+  errorMsg: string | null = null;
+  today = dayKey(Date.now());
+  daily: DailyReading[] = [];
+  books: BookReading[] = [];
+  streaks: Streaks = { current: 0, longest: 0 };
+
+  constructor() {
+    makeAutoObservable(this);
+  }
+
+  async load(sessionDb: ReadingSessionDatabase) {
+    const today = dayKey(Date.now());
+    const since = lastDays(today, CHART_DAYS)[0] ?? today;
+    try {
+      const [daily, books, days] = await Promise.all([
+        sessionDb.getDailyTotals(since),
+        sessionDb.getBookTotals(),
+        sessionDb.getReadingDays(),
+      ]);
+      runInAction(() => {
+        this.today = today;
+        this.daily = daily;
+        this.books = books;
+        this.streaks = computeStreaks(days, today);
+        this.isLoading = false;
+      });
+    } catch (error) {
+      console.error("Failed to load reading statistics", error);
+      runInAction(() => {
+        this.errorMsg =
+          error instanceof Error ? error.message : "Unknown database error";
+        this.isLoading = false;
+      });
+    }
+  }
+
+  /** One entry per chart day, oldest first, including days without reading */
+  get chartDays(): DailyReading[] {
+    const byDay = new Map(this.daily.map((entry) => [entry.day, entry]));
+    return lastDays(this.today, CHART_DAYS).map(
+      (day) => byDay.get(day) ?? { day, activeMs: 0, wordsRead: 0 },
+    );
+  }
+
+  get todayMs(): number {
+    return this.daily.find((entry) => entry.day === this.today)?.activeMs ?? 0;
+  }
+
+  get weekMs(): number {
+    return this.chartDays
+      .slice(-7)
+      .reduce((total, entry) => total + entry.activeMs, 0);
+  }
+
+  get totalMs(): number {
+    return this.books.reduce((total, book) => total + book.activeMs, 0);
+  }
+
+  get totalWords(): number {
+    return this.books.reduce((total, book) => total + book.wordsRead, 0);
+  }
+
+  get maxDailyMs(): number {
+    return Math.max(0, ...this.daily.map((entry) => entry.activeMs));
+  }
+}
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="rounded-lg bg-white border border-gray-200 px-4 py-3">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-lg font-semibold text-gray-900 tabular-nums">
+      {value}
+    </div>
+  </div>
+);
+
+const formatDays = (count: number) =>
+  `${count} ${count === 1 ? "day" : "days"}`;
+
+export const StatsPage = observer(() => {
+  const [store] = useState(() => new StatsPageStore());
+  const bookLibraryStore = useBookLibraryStore();
+
+  useEffect(() => {
+    void store.load(bookLibraryStore.sessionDb);
+  }, [store, bookLibraryStore]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 space-y-8">
+        <div className="flex items-center gap-3">
+          <Link
+            href="/"
+            className="p-1 text-gray-500 hover:text-gray-800 rounded"
+            aria-label="Back to library"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <h1 className="text-xl font-semibold text-gray-900">
+            Reading statistics
+          </h1>
+        </div>
+
+        {store.isLoading ? (
+          <p className="text-sm text-gray-500">Loading…</p>
+        ) : store.errorMsg ? (
+          <p className="text-sm text-red-600">{store.errorMsg}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <Stat label="Today" value={formatDuration(store.todayMs)} />
+              <Stat label="Last 7 days" value={formatDuration(store.weekMs)} />
+              <Stat label="All time" value={formatDuration(store.totalMs)} />
+              <Stat
+                label="Current streak"
+                value={formatDays(store.streaks.current)}
+              />
+              <Stat
+                label="Longest streak"
+                value={formatDays(store.streaks.longest)}
+              />
+              <Stat
+                label="Words read"
+                value={store.totalWords.toLocaleString()}
+              />
+            </div>
+
+            <section>
+              <h2 className="text-sm font-medium text-gray-700 mb-3">
+                Last {CHART_DAYS} days
+              </h2>
+              <div className="flex items-end gap-1 h-32">
+                {store.chartDays.map((entry) => (
+                  <div
+                    key={entry.day}
+                    className="flex-1 h-full flex items-end"
+                    title={`${entry.day}: ${formatDuration(entry.activeMs)}`}
+                  >
+                    <div
+                      className={`w-full rounded-t ${
+                        entry.day === store.today
+                          ? "bg-blue-600"
+                          : "bg-blue-300"
+                      }`}
+                      style={{
+                        height:
+                          store.maxDailyMs > 0
+                            ? `${(entry.activeMs / store.maxDailyMs) * 100}%`
+                            : "0%",
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h2 className="text-sm font-medium text-gray-700 mb-3">Books</h2>
+              {store.books.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Time spent reading will show up here.
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                      <th className="py-2 font-normal">Title</th>
+                      <th className="py-2 font-normal text-right">Time</th>
+                      <th className="py-2 font-normal text-right">Words</th>
+                      <th className="py-2 font-normal text-right hidden sm:table-cell">
+                        Last read
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {store.books.map((book) => (
+                      <tr
+                        key={book.bookId}
+                        className="border-b border-gray-100"
+                      >
+                        <td className="py-2 pr-3">
+                          <Link
+                            href={`/book/${book.bookId}`}
+                            className="text-gray-900 hover:underline"
+                          >
+                            {book.title}
+                          </Link>
+                        </td>
+                        <td className="py-2 text-right tabular-nums">
+                          {formatDuration(book.activeMs)}
+                        </td>
+                        <td className="py-2 text-right tabular-nums">
+                          {book.wordsRead.toLocaleString()}
+                        </td>
+                        <td className="py-2 text-right text-gray-500 hidden sm:table-cell">
+                          {formatRelative(book.lastReadAt)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
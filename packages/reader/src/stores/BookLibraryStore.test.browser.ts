@@ -173,4 +173,41 @@ describe("BookLibraryStore", () => {
     expect(result).toBeTruthy();
     expect(result?.blob).toBeTruthy();
   });
+
+  it("should cache a cover thumbnail when adding a book", async () => {
+    const store = rootStore.bookLibraryStore;
+    const file = await loadEpub("/Alice's Adventures in Wonderland.epub");
+    const bookId = await store.addBook(file);
+
+    await store.loadCover(bookId);
+    const url = store.coverUrls.get(bookId);
+    expect(url).toMatch(/^blob:/);
+
+    const thumbnail = await (await fetch(url as string)).blob();
+    const bitmap = await createImageBitmap(thumbnail);
+    expect(bitmap.width).toBeLessThanOrEqual(240);
+    bitmap.close();
+  });
+
+  it("should remove the cover thumbnail when deleting a book", async () => {
+    const store = rootStore.bookLibraryStore;
+    const file = await loadEpub("/Alice's Adventures in Wonderland.epub");
+    const bookId = await store.addBook(file);
+    await store.loadCover(bookId);
+
+    await store.deleteBook(bookId);
+    expect(store.coverUrls.has(bookId)).toBe(false);
+
+    await store.loadCover(bookId);
+    expect(store.coverUrls.get(bookId)).toBeNull();
+  });
+
+  it("should persist the library view mode", () => {
+    rootStore.bookLibraryStore.setViewMode("grid");
+    expect(rootStore.bookLibraryStore.viewMode).toBe("grid");
+    expect(localStorage.getItem("epubdown:library-view-mode")).toBe("grid");
+
+    rootStore.bookLibraryStore.setViewMode("list");
+    expect(localStorage.getItem("epubdown:library-view-mode")).toBe("list");
+  });
 });
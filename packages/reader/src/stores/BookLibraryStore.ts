@@ -3,28 +3,118 @@ import type { SQLiteDB } from "@hayeah/sqlite-browser";
 import { debounce } from "lodash";
 import type { DebouncedFunc } from "lodash";
 import { makeAutoObservable, runInAction } from "mobx";
+import type { CommandPaletteStore } from "../../command/CommandPaletteStore";
+import type { Command } from "../../command/types";
 import type { AppEventSystem } from "../app/context";
 import type { ErrorItem } from "../components/ErrorFlash";
 import { BlobStore } from "../lib/BlobStore";
 import { BookDatabase, type BookMetadata } from "../lib/BookDatabase";
+import { BookTextIndex, type TextMatch } from "../lib/BookTextIndex";
+import { BookmarkDatabase } from "../lib/BookmarkDatabase";
+import { ChatDatabase } from "../lib/ChatDatabase";
+import {
+  type Collection,
+  CollectionDatabase,
+  type CollectionKind,
+} from "../lib/CollectionDatabase";
+import { DictionaryDatabase } from "../lib/DictionaryDatabase";
+import { HighlightDatabase } from "../lib/HighlightDatabase";
+import { PdfPageSizeCache } from "../lib/PdfPageSizeCache";
+import { ReaderSettingsDatabase } from "../lib/ReaderSettingsDatabase";
+import {
+  type NewReadingPosition,
+  ReadingPositionDatabase,
+} from "../lib/ReadingPositionDatabase";
+import { ReadingSessionDatabase } from "../lib/ReadingSessionDatabase";
+import { VocabularyDatabase } from "../lib/VocabularyDatabase";
+import { extractChapterTexts } from "../lib/bookText";
+import { createEpubThumbnail, createPdfThumbnail } from "../lib/coverThumbnail";
 import { getDb } from "../lib/providers";
+import { compareBySeries } from "../utils/series";
 import { sha256Bytes } from "../utils/sha256";
-import { PdfPageSizeCache } from "../lib/PdfPageSizeCache";
 
 export interface StoredBook extends BookMetadata {
   blob?: Blob;
 }
 
+export type LibraryViewMode = "list" | "grid";
+
+/** Most recently opened first, or grouped by series in reading order */
+export type LibrarySortMode = "recent" | "series";
+
+const VIEW_MODE_STORAGE_KEY = "epubdown:library-view-mode";
+const SORT_MODE_STORAGE_KEY = "epubdown:library-sort-mode";
+
+function loadViewMode(): LibraryViewMode {
+  try {
+    return localStorage.getItem(VIEW_MODE_STORAGE_KEY) === "grid"
+      ? "grid"
+      : "list";
+  } catch {
+    return "list";
+  }
+}
+
+function loadSortMode(): LibrarySortMode {
+  try {
+    return localStorage.getItem(SORT_MODE_STORAGE_KEY) === "series"
+      ? "series"
+      : "recent";
+  } catch {
+    return "recent";
+  }
+}
+
+// Thumbnails live next to the book blobs under their own key prefix
+const coverKey = (bookId: number) => `cover-${bookId}`;
+
 export class BookLibraryStore {
   books: BookMetadata[] = [];
   isLoading = false;
   searchQuery = "";
+  /** Chapters whose text matches the search query, best matches first */
+  textMatches: TextMatch[] = [];
+  /** Book whose text is being indexed in the background */
+  indexingBookId: number | null = null;
   selectedBookId: number | null = null;
   uploadProgress: number | null = null;
   isDragging = false;
   uploadErrors: ErrorItem[] = [];
+  viewMode: LibraryViewMode = loadViewMode();
+  sortMode: LibrarySortMode = loadSortMode();
+  /** Fraction of each book read, for books opened in the reader */
+  progressByBook = new Map<number, number>();
+  shelves: Collection[] = [];
+  tags: Collection[] = [];
+  /** Shelf ids of each book on a shelf */
+  shelvesByBook = new Map<number, number[]>();
+  /** Tag ids of each tagged book */
+  tagsByBook = new Map<number, number[]>();
+  /** Show only books on this shelf; null for all */
+  shelfFilter: number | null = null;
+  /** Show only books with this tag; null for all */
+  tagFilter: number | null = null;
+  /** Whether clicking books picks them for bulk assignment */
+  isSelecting = false;
+  selectedBookIds = new Set<number>();
+  /** Object URLs of cover thumbnails; null when the book has none */
+  coverUrls = new Map<number, string | null>();
   loadBooksDebounced: DebouncedFunc<() => void>;
   readonly pageSizeCache: PdfPageSizeCache;
+  readonly highlightDb: HighlightDatabase;
+  readonly bookmarkDb: BookmarkDatabase;
+  readonly collectionDb: CollectionDatabase;
+  readonly positionDb: ReadingPositionDatabase;
+  readonly sessionDb: ReadingSessionDatabase;
+  readonly readerSettingsDb: ReaderSettingsDatabase;
+  readonly dictionaryDb: DictionaryDatabase;
+  readonly vocabularyDb: VocabularyDatabase;
+  readonly chatDb: ChatDatabase;
+  readonly textIndex: BookTextIndex;
+  // Ids of books waiting to be indexed, one at a time in the background
+  private indexQueue: number[] = [];
+  private indexing: Promise<void> | null = null;
+  private closed = false;
 
   constructor(
     private readonly blobStore: BlobStore,
@@ -33,6 +123,16 @@ export class BookLibraryStore {
     private readonly events: AppEventSystem,
   ) {
     this.pageSizeCache = new PdfPageSizeCache(sqliteDb);
+    this.highlightDb = new HighlightDatabase(sqliteDb);
+    this.bookmarkDb = new BookmarkDatabase(sqliteDb);
+    this.collectionDb = new CollectionDatabase(sqliteDb);
+    this.positionDb = new ReadingPositionDatabase(sqliteDb);
+    this.sessionDb = new ReadingSessionDatabase(sqliteDb);
+    this.readerSettingsDb = new ReaderSettingsDatabase(sqliteDb);
+    this.dictionaryDb = new DictionaryDatabase(sqliteDb);
+    this.vocabularyDb = new VocabularyDatabase(sqliteDb);
+    this.chatDb = new ChatDatabase(sqliteDb);
+    this.textIndex = new BookTextIndex(sqliteDb);
     makeAutoObservable(this);
 
     // Create debounced function with lodash
@@ -53,10 +153,17 @@ export class BookLibraryStore {
 
     const store = new BookLibraryStore(blobStore, bookDb, db, eventSystem);
     await store.loadBooks();
+    // Catch up on books imported before series or text indexing existed
+    store.backfillSeries().catch((error) => {
+      console.warn("Failed to read series of library books:", error);
+    });
+    store.indexMissingBooks().catch((error) => {
+      console.warn("Failed to index library text:", error);
+    });
     return store;
   }
 
-  setupBindings() {
+  setupBindings(palette?: CommandPaletteStore) {
     return this.events.register([
       "view:library", // Push the layer
       {
@@ -73,16 +180,89 @@ export class BookLibraryStore {
         },
         run: () => this.focusSearchBar(),
       },
+      {
+        id: "library.openCommandPalette",
+        event: { kind: "key", combo: "meta+k" },
+        layer: "view:library",
+        when: () => !!palette,
+        run: () => palette?.openPalette(this.buildCommands()),
+      },
     ]);
   }
 
+  private buildCommands(): Command[] {
+    const commands: Command[] = [
+      {
+        id: "library.showAll",
+        label: "Show all books",
+        keywords: ["library", "clear", "filter"],
+        scope: "global",
+        action: () => this.clearCollectionFilters(),
+      },
+    ];
+
+    for (const shelf of this.shelves) {
+      commands.push({
+        id: `library.goToShelf.${shelf.id}`,
+        label: `Go to shelf: ${shelf.name}`,
+        category: "Shelves",
+        keywords: ["shelf", "collection"],
+        scope: "global",
+        action: () => {
+          this.setTagFilter(null);
+          this.setShelfFilter(shelf.id);
+        },
+      });
+    }
+
+    for (const tag of this.tags) {
+      commands.push({
+        id: `library.showTag.${tag.id}`,
+        label: `Show books tagged: ${tag.name}`,
+        category: "Tags",
+        keywords: ["tag"],
+        scope: "global",
+        action: () => {
+          this.setShelfFilter(null);
+          this.setTagFilter(tag.id);
+        },
+      });
+    }
+
+    commands.push({
+      id: "library.reindexText",
+      label: "Rebuild full-text search index",
+      keywords: ["search", "index", "text", "reindex"],
+      scope: "global",
+      action: () =>
+        this.reindexAllBooks().catch((error) => {
+          console.warn("Failed to rebuild the text index:", error);
+        }),
+    });
+
+    commands.push({
+      id: "library.selectBooks",
+      label: this.isSelecting ? "Stop selecting books" : "Select books",
+      keywords: ["select", "bulk", "shelf", "tag"],
+      scope: "global",
+      action: () => this.setSelecting(!this.isSelecting),
+    });
+
+    return commands;
+  }
+
   async loadBooks() {
     this.isLoading = true;
 
     try {
-      const books = await this.bookDb.getAllBooks();
+      const [books, progressByBook] = await Promise.all([
+        this.bookDb.getAllBooks(),
+        this.positionDb.getAllProgress(),
+        this.loadCollections(),
+      ]);
       runInAction(() => {
         this.books = books;
+        this.progressByBook = progressByBook;
         this.isLoading = false;
       });
     } catch (error) {
@@ -93,14 +273,188 @@ export class BookLibraryStore {
     }
   }
 
+  async loadCollections() {
+    const [shelves, tags, shelvesByBook, tagsByBook] = await Promise.all([
+      this.collectionDb.getCollections("shelf"),
+      this.collectionDb.getCollections("tag"),
+      this.collectionDb.getMemberships("shelf"),
+      this.collectionDb.getMemberships("tag"),
+    ]);
+    runInAction(() => {
+      this.shelves = shelves;
+      this.tags = tags;
+      this.shelvesByBook = shelvesByBook;
+      this.tagsByBook = tagsByBook;
+      // Drop filters on shelves or tags that no longer exist
+      if (!shelves.some((shelf) => shelf.id === this.shelfFilter)) {
+        this.shelfFilter = null;
+      }
+      if (!tags.some((tag) => tag.id === this.tagFilter)) {
+        this.tagFilter = null;
+      }
+    });
+  }
+
+  /**
+   * Books in the list or search results that pass the shelf and tag filters,
+   * in the chosen sort order
+   */
+  get visibleBooks(): BookMetadata[] {
+    const { shelfFilter, tagFilter } = this;
+    const books =
+      shelfFilter === null && tagFilter === null
+        ? this.books
+        : this.filterByCollections(shelfFilter, tagFilter);
+    // Books outside a series keep their recent-first order at the end
+    return this.sortMode === "series"
+      ? [...books].sort(compareBySeries)
+      : books;
+  }
+
+  private filterByCollections(
+    shelfFilter: number | null,
+    tagFilter: number | null,
+  ): BookMetadata[] {
+    return this.books.filter(
+      (book) =>
+        (shelfFilter === null ||
+          this.shelvesByBook.get(book.id)?.includes(shelfFilter)) &&
+        (tagFilter === null ||
+          this.tagsByBook.get(book.id)?.includes(tagFilter)),
+    );
+  }
+
+  collections(kind: CollectionKind): Collection[] {
+    return kind === "shelf" ? this.shelves : this.tags;
+  }
+
+  /**
+   * Names of the shelves or tags a book is in
+   */
+  collectionNames(kind: CollectionKind, bookId: number): string[] {
+    const byBook = kind === "shelf" ? this.shelvesByBook : this.tagsByBook;
+    const ids = byBook.get(bookId) ?? [];
+    return this.collections(kind)
+      .filter((collection) => ids.includes(collection.id))
+      .map((collection) => collection.name);
+  }
+
+  setShelfFilter(shelfId: number | null) {
+    this.shelfFilter = shelfId;
+  }
+
+  setTagFilter(tagId: number | null) {
+    this.tagFilter = tagId;
+  }
+
+  clearCollectionFilters() {
+    this.shelfFilter = null;
+    this.tagFilter = null;
+  }
+
+  /**
+   * Create a shelf or tag (or find the one with that name) and put books in it
+   */
+  async createCollection(
+    kind: CollectionKind,
+    name: string,
+    bookIds: number[] = [],
+  ): Promise<Collection> {
+    const collection = await this.collectionDb.createCollection(kind, name);
+    await this.collectionDb.addBooks(kind, collection.id, bookIds);
+    await this.loadCollections();
+    return collection;
+  }
+
+  /**
+   * Rename a shelf or tag; renaming it to another one's name merges the two,
+   * and a filter on it moves to the merged one
+   */
+  async renameCollection(kind: CollectionKind, id: number, name: string) {
+    const renamedId = await this.collectionDb.renameCollection(kind, id, name);
+    runInAction(() => {
+      if (kind === "shelf" && this.shelfFilter === id) {
+        this.shelfFilter = renamedId;
+      }
+      if (kind === "tag" && this.tagFilter === id) this.tagFilter = renamedId;
+    });
+    await this.loadCollections();
+  }
+
+  async deleteCollection(kind: CollectionKind, id: number) {
+    await this.collectionDb.deleteCollection(kind, id);
+    await this.loadCollections();
+  }
+
+  async addToCollection(kind: CollectionKind, id: number, bookIds: number[]) {
+    await this.collectionDb.addBooks(kind, id, bookIds);
+    await this.loadCollections();
+  }
+
+  async removeFromCollection(
+    kind: CollectionKind,
+    id: number,
+    bookIds: number[],
+  ) {
+    await this.collectionDb.removeBooks(kind, id, bookIds);
+    await this.loadCollections();
+  }
+
+  setSelecting(isSelecting: boolean) {
+    this.isSelecting = isSelecting;
+    if (!isSelecting) this.selectedBookIds.clear();
+  }
+
+  toggleBookSelected(bookId: number) {
+    if (this.selectedBookIds.has(bookId)) {
+      this.selectedBookIds.delete(bookId);
+    } else {
+      this.selectedBookIds.add(bookId);
+    }
+  }
+
+  selectAllVisible() {
+    for (const book of this.visibleBooks) {
+      this.selectedBookIds.add(book.id);
+    }
+  }
+
+  clearSelection() {
+    this.selectedBookIds.clear();
+  }
+
   async searchBooks(query: string) {
     this.searchQuery = query;
     this.isLoading = true;
 
     try {
-      const books = await this.bookDb.searchBooks(query);
+      const [books, textMatches] = await Promise.all([
+        this.bookDb.searchBooks(query),
+        this.searchText(query),
+      ]);
+
+      // Books that only match in their text follow the title and author
+      // matches, best match first
+      const listed = new Set(books.map((book) => book.id));
+      const textOnlyIds = [
+        ...new Set(textMatches.map((match) => match.bookId)),
+      ].filter((bookId) => !listed.has(bookId));
+      const textOnly = new Map(
+        (await this.bookDb.getBooks(textOnlyIds)).map((book) => [
+          book.id,
+          book,
+        ]),
+      );
+      for (const bookId of textOnlyIds) {
+        const book = textOnly.get(bookId);
+        if (book) books.push(book);
+      }
+
       runInAction(() => {
+        // A newer search may have finished first
+        if (this.searchQuery !== query) return;
         this.books = books;
+        this.textMatches = textMatches;
         this.isLoading = false;
       });
     } catch (error) {
@@ -111,6 +465,121 @@ export class BookLibraryStore {
     }
   }
 
+  private async searchText(query: string): Promise<TextMatch[]> {
+    if (!query.trim()) return [];
+    try {
+      return await this.textIndex.search(query);
+    } catch (error) {
+      // Malformed queries shouldn't break title and author search
+      console.warn("Text search failed:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Index the text of an EPUB in the background. Books wait in the queue as
+   * ids and are read back from storage one at a time, so a long queue
+   * doesn't keep parsed books in memory.
+   */
+  indexBookText(bookId: number): Promise<void> {
+    if (!this.indexQueue.includes(bookId)) this.indexQueue.push(bookId);
+    this.indexing ??= this.drainIndexQueue();
+    return this.indexing;
+  }
+
+  private async drainIndexQueue(): Promise<void> {
+    try {
+      let bookId = this.indexQueue.shift();
+      while (bookId !== undefined && !this.closed) {
+        await this.indexOneBook(bookId);
+        bookId = this.indexQueue.shift();
+      }
+    } finally {
+      this.indexQueue = [];
+      this.indexing = null;
+    }
+  }
+
+  private async indexOneBook(bookId: number): Promise<void> {
+    runInAction(() => {
+      this.indexingBookId = bookId;
+    });
+    // Like thumbnails, a book that can't be indexed is still readable
+    try {
+      const book = await this.openEpub(bookId);
+      if (!book) return;
+      const chapters = await extractChapterTexts(book);
+      // The book may have been deleted while it waited
+      if (this.closed || !(await this.bookDb.getBook(bookId))) return;
+      await this.textIndex.indexBook(bookId, chapters);
+    } catch (error) {
+      console.warn(`Failed to index text of book ${bookId}:`, error);
+    } finally {
+      runInAction(() => {
+        this.indexingBookId = null;
+      });
+    }
+  }
+
+  /**
+   * Index every EPUB that isn't indexed with the current extraction yet
+   */
+  async indexMissingBooks(): Promise<void> {
+    const bookIds = await this.textIndex.booksToIndex();
+    await Promise.all(bookIds.map((bookId) => this.indexBookText(bookId)));
+  }
+
+  /**
+   * Rebuild the text index of every EPUB in the library
+   */
+  async reindexAllBooks(): Promise<void> {
+    const books = await this.bookDb.getAllBooks();
+    await Promise.all(
+      books
+        .filter((book) => book.fileType === "epub")
+        .map((book) => this.indexBookText(book.id)),
+    );
+  }
+
+  /**
+   * Read the series of EPUBs imported before series were stored, re-opening
+   * each from storage, one at a time
+   */
+  async backfillSeries(): Promise<void> {
+    const bookIds = await this.bookDb.booksWithoutSeriesCheck();
+    let found = false;
+    for (const bookId of bookIds) {
+      if (this.closed) return;
+      try {
+        const epub = await this.openEpub(bookId);
+        const series = epub?.metadata.getSeries() ?? null;
+        await this.bookDb.updateSeries(bookId, series);
+        if (series) found = true;
+      } catch (error) {
+        // Left unchecked, so it is tried again next time
+        console.warn(`Failed to read series of book ${bookId}:`, error);
+      }
+    }
+    if (found) this.loadBooksDebounced();
+  }
+
+  private async openEpub(bookId: number): Promise<EPub | null> {
+    const blob = await this.blobStore.getBlob(`book-${bookId}`);
+    if (!blob) return null;
+    return EPub.fromZip(await blob.arrayBuffer());
+  }
+
+  /**
+   * Remember where a book was left, for resuming it and for its progress in
+   * the library
+   */
+  async saveReadingPosition(position: NewReadingPosition): Promise<void> {
+    await this.positionDb.savePosition(position);
+    runInAction(() => {
+      this.progressByBook.set(position.bookId, position.progress);
+    });
+  }
+
   setSearchQuery(query: string) {
     this.searchQuery = query;
   }
@@ -119,6 +588,60 @@ export class BookLibraryStore {
     this.selectedBookId = bookId;
   }
 
+  setSortMode(mode: LibrarySortMode) {
+    this.sortMode = mode;
+    try {
+      localStorage.setItem(SORT_MODE_STORAGE_KEY, mode);
+    } catch {
+      // Storage may be unavailable (private mode); keep the in-memory choice
+    }
+  }
+
+  setViewMode(mode: LibraryViewMode) {
+    this.viewMode = mode;
+    try {
+      localStorage.setItem(VIEW_MODE_STORAGE_KEY, mode);
+    } catch {
+      // Storage may be unavailable (private mode); keep the in-memory choice
+    }
+  }
+
+  /**
+   * Resolve the cached cover thumbnail of a book into an object URL
+   */
+  async loadCover(bookId: number): Promise<void> {
+    if (this.coverUrls.has(bookId)) return;
+    const blob = await this.blobStore.getBlob(coverKey(bookId));
+    runInAction(() => {
+      if (this.coverUrls.has(bookId)) return;
+      this.coverUrls.set(bookId, blob ? URL.createObjectURL(blob) : null);
+    });
+  }
+
+  private async saveThumbnail(
+    bookId: number,
+    create: () => Promise<Blob | null>,
+  ): Promise<void> {
+    // A missing thumbnail should never fail the import
+    try {
+      const thumbnail = await create();
+      if (thumbnail) {
+        await this.blobStore.put(coverKey(bookId), thumbnail);
+      }
+    } catch (error) {
+      console.warn(
+        `Failed to create cover thumbnail for book ${bookId}:`,
+        error,
+      );
+    }
+  }
+
+  private releaseCover(bookId: number) {
+    const url = this.coverUrls.get(bookId);
+    if (url) URL.revokeObjectURL(url);
+    this.coverUrls.delete(bookId);
+  }
+
   setDragging(isDragging: boolean) {
     this.isDragging = isDragging;
   }
@@ -242,6 +765,7 @@ export class BookLibraryStore {
     }
 
     const meta = epub.metadata.toJSON();
+    const series = epub.metadata.getSeries();
     const id = await this.bookDb.addBook({
       title: meta.title || file.name,
       author: meta.creator || meta.author,
@@ -250,9 +774,13 @@ export class BookLibraryStore {
       metadata: JSON.stringify(meta),
       contentHash,
       fileType: "epub",
+      seriesName: series?.name,
+      seriesIndex: series?.index,
     });
 
     await this.blobStore.put(`book-${id}`, file);
+    await this.saveThumbnail(id, () => createEpubThumbnail(epub));
+    void this.indexBookText(id);
 
     // Keep the library list fresh in the background
     this.loadBooksDebounced();
@@ -276,6 +804,7 @@ export class BookLibraryStore {
 
     // Extract metadata from epub
     const epubMetadata = epub.metadata.toJSON();
+    const series = epub.metadata.getSeries();
 
     // Store metadata in SQLite and get auto-generated ID
     const bookId = await this.bookDb.addBook({
@@ -286,11 +815,15 @@ export class BookLibraryStore {
       metadata: JSON.stringify(epubMetadata),
       contentHash,
       fileType: "epub",
+      seriesName: series?.name,
+      seriesIndex: series?.index,
     });
 
     // Store the book file using numeric ID
     const blobStoreKey = `book-${bookId}`;
     await this.blobStore.put(blobStoreKey, file);
+    await this.saveThumbnail(bookId, () => createEpubThumbnail(epub));
+    void this.indexBookText(bookId);
 
     // Reload books list with debounce
     this.loadBooksDebounced();
@@ -305,8 +838,22 @@ export class BookLibraryStore {
     // Delete blob first
     const blobStoreKey = `book-${bookId}`;
     await this.blobStore.delete(blobStoreKey);
-
-    // Then delete metadata
+    await this.blobStore.delete(coverKey(bookId));
+    this.releaseCover(bookId);
+
+    // Then delete metadata; foreign keys aren't enforced, so remove rows
+    // that reference the book explicitly
+    await this.highlightDb.deleteHighlightsForBook(bookId);
+    await this.bookmarkDb.deleteBookmarksForBook(bookId);
+    await this.textIndex.deleteBook(bookId);
+    await this.positionDb.deletePosition(bookId);
+    this.progressByBook.delete(bookId);
+    await this.sessionDb.deleteSessionsForBook(bookId);
+    await this.collectionDb.deleteBook(bookId);
+    await this.readerSettingsDb.deleteOverrides(bookId);
+    await this.vocabularyDb.deleteEntriesForBook(bookId);
+    await this.chatDb.deleteMessagesForBook(bookId);
+    this.selectedBookIds.delete(bookId);
     await this.bookDb.deleteBook(bookId);
 
     // Clear selection if deleting selected book
@@ -373,6 +920,9 @@ export class BookLibraryStore {
     });
 
     await this.blobStore.put(`book-${bookId}`, file);
+    await this.saveThumbnail(bookId, () =>
+      createPdfThumbnail(new Uint8Array(arrayBuffer)),
+    );
     this.loadBooksDebounced();
     return bookId;
   }
@@ -407,6 +957,9 @@ export class BookLibraryStore {
     });
 
     await this.blobStore.put(`book-${id}`, file);
+    await this.saveThumbnail(id, () =>
+      createPdfThumbnail(new Uint8Array(arrayBuffer)),
+    );
     this.loadBooksDebounced();
     return id;
   }
@@ -420,6 +973,12 @@ export class BookLibraryStore {
 
   async close(): Promise<void> {
     this.loadBooksDebounced.cancel();
+    // Let the book being indexed finish; the rest of the queue is skipped
+    this.closed = true;
+    await this.indexing;
+    for (const bookId of [...this.coverUrls.keys()]) {
+      this.releaseCover(bookId);
+    }
     this.blobStore.close();
     // Note: Database will be closed by the destroy() call in tests
     // or by the application lifecycle management
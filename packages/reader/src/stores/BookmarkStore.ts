@@ -0,0 +1,79 @@
+import { action, makeObservable, observable, runInAction } from "mobx";
+import type {
+  Bookmark,
+  BookmarkDatabase,
+  NewBookmark,
+} from "../lib/BookmarkDatabase";
+
+function byPosition(a: Bookmark, b: Bookmark): number {
+  return a.chapterIndex - b.chapterIndex || a.blockIndex - b.blockIndex;
+}
+
+/**
+ * Bookmarks of the open book, in reading order
+ */
+export class BookmarkStore {
+  bookmarks: Bookmark[] = [];
+  bookId: number | null = null;
+
+  constructor(private db: BookmarkDatabase) {
+    makeObservable(this, {
+      bookmarks: observable.ref,
+      bookId: observable,
+      load: action,
+      clear: action,
+    });
+  }
+
+  async load(bookId: number): Promise<void> {
+    this.bookId = bookId;
+    const bookmarks = await this.db.getBookmarks(bookId);
+    runInAction(() => {
+      // A different book may have been opened meanwhile
+      if (this.bookId === bookId) this.bookmarks = bookmarks;
+    });
+  }
+
+  clear(): void {
+    this.bookId = null;
+    this.bookmarks = [];
+  }
+
+  find(chapterIndex: number, blockIndex: number): Bookmark | undefined {
+    return this.bookmarks.find(
+      (b) => b.chapterIndex === chapterIndex && b.blockIndex === blockIndex,
+    );
+  }
+
+  /**
+   * Save a bookmark; an existing one at the same position is returned as is
+   */
+  async add(bookmark: NewBookmark): Promise<Bookmark> {
+    const existing = this.find(bookmark.chapterIndex, bookmark.blockIndex);
+    if (existing && existing.bookId === bookmark.bookId) return existing;
+
+    const saved = await this.db.addBookmark(bookmark);
+    runInAction(() => {
+      if (this.bookId === saved.bookId) {
+        this.bookmarks = [...this.bookmarks, saved].sort(byPosition);
+      }
+    });
+    return saved;
+  }
+
+  async rename(id: number, label: string): Promise<void> {
+    await this.db.renameBookmark(id, label);
+    runInAction(() => {
+      this.bookmarks = this.bookmarks.map((b) =>
+        b.id === id ? { ...b, label: label || undefined } : b,
+      );
+    });
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.db.deleteBookmark(id);
+    runInAction(() => {
+      this.bookmarks = this.bookmarks.filter((b) => b.id !== id);
+    });
+  }
+}
@@ -0,0 +1,107 @@
+import { type Mock, beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+  ChatDatabase,
+  ChatMessage,
+  NewChatMessage,
+} from "../lib/ChatDatabase";
+import type { FetchFn } from "../lib/llmClient";
+import { ChatStore } from "./ChatStore";
+
+// In-memory stand-in for the chat_messages table
+class FakeChatDatabase {
+  rows: ChatMessage[] = [];
+
+  async addMessage(message: NewChatMessage): Promise<ChatMessage> {
+    const saved = { ...message, id: this.rows.length + 1, createdAt: 0 };
+    this.rows.push(saved);
+    return saved;
+  }
+
+  async getMessages(bookId: number, chapterPath: string) {
+    return this.rows.filter(
+      (m) => m.bookId === bookId && m.chapterPath === chapterPath,
+    );
+  }
+
+  async deleteConversation(bookId: number, chapterPath: string) {
+    this.rows = this.rows.filter(
+      (m) => m.bookId !== bookId || m.chapterPath !== chapterPath,
+    );
+  }
+}
+
+function answer(text: string): Response {
+  return Response.json({ choices: [{ message: { content: text } }] });
+}
+
+describe("ChatStore", () => {
+  let db: FakeChatDatabase;
+  let fetchFn: Mock<FetchFn>;
+  let store: ChatStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    db = new FakeChatDatabase();
+    fetchFn = vi.fn(async (_url: string, _init: RequestInit) =>
+      answer("An answer."),
+    );
+    store = new ChatStore(db as unknown as ChatDatabase, fetchFn);
+    store.setEndpoint({ baseUrl: "http://localhost:8080/v1", model: "local" });
+  });
+
+  it("is configured once it has a base URL and model", () => {
+    expect(store.isConfigured).toBe(true);
+    store.setEndpoint({ model: "" });
+    expect(store.isConfigured).toBe(false);
+  });
+
+  it("saves the conversation per chapter and sends its history", async () => {
+    await store.load(1, "/ch1.xhtml");
+    await store.send("First question", "TLDR");
+    await store.send("Follow-up");
+
+    expect(store.isOpen).toBe(true);
+    expect(store.messages.map((m) => [m.role, m.content])).toEqual([
+      ["user", "First question"],
+      ["assistant", "An answer."],
+      ["user", "Follow-up"],
+      ["assistant", "An answer."],
+    ]);
+    expect(store.messages[0]?.title).toBe("TLDR");
+
+    const init = fetchFn.mock.calls[1]?.[1];
+    const { messages } = JSON.parse(init?.body as string);
+    expect(messages.map((m: { role: string }) => m.role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+      "user",
+    ]);
+
+    await store.load(1, "/ch2.xhtml");
+    expect(store.messages).toEqual([]);
+    await store.load(1, "/ch1.xhtml");
+    expect(store.messages).toHaveLength(4);
+  });
+
+  it("shows errors and keeps the question", async () => {
+    fetchFn.mockResolvedValueOnce(
+      new Response("down", { status: 503, statusText: "Unavailable" }),
+    );
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await store.load(1, "/ch1.xhtml");
+    await store.send("Anyone there?");
+
+    expect(store.error).toContain("503");
+    expect(store.messages.map((m) => m.role)).toEqual(["user"]);
+    expect(store.isStreaming).toBe(false);
+  });
+
+  it("clears the open chapter's conversation", async () => {
+    await store.load(1, "/ch1.xhtml");
+    await store.send("Question");
+    await store.clearConversation();
+    expect(store.messages).toEqual([]);
+    expect(db.rows).toEqual([]);
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  action,
+  computed,
+  makeObservable,
+  observable,
+  runInAction,
+} from "mobx";
+import type { ChatDatabase, ChatMessage } from "../lib/ChatDatabase";
+import {
+  type ChatTurn,
+  type FetchFn,
+  type LlmEndpoint,
+  streamChatCompletion,
+} from "../lib/llmClient";
+
+const ENDPOINT_STORAGE_KEY = "epubdown:llm-endpoint";
+
+function loadEndpoint(): LlmEndpoint {
+  const endpoint: LlmEndpoint = { baseUrl: "", model: "", apiKey: "" };
+  try {
+    const raw = JSON.parse(localStorage.getItem(ENDPOINT_STORAGE_KEY) ?? "");
+    for (const key of ["baseUrl", "model", "apiKey"] as const) {
+      if (typeof raw?.[key] === "string") endpoint[key] = raw[key];
+    }
+  } catch {
+    // Not configured
+  }
+  return endpoint;
+}
+
+const SYSTEM_PROMPT =
+  "You are a reading assistant. Answer questions about the book the user is reading.";
+
+/**
+ * Conversations about the open chapter with the configured LLM endpoint,
+ * shown in the assistant panel. Each book chapter has its own conversation.
+ */
+export class ChatStore {
+  endpoint: LlmEndpoint = loadEndpoint();
+  isOpen = false;
+  /** Conversation about the open chapter */
+  messages: ChatMessage[] = [];
+  error: string | null = null;
+  private bookId: number | null = null;
+  private chapterPath: string | null = null;
+  private streamingText: string | null = null;
+  private controller: AbortController | null = null;
+  // Chapter of the answer being streamed, as `bookId:path`
+  private streamingKey: string | null = null;
+
+  constructor(
+    private db: ChatDatabase,
+    private fetchFn?: FetchFn,
+  ) {
+    makeObservable<
+      ChatStore,
+      "bookId" | "chapterPath" | "streamingText" | "streamingKey"
+    >(this, {
+      endpoint: observable.ref,
+      isOpen: observable,
+      messages: observable.ref,
+      error: observable,
+      bookId: observable,
+      chapterPath: observable,
+      streamingText: observable,
+      streamingKey: observable,
+      isConfigured: computed,
+      isStreaming: computed,
+      streamingAnswer: computed,
+      setEndpoint: action,
+      setOpen: action,
+      load: action,
+      clear: action,
+      send: action,
+    });
+  }
+
+  get isConfigured(): boolean {
+    return !!this.endpoint.baseUrl.trim() && !!this.endpoint.model.trim();
+  }
+
+  /** Whether an answer is streaming, in any chapter */
+  get isStreaming(): boolean {
+    return this.streamingKey !== null;
+  }
+
+  /** Answer streaming into the open chapter's conversation, so far */
+  get streamingAnswer(): string | null {
+    return this.streamingKey === `${this.bookId}:${this.chapterPath}`
+      ? this.streamingText
+      : null;
+  }
+
+  setEndpoint(patch: Partial<LlmEndpoint>): void {
+    this.endpoint = { ...this.endpoint, ...patch };
+    try {
+      localStorage.setItem(ENDPOINT_STORAGE_KEY, JSON.stringify(this.endpoint));
+    } catch {
+      // Storage full or unavailable; the endpoint lasts for the session
+    }
+  }
+
+  setOpen(open: boolean): void {
+    this.isOpen = open;
+  }
+
+  /**
+   * Show the conversation about a chapter
+   */
+  async load(bookId: number, chapterPath: string): Promise<void> {
+    this.bookId = bookId;
+    this.chapterPath = chapterPath;
+    this.error = null;
+    const messages = await this.db.getMessages(bookId, chapterPath);
+    runInAction(() => {
+      // Another chapter may have been opened meanwhile
+      if (this.isCurrent(bookId, chapterPath)) this.messages = messages;
+    });
+  }
+
+  clear(): void {
+    this.stop();
+    this.bookId = null;
+    this.chapterPath = null;
+    this.messages = [];
+    this.error = null;
+    this.isOpen = false;
+  }
+
+  /**
+   * Send a prompt in the open chapter's conversation and stream the answer
+   * into the panel. `title` names the template it was rendered from.
+   */
+  async send(prompt: string, title?: string): Promise<void> {
+    const { bookId, chapterPath } = this;
+    if (bookId === null || chapterPath === null || !prompt.trim()) return;
+    if (this.isStreaming) return;
+    this.isOpen = true;
+    this.error = null;
+
+    const key = `${bookId}:${chapterPath}`;
+    const controller = new AbortController();
+    this.controller = controller;
+    this.streamingKey = key;
+    this.streamingText = "";
+
+    let answer = "";
+    try {
+      // The conversation on screen may still be loading
+      const history = await this.db.getMessages(bookId, chapterPath);
+      const question = await this.db.addMessage({
+        bookId,
+        chapterPath,
+        role: "user",
+        content: prompt,
+        title,
+      });
+      runInAction(() => {
+        if (this.isCurrent(bookId, chapterPath)) {
+          this.messages = [...history, question];
+        }
+      });
+
+      const turns: ChatTurn[] = [
+        { role: "system", content: SYSTEM_PROMPT },
+        ...[...history, question].map(({ role, content }) => ({
+          role,
+          content,
+        })),
+      ];
+      await streamChatCompletion(
+        this.endpoint,
+        turns,
+        (delta) => {
+          answer += delta;
+          runInAction(() => {
+            this.streamingText = answer;
+          });
+        },
+        controller.signal,
+        this.fetchFn,
+      );
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Failed to get an answer:", error);
+        runInAction(() => {
+          if (this.isCurrent(bookId, chapterPath)) {
+            this.error = error instanceof Error ? error.message : String(error);
+          }
+        });
+      }
+    }
+
+    // Keep what arrived, also when stopped or cut off
+    try {
+      if (answer.trim()) {
+        const reply = await this.db.addMessage({
+          bookId,
+          chapterPath,
+          role: "assistant",
+          content: answer,
+        });
+        runInAction(() => {
+          if (this.isCurrent(bookId, chapterPath)) {
+            this.messages = [...this.messages, reply];
+          }
+        });
+      }
+    } catch (error) {
+      console.error("Failed to save answer:", error);
+    } finally {
+      runInAction(() => {
+        if (this.streamingKey === key) {
+          this.streamingKey = null;
+          this.streamingText = null;
+          this.controller = null;
+        }
+      });
+    }
+  }
+
+  /**
+   * Stop streaming; the answer so far is kept
+   */
+  stop(): void {
+    this.controller?.abort();
+  }
+
+  /**
+   * Delete the open chapter's conversation
+   */
+  async clearConversation(): Promise<void> {
+    const { bookId, chapterPath } = this;
+    if (bookId === null || chapterPath === null) return;
+    await this.db.deleteConversation(bookId, chapterPath);
+    runInAction(() => {
+      if (this.isCurrent(bookId, chapterPath)) {
+        this.messages = [];
+        this.error = null;
+      }
+    });
+  }
+
+  private isCurrent(bookId: number, chapterPath: string): boolean {
+    return this.bookId === bookId && this.chapterPath === chapterPath;
+  }
+}
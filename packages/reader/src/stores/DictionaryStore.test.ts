@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import type { Dictionary } from "../lib/DictionaryDatabase";
+import { dictionariesForLanguage } from "./DictionaryStore";
+
+const dictionary = (id: number, language?: string): Dictionary => ({
+  id,
+  name: `Dictionary ${id}`,
+  language,
+  entryCount: 1,
+  createdAt: 0,
+});
+
+describe("dictionariesForLanguage", () => {
+  const dictionaries = [
+    dictionary(1, "en"),
+    dictionary(2, "fr-FR"),
+    dictionary(3),
+    dictionary(4, "EN_gb"),
+  ];
+
+  it("matches the primary language, and dictionaries for any language", () => {
+    expect(
+      dictionariesForLanguage(dictionaries, "en-US").map((d) => d.id),
+    ).toEqual([1, 3, 4]);
+    expect(
+      dictionariesForLanguage(dictionaries, "fr").map((d) => d.id),
+    ).toEqual([2, 3]);
+  });
+
+  it("uses every dictionary for books without a language", () => {
+    expect(dictionariesForLanguage(dictionaries, undefined)).toEqual(
+      dictionaries,
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import { action, makeObservable, observable, runInAction } from "mobx";
+import type {
+  Definition,
+  Dictionary,
+  DictionaryDatabase,
+} from "../lib/DictionaryDatabase";
+import type {
+  VocabularyDatabase,
+  VocabularyEntry,
+} from "../lib/VocabularyDatabase";
+import { readDictionaryFiles } from "../lib/dictionaryFiles";
+
+/** Where the looked-up word is on screen, in viewport coordinates */
+export interface LookupAnchor {
+  top: number;
+  bottom: number;
+  left: number;
+}
+
+export interface DefinitionLookup {
+  word: string;
+  /** Sentence the word was selected in */
+  context: string;
+  chapterPath: string;
+  anchor: LookupAnchor;
+  /** Null while the dictionaries are being searched */
+  definitions: Definition[] | null;
+  /** Dictionaries searched, those for the book's language */
+  dictionaryCount: number;
+  /** Vocabulary entry saved from this lookup */
+  savedId: number | null;
+}
+
+const primaryLanguage = (tag: string) => tag.split(/[-_]/)[0]?.toLowerCase();
+
+/**
+ * Dictionaries for a book in `language`: those of the same primary
+ * language, and those without a language. A book without a language uses
+ * every dictionary.
+ */
+export function dictionariesForLanguage(
+  dictionaries: Dictionary[],
+  language: string | undefined,
+): Dictionary[] {
+  const wanted = language ? primaryLanguage(language) : undefined;
+  if (!wanted) return dictionaries;
+  return dictionaries.filter(
+    (d) => !d.language || primaryLanguage(d.language) === wanted,
+  );
+}
+
+/**
+ * Offline dictionaries, the open definition popover, and the vocabulary
+ * saved from it for the open book
+ */
+export class DictionaryStore {
+  dictionaries: Dictionary[] = [];
+  vocabulary: VocabularyEntry[] = [];
+  bookId: number | null = null;
+  lookup: DefinitionLookup | null = null;
+  isImporting = false;
+  /** Percent of the imported entries stored; null while reading the files */
+  importProgress: number | null = null;
+  importError: string | null = null;
+  private dictionariesLoaded = false;
+
+  constructor(
+    private dictionaryDb: DictionaryDatabase,
+    private vocabularyDb: VocabularyDatabase,
+  ) {
+    makeObservable(this, {
+      dictionaries: observable.ref,
+      vocabulary: observable.ref,
+      bookId: observable,
+      lookup: observable.ref,
+      isImporting: observable,
+      importProgress: observable,
+      importError: observable,
+      load: action,
+      clear: action,
+      define: action,
+      closeLookup: action,
+      importFiles: action,
+    });
+  }
+
+  async load(bookId: number): Promise<void> {
+    this.bookId = bookId;
+    const [vocabulary] = await Promise.all([
+      this.vocabularyDb.getEntries(bookId),
+      this.loadDictionaries(),
+    ]);
+    runInAction(() => {
+      // A different book may have been opened meanwhile
+      if (this.bookId === bookId) this.vocabulary = vocabulary;
+    });
+  }
+
+  clear(): void {
+    this.bookId = null;
+    this.vocabulary = [];
+    this.lookup = null;
+  }
+
+  /**
+   * Look `word` up in the dictionaries for `language` and open the popover
+   */
+  async define(
+    word: string,
+    options: {
+      context: string;
+      chapterPath: string;
+      anchor: LookupAnchor;
+      language?: string;
+    },
+  ): Promise<void> {
+    await this.loadDictionaries();
+    const dictionaries = dictionariesForLanguage(
+      this.dictionaries,
+      options.language,
+    );
+    const lookup: DefinitionLookup = {
+      word,
+      context: options.context,
+      chapterPath: options.chapterPath,
+      anchor: options.anchor,
+      definitions: null,
+      dictionaryCount: dictionaries.length,
+      savedId: null,
+    };
+    runInAction(() => {
+      this.lookup = lookup;
+    });
+
+    let definitions: Definition[] = [];
+    try {
+      definitions = await this.dictionaryDb.lookup(
+        word,
+        dictionaries.map((d) => d.id),
+      );
+    } catch (error) {
+      console.error("Failed to look up word:", error);
+    }
+    runInAction(() => {
+      // Another word may have been looked up meanwhile
+      if (this.lookup === lookup) this.lookup = { ...lookup, definitions };
+    });
+  }
+
+  closeLookup(): void {
+    this.lookup = null;
+  }
+
+  /**
+   * Save the open lookup to the book's vocabulary
+   */
+  async saveLookup(): Promise<void> {
+    const lookup = this.lookup;
+    const bookId = this.bookId;
+    if (!lookup?.definitions || lookup.savedId !== null || bookId === null) {
+      return;
+    }
+    const first = lookup.definitions[0];
+    const saved = await this.vocabularyDb.addEntry({
+      bookId,
+      chapterPath: lookup.chapterPath,
+      word: first?.headword ?? lookup.word,
+      definition: first?.definition ?? "",
+      context: lookup.context,
+    });
+    runInAction(() => {
+      if (this.bookId === bookId) this.vocabulary = [saved, ...this.vocabulary];
+      if (this.lookup?.word === lookup.word) {
+        this.lookup = { ...this.lookup, savedId: saved.id };
+      }
+    });
+  }
+
+  async removeWord(id: number): Promise<void> {
+    await this.vocabularyDb.deleteEntry(id);
+    runInAction(() => {
+      this.vocabulary = this.vocabulary.filter((v) => v.id !== id);
+      if (this.lookup?.savedId === id) {
+        this.lookup = { ...this.lookup, savedId: null };
+      }
+    });
+  }
+
+  /**
+   * Import a dictionary from the chosen files. `language` overrides the
+   * language the files declare; empty keeps it.
+   */
+  async importFiles(files: File[], language: string): Promise<void> {
+    this.isImporting = true;
+    this.importProgress = null;
+    this.importError = null;
+    try {
+      const parsed = await readDictionaryFiles(files);
+      if (parsed.entries.length === 0) {
+        throw new Error("The dictionary has no entries");
+      }
+      const dictionary = await this.dictionaryDb.addDictionary(
+        { ...parsed, language: language.trim() || parsed.language },
+        (stored, total) =>
+          runInAction(() => {
+            this.importProgress = Math.round((stored / total) * 100);
+          }),
+      );
+      runInAction(() => {
+        this.dictionaries = [...this.dictionaries, dictionary].sort((a, b) =>
+          a.name.localeCompare(b.name),
+        );
+      });
+    } catch (error) {
+      console.error("Failed to import dictionary:", error);
+      runInAction(() => {
+        this.importError =
+          error instanceof Error ? error.message : String(error);
+      });
+    } finally {
+      runInAction(() => {
+        this.isImporting = false;
+        this.importProgress = null;
+      });
+    }
+  }
+
+  async setDictionaryLanguage(id: number, language: string): Promise<void> {
+    await this.dictionaryDb.setLanguage(id, language.trim());
+    runInAction(() => {
+      this.dictionaries = this.dictionaries.map((d) =>
+        d.id === id ? { ...d, language: language.trim() || undefined } : d,
+      );
+    });
+  }
+
+  async removeDictionary(id: number): Promise<void> {
+    await this.dictionaryDb.deleteDictionary(id);
+    runInAction(() => {
+      this.dictionaries = this.dictionaries.filter((d) => d.id !== id);
+    });
+  }
+
+  private async loadDictionaries(): Promise<void> {
+    if (this.dictionariesLoaded) return;
+    const dictionaries = await this.dictionaryDb.getDictionaries();
+    runInAction(() => {
+      this.dictionaries = dictionaries;
+      this.dictionariesLoaded = true;
+    });
+  }
+}
@@ -0,0 +1,97 @@
+import { action, makeObservable, observable, runInAction } from "mobx";
+import type {
+  Highlight,
+  HighlightDatabase,
+  NewHighlight,
+} from "../lib/HighlightDatabase";
+
+/**
+ * Highlights and notes of the open book
+ */
+export class HighlightStore {
+  highlights: Highlight[] = [];
+  bookId: number | null = null;
+  /** Highlight whose note is being edited in the sidebar */
+  editingId: number | null = null;
+  /** Highlights whose text wasn't found when their chapter last rendered */
+  missingIds: ReadonlySet<number> = new Set();
+
+  constructor(private db: HighlightDatabase) {
+    makeObservable(this, {
+      highlights: observable.ref,
+      bookId: observable,
+      editingId: observable,
+      missingIds: observable.ref,
+      load: action,
+      clear: action,
+      setEditing: action,
+      setMissing: action,
+    });
+  }
+
+  async load(bookId: number): Promise<void> {
+    this.bookId = bookId;
+    const highlights = await this.db.getHighlights(bookId);
+    runInAction(() => {
+      // A different book may have been opened meanwhile
+      if (this.bookId === bookId) this.highlights = highlights;
+    });
+  }
+
+  clear(): void {
+    this.bookId = null;
+    this.highlights = [];
+    this.editingId = null;
+    this.missingIds = new Set();
+  }
+
+  forChapter(chapterPath: string): Highlight[] {
+    return this.highlights.filter((h) => h.chapterPath === chapterPath);
+  }
+
+  async add(highlight: NewHighlight): Promise<Highlight> {
+    const saved = await this.db.addHighlight(highlight);
+    runInAction(() => {
+      if (this.bookId === saved.bookId) {
+        this.highlights = [...this.highlights, saved];
+      }
+    });
+    return saved;
+  }
+
+  async update(
+    id: number,
+    changes: Partial<Pick<Highlight, "color" | "note">>,
+  ): Promise<void> {
+    await this.db.updateHighlight(id, changes);
+    runInAction(() => {
+      this.highlights = this.highlights.map((h) =>
+        h.id === id ? { ...h, ...changes, updatedAt: Date.now() } : h,
+      );
+    });
+  }
+
+  async remove(id: number): Promise<void> {
+    await this.db.deleteHighlight(id);
+    runInAction(() => {
+      this.highlights = this.highlights.filter((h) => h.id !== id);
+      if (this.editingId === id) this.editingId = null;
+    });
+  }
+
+  setEditing(id: number | null): void {
+    this.editingId = id;
+  }
+
+  /**
+   * Record which of a chapter's highlights couldn't be placed in it
+   */
+  setMissing(chapterPath: string, ids: number[]): void {
+    const inChapter = new Set(this.forChapter(chapterPath).map((h) => h.id));
+    const next = new Set(
+      [...this.missingIds].filter((id) => !inChapter.has(id)),
+    );
+    for (const id of ids) next.add(id);
+    this.missingIds = next;
+  }
+}
@@ -0,0 +1,396 @@
+import { type DOMFile, type EPub, textOffsetOf } from "@epubdown/core";
+import {
+  action,
+  computed,
+  makeObservable,
+  observable,
+  reaction,
+  runInAction,
+} from "mobx";
+import {
+  clearSpokenText,
+  countedText,
+  findTextNear,
+  keepInView,
+  markSpokenText,
+} from "../book/highlights";
+import {
+  type LocatedClip,
+  clipAtOffset,
+  locateClips,
+} from "../lib/mediaOverlays";
+
+// Clips closer than this in the same audio play on without seeking
+const CONTIGUOUS_GAP = 0.25;
+
+export type MediaOverlayStatus = "idle" | "playing" | "paused";
+
+/** The parts of ReaderStore that narration moves through */
+export interface MediaOverlayReader {
+  readonly epub: EPub | null;
+  readonly currentChapter: DOMFile | null;
+  readonly hasNextChapter: boolean;
+  nextChapter(): void;
+}
+
+/**
+ * Plays a chapter's EPUB3 media overlay: the book's own narration, with
+ * the narrated text highlighted and reading on into the next chapter
+ */
+export class MediaOverlayStore {
+  /** Clips of the current chapter's overlay; empty when it has none */
+  clips: LocatedClip[] = [];
+  /** Clip being narrated */
+  index = 0;
+  status: MediaOverlayStatus = "idle";
+  private chapterPath: string | null = null;
+  // Rendered roots by chapter path; continuous mode renders several
+  private roots = new Map<string, HTMLElement>();
+  private marked: { root: HTMLElement; el: Element | null } | null = null;
+  private audio: HTMLAudioElement | null = null;
+  // Read from the book below: object URLs of its audio files, and the
+  // class it styles the narrated element with
+  private urls = new Map<string, string>();
+  private activeClass: string | undefined;
+  private bookEpub: EPub | null = null;
+  private awaitingNext = false;
+  private loadToken = 0;
+  private frame = 0;
+
+  constructor(
+    private reader: MediaOverlayReader,
+    private createAudio: () => HTMLAudioElement = () => new Audio(),
+  ) {
+    makeObservable<MediaOverlayStore, "advance" | "finishChapter">(this, {
+      clips: observable.ref,
+      index: observable,
+      status: observable,
+      hasOverlay: computed,
+      isActive: computed,
+      play: action,
+      pause: action,
+      toggle: action,
+      stop: action,
+      skip: action,
+      seek: action,
+      advance: action,
+      finishChapter: action,
+    });
+  }
+
+  get hasOverlay(): boolean {
+    return this.clips.length > 0;
+  }
+
+  get isActive(): boolean {
+    return this.status !== "idle";
+  }
+
+  attach(): () => void {
+    const dispose = reaction(
+      () => this.reader.currentChapter?.path ?? null,
+      (path) => void this.load(path),
+      { fireImmediately: true },
+    );
+    return () => {
+      dispose();
+      this.stop();
+      this.revokeUrls();
+      this.audio = null;
+    };
+  }
+
+  /**
+   * Register where a chapter is rendered, to mark narrated text in it
+   */
+  setContent(path: string, root: HTMLElement): void {
+    this.roots.set(path, root);
+    if (path === this.chapterPath && this.isActive) this.markCurrent();
+  }
+
+  /**
+   * Index of the clip narrating the text at `offset` in a chapter's
+   * rendering, or -1. Clips are placed where they would be marked, since
+   * Markdown rendering can shift them from their source offsets.
+   */
+  clipAtRenderedOffset(root: HTMLElement, offset: number): number {
+    const counted = countedText(root);
+    const rendered = this.clips.map((clip) => {
+      const { offsets } = this.renderedClip(root, clip, counted);
+      // Clips whose text isn't rendered can't be clicked
+      return { ...clip, ...(offsets ?? { startOffset: 0, endOffset: 0 }) };
+    });
+    return clipAtOffset(rendered, offset);
+  }
+
+  /**
+   * Forget a chapter's rendering when it unmounts
+   */
+  removeContent(path: string, root: HTMLElement): void {
+    if (this.roots.get(path) !== root) return;
+    this.roots.delete(path);
+    if (this.marked?.root === root) this.marked = null;
+  }
+
+  play(): void {
+    if (this.status === "playing" || !this.hasOverlay) return;
+    const resume = this.status === "paused";
+    this.status = "playing";
+    if (resume && this.audio) {
+      this.startAudio(this.audio);
+    } else {
+      void this.playClip(this.index);
+    }
+  }
+
+  pause(): void {
+    if (this.status !== "playing") return;
+    this.status = "paused";
+    this.audio?.pause();
+    this.stopLoop();
+  }
+
+  toggle(): void {
+    if (this.status === "playing") this.pause();
+    else this.play();
+  }
+
+  stop(): void {
+    this.audio?.pause();
+    this.stopLoop();
+    this.clearMark();
+    this.status = "idle";
+    this.awaitingNext = false;
+  }
+
+  /**
+   * Move `delta` clips forward or back
+   */
+  skip(delta: number): void {
+    if (!this.isActive || this.awaitingNext) return;
+    const index = Math.min(
+      this.clips.length - 1,
+      Math.max(0, this.index + delta),
+    );
+    void this.playClip(index);
+  }
+
+  /**
+   * Narrate from clip `index`; while paused, only move there
+   */
+  seek(index: number): void {
+    if (!this.isActive || this.awaitingNext || !this.clips[index]) return;
+    void this.playClip(index);
+  }
+
+  private async load(path: string | null): Promise<void> {
+    const token = ++this.loadToken;
+    // Opening a chapter ends narration, unless it is the one read into
+    if (!this.awaitingNext) this.stop();
+    runInAction(() => {
+      this.chapterPath = path;
+      this.clips = [];
+      this.index = 0;
+    });
+
+    const epub = this.reader.epub;
+    if (epub !== this.bookEpub) {
+      this.revokeUrls();
+      this.activeClass = epub?.mediaOverlayActiveClass();
+      this.bookEpub = epub;
+    }
+    let clips: LocatedClip[] = [];
+    if (epub && path) {
+      try {
+        const overlay = await epub.mediaOverlay(path);
+        // Rendering rewrites the chapter; locate text in a fresh copy
+        const source = overlay?.length
+          ? await epub.getChapter(path)
+          : undefined;
+        const body = source?.dom.querySelector("body");
+        if (overlay && body) clips = locateClips(body, overlay);
+      } catch (error) {
+        console.error("Failed to load media overlay:", error);
+      }
+    }
+    if (token !== this.loadToken) return;
+
+    runInAction(() => {
+      this.clips = clips;
+    });
+    if (this.awaitingNext) {
+      this.awaitingNext = false;
+      if (clips.length > 0) void this.playClip(0);
+      else this.stop();
+    }
+  }
+
+  private async playClip(index: number): Promise<void> {
+    const clip = this.clips[index];
+    if (!clip) return;
+    // The playhead is still in the old clip until the seek below
+    this.stopLoop();
+    runInAction(() => {
+      this.index = index;
+    });
+    this.markCurrent();
+
+    let url: string | undefined;
+    try {
+      url = await this.audioUrl(clip.audioPath);
+    } catch (error) {
+      console.error("Failed to read narration audio:", error);
+    }
+    // Skipped elsewhere or stopped while reading the audio
+    if (this.clips[this.index] !== clip || !this.isActive) return;
+    if (!url) {
+      this.stop();
+      return;
+    }
+    const audio = this.getAudio();
+    if (audio.src !== url) audio.src = url;
+    audio.currentTime = clip.clipBegin;
+    if (this.status === "playing") this.startAudio(audio);
+  }
+
+  private startAudio(audio: HTMLAudioElement): void {
+    audio.play().catch((error: unknown) => {
+      // Interrupted by a pause or a new source
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      console.error("Failed to play narration:", error);
+      this.stop();
+    });
+    this.stopLoop();
+    this.frame = requestAnimationFrame(this.tick);
+  }
+
+  // `timeupdate` fires a few times a second, too coarse for word clips
+  private tick = (): void => {
+    this.frame = 0;
+    const audio = this.audio;
+    if (this.status !== "playing" || !audio) return;
+    const clip = this.clips[this.index];
+    if (clip?.clipEnd != null && audio.currentTime >= clip.clipEnd) {
+      this.advance();
+    }
+    if (this.status === "playing" && !this.frame) {
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  };
+
+  private stopLoop(): void {
+    if (this.frame) cancelAnimationFrame(this.frame);
+    this.frame = 0;
+  }
+
+  private advance(): void {
+    if (this.status !== "playing" || this.awaitingNext) return;
+    const clip = this.clips[this.index];
+    const next = this.clips[this.index + 1];
+    if (!next) {
+      this.finishChapter();
+      return;
+    }
+    const audio = this.audio;
+    if (
+      clip &&
+      audio &&
+      next.audioPath === clip.audioPath &&
+      Math.abs(next.clipBegin - audio.currentTime) < CONTIGUOUS_GAP
+    ) {
+      this.index++;
+      this.markCurrent();
+    } else {
+      void this.playClip(this.index + 1);
+    }
+  }
+
+  private finishChapter(): void {
+    this.audio?.pause();
+    this.stopLoop();
+    this.clearMark();
+    if (!this.reader.hasNextChapter) {
+      this.stop();
+      return;
+    }
+    this.awaitingNext = true;
+    this.reader.nextChapter();
+  }
+
+  private markCurrent(): void {
+    this.clearMark();
+    const clip = this.clips[this.index];
+    const root = this.chapterPath ? this.roots.get(this.chapterPath) : null;
+    if (!clip || !root) return;
+
+    const { el, offsets } = this.renderedClip(root, clip);
+    const mark = offsets
+      ? markSpokenText(root, offsets.startOffset, offsets.endOffset)
+      : undefined;
+    // The book's own style for the narrated element
+    if (el && this.activeClass) el.classList.add(this.activeClass);
+    this.marked = { root, el };
+    if (mark) keepInView(mark);
+  }
+
+  // Where a clip's text is in a rendering. Ids survive rendering in HTML
+  // mode; Markdown mode keeps few, and its rendering can shift the source
+  // offsets the clip counts, so its text is found near them instead
+  private renderedClip(
+    root: HTMLElement,
+    clip: LocatedClip,
+    counted?: string,
+  ): {
+    el: Element | null;
+    offsets: { startOffset: number; endOffset: number } | null;
+  } {
+    const found = (root.getRootNode() as Document | ShadowRoot).getElementById(
+      clip.fragment,
+    );
+    const el = found && root.contains(found) ? found : null;
+    const offsets = el
+      ? {
+          startOffset: textOffsetOf(root, el, 0),
+          endOffset: textOffsetOf(root, el, el.childNodes.length),
+        }
+      : findTextNear(counted ?? countedText(root), clip.text, clip.startOffset);
+    return { el, offsets };
+  }
+
+  private clearMark(): void {
+    if (!this.marked) return;
+    const { root, el } = this.marked;
+    clearSpokenText(root);
+    if (el && this.activeClass) el.classList.remove(this.activeClass);
+    this.marked = null;
+  }
+
+  private getAudio(): HTMLAudioElement {
+    if (!this.audio) {
+      this.audio = this.createAudio();
+      this.audio.addEventListener("ended", () => this.advance());
+    }
+    return this.audio;
+  }
+
+  private async audioUrl(path: string): Promise<string | undefined> {
+    const cached = this.urls.get(path);
+    if (cached) return cached;
+    const epub = this.reader.epub;
+    if (!epub) return undefined;
+    const data = await epub.resolver.readRaw(path);
+    if (!data) {
+      console.warn(`Narration audio not found: ${path}`);
+      return undefined;
+    }
+    const type = epub.manifestByPath().get(path)?.mediaType;
+    const url = URL.createObjectURL(new Blob([new Uint8Array(data)], { type }));
+    this.urls.set(path, url);
+    return url;
+  }
+
+  private revokeUrls(): void {
+    for (const url of this.urls.values()) URL.revokeObjectURL(url);
+    this.urls.clear();
+  }
+}
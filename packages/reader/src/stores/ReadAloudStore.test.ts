@@ -0,0 +1,190 @@
+import { observable, runInAction } from "mobx";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+  SpeechCallbacks,
+  SpeechEngine,
+  SpeechRequest,
+  SpeechVoice,
+} from "../lib/SpeechEngine";
+import { type ReadAloudReader, ReadAloudStore } from "./ReadAloudStore";
+import { ReadingProgressStore } from "./ReadingProgressStore";
+
+class FakeSpeechEngine implements SpeechEngine {
+  available = true;
+  voices: SpeechVoice[] = [
+    { id: "en-1", name: "English", lang: "en-US", isDefault: true },
+  ];
+  spoken: SpeechRequest[] = [];
+  private callbacks: SpeechCallbacks | null = null;
+
+  getVoices(): SpeechVoice[] {
+    return this.voices;
+  }
+
+  onVoicesChanged(): () => void {
+    return () => {};
+  }
+
+  speak(request: SpeechRequest, callbacks: SpeechCallbacks): void {
+    this.spoken.push(request);
+    this.callbacks = callbacks;
+  }
+
+  cancel(): void {
+    this.callbacks = null;
+  }
+
+  /** Finish the utterance being spoken */
+  finish(): void {
+    const callbacks = this.callbacks;
+    this.callbacks = null;
+    callbacks?.onEnd();
+  }
+
+  get texts(): string[] {
+    return this.spoken.map((request) => request.text);
+  }
+}
+
+function content(html: string): HTMLElement {
+  const el = document.createElement("div");
+  el.innerHTML = html;
+  document.body.appendChild(el);
+  return el;
+}
+
+function spokenMarks(): string {
+  return Array.from(
+    document.querySelectorAll("mark[data-spoken]"),
+    (mark) => mark.textContent,
+  ).join("");
+}
+
+describe("ReadAloudStore", () => {
+  let engine: FakeSpeechEngine;
+  let progress: ReadingProgressStore;
+  let reader: ReadAloudReader & {
+    currentChapterIndex: number;
+    hasNextChapter: boolean;
+  };
+  let store: ReadAloudStore;
+  let detach: () => void;
+
+  beforeEach(() => {
+    localStorage.clear();
+    Element.prototype.scrollIntoView = vi.fn();
+    engine = new FakeSpeechEngine();
+    progress = new ReadingProgressStore();
+    reader = observable(
+      {
+        currentChapterIndex: 0,
+        hasNextChapter: true,
+        metadata: { language: "en" },
+        nextChapter: vi.fn(),
+      },
+      { nextChapter: false },
+    );
+    store = new ReadAloudStore(reader, progress, engine);
+    detach = store.attach();
+  });
+
+  afterEach(() => {
+    detach();
+    document.body.innerHTML = "";
+  });
+
+  it("reads from the block at the reading line, marking each sentence", () => {
+    progress.setup(
+      content("<p>Skipped.</p><p>First one. Second <em>one</em>.</p>"),
+    );
+    progress.setCurrentBlockIndex(1);
+
+    store.play();
+    expect(store.status).toBe("playing");
+    expect(engine.texts).toEqual(["First one."]);
+    expect(spokenMarks()).toBe("First one.");
+
+    engine.finish();
+    expect(engine.texts).toEqual(["First one.", "Second one."]);
+    expect(spokenMarks()).toBe("Second one.");
+    expect(store.voices).toEqual(engine.voices);
+  });
+
+  it("reads list items apart", () => {
+    progress.setup(content("<ul><li>Eggs</li><li>Milk</li></ul>"));
+    store.play();
+    engine.finish();
+    expect(engine.texts).toEqual(["Eggs", "Milk"]);
+  });
+
+  it("pauses, resumes from the sentence's start and skips", () => {
+    progress.setup(content("<p>One. Two. Three.</p>"));
+    store.play();
+    store.pause();
+    expect(store.status).toBe("paused");
+    // A cancelled utterance doesn't move on
+    engine.finish();
+    expect(engine.texts).toEqual(["One."]);
+
+    store.play();
+    expect(engine.texts).toEqual(["One.", "One."]);
+    store.skip(1);
+    store.skip(1);
+    store.skip(-1);
+    expect(engine.texts).toEqual(["One.", "One.", "Two.", "Three.", "Two."]);
+  });
+
+  it("reads on into the next chapter", async () => {
+    progress.setup(content("<p>Last sentence.</p>"));
+    store.play();
+    engine.finish();
+    expect(reader.nextChapter).toHaveBeenCalledOnce();
+    expect(spokenMarks()).toBe("");
+
+    runInAction(() => {
+      reader.currentChapterIndex = 1;
+    });
+    expect(store.status).toBe("playing");
+    progress.setup(content("<h1>Chapter 2</h1><p>Opening.</p>"));
+    await Promise.resolve();
+    expect(engine.texts).toEqual(["Last sentence.", "Chapter 2"]);
+  });
+
+  it("stops at the end of the book", () => {
+    runInAction(() => {
+      reader.hasNextChapter = false;
+    });
+    progress.setup(content("<p>The end.</p>"));
+    store.play();
+    engine.finish();
+    expect(store.status).toBe("idle");
+    expect(reader.nextChapter).not.toHaveBeenCalled();
+  });
+
+  it("stops when another chapter is opened", () => {
+    progress.setup(content("<p>One. Two.</p>"));
+    store.play();
+    runInAction(() => {
+      reader.currentChapterIndex = 4;
+    });
+    expect(store.status).toBe("idle");
+    expect(spokenMarks()).toBe("");
+  });
+
+  it("applies and remembers the rate and voice", () => {
+    progress.setup(content("<p>One. Two.</p>"));
+    store.play();
+    store.setRate(1.5);
+    store.setVoice("en-1");
+    expect(engine.spoken.at(-1)).toMatchObject({
+      text: "One.",
+      rate: 1.5,
+      voiceId: "en-1",
+      lang: "en",
+    });
+
+    const next = new ReadAloudStore(reader, progress, engine);
+    expect(next.rate).toBe(1.5);
+    expect(next.voiceId).toBe("en-1");
+  });
+});
@@ -0,0 +1,320 @@
+import { extractText } from "@epubdown/core";
+import { action, computed, makeObservable, observable, reaction } from "mobx";
+import {
+  clearSpokenText,
+  keepInView,
+  markSpokenText,
+} from "../book/highlights";
+import type { SpeechEngine, SpeechVoice } from "../lib/SpeechEngine";
+import { type Sentence, splitSentences } from "../lib/sentences";
+import type { ReadingProgressStore } from "./ReadingProgressStore";
+
+const READ_ALOUD_STORAGE_KEY = "epubdown:read-aloud";
+
+export const RATE_RANGE = { min: 0.5, max: 2, step: 0.25 } as const;
+
+export type ReadAloudStatus = "idle" | "playing" | "paused";
+
+/** The parts of ReaderStore that reading aloud moves through */
+export interface ReadAloudReader {
+  readonly currentChapterIndex: number;
+  readonly hasNextChapter: boolean;
+  readonly metadata: { language?: string };
+  nextChapter(): void;
+}
+
+interface QueuedSentence extends Sentence {
+  /** Element the sentence's offsets count from */
+  root: Element;
+}
+
+// Parts of a block read on their own, so list items and table cells
+// without closing punctuation don't run together
+const SPEECH_UNITS =
+  "p, li, dt, dd, td, th, h1, h2, h3, h4, h5, h6, pre, figcaption";
+
+function speechUnits(block: Element): Element[] {
+  if (block.matches(SPEECH_UNITS)) return [block];
+  const units = Array.from(block.querySelectorAll(SPEECH_UNITS)).filter(
+    (el) => {
+      const outer = el.parentElement?.closest(SPEECH_UNITS);
+      return !outer || !block.contains(outer);
+    },
+  );
+  return units.length > 0 ? units : [block];
+}
+
+interface ReadAloudPrefs {
+  rate: number;
+  voiceId: string | null;
+}
+
+function loadPrefs(): ReadAloudPrefs {
+  const prefs: ReadAloudPrefs = { rate: 1, voiceId: null };
+  try {
+    const raw = JSON.parse(localStorage.getItem(READ_ALOUD_STORAGE_KEY) ?? "");
+    if (typeof raw?.rate === "number") prefs.rate = clampRate(raw.rate);
+    if (typeof raw?.voiceId === "string") prefs.voiceId = raw.voiceId;
+  } catch {
+    // Defaults
+  }
+  return prefs;
+}
+
+function clampRate(rate: number): number {
+  return Math.min(RATE_RANGE.max, Math.max(RATE_RANGE.min, rate));
+}
+
+/**
+ * Reads the chapter aloud sentence by sentence, starting from the block at
+ * the reading line, highlighting each sentence as it is spoken and reading
+ * on into the next chapter.
+ *
+ * Sentences come from the blocks ReadingProgressStore tracks, so reading
+ * aloud needs Markdown mode.
+ */
+export class ReadAloudStore {
+  status: ReadAloudStatus = "idle";
+  rate: number;
+  voiceId: string | null;
+  voices: SpeechVoice[] = [];
+  private sentences: QueuedSentence[] = [];
+  private position = 0;
+  private chapterIndex: number | null = null;
+  // Chapter opened to read on into; reading resumes once it is set up
+  private awaitingChapter: number | null = null;
+  // Element holding the marks of the sentence being read
+  private marked: Element | null = null;
+
+  constructor(
+    private reader: ReadAloudReader,
+    private progress: ReadingProgressStore,
+    private engine: SpeechEngine,
+  ) {
+    const prefs = loadPrefs();
+    this.rate = prefs.rate;
+    this.voiceId = prefs.voiceId;
+    makeObservable<ReadAloudStore, "finishChapter" | "advance">(this, {
+      status: observable,
+      rate: observable,
+      voiceId: observable,
+      voices: observable.ref,
+      isActive: computed,
+      attach: action,
+      play: action,
+      pause: action,
+      toggle: action,
+      stop: action,
+      skip: action,
+      setRate: action,
+      setVoice: action,
+      finishChapter: action,
+      advance: action,
+    });
+  }
+
+  get available(): boolean {
+    return this.engine.available;
+  }
+
+  get isActive(): boolean {
+    return this.status !== "idle";
+  }
+
+  attach(): () => void {
+    const loadVoices = action(() => {
+      this.voices = this.engine.getVoices();
+    });
+    loadVoices();
+    const disposeVoices = this.engine.onVoicesChanged(loadVoices);
+
+    this.progress.setContentListener(() => this.startAwaitedChapter());
+    // Opening another chapter stops reading, unless it is the one read into
+    const disposeReaction = reaction(
+      () => this.reader.currentChapterIndex,
+      (index) => {
+        if (
+          this.isActive &&
+          index !== this.chapterIndex &&
+          index !== this.awaitingChapter
+        ) {
+          this.stop();
+        }
+      },
+    );
+
+    return () => {
+      disposeVoices();
+      disposeReaction();
+      this.progress.setContentListener(null);
+      this.stop();
+    };
+  }
+
+  /**
+   * Start reading from the block at the reading line, or resume
+   */
+  play(): void {
+    if (this.status === "playing") return;
+    if (this.status === "paused") {
+      this.status = "playing";
+      this.speakCurrent();
+      return;
+    }
+    const blocks = this.progress.getBlocks();
+    if (blocks.length === 0) return;
+    this.chapterIndex = this.reader.currentChapterIndex;
+    this.status = "playing";
+    this.readBlocks(blocks.slice(this.progress.getCurrentBlockIndex() ?? 0));
+  }
+
+  // Engines' own pause is unreliable on some platforms; pausing stops the
+  // sentence and resuming speaks it again from its start
+  pause(): void {
+    if (this.status !== "playing") return;
+    this.status = "paused";
+    this.engine.cancel();
+  }
+
+  toggle(): void {
+    if (this.status === "playing") this.pause();
+    else this.play();
+  }
+
+  stop(): void {
+    this.engine.cancel();
+    this.clearMark();
+    this.status = "idle";
+    this.sentences = [];
+    this.position = 0;
+    this.chapterIndex = null;
+    this.awaitingChapter = null;
+  }
+
+  /**
+   * Move `delta` sentences forward or back
+   */
+  skip(delta: number): void {
+    if (!this.isActive || this.awaitingChapter !== null) return;
+    const position = Math.max(0, this.position + delta);
+    if (position >= this.sentences.length) {
+      this.engine.cancel();
+      this.finishChapter();
+      return;
+    }
+    this.position = position;
+    if (this.status === "playing") this.speakCurrent();
+    else this.markCurrent();
+  }
+
+  setRate(rate: number): void {
+    this.rate = clampRate(rate);
+    this.savePrefs();
+    if (this.status === "playing") this.speakCurrent();
+  }
+
+  setVoice(voiceId: string | null): void {
+    this.voiceId = voiceId;
+    this.savePrefs();
+    if (this.status === "playing") this.speakCurrent();
+  }
+
+  private readBlocks(blocks: Element[]): void {
+    const locale = this.reader.metadata.language;
+    this.sentences = blocks.flatMap(speechUnits).flatMap((root) =>
+      splitSentences(extractText(root), locale).map((sentence) => ({
+        ...sentence,
+        root,
+      })),
+    );
+    this.position = 0;
+    if (this.sentences.length === 0) this.finishChapter();
+    else if (this.status === "playing") this.speakCurrent();
+    else this.markCurrent();
+  }
+
+  private speakCurrent(): void {
+    const sentence = this.markCurrent();
+    if (!sentence) return;
+    this.engine.speak(
+      {
+        text: sentence.text,
+        rate: this.rate,
+        voiceId: this.voiceId,
+        lang: this.reader.metadata.language,
+      },
+      {
+        onEnd: () => this.advance(),
+        onError: (error) => {
+          console.error("Read aloud failed:", error);
+          this.stop();
+        },
+      },
+    );
+  }
+
+  private markCurrent(): QueuedSentence | undefined {
+    this.clearMark();
+    const sentence = this.sentences[this.position];
+    if (!sentence) return undefined;
+    this.marked = sentence.root;
+    const mark = markSpokenText(
+      sentence.root,
+      sentence.startOffset,
+      sentence.endOffset,
+    );
+    if (mark) keepInView(mark);
+    return sentence;
+  }
+
+  private clearMark(): void {
+    if (this.marked) clearSpokenText(this.marked);
+    this.marked = null;
+  }
+
+  private advance(): void {
+    if (this.status !== "playing") return;
+    if (this.position + 1 < this.sentences.length) {
+      this.position++;
+      this.speakCurrent();
+    } else {
+      this.finishChapter();
+    }
+  }
+
+  private finishChapter(): void {
+    this.clearMark();
+    this.sentences = [];
+    if (!this.reader.hasNextChapter) {
+      this.stop();
+      return;
+    }
+    this.awaitingChapter = this.reader.currentChapterIndex + 1;
+    this.reader.nextChapter();
+  }
+
+  private startAwaitedChapter(): void {
+    const index = this.awaitingChapter;
+    if (index === null || this.reader.currentChapterIndex !== index) return;
+    this.awaitingChapter = null;
+    this.chapterIndex = index;
+    // Set up during render; read once the chapter has settled
+    queueMicrotask(
+      action(() => {
+        if (this.chapterIndex !== index || !this.isActive) return;
+        this.readBlocks(this.progress.getBlocks());
+      }),
+    );
+  }
+
+  private savePrefs(): void {
+    try {
+      localStorage.setItem(
+        READ_ALOUD_STORAGE_KEY,
+        JSON.stringify({ rate: this.rate, voiceId: this.voiceId }),
+      );
+    } catch {
+      // Storage full or unavailable; the preference lasts for the session
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { debounce } from "lodash";
+import type { DebouncedFunc } from "lodash";
+import {
+  action,
+  computed,
+  makeObservable,
+  observable,
+  runInAction,
+} from "mobx";
+import type { ReaderSettingsDatabase } from "../lib/ReaderSettingsDatabase";
+import {
+  DEFAULT_READER_SETTINGS,
+  type ReaderLayout,
+  type ReaderSettings,
+  sanitizeSettings,
+} from "../lib/readerSettings";
+
+const SETTINGS_STORAGE_KEY = "epubdown:reader-settings";
+// Sliders update on every step; the book's row is written once they settle
+const SAVE_OVERRIDES_DELAY_MS = 500;
+
+function loadGlobalSettings(): ReaderSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return {
+      ...DEFAULT_READER_SETTINGS,
+      ...(raw ? sanitizeSettings(JSON.parse(raw)) : {}),
+    };
+  } catch {
+    return { ...DEFAULT_READER_SETTINGS };
+  }
+}
+
+/**
+ * Typography and theme of the reader: global settings, optionally
+ * overridden for the open book
+ */
+export class ReaderSettingsStore {
+  global: ReaderSettings = loadGlobalSettings();
+  /** Settings the open book overrides; null when it follows the globals */
+  bookOverrides: Partial<ReaderSettings> | null = null;
+  bookId: number | null = null;
+  /** Families of the fonts embedded in the open book */
+  bookFonts: string[] = [];
+
+  private saveOverridesDebounced: DebouncedFunc<
+    (bookId: number, overrides: Partial<ReaderSettings>) => void
+  >;
+
+  constructor(private db: ReaderSettingsDatabase) {
+    this.saveOverridesDebounced = debounce(
+      (bookId: number, overrides: Partial<ReaderSettings>) => {
+        db.saveOverrides(bookId, overrides).catch((error) => {
+          console.warn("Failed to save book reader settings:", error);
+        });
+      },
+      SAVE_OVERRIDES_DELAY_MS,
+    );
+    makeObservable(this, {
+      global: observable.ref,
+      bookOverrides: observable.ref,
+      bookId: observable,
+      bookFonts: observable.ref,
+      settings: computed,
+      layout: computed,
+      hasBookOverrides: computed,
+      load: action,
+      clear: action,
+      setBookFonts: action,
+      update: action,
+      setUseBookOverrides: action,
+      resetToDefaults: action,
+    });
+  }
+
+  /** Settings in effect for the open book */
+  get settings(): ReaderSettings {
+    return { ...this.global, ...this.bookOverrides };
+  }
+
+  /**
+   * Layout in effect, apart from `settings` so that views switching on it
+   * don't re-render as the other settings change
+   */
+  get layout(): ReaderLayout {
+    return this.settings.layout;
+  }
+
+  get hasBookOverrides(): boolean {
+    return this.bookOverrides !== null;
+  }
+
+  async load(bookId: number): Promise<void> {
+    this.saveOverridesDebounced.flush();
+    this.bookId = bookId;
+    this.bookOverrides = null;
+    const overrides = await this.db.getOverrides(bookId);
+    runInAction(() => {
+      // A different book may have been opened meanwhile
+      if (this.bookId === bookId) this.bookOverrides = overrides;
+    });
+  }
+
+  clear(): void {
+    // Save the overrides of the book being closed
+    this.saveOverridesDebounced.flush();
+    this.bookId = null;
+    this.bookOverrides = null;
+    this.bookFonts = [];
+  }
+
+  setBookFonts(families: string[]): void {
+    this.bookFonts = families;
+  }
+
+  /**
+   * Change settings for the open book if it has overrides, else globally
+   */
+  update(patch: Partial<ReaderSettings>): void {
+    if (this.bookOverrides !== null && this.bookId !== null) {
+      this.bookOverrides = { ...this.bookOverrides, ...patch };
+      this.saveOverridesDebounced(this.bookId, this.bookOverrides);
+    } else {
+      this.global = { ...this.global, ...patch };
+      this.saveGlobal();
+    }
+  }
+
+  /**
+   * Start overriding settings for the open book, from the current ones, or
+   * drop its overrides
+   */
+  setUseBookOverrides(enabled: boolean): void {
+    const bookId = this.bookId;
+    if (bookId === null || enabled === this.hasBookOverrides) return;
+    if (enabled) {
+      this.bookOverrides = {};
+      this.saveOverridesDebounced(bookId, {});
+    } else {
+      this.bookOverrides = null;
+      // A pending save would bring the overrides back
+      this.saveOverridesDebounced.cancel();
+      this.db.deleteOverrides(bookId).catch((error) => {
+        console.warn("Failed to delete book reader settings:", error);
+      });
+    }
+  }
+
+  /**
+   * Reset whichever settings `update` would change
+   */
+  resetToDefaults(): void {
+    if (this.bookOverrides !== null && this.bookId !== null) {
+      this.bookOverrides = {};
+      this.saveOverridesDebounced(this.bookId, {});
+    } else {
+      this.global = { ...DEFAULT_READER_SETTINGS };
+      this.saveGlobal();
+    }
+  }
+
+  private saveGlobal(): void {
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.global));
+    } catch {
+      // Storage may be unavailable (private mode); keep the in-memory choice
+    }
+  }
+}
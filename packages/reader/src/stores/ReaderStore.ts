@@ -1,26 +1,121 @@
 import {
   ContentToMarkdown,
+  type ConversionOptions,
+  type ConversionPlugin,
   type DOMFile,
   EPub,
   type FlatNavItem,
+  type PageTarget,
+  type SearchHit,
+  extractText,
   normalizePath,
 } from "@epubdown/core";
+import { type DebouncedFunc, debounce } from "lodash";
 import {
   action,
   computed,
   makeObservable,
   observable,
+  reaction,
   runInAction,
 } from "mobx";
 import type { CommandPaletteStore } from "../../command/CommandPaletteStore";
 import type { Command } from "../../command/types";
 import type { AppEventSystem } from "../app/context";
+import { textRangeCfi } from "../book/cfiPositions";
+import {
+  countedText,
+  findHighlightRoot,
+  findTextNear,
+  highlightElementId,
+  rangeTextOffsets,
+} from "../book/highlights";
+import type { Bookmark } from "../lib/BookmarkDatabase";
+import {
+  HIGHLIGHT_COLORS,
+  type Highlight,
+  type HighlightColor,
+} from "../lib/HighlightDatabase";
+import type {
+  NewReadingPosition,
+  ReadingPosition,
+} from "../lib/ReadingPositionDatabase";
+import { WebSpeechEngine } from "../lib/SpeechEngine";
+import { embeddedFontFamilies } from "../lib/bookFonts";
+import type { ReaderLayout } from "../lib/readerSettings";
+import { countWords } from "../lib/readingStats";
+import { readerConversionPlugins } from "../markdown/conversionPlugins";
 import { ReaderTemplateContext } from "../templates/ReaderTemplateContext";
-import type { ReaderTemplates } from "../templates/Template";
-import { copyToClipboard } from "../utils/selectionUtils";
+import type { ReaderTemplates, Template } from "../templates/Template";
+import { findFragmentTarget } from "../utils/findFragmentTarget";
+import {
+  contextSentence,
+  copyToClipboard,
+  getSelectionContext,
+  isSingleWord,
+} from "../utils/selectionUtils";
 import type { BookLibraryStore } from "./BookLibraryStore";
+import { BookmarkStore } from "./BookmarkStore";
+import { ChatStore } from "./ChatStore";
+import { DictionaryStore } from "./DictionaryStore";
+import { HighlightStore } from "./HighlightStore";
+import { MediaOverlayStore } from "./MediaOverlayStore";
+import { ReadAloudStore } from "./ReadAloudStore";
+import { ReaderSettingsStore } from "./ReaderSettingsStore";
+import type { ReadingProgressStore } from "./ReadingProgressStore";
+import { ReadingSessionTracker } from "./ReadingSessionTracker";
+import { SearchStore } from "./SearchStore";
+
+export type NavigateFunction = (
+  path: string,
+  options?: { replace?: boolean },
+) => void;
+
+export type SidebarPanel =
+  | "contents"
+  | "search"
+  | "bookmarks"
+  | "highlights"
+  | "vocabulary"
+  | "settings";
+
+export interface HighlightGroup {
+  chapterIndex: number;
+  title: string;
+  highlights: Highlight[];
+}
 
-export type NavigateFunction = (path: string) => void;
+export interface SearchHitGroup {
+  chapterIndex: number;
+  title: string;
+  hits: SearchHit[];
+}
+
+const MERGE_HEADINGS_STORAGE_KEY = "epubdown:toc-merge-headings";
+// Reading positions change with every scrolled paragraph; save them in pauses
+const SAVE_POSITION_DELAY_MS = 1000;
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+const LAYOUT_COMMANDS: Record<ReaderLayout, string> = {
+  scroll: "Scroll through chapters",
+  paginated: "Turn pages",
+  continuous: "Scroll continuously across chapters",
+};
+
+function loadMergeHeadings(): boolean {
+  try {
+    return localStorage.getItem(MERGE_HEADINGS_STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+}
 
 export class ReaderStore {
   // EPub state
@@ -32,26 +127,76 @@ export class ReaderStore {
 
   // UI state
   isSidebarOpen = false;
+  sidebarPanel: SidebarPanel = "contents";
   useHtmlMode =
     new URLSearchParams(window.location.search).get("mode") === "html";
   private popoverRef: HTMLElement | null = null;
+  // URL set by followChapter, which the router echoes back
+  private followedPath: string | null = null;
 
   // Dependencies
   private navigate: NavigateFunction | null = null;
 
   // Cached state
   tocInfo: { navItems: FlatNavItem[] } | null = null;
+  // Nest chapter headings into publisher TOCs that skip chapters
+  mergeHeadingsIntoToc = loadMergeHeadings();
+  // Print page labels from the book's page list, in reading order
+  pageList: PageTarget[] = [];
   private labelByIndex: Map<number, string> = new Map();
 
   private templateContext: ReaderTemplateContext;
 
+  // Markdown conversion plugins, passed through to ContentToMarkdown
+  conversionPlugins: ConversionPlugin[] = readerConversionPlugins;
+
+  readonly highlightStore: HighlightStore;
+  readonly bookmarkStore: BookmarkStore;
+  readonly dictionaryStore: DictionaryStore;
+  readonly chat: ChatStore;
+  readonly searchStore = new SearchStore();
+  readonly sessionTracker: ReadingSessionTracker;
+  readonly settingsStore: ReaderSettingsStore;
+  readonly readAloud: ReadAloudStore;
+  readonly mediaOverlay: MediaOverlayStore;
+  private savePositionDebounced: DebouncedFunc<
+    (position: NewReadingPosition) => void
+  >;
+
   constructor(
     private bookLibraryStore: BookLibraryStore,
     private events: AppEventSystem,
     private palette: CommandPaletteStore,
     private templates: ReaderTemplates,
+    private readingProgress: ReadingProgressStore,
   ) {
     this.templateContext = new ReaderTemplateContext(this, palette);
+    this.highlightStore = new HighlightStore(bookLibraryStore.highlightDb);
+    this.bookmarkStore = new BookmarkStore(bookLibraryStore.bookmarkDb);
+    this.dictionaryStore = new DictionaryStore(
+      bookLibraryStore.dictionaryDb,
+      bookLibraryStore.vocabularyDb,
+    );
+    this.chat = new ChatStore(bookLibraryStore.chatDb);
+    this.sessionTracker = new ReadingSessionTracker(bookLibraryStore.sessionDb);
+    this.settingsStore = new ReaderSettingsStore(
+      bookLibraryStore.readerSettingsDb,
+    );
+    this.readAloud = new ReadAloudStore(
+      this,
+      readingProgress,
+      new WebSpeechEngine(),
+    );
+    this.mediaOverlay = new MediaOverlayStore(this);
+    this.savePositionDebounced = debounce((position: NewReadingPosition) => {
+      bookLibraryStore.saveReadingPosition(position).catch((error) => {
+        console.warn("Failed to save reading position:", error);
+      });
+    }, SAVE_POSITION_DELAY_MS);
+    readingProgress.setPositionListener((blockIndex, blockCount) => {
+      this.recordPosition(blockIndex, blockCount);
+      this.sessionTracker.recordPosition(blockIndex, blockCount);
+    });
 
     makeObservable(this, {
       epub: observable,
@@ -60,8 +205,13 @@ export class ReaderStore {
       currentChapterIndex: observable,
       currentBookId: observable,
       isSidebarOpen: observable,
+      sidebarPanel: observable,
       useHtmlMode: observable,
       tocInfo: observable.ref,
+      conversionPlugins: observable.ref,
+      pageList: observable.ref,
+      mergeHeadingsIntoToc: observable,
+      setMergeHeadingsIntoToc: action,
       handleLoadBook: action,
       setChapter: action,
       nextChapter: action,
@@ -70,9 +220,12 @@ export class ReaderStore {
       loadBookAndChapter: action,
       setSidebarOpen: action,
       toggleSidebar: action,
+      setSidebarPanel: action,
       setHtmlMode: action,
+      setConversionPlugins: action,
       handleUrlChange: action,
       handleChapterChange: action,
+      followChapter: action,
       handleTocChapterSelect: action,
       updatePageTitle: action,
       currentChapter: computed,
@@ -80,7 +233,50 @@ export class ReaderStore {
       hasPreviousChapter: computed,
       currentChapterTitle: computed,
       navItems: computed,
+      currentChapterPages: computed,
+      highlightGroups: computed,
+      searchGroups: computed,
+      openSearch: action,
+      openSettings: action,
     });
+
+    // Narration and reading aloud mark the same text; one at a time
+    reaction(
+      () => this.mediaOverlay.isActive,
+      (active) => {
+        if (active) this.readAloud.stop();
+      },
+    );
+    reaction(
+      () => this.readAloud.isActive,
+      (active) => {
+        if (active) this.mediaOverlay.stop();
+      },
+    );
+
+    // The assistant panel shows the open chapter's conversation
+    reaction(
+      () => [this.currentBookId, this.currentChapter?.path] as const,
+      ([bookId, path]) => {
+        if (bookId !== null && path) void this.chat.load(bookId, path);
+      },
+    );
+
+    // Each chapter opened is its own reading session
+    reaction(
+      () => [this.currentBookId, this.currentChapter] as const,
+      ([bookId, chapter]) => {
+        if (bookId === null || !chapter) {
+          this.sessionTracker.end();
+          return;
+        }
+        this.sessionTracker.startChapter(
+          bookId,
+          this.currentChapterIndex,
+          countWords(extractText(chapter.dom.body ?? chapter.dom)),
+        );
+      },
+    );
   }
 
   setNavigate(navigate: NavigateFunction): void {
@@ -119,6 +315,20 @@ export class ReaderStore {
           when: () => !!this.currentChapter,
           run: () => this.copySelectionWithContext(),
         },
+        {
+          id: "reader.addBookmark",
+          event: { kind: "key", combo: "meta+d" },
+          layer: "view:reader",
+          when: () => !!this.currentChapter,
+          run: () => this.addBookmark(),
+        },
+        {
+          id: "reader.search",
+          event: { kind: "key", combo: "meta+shift+f" },
+          layer: "view:reader",
+          when: () => !!this.epub,
+          run: () => this.openSearch(),
+        },
         {
           id: "reader.toggleSidebar",
           event: { kind: "key", combo: "meta+shift+s" },
@@ -135,7 +345,7 @@ export class ReaderStore {
             if (payload.kind !== "textSelect") return;
             const selected = payload.text.trim();
             if (!selected) return;
-            const cmds = this.buildSelectionCommands(selected);
+            const cmds = this.buildSelectionCommands(selected, payload.range);
             this.palette.openSelection(cmds, { range: payload.range });
           },
         },
@@ -192,16 +402,26 @@ export class ReaderStore {
     if (!this.epub || this.tocInfo) return;
     this.tocInfo = await this.getTocInfo();
 
+    const pageList = await this.epub.toc.pageList();
+    runInAction(() => {
+      this.pageList = pageList;
+    });
+
     // Build the spine-index → label cache
     if (this.tocInfo) {
       const { navItems } = this.tocInfo;
       this.labelByIndex.clear();
 
+      // The shallowest entry for a chapter names it; with headings in the
+      // TOC the last entry is usually a subsection
+      const levelByIndex = new Map<number, number>();
       for (const navItem of navItems) {
         const chapterIndex = this.findChapterIndexByPath(navItem.path);
-        if (chapterIndex !== -1) {
-          this.labelByIndex.set(chapterIndex, navItem.label);
-        }
+        if (chapterIndex === -1) continue;
+        const level = levelByIndex.get(chapterIndex);
+        if (level !== undefined && level <= navItem.level) continue;
+        levelByIndex.set(chapterIndex, navItem.level);
+        this.labelByIndex.set(chapterIndex, navItem.label);
       }
     }
   }
@@ -221,6 +441,12 @@ export class ReaderStore {
       this.chapters = chapterArray;
       this.metadata = epub.metadata.toJSON();
     });
+    this.searchStore.setBook(epub);
+    embeddedFontFamilies(epub)
+      .then((families) => this.settingsStore.setBookFonts(families))
+      .catch((error) => {
+        console.warn("Failed to read embedded fonts:", error);
+      });
 
     // Load TOC once per book
     await this.loadTocOnce();
@@ -235,19 +461,31 @@ export class ReaderStore {
   async setChapter(index: number) {
     if (index >= 0 && index < this.chapters.length) {
       this.currentChapterIndex = index;
+      // Leaving the chapter of the search hit drops its mark
+      const { activeHit } = this.searchStore;
+      if (activeHit && activeHit.path !== this.chapters[index]?.path) {
+        this.searchStore.setActiveHit(null);
+      }
       // Update page title when chapter changes
       this.updatePageTitle();
     }
   }
 
+  // Through the URL when routed, so the address bar follows
   nextChapter() {
-    if (this.currentChapterIndex < this.chapters.length - 1) {
+    if (this.currentChapterIndex >= this.chapters.length - 1) return;
+    if (this.currentBookId && this.navigate) {
+      this.handleChapterChange(this.currentChapterIndex + 1);
+    } else {
       this.currentChapterIndex++;
     }
   }
 
   previousChapter() {
-    if (this.currentChapterIndex > 0) {
+    if (this.currentChapterIndex <= 0) return;
+    if (this.currentBookId && this.navigate) {
+      this.handleChapterChange(this.currentChapterIndex - 1);
+    } else {
       this.currentChapterIndex--;
     }
   }
@@ -294,6 +532,8 @@ export class ReaderStore {
   }
 
   reset() {
+    // Save the position in the book being closed before its state goes
+    this.savePositionDebounced.flush();
     this.epub = null;
     this.currentChapterIndex = 0;
     this.chapters = [];
@@ -301,7 +541,16 @@ export class ReaderStore {
     this.currentBookId = null;
     this.isSidebarOpen = false;
     this.tocInfo = null;
+    this.pageList = [];
     this.labelByIndex.clear();
+    this.highlightStore.clear();
+    this.bookmarkStore.clear();
+    this.dictionaryStore.clear();
+    this.chat.clear();
+    this.searchStore.clear();
+    this.settingsStore.clear();
+    this.readAloud.stop();
+    this.mediaOverlay.stop();
   }
 
   // UI state management
@@ -313,6 +562,312 @@ export class ReaderStore {
     this.isSidebarOpen = !this.isSidebarOpen;
   }
 
+  setSidebarPanel(panel: SidebarPanel) {
+    this.sidebarPanel = panel;
+  }
+
+  openSearch() {
+    this.sidebarPanel = "search";
+    this.isSidebarOpen = true;
+  }
+
+  openSettings() {
+    this.sidebarPanel = "settings";
+    this.isSidebarOpen = true;
+  }
+
+  async setMergeHeadingsIntoToc(on: boolean): Promise<void> {
+    this.mergeHeadingsIntoToc = on;
+    try {
+      localStorage.setItem(MERGE_HEADINGS_STORAGE_KEY, String(on));
+    } catch {
+      // Storage may be unavailable (private mode); keep the in-memory choice
+    }
+    // Rebuild the TOC for the open book
+    this.tocInfo = null;
+    await this.loadTocOnce();
+  }
+
+  setConversionPlugins(plugins: ConversionPlugin[]) {
+    this.conversionPlugins = plugins;
+  }
+
+  /**
+   * Markdown converter for a chapter, with the reader's conversion plugins
+   * followed by any given in `options`
+   */
+  createConverter(
+    chapter: DOMFile,
+    options?: Omit<ConversionOptions, "basePath">,
+  ): ContentToMarkdown {
+    return ContentToMarkdown.create({
+      ...options,
+      basePath: chapter.base,
+      plugins: [...this.conversionPlugins, ...(options?.plugins ?? [])],
+    });
+  }
+
+  /**
+   * Page-list entries whose page break lies in the given chapter
+   */
+  pagesForChapter(path: string): PageTarget[] {
+    return this.pageList.filter((page) => page.path === path);
+  }
+
+  get currentChapterPages(): PageTarget[] {
+    const current = this.currentChapter;
+    return current ? this.pagesForChapter(current.path) : [];
+  }
+
+  /**
+   * Label of the print page that was open when the given chapter began,
+   * i.e. the last page break before it in reading order
+   */
+  pageLabelBeforeChapter(index: number): string | undefined {
+    let label: string | undefined;
+    for (const page of this.pageList) {
+      const pageChapter = this.findChapterIndexByPath(page.path);
+      if (pageChapter === -1 || pageChapter >= index) continue;
+      label = page.label;
+    }
+    return label;
+  }
+
+  /**
+   * Navigate to a print page by its label (e.g. "137"), as cited from the
+   * paper edition. Returns false when the book has no such page.
+   */
+  goToPage(label: string): boolean {
+    const wanted = label.trim().toLowerCase();
+    const page = this.pageList.find(
+      (p) => p.label.trim().toLowerCase() === wanted,
+    );
+    if (!page) return false;
+
+    const chapterIndex = this.findChapterIndexByPath(page.path);
+    if (chapterIndex === -1) return false;
+
+    if (chapterIndex === this.currentChapterIndex && page.id) {
+      // Same chapter: the route does not change, so scroll directly
+      findFragmentTarget(page.id)?.scrollIntoView({ behavior: "smooth" });
+      return true;
+    }
+    this.handleTocChapterSelect(
+      page.id ? `${page.path}#${page.id}` : page.path,
+    );
+    return true;
+  }
+
+  /**
+   * Open the palette on the book's print pages, so typing a page label
+   * filters down to it
+   */
+  private openPagePalette(): void {
+    this.palette.openPalette(
+      this.pageList.map((page) => ({
+        id: `reader.goToPage.${page.label}`,
+        label: `Page ${page.label}`,
+        category: "Pages",
+        keywords: [page.label],
+        action: () => {
+          this.goToPage(page.label);
+        },
+      })),
+    );
+  }
+
+  /**
+   * Highlight the selected range in the current chapter. With `withNote`,
+   * the sidebar opens on the new highlight's note.
+   */
+  async highlightSelection(
+    range: Range,
+    color: HighlightColor,
+    withNote = false,
+  ): Promise<void> {
+    const chapter = this.currentChapter;
+    const bookId = this.currentBookId;
+    if (!this.epub || !chapter || bookId === null) return;
+
+    const root = findHighlightRoot(range.startContainer);
+    if (!root?.contains(range.endContainer)) return;
+    const { startOffset, endOffset } = rangeTextOffsets(root, range);
+    if (endOffset <= startOffset) return;
+
+    const quote = range.toString().trim();
+
+    // The rendered chapter is anchored to a fresh copy of its source, where
+    // the quote may sit at other offsets than in rendered Markdown
+    const source = await this.epub.getChapter(chapter.path);
+    if (!source) return;
+    const inSource = findTextNear(
+      countedText(source.querySelector("body") ?? source.dom),
+      quote,
+      startOffset,
+    ) ?? { startOffset, endOffset };
+    const cfi = textRangeCfi(
+      this.epub,
+      source,
+      inSource.startOffset,
+      inSource.endOffset,
+    );
+    if (!cfi) return;
+
+    const highlight = await this.highlightStore.add({
+      bookId,
+      chapterPath: chapter.path,
+      cfi,
+      startOffset,
+      endOffset,
+      quote,
+      color,
+    });
+    window.getSelection()?.removeAllRanges();
+
+    if (withNote) {
+      this.highlightStore.setEditing(highlight.id);
+      this.setSidebarPanel("highlights");
+      this.setSidebarOpen(true);
+    }
+  }
+
+  /**
+   * Look up the selected word in the offline dictionaries for the book's
+   * language, with the sentence it was selected in
+   */
+  async defineSelection(word: string, range: Range): Promise<void> {
+    const chapter = this.currentChapter;
+    if (!chapter) return;
+
+    let context = "";
+    const root = findHighlightRoot(range.startContainer);
+    if (root?.contains(range.endContainer)) {
+      context = contextSentence(getSelectionContext(range, root, 80));
+    }
+    const rect = range.getBoundingClientRect();
+    await this.dictionaryStore.define(word, {
+      context,
+      chapterPath: chapter.path,
+      anchor: { top: rect.top, bottom: rect.bottom, left: rect.left },
+      language: this.metadata.language,
+    });
+  }
+
+  /**
+   * Highlights grouped by chapter, in reading order
+   */
+  get highlightGroups(): HighlightGroup[] {
+    const groups = new Map<number, HighlightGroup>();
+    for (const highlight of this.highlightStore.highlights) {
+      const chapterIndex = this.findChapterIndexByPath(highlight.chapterPath);
+      if (chapterIndex === -1) continue;
+      let group = groups.get(chapterIndex);
+      if (!group) {
+        group = {
+          chapterIndex,
+          title:
+            this.chapterLabel(chapterIndex) ?? `Chapter ${chapterIndex + 1}`,
+          highlights: [],
+        };
+        groups.set(chapterIndex, group);
+      }
+      group.highlights.push(highlight);
+    }
+    return [...groups.values()]
+      .sort((a, b) => a.chapterIndex - b.chapterIndex)
+      .map((group) => ({
+        ...group,
+        highlights: group.highlights.sort(
+          (a, b) => a.startOffset - b.startOffset,
+        ),
+      }));
+  }
+
+  goToHighlight(highlight: Highlight): void {
+    const chapterIndex = this.findChapterIndexByPath(highlight.chapterPath);
+    if (chapterIndex === -1) return;
+
+    const id = highlightElementId(highlight.id);
+    if (chapterIndex === this.currentChapterIndex) {
+      findFragmentTarget(id)?.scrollIntoView({
+        behavior: "smooth",
+        block: "center",
+      });
+      return;
+    }
+    this.handleTocChapterSelect(`${highlight.chapterPath}#${id}`);
+  }
+
+  /**
+   * Search hits grouped by chapter, in reading order
+   */
+  get searchGroups(): SearchHitGroup[] {
+    const groups: SearchHitGroup[] = [];
+    for (const result of this.searchStore.results) {
+      const chapterIndex = this.findChapterIndexByPath(result.path);
+      if (chapterIndex === -1) continue;
+      groups.push({
+        chapterIndex,
+        title: this.chapterLabel(chapterIndex) ?? `Chapter ${chapterIndex + 1}`,
+        hits: result.hits,
+      });
+    }
+    return groups;
+  }
+
+  /**
+   * Open the chapter of a search hit and mark it; `useSearchHit` scrolls to
+   * the mark once the chapter is rendered
+   */
+  goToSearchHit(hit: SearchHit): void {
+    const chapterIndex = this.findChapterIndexByPath(hit.path);
+    if (chapterIndex === -1) return;
+
+    this.searchStore.setActiveHit(hit);
+    if (chapterIndex !== this.currentChapterIndex) {
+      this.handleChapterChange(chapterIndex);
+    }
+  }
+
+  /**
+   * Bookmark the block at the reading line of the current chapter
+   */
+  async addBookmark(label?: string): Promise<Bookmark | undefined> {
+    const bookId = this.currentBookId;
+    if (bookId === null || !this.currentChapter) return;
+
+    const blockIndex = this.readingProgress.getCurrentBlockIndex() ?? 0;
+    return this.bookmarkStore.add({
+      bookId,
+      chapterIndex: this.currentChapterIndex,
+      blockIndex,
+      cfi: this.readingProgress.encodePosition(blockIndex) ?? undefined,
+      label,
+    });
+  }
+
+  /**
+   * Reader URL of a bookmark; the block is restored from its CFI, or from
+   * `#p_N` for bookmarks without one
+   */
+  bookmarkHref(bookmark: Bookmark): string {
+    const modeParam = this.useHtmlMode ? "?mode=html" : "";
+    const fragment = bookmark.cfi ?? `p_${bookmark.blockIndex}`;
+    return `/book/${bookmark.bookId}/${bookmark.chapterIndex}${modeParam}#${fragment}`;
+  }
+
+  bookmarkLabel(bookmark: Bookmark): string {
+    if (bookmark.label) return bookmark.label;
+    const chapter =
+      this.chapterLabel(bookmark.chapterIndex) ??
+      `Chapter ${bookmark.chapterIndex + 1}`;
+    return `${chapter}, ¶${bookmark.blockIndex + 1}`;
+  }
+
+  goToBookmark(bookmark: Bookmark): void {
+    this.navigate?.(this.bookmarkHref(bookmark));
+  }
+
   setHtmlMode(on: boolean) {
     this.useHtmlMode = on;
     // Update URL query param (preserve fragment)
@@ -360,7 +915,7 @@ export class ReaderStore {
     copyToClipboard(output);
   }
 
-  private buildSelectionCommands(selected: string): Command[] {
+  private buildSelectionCommands(selected: string, range: Range): Command[] {
     const commands: Command[] = [];
 
     // Generate commands from selection templates
@@ -375,10 +930,64 @@ export class ReaderStore {
         },
       });
     }
+    commands.push(
+      ...this.buildAskCommands(this.templates.selection, "context"),
+    );
+
+    if (isSingleWord(selected)) {
+      commands.push({
+        id: "reader.define",
+        label: `Define “${selected}”`,
+        keywords: ["dictionary", "definition", "meaning", "lookup"],
+        scope: "context",
+        action: () => this.defineSelection(selected, range),
+      });
+    }
+
+    for (const color of HIGHLIGHT_COLORS) {
+      commands.push({
+        id: `reader.highlight.${color}`,
+        label: `Highlight ${color}`,
+        category: "Highlight",
+        keywords: ["highlight", "mark", color],
+        scope: "context",
+        action: () => this.highlightSelection(range, color),
+      });
+    }
+    commands.push({
+      id: "reader.highlight.note",
+      label: "Highlight with note",
+      category: "Highlight",
+      keywords: ["annotate", "comment"],
+      scope: "context",
+      action: () => this.highlightSelection(range, "yellow", true),
+    });
 
     return commands;
   }
 
+  /**
+   * Commands sending templates to the configured LLM endpoint; copying
+   * stays the templates' own command
+   */
+  private buildAskCommands(
+    templates: Template[],
+    scope: Command["scope"],
+  ): Command[] {
+    if (!this.chat.isConfigured) return [];
+    return templates.map((def) => ({
+      id: `${def.id}.ask`,
+      label: `Ask: ${def.title}`,
+      category: "Assistant",
+      keywords: ["llm", "ai", "chat"],
+      scope,
+      action: async () => {
+        const output = await def.render(this.templateContext);
+        void this.chat.send(output, def.title);
+      },
+    }));
+  }
+
   private buildGlobalCommands(): Command[] {
     const commands: Command[] = [];
 
@@ -394,6 +1003,123 @@ export class ReaderStore {
         },
       });
     }
+    commands.push(...this.buildAskCommands(this.templates.global, "global"));
+
+    commands.push({
+      id: "reader.assistant",
+      label: this.chat.isOpen ? "Close assistant" : "Open assistant",
+      keywords: ["llm", "ai", "chat", "ask"],
+      scope: "global",
+      action: () => this.chat.setOpen(!this.chat.isOpen),
+    });
+
+    commands.push({
+      id: "reader.search",
+      label: "Search in book",
+      shortcut: "⌘⇧F",
+      keywords: ["find", "search", "text"],
+      scope: "global",
+      action: () => this.openSearch(),
+    });
+
+    commands.push({
+      id: "reader.addBookmark",
+      label: "Bookmark this position",
+      shortcut: "⌘D",
+      keywords: ["bookmark", "save", "mark"],
+      scope: "global",
+      action: async () => {
+        await this.addBookmark();
+      },
+    });
+
+    for (const bookmark of this.bookmarkStore.bookmarks) {
+      commands.push({
+        id: `reader.goToBookmark.${bookmark.id}`,
+        label: `Go to bookmark: ${this.bookmarkLabel(bookmark)}`,
+        category: "Bookmarks",
+        keywords: ["bookmark"],
+        scope: "global",
+        action: () => this.goToBookmark(bookmark),
+      });
+    }
+
+    commands.push({
+      id: "reader.openSettings",
+      label: "Display settings",
+      keywords: ["font", "theme", "dark", "sepia", "typography"],
+      scope: "global",
+      action: () => this.openSettings(),
+    });
+
+    if (this.mediaOverlay.hasOverlay) {
+      commands.push({
+        id: "reader.narration",
+        label: this.mediaOverlay.isActive ? "Stop narration" : "Play narration",
+        keywords: ["audio", "media overlay", "listen", "read along"],
+        scope: "global",
+        action: () => {
+          if (this.mediaOverlay.isActive) this.mediaOverlay.stop();
+          else this.mediaOverlay.play();
+        },
+      });
+    }
+
+    // Sentences come from the blocks tracked in Markdown mode
+    if (this.readAloud.available && !this.useHtmlMode) {
+      commands.push({
+        id: "reader.readAloud",
+        label: this.readAloud.isActive ? "Stop reading aloud" : "Read aloud",
+        keywords: ["speech", "speak", "listen", "tts", "voice"],
+        scope: "global",
+        action: () => {
+          if (this.readAloud.isActive) this.readAloud.stop();
+          else this.readAloud.play();
+        },
+      });
+    }
+
+    for (const [layout, label] of Object.entries(LAYOUT_COMMANDS)) {
+      if (layout === this.settingsStore.layout) continue;
+      commands.push({
+        id: `reader.layout.${layout}`,
+        label,
+        keywords: ["layout", "pages", "scroll", "continuous"],
+        scope: "global",
+        action: () =>
+          this.settingsStore.update({ layout: layout as ReaderLayout }),
+      });
+    }
+
+    commands.push({
+      id: "reader.copyPositionLink",
+      label: "Copy link to this position",
+      keywords: ["cfi", "share", "url"],
+      scope: "global",
+      // The URL hash already holds the position under the reading line
+      action: () => copyToClipboard(window.location.href),
+    });
+
+    commands.push({
+      id: "reader.toggleMergeHeadings",
+      label: this.mergeHeadingsIntoToc
+        ? "Show publisher table of contents only"
+        : "Add chapter headings to table of contents",
+      keywords: ["toc", "contents", "headings"],
+      scope: "global",
+      action: () => this.setMergeHeadingsIntoToc(!this.mergeHeadingsIntoToc),
+    });
+
+    if (this.pageList.length > 0) {
+      commands.push({
+        id: "reader.goToPage",
+        label: "Go to page…",
+        category: "Pages",
+        keywords: ["page", "print", "paper"],
+        scope: "global",
+        action: () => this.openPagePalette(),
+      });
+    }
 
     return commands;
   }
@@ -402,6 +1128,11 @@ export class ReaderStore {
   async handleUrlChange(location: string): Promise<void> {
     // Parse the location to extract bookId, chapterIndex, fragment, and mode
     const [pathWithQuery, fragment] = location.split("#");
+    // Continuous scrolling already shows the chapter it pointed the URL at
+    if (pathWithQuery && pathWithQuery === this.followedPath) {
+      this.followedPath = null;
+      return;
+    }
     const url = new URL(pathWithQuery || location, window.location.origin);
     this.useHtmlMode = url.searchParams.get("mode") === "html";
 
@@ -410,17 +1141,27 @@ export class ReaderStore {
 
     const bookId = Number(match[1]);
     const chapterIndex = match[2] ? Number(match[2]) : undefined;
+    const cfi = fragment?.startsWith("epubcfi(")
+      ? safeDecode(fragment)
+      : undefined;
 
     // Load book and chapter
-    await this.loadBookAndChapter(bookId, chapterIndex);
+    await this.loadBookAndChapter(bookId, chapterIndex, cfi);
 
     // Close sidebar on mobile after navigation
     this.setSidebarOpen(false);
 
     // Handle fragment scrolling after chapter loads
-    if (fragment) {
+    const { readingProgress } = this;
+    if (fragment && readingProgress.isPositionHash(`#${fragment}`)) {
+      // A newly loaded chapter restores the position as it renders; this
+      // covers links into the chapter already on screen
       setTimeout(() => {
-        const element = document.getElementById(fragment);
+        readingProgress.restoreScrollPosition(`#${cfi ?? fragment}`);
+      }, 100);
+    } else if (fragment) {
+      setTimeout(() => {
+        const element = findFragmentTarget(fragment);
         if (element) {
           element.scrollIntoView({ behavior: "smooth" });
         }
@@ -428,6 +1169,22 @@ export class ReaderStore {
     }
   }
 
+  /**
+   * Make the chapter scrolled to in continuous mode current. It is already
+   * on screen, so the URL is replaced rather than navigated.
+   */
+  followChapter(index: number) {
+    if (this.currentBookId === null || index === this.currentChapterIndex) {
+      return;
+    }
+    const modeParam = this.useHtmlMode ? "?mode=html" : "";
+    const path = `/book/${this.currentBookId}/${index}${modeParam}`;
+    this.followedPath = path;
+    // The position hash belonged to the previous chapter
+    history.replaceState(null, "", path);
+    void this.setChapter(index);
+  }
+
   handleChapterChange(index: number) {
     if (this.currentBookId && this.navigate) {
       const modeParam = this.useHtmlMode ? "?mode=html" : "";
@@ -448,6 +1205,7 @@ export class ReaderStore {
   async loadBookAndChapter(
     bookId: number,
     chapterIndex?: number,
+    cfi?: string,
   ): Promise<void> {
     // Check if we're loading a different book
     const isNewBook = this.currentBookId !== bookId;
@@ -474,13 +1232,29 @@ export class ReaderStore {
       runInAction(() => {
         this.currentBookId = bookId;
       });
+      await Promise.all([
+        this.highlightStore.load(bookId),
+        this.bookmarkStore.load(bookId),
+        this.dictionaryStore.load(bookId),
+        this.settingsStore.load(bookId),
+      ]);
     }
 
-    // Determine target chapter index
+    // Determine target chapter index; a CFI names its own chapter, and a URL
+    // without either resumes where the book was left
+    const cfiChapterIndex =
+      chapterIndex === undefined && cfi ? this.chapterIndexForCfi(cfi) : -1;
+    const saved =
+      chapterIndex === undefined && cfiChapterIndex < 0
+        ? await this.savedPosition(bookId)
+        : null;
     const targetChapterIndex =
       chapterIndex !== undefined
         ? chapterIndex
-        : await this.firstTocChapterIndex();
+        : cfiChapterIndex >= 0
+          ? cfiChapterIndex
+          : (saved?.chapterIndex ?? (await this.firstTocChapterIndex()));
+    if (saved) this.resumePosition(saved);
 
     // Check if we're already at the requested book and chapter
     if (!isNewBook && this.currentChapterIndex === targetChapterIndex) {
@@ -496,6 +1270,54 @@ export class ReaderStore {
     await this.updatePageTitle();
   }
 
+  private async savedPosition(bookId: number): Promise<ReadingPosition | null> {
+    try {
+      const position =
+        await this.bookLibraryStore.positionDb.getPosition(bookId);
+      // The chapter list may differ if the book's file was replaced
+      return position && position.chapterIndex < this.chapters.length
+        ? position
+        : null;
+    } catch (error) {
+      console.warn("Failed to load reading position:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Point the URL at a saved position, replacing the bare book URL. The
+   * chapter restores the block from the hash as it renders: from its CFI,
+   * or from `#p_N` for positions saved without one.
+   */
+  private resumePosition(position: ReadingPosition): void {
+    const modeParam = this.useHtmlMode ? "?mode=html" : "";
+    const fragment = position.cfi ?? `p_${position.blockIndex}`;
+    this.navigate?.(
+      `/book/${position.bookId}/${position.chapterIndex}${modeParam}#${fragment}`,
+      { replace: true },
+    );
+  }
+
+  /**
+   * Save the block at the reading line as the book's position
+   */
+  private recordPosition(blockIndex: number, blockCount: number): void {
+    const bookId = this.currentBookId;
+    if (bookId === null || this.chapters.length === 0) return;
+
+    const chapterFraction = blockCount > 0 ? (blockIndex + 1) / blockCount : 0;
+    this.savePositionDebounced({
+      bookId,
+      chapterIndex: this.currentChapterIndex,
+      blockIndex,
+      cfi: this.readingProgress.encodePosition(blockIndex) ?? undefined,
+      progress: Math.min(
+        1,
+        (this.currentChapterIndex + chapterFraction) / this.chapters.length,
+      ),
+    });
+  }
+
   // Computed getters
   get currentChapter() {
     return this.chapters[this.currentChapterIndex] || null;
@@ -521,7 +1343,10 @@ export class ReaderStore {
   async getTocInfo() {
     if (!this.epub) return null;
 
-    const navItems = await this.epub.toc.flatNavItems();
+    // Books without a TOC get one built from chapter headings
+    const navItems = await this.epub.toc.flatNavItems({
+      headings: this.mergeHeadingsIntoToc ? "merge" : "fallback",
+    });
 
     return { navItems };
   }
@@ -564,6 +1389,19 @@ export class ReaderStore {
     return null;
   }
 
+  /**
+   * Index of the chapter an EPUB CFI points into, or -1
+   */
+  chapterIndexForCfi(cfi: string): number {
+    if (!this.epub) return -1;
+    try {
+      const target = this.epub.cfi.spineTarget(cfi);
+      return target ? this.findChapterIndexByPath(target.path) : -1;
+    } catch {
+      return -1;
+    }
+  }
+
   findChapterIndexByPath(path: string): number {
     // Strip anchor fragment before comparing
     const pathWithoutAnchor = path.split("#")[0] || path;
@@ -657,13 +1495,20 @@ export class ReaderStore {
 
   /**
    * Convert current chapter to markdown on demand
-   * Used by template context for copy operations
+   * Used by template context for copy operations; notes are inlined as
+   * Markdown footnotes so the copied text is self-contained
    */
   async getCurrentChapterMarkdown(): Promise<string> {
-    const chapter = this.currentChapter;
-    if (!chapter) return "";
-
-    const converter = ContentToMarkdown.create({ basePath: chapter.base });
+    const current = this.currentChapter;
+    const epub = this.epub;
+    if (!current || !epub) return "";
+
+    // Footnote extraction rewrites the DOM, so convert a fresh copy rather
+    // than the chapter being displayed
+    const chapter = (await epub.getChapter(current.path)) ?? current;
+    const converter = this.createConverter(chapter, {
+      footnotes: { resolveDocument: (path) => epub.readDOMFile(path) },
+    });
     return await converter.convertXMLFile(chapter);
   }
 }
@@ -19,6 +19,41 @@
  * exactly where the intersection window is. The scroll offset MUST match the
  * window position for consistent behavior.
  */
+
+/**
+ * Translates tracked blocks to URL fragments and back, so positions can be
+ * written as EPUB CFIs instead of block indexes
+ */
+export interface PositionCodec {
+  /** Fragment (without `#`) for a block, or null to fall back to `p_N` */
+  encode(block: Element, content: HTMLElement): string | null;
+  /** Block for a fragment produced by `encode` */
+  decode(fragment: string, content: HTMLElement): Element | null;
+}
+
+/** Called with the block at the reading line whenever it changes */
+export type PositionListener = (blockIndex: number, blockCount: number) => void;
+
+/** Called when content is set up, once its blocks can be read */
+export type ContentListener = (contentEl: HTMLElement) => void;
+
+/**
+ * Shows the content some other way than by scrolling the window, as
+ * paginated mode does. While one is set, the intersection observer is off
+ * and the viewport reports the block in view through `setCurrentBlockIndex`.
+ */
+export interface PositionViewport {
+  /** Bring `block` into view, or the start of the chapter for null */
+  reveal(block: Element | null): void;
+}
+
+/** Elements tracked as blocks, unless nested in another tracked block */
+export const BLOCK_SELECTOR =
+  "p, h1, h2, h3, h4, h5, h6, ul, ol, blockquote, pre, table";
+
+// Position fragments at the end of the hash: `#p_42` or `#epubcfi(...)`
+const POSITION_HASH = /#(p_\d+|epubcfi\(.*\))$/;
+
 export class ReadingProgressStore {
   private observer: IntersectionObserver | null = null;
   private blocks: Element[] = [];
@@ -27,17 +62,54 @@ export class ReadingProgressStore {
   public debugMode = false;
   private currentBlockIndex: number | null = null;
   private debugBox: HTMLDivElement | null = null;
+  private codec: PositionCodec | null = null;
+  private positionListener: PositionListener | null = null;
+  private contentListener: ContentListener | null = null;
+  private viewport: PositionViewport | null = null;
+  private nestedBlocks = false;
 
   constructor(
     private options = {
       // Position of the narrow intersection window from the top of viewport (0-1)
       // This represents where the reader's eyes typically fall when reading
       top: 0.2, // 20% from top
-      blockSelector:
-        "p, h1, h2, h3, h4, h5, h6, ul, ol, blockquote, pre, table",
+      blockSelector: BLOCK_SELECTOR,
     },
   ) {}
 
+  /**
+   * Use `codec` for positions in the content set up next; null restores
+   * plain block indexes
+   */
+  setPositionCodec(codec: PositionCodec | null): void {
+    this.codec = codec;
+  }
+
+  /**
+   * Also track blocks inside sections and other containers of the content
+   * set up next, as publisher HTML nests them. Rendered Markdown keeps its
+   * blocks at the top level, and `p_N` indexes count only those.
+   */
+  setNestedBlocks(nested: boolean): void {
+    this.nestedBlocks = nested;
+  }
+
+  setPositionListener(listener: PositionListener | null): void {
+    this.positionListener = listener;
+  }
+
+  setContentListener(listener: ContentListener | null): void {
+    this.contentListener = listener;
+  }
+
+  setViewport(viewport: PositionViewport | null): void {
+    this.viewport = viewport;
+  }
+
+  getViewport(): PositionViewport | null {
+    return this.viewport;
+  }
+
   setup(contentEl: HTMLElement): void {
     this.stopTracking();
     this.contentEl = contentEl;
@@ -48,6 +120,7 @@ export class ReadingProgressStore {
     this.blocks.forEach((block, index) => {
       this.indexMap.set(block, index);
     });
+    this.contentListener?.(contentEl);
   }
 
   // Getters for calculated values based on the top position
@@ -81,6 +154,9 @@ export class ReadingProgressStore {
 
   // Initialize tracking for content container
   startTracking(contentEl: HTMLElement): void {
+    // The viewport reports positions itself
+    if (this.viewport) return;
+
     // Create observer
     this.observer = new IntersectionObserver(
       (entries) => {
@@ -88,12 +164,7 @@ export class ReadingProgressStore {
           if (entry.isIntersecting) {
             const index = this.indexMap.get(entry.target);
             if (index !== undefined) {
-              this.currentBlockIndex = index;
-              this.updateUrlHash(index);
-
-              if (this.debugMode) {
-                this.updateDebugVisuals();
-              }
+              this.setCurrentBlockIndex(index);
             }
           }
         }
@@ -126,12 +197,29 @@ export class ReadingProgressStore {
     }
   }
 
+  // Record the block at the reading line
+  setCurrentBlockIndex(index: number): void {
+    this.currentBlockIndex = index;
+    this.updateUrlHash(index);
+    this.positionListener?.(index, this.blocks.length);
+
+    if (this.debugMode) {
+      this.updateDebugVisuals();
+    }
+  }
+
   // Restore scroll position from hash
   restoreScrollPosition(hash: string = location.hash): void {
-    const position = this.parsePositionHash(hash);
-    if (position !== null && position > 0 && this.blocks.length > position) {
-      const target = this.blocks[position];
-      if (target && "scrollIntoView" in target) {
+    const target = this.findPositionTarget(hash);
+    if (this.viewport) {
+      this.viewport.reveal(target ?? null);
+      return;
+    }
+    // The first block is the top of the page
+    if (target && target === this.blocks[0]) {
+      window.scrollTo(0, 0);
+    } else if (target) {
+      if ("scrollIntoView" in target) {
         // First scroll to the element
         (target as HTMLElement).scrollIntoView({
           block: "start",
@@ -145,11 +233,43 @@ export class ReadingProgressStore {
     }
   }
 
+  // Index of the block at the reading line, once tracking has seen one
+  getCurrentBlockIndex(): number | null {
+    return this.currentBlockIndex;
+  }
+
+  // Whether a hash ends in a reading position (`#p_N` or `#epubcfi(...)`)
+  isPositionHash(hash: string): boolean {
+    return POSITION_HASH.test(hash);
+  }
+
   // Get blocks by index for scroll restoration
   getBlockByIndex(index: number): Element | undefined {
     return this.blocks[index];
   }
 
+  // Block or CFI target for the position in a hash
+  findPositionTarget(hash: string): Element | undefined {
+    const cfi = this.parseCfiHash(hash);
+    if (cfi) {
+      if (!this.codec || !this.contentEl) return undefined;
+      return this.codec.decode(cfi, this.contentEl) ?? undefined;
+    }
+    const position = this.parsePositionHash(hash);
+    return position !== null ? this.getBlockByIndex(position) : undefined;
+  }
+
+  // Parse a CFI position from hash
+  parseCfiHash(hash: string): string | null {
+    const match = hash.match(POSITION_HASH)?.[1];
+    if (!match?.startsWith("epubcfi(")) return null;
+    try {
+      return decodeURIComponent(match);
+    } catch {
+      return match;
+    }
+  }
+
   // Parse reading position from hash
   parsePositionHash(hash: string): number | null {
     const match = hash.match(/#p_(\d+)$/);
@@ -161,14 +281,21 @@ export class ReadingProgressStore {
     return `#p_${position}`;
   }
 
+  // Fragment from the position codec for a block, without `#`
+  encodePosition(position: number): string | null {
+    const block = this.blocks[position];
+    return block && this.codec && this.contentEl
+      ? this.codec.encode(block, this.contentEl)
+      : null;
+  }
+
   // Update URL hash
   updateUrlHash(position: number): void {
-    const hash = location.hash;
-    const currentPosMatch = hash.match(/#p_\d+$/);
-    const currentChapterPart = currentPosMatch
-      ? hash.substring(0, hash.lastIndexOf("#p_"))
-      : hash;
-    const newHash = `${currentChapterPart}${this.formatPositionHash(position)}`;
+    const currentChapterPart = location.hash.replace(POSITION_HASH, "");
+    const fragment = this.encodePosition(position);
+    const newHash = `${currentChapterPart}${
+      fragment ? `#${fragment}` : this.formatPositionHash(position)
+    }`;
     history.replaceState(null, "", newHash);
   }
 
@@ -182,12 +309,18 @@ export class ReadingProgressStore {
     const blocks: Element[] = [];
     const blockSelector = this.options.blockSelector;
 
-    // Only check direct children of the content container
-    for (const child of contentEl.children) {
-      if (child.matches(blockSelector)) {
-        blocks.push(child);
+    // Direct children of the content container, or the outermost blocks
+    // below it when blocks are nested
+    const visit = (parent: Element) => {
+      for (const child of parent.children) {
+        if (child.matches(blockSelector)) {
+          blocks.push(child);
+        } else if (this.nestedBlocks) {
+          visit(child);
+        }
       }
-    }
+    };
+    visit(contentEl);
 
     return blocks;
   }
@@ -253,24 +386,22 @@ export class ReadingProgressStore {
 
     // Check if we should restore scroll position based on hash
     const hash = window.location.hash;
-    if (hash?.startsWith("#p_")) {
-      const position = this.parsePositionHash(hash);
-      if (position !== null) {
-        const targetBlock = this.getBlockByIndex(position);
-        if (targetBlock) {
-          // Add highlight class before scrolling
-          targetBlock.classList.add("reading-progress-highlight");
-
-          // Remove the highlight after animation completes
-          setTimeout(() => {
-            targetBlock.classList.remove("reading-progress-highlight");
-          }, 5000);
-        }
+    if (POSITION_HASH.test(hash)) {
+      const targetBlock = this.findPositionTarget(hash);
+      if (targetBlock) {
+        // Add highlight class before scrolling
+        targetBlock.classList.add("reading-progress-highlight");
+
+        // Remove the highlight after animation completes
+        setTimeout(() => {
+          targetBlock.classList.remove("reading-progress-highlight");
+        }, 5000);
       }
       this.restoreScrollPosition(hash);
     } else {
       // No reading progress, scroll to top
       window.scrollTo(0, 0);
+      this.viewport?.reveal(null);
     }
   }
 }
@@ -278,8 +409,8 @@ export class ReadingProgressStore {
 // Singleton instance
 let readingProgressStore: ReadingProgressStore | null = null;
 
-// Hook to access the singleton store
-export function useReadingProgress(): ReadingProgressStore {
+// The singleton store, for wiring it into other stores
+export function getReadingProgressStore(): ReadingProgressStore {
   if (!readingProgressStore) {
     readingProgressStore = new ReadingProgressStore();
 
@@ -307,3 +438,8 @@ export function useReadingProgress(): ReadingProgressStore {
   }
   return readingProgressStore;
 }
+
+// Hook to access the singleton store
+export function useReadingProgress(): ReadingProgressStore {
+  return getReadingProgressStore();
+}
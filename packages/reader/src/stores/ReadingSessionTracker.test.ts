@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { NewReadingSession } from "../lib/ReadingSessionDatabase";
+import {
+  IDLE_MS,
+  MIN_SESSION_MS,
+  ReadingSessionTracker,
+} from "./ReadingSessionTracker";
+
+describe("ReadingSessionTracker", () => {
+  let now: number;
+  let sessions: NewReadingSession[];
+  let tracker: ReadingSessionTracker;
+
+  const advance = (ms: number) => {
+    now += ms;
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    sessions = [];
+    tracker = new ReadingSessionTracker(
+      {
+        addSession: async (session) => {
+          sessions.push(session);
+        },
+      },
+      () => now,
+    );
+  });
+
+  it("records active time and words read per chapter", () => {
+    tracker.startChapter(1, 2, 1000);
+    tracker.recordPosition(0, 10);
+    advance(30_000);
+    tracker.recordPosition(4, 10);
+    advance(30_000);
+    tracker.recordActivity();
+    tracker.startChapter(1, 3, 500);
+
+    expect(sessions).toEqual([
+      {
+        bookId: 1,
+        chapterIndex: 2,
+        startedAt: 1_000_000,
+        endedAt: 1_060_000,
+        activeMs: 60_000,
+        wordsRead: 500,
+      },
+    ]);
+  });
+
+  it("leaves out idle gaps", () => {
+    tracker.startChapter(1, 0, 0);
+    advance(20_000);
+    tracker.recordActivity();
+    advance(IDLE_MS + 1);
+    tracker.recordActivity();
+    advance(5_000);
+    tracker.end();
+
+    expect(sessions[0]?.activeMs).toBe(25_000);
+  });
+
+  it("stops counting while paused", () => {
+    tracker.startChapter(1, 0, 0);
+    advance(20_000);
+    tracker.pause();
+    advance(60_000);
+    tracker.recordActivity();
+    advance(10_000);
+    tracker.end();
+
+    expect(sessions[0]?.activeMs).toBe(30_000);
+  });
+
+  it("skips sessions shorter than the minimum", () => {
+    tracker.startChapter(1, 0, 0);
+    advance(MIN_SESSION_MS - 1);
+    tracker.end();
+
+    expect(sessions).toEqual([]);
+  });
+
+  it("continues the chapter after a flush", () => {
+    tracker.startChapter(1, 0, 100);
+    tracker.recordPosition(0, 4);
+    advance(20_000);
+    tracker.recordPosition(1, 4);
+    tracker.flush();
+    advance(60_000);
+    tracker.recordPosition(3, 4);
+    advance(20_000);
+    tracker.end();
+
+    expect(sessions.map((s) => [s.activeMs, s.wordsRead])).toEqual([
+      [20_000, 50],
+      [20_000, 50],
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+import type { NewReadingSession } from "../lib/ReadingSessionDatabase";
+
+// Gaps between reader activity longer than this count as time away
+export const IDLE_MS = 3 * 60 * 1000;
+// Shorter sessions (skimming past a chapter) aren't recorded
+export const MIN_SESSION_MS = 10 * 1000;
+
+const ACTIVITY_EVENTS = ["scroll", "wheel", "keydown", "pointerdown"] as const;
+
+export interface SessionSink {
+  addSession(session: NewReadingSession): Promise<unknown>;
+}
+
+interface Session {
+  bookId: number;
+  chapterIndex: number;
+  wordCount: number;
+  startedAt: number;
+  activeMs: number;
+  /** Last activity, or null while paused */
+  lastActivityAt: number | null;
+  /** Fraction of the chapter before the first block seen at the reading line */
+  startFraction: number | null;
+  /** Furthest fraction of the chapter read */
+  furthestFraction: number;
+}
+
+/**
+ * Measures active reading time per book chapter and records it as sessions.
+ *
+ * Time between activity events counts as reading unless the gap is longer
+ * than IDLE_MS or the tab is hidden. A new session starts with each chapter.
+ */
+export class ReadingSessionTracker {
+  private session: Session | null = null;
+
+  constructor(
+    private sink: SessionSink,
+    private now: () => number = Date.now,
+  ) {}
+
+  /**
+   * End the current session and start one for a chapter of `wordCount` words
+   */
+  startChapter(bookId: number, chapterIndex: number, wordCount: number): void {
+    this.end();
+    const now = this.now();
+    this.session = {
+      bookId,
+      chapterIndex,
+      wordCount,
+      startedAt: now,
+      activeMs: 0,
+      lastActivityAt: now,
+      startFraction: null,
+      furthestFraction: 0,
+    };
+  }
+
+  /**
+   * Count the time since the last activity, and resume if paused
+   */
+  recordActivity(): void {
+    const session = this.session;
+    if (!session) return;
+    const now = this.now();
+    if (session.lastActivityAt !== null) {
+      const gap = now - session.lastActivityAt;
+      if (gap <= IDLE_MS) session.activeMs += gap;
+    }
+    session.lastActivityAt = now;
+  }
+
+  /**
+   * Note the block at the reading line, for estimating words read
+   */
+  recordPosition(blockIndex: number, blockCount: number): void {
+    const session = this.session;
+    if (!session || blockCount <= 0) return;
+    if (session.startFraction === null) {
+      session.startFraction = blockIndex / blockCount;
+    }
+    session.furthestFraction = Math.max(
+      session.furthestFraction,
+      (blockIndex + 1) / blockCount,
+    );
+    this.recordActivity();
+  }
+
+  /**
+   * Stop counting time until the next activity
+   */
+  pause(): void {
+    if (!this.session || this.session.lastActivityAt === null) return;
+    this.recordActivity();
+    this.session.lastActivityAt = null;
+  }
+
+  /**
+   * Record the session so far and continue in a new one, paused
+   */
+  flush(): void {
+    const session = this.session;
+    if (!session) return;
+    this.pause();
+    if (session.activeMs >= MIN_SESSION_MS) {
+      this.save(session);
+      const resumeFraction =
+        session.startFraction === null ? null : session.furthestFraction;
+      this.session = {
+        ...session,
+        startedAt: this.now(),
+        activeMs: 0,
+        startFraction: resumeFraction,
+      };
+    }
+  }
+
+  /**
+   * Record the current session, if long enough, and stop tracking
+   */
+  end(): void {
+    this.flush();
+    this.session = null;
+  }
+
+  /**
+   * Follow activity and visibility of `win`. Sessions are flushed when the tab
+   * is hidden, since it may be discarded without further events, and when
+   * detached.
+   */
+  attach(win: Window = window): () => void {
+    const onActivity = () => this.recordActivity();
+    const onVisibilityChange = () => {
+      if (win.document.visibilityState === "hidden") {
+        this.flush();
+      } else {
+        this.recordActivity();
+      }
+    };
+    const onPageHide = () => this.flush();
+
+    for (const type of ACTIVITY_EVENTS) {
+      win.addEventListener(type, onActivity, { passive: true });
+    }
+    win.document.addEventListener("visibilitychange", onVisibilityChange);
+    win.addEventListener("pagehide", onPageHide);
+
+    return () => {
+      for (const type of ACTIVITY_EVENTS) {
+        win.removeEventListener(type, onActivity);
+      }
+      win.document.removeEventListener("visibilitychange", onVisibilityChange);
+      win.removeEventListener("pagehide", onPageHide);
+      this.flush();
+    };
+  }
+
+  private save(session: Session): void {
+    const readFraction =
+      session.startFraction === null
+        ? 0
+        : Math.max(0, session.furthestFraction - session.startFraction);
+    this.sink
+      .addSession({
+        bookId: session.bookId,
+        chapterIndex: session.chapterIndex,
+        startedAt: session.startedAt,
+        endedAt: this.now(),
+        activeMs: session.activeMs,
+        wordsRead: Math.round(session.wordCount * readFraction),
+      })
+      .catch((error) => {
+        console.warn("Failed to save reading session:", error);
+      });
+  }
+}
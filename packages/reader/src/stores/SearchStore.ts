@@ -0,0 +1,155 @@
+import {
+  BookSearch,
+  type ChapterSearchResult,
+  type EPub,
+  type SearchHit,
+} from "@epubdown/core";
+import {
+  action,
+  computed,
+  makeObservable,
+  observable,
+  runInAction,
+} from "mobx";
+
+// Stop collecting hits past this many; the rest of the book isn't searched
+export const MAX_SEARCH_HITS = 500;
+const SEARCH_DELAY_MS = 250;
+
+/**
+ * Full-text search in the open book
+ */
+export class SearchStore {
+  query = "";
+  matchCase = false;
+  wholeWord = false;
+  /** Chapters with hits, in reading order; filled in as chapters are searched */
+  results: ChapterSearchResult[] = [];
+  isSearching = false;
+  /** Whether the search stopped at MAX_SEARCH_HITS, leaving hits out */
+  truncated = false;
+  /** Hit the reader navigated to, marked in its chapter */
+  activeHit: SearchHit | null = null;
+
+  private search: BookSearch | null = null;
+  // Bumped per search so a newer one drops the results of older ones
+  private generation = 0;
+  private searchTimer: number | null = null;
+
+  constructor() {
+    makeObservable(this, {
+      query: observable,
+      matchCase: observable,
+      wholeWord: observable,
+      results: observable.ref,
+      isSearching: observable,
+      truncated: observable,
+      activeHit: observable.ref,
+      hitCount: computed,
+      setBook: action,
+      clear: action,
+      setQuery: action,
+      setMatchCase: action,
+      setWholeWord: action,
+      setActiveHit: action,
+    });
+  }
+
+  get hitCount(): number {
+    return this.results.reduce((sum, result) => sum + result.hits.length, 0);
+  }
+
+  /** Search `epub` from now on; its text is indexed on the first search */
+  setBook(epub: EPub): void {
+    this.clear();
+    this.search = new BookSearch(epub);
+  }
+
+  clear(): void {
+    this.generation++;
+    this.cancelScheduled();
+    this.search = null;
+    this.query = "";
+    this.results = [];
+    this.isSearching = false;
+    this.truncated = false;
+    this.activeHit = null;
+  }
+
+  setQuery(query: string): void {
+    this.query = query;
+    this.schedule();
+  }
+
+  setMatchCase(on: boolean): void {
+    this.matchCase = on;
+    this.schedule();
+  }
+
+  setWholeWord(on: boolean): void {
+    this.wholeWord = on;
+    this.schedule();
+  }
+
+  setActiveHit(hit: SearchHit | null): void {
+    this.activeHit = hit;
+  }
+
+  /**
+   * Search right away instead of waiting for typing to pause. Failures are
+   * logged rather than rejected, so callers needn't handle them.
+   */
+  async run(): Promise<void> {
+    this.cancelScheduled();
+    const generation = ++this.generation;
+    const { search, query, matchCase, wholeWord } = this;
+
+    runInAction(() => {
+      this.results = [];
+      this.truncated = false;
+      this.activeHit = null;
+      this.isSearching = !!search && !!query.trim();
+    });
+    if (!search || !query.trim()) return;
+
+    try {
+      let count = 0;
+      for await (const result of search.search(query, {
+        matchCase,
+        wholeWord,
+      })) {
+        if (generation !== this.generation) return;
+        const room = MAX_SEARCH_HITS - count;
+        const hits = result.hits.slice(0, room);
+        count += hits.length;
+        runInAction(() => {
+          this.results = [...this.results, { ...result, hits }];
+          if (count >= MAX_SEARCH_HITS) this.truncated = true;
+        });
+        if (count >= MAX_SEARCH_HITS) break;
+      }
+    } catch (error) {
+      // A chapter that fails to load ends the search with the hits so far
+      console.error("Search failed:", error);
+    } finally {
+      runInAction(() => {
+        if (generation === this.generation) this.isSearching = false;
+      });
+    }
+  }
+
+  private schedule(): void {
+    this.cancelScheduled();
+    this.searchTimer = window.setTimeout(() => {
+      this.searchTimer = null;
+      void this.run();
+    }, SEARCH_DELAY_MS);
+  }
+
+  private cancelScheduled(): void {
+    if (this.searchTimer !== null) {
+      window.clearTimeout(this.searchTimer);
+      this.searchTimer = null;
+    }
+  }
+}
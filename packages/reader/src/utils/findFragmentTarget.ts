@@ -0,0 +1,13 @@
+/**
+ * Find an element by id in the rendered chapter, including HTML mode
+ * chapters, which live in a shadow root
+ */
+export function findFragmentTarget(id: string): Element | null {
+  const element = document.getElementById(id);
+  if (element) return element;
+  for (const host of document.querySelectorAll(".chapter-content")) {
+    const found = host.shadowRoot?.getElementById(id);
+    if (found) return found;
+  }
+  return null;
+}
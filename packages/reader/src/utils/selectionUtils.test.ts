@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  contextSentence,
+  getSelectionContext,
+  isSingleWord,
+} from "./selectionUtils";
+
+describe("isSingleWord", () => {
+  it("accepts words with apostrophes and hyphens", () => {
+    expect(isSingleWord("serendipity")).toBe(true);
+    expect(isSingleWord(" Darcy’s ")).toBe(true);
+    expect(isSingleWord("well-known")).toBe(true);
+    expect(isSingleWord("naïve")).toBe(true);
+  });
+
+  it("rejects phrases and punctuation", () => {
+    expect(isSingleWord("two words")).toBe(false);
+    expect(isSingleWord("end.")).toBe(false);
+    expect(isSingleWord("")).toBe(false);
+  });
+});
+
+describe("contextSentence", () => {
+  it("cuts the context at the surrounding sentence ends", () => {
+    expect(
+      contextSentence({
+        beforeContext: "... It rained. She felt",
+        selectedText: "melancholy",
+        afterContext: ", and stayed in. Then ...",
+      }),
+    ).toBe("She felt melancholy, and stayed in.");
+  });
+
+  it("keeps the whole context without sentence ends", () => {
+    expect(
+      contextSentence({
+        beforeContext: "",
+        selectedText: "Hello",
+        afterContext: "there",
+      }),
+    ).toBe("Hello there");
+  });
+});
+
+describe("getSelectionContext", () => {
+  it("reads the context of a range", () => {
+    const root = document.createElement("article");
+    root.innerHTML = "<p>One two <b>three</b> four.</p>";
+    document.body.append(root);
+    const range = document.createRange();
+    range.selectNodeContents(root.querySelector("b") as Element);
+
+    expect(getSelectionContext(range, root)).toEqual({
+      beforeContext: "One two",
+      selectedText: "three",
+      afterContext: "four.",
+    });
+    root.remove();
+  });
+});
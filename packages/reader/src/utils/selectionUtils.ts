@@ -23,17 +23,24 @@ export interface SelectionContext {
  * with rebalancing if one side has fewer words available than allocated.
  */
 class SelectionContextExtractor {
-  private readonly selection: Selection;
+  private readonly selection: Selection | Range;
   private readonly baseRange: Range;
   private readonly root: Element;
   private readonly wordLimit: number;
 
-  constructor(selection: Selection, container?: Element, wordLimit = 400) {
-    if (!selection || selection.rangeCount === 0) {
+  constructor(
+    selection: Selection | Range,
+    container?: Element,
+    wordLimit = 400,
+  ) {
+    if (selection instanceof Range) {
+      this.baseRange = selection;
+    } else if (selection && selection.rangeCount > 0) {
+      this.baseRange = selection.getRangeAt(0);
+    } else {
       throw new Error("getSelectionContext: no selection range found");
     }
     this.selection = selection;
-    this.baseRange = selection.getRangeAt(0);
     this.wordLimit = Math.max(0, wordLimit | 0);
     this.root = this.resolveRoot(container);
   }
@@ -157,8 +164,12 @@ class SelectionContextExtractor {
   }
 }
 
+/**
+ * Pass the range itself where the document's selection can't reach it,
+ * as inside the HTML view's shadow root.
+ */
 export function getSelectionContext(
-  selection: Selection,
+  selection: Selection | Range,
   container?: Element,
   wordLimit = 400,
 ): SelectionContext {
@@ -170,6 +181,36 @@ export function getSelectionContext(
   return extractor.extract();
 }
 
+/**
+ * Whether the selection is one word, as dictionaries list them: letters
+ * and digits, joined by apostrophes or hyphens
+ */
+export function isSingleWord(text: string): boolean {
+  return /^[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*$/u.test(text.trim());
+}
+
+/**
+ * The sentence around the selection, cut from its context at the nearest
+ * sentence-ending punctuation on either side
+ */
+export function contextSentence(context: SelectionContext): string {
+  const before = context.beforeContext.replace(/^\.\.\. /, "");
+  const after = context.afterContext.replace(/ \.\.\.$/, "");
+  const start = before.search(/[^.!?。！？]*$/);
+  const end = after.search(/[.!?。！？]/);
+  // The context parts are trimmed; rejoin them with spaces, except before
+  // punctuation
+  return [
+    before.slice(start),
+    context.selectedText,
+    end < 0 ? after : after.slice(0, end + 1),
+  ]
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .replace(/ ([,;:.!?…)\]”’»。！？])/g, "$1")
+    .trim();
+}
+
 /**
  * Copy text to clipboard
  */
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { compareBySeries, formatSeries } from "./series";
+
+describe("formatSeries", () => {
+  it("includes the position when known", () => {
+    expect(formatSeries({ seriesName: "The Expanse", seriesIndex: 3 })).toBe(
+      "Book 3 of The Expanse",
+    );
+    expect(formatSeries({ seriesName: "Discworld" })).toBe("Discworld");
+    expect(formatSeries({})).toBeNull();
+  });
+});
+
+describe("compareBySeries", () => {
+  it("groups series by name and orders by position", () => {
+    const books = [
+      { id: 1 },
+      { id: 2, seriesName: "the expanse", seriesIndex: 2 },
+      { id: 3, seriesName: "Discworld" },
+      { id: 4, seriesName: "The Expanse", seriesIndex: 1 },
+      { id: 5 },
+      { id: 6, seriesName: "Discworld", seriesIndex: 1 },
+    ];
+
+    expect(books.sort(compareBySeries).map((book) => book.id)).toEqual([
+      6, 3, 4, 2, 1, 5,
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import type { BookMetadata } from "../lib/BookDatabase";
+
+type SeriesFields = Pick<BookMetadata, "seriesName" | "seriesIndex">;
+
+/**
+ * "Book 3 of The Expanse", or just the series name without a position
+ */
+export function formatSeries(book: SeriesFields): string | null {
+  if (!book.seriesName) return null;
+  if (book.seriesIndex === undefined) return book.seriesName;
+  return `Book ${book.seriesIndex} of ${book.seriesName}`;
+}
+
+/**
+ * Order books by series name, then position in the series. Books outside a
+ * series sort after all series; their order is left to a stable sort.
+ */
+export function compareBySeries(a: SeriesFields, b: SeriesFields): number {
+  if (!a.seriesName || !b.seriesName) {
+    return Number(!a.seriesName) - Number(!b.seriesName);
+  }
+  const byName = a.seriesName.localeCompare(b.seriesName, undefined, {
+    sensitivity: "base",
+  });
+  if (byName !== 0) return byName;
+  // Unnumbered books go after the numbered ones of their series
+  const indexA = a.seriesIndex ?? Number.POSITIVE_INFINITY;
+  const indexB = b.seriesIndex ?? Number.POSITIVE_INFINITY;
+  return indexA === indexB ? 0 : indexA < indexB ? -1 : 1;
+}